@@ -4,6 +4,48 @@ import eslintPluginPrettierRecommended from 'eslint-plugin-prettier/recommended'
 import globals from 'globals';
 import tseslint from 'typescript-eslint';
 
+// Únicos módulos que podem usar o cliente service_role (SB_ADMIN), cada um
+// pela operação administrativa indicada. Dados do próprio perfil usam SB_USER
+// ou SupabaseUserClients (RLS), mesmo dentro destes arquivos.
+const SB_ADMIN_ALLOWED = [
+  // troca de email/telefone e exclusão: gravam em `profiles` e `tokens`
+  'src/account/account.service.ts',
+  // job de exportação: fila `data_exports` e bucket de arquivos
+  'src/account/data-export.service.ts',
+  // exclusão definitiva: apaga os dados de todas as tabelas
+  'src/auth/account-deletion.service.ts',
+  // login e cadastro: perfis ainda sem sessão
+  'src/auth/auth.service.ts',
+  // cria perfis da família e troca o perfil ativo em `tokens`
+  'src/auth/family-profiles.service.ts',
+  // convidados: criação, fusão e expurgo
+  'src/auth/guest.service.ts',
+  // busca de identidade entre perfis e gravação de credenciais
+  'src/auth/identities.service.ts',
+  // hashes de senha
+  'src/auth/passwords.service.ts',
+  // refresh tokens
+  'src/auth/refresh-tokens.service.ts',
+  // sessões (`tokens`)
+  'src/auth/sessions.service.ts',
+  // segredos de 2FA
+  'src/auth/two-factor/two-factor.service.ts',
+  // agregados entre perfis
+  'src/insights/audio-insights.service.ts',
+  // armazenamento chave-valor compartilhado
+  'src/kv-store/kv-store.module.ts',
+  // fila de envio de emails
+  'src/mail/mail.service.ts',
+  // papéis e permissões
+  'src/roles/roles.service.ts',
+  // gravação, busca administrativa e retenção dos eventos
+  'src/security-events/security-events.service.ts',
+  // registro legal de aceite dos termos
+  'src/terms/terms.service.ts',
+  // busca de perfis por email e telefone
+  'src/users/users.service.ts',
+];
+
 export default tseslint.config(
   {
     ignores: ['eslint.config.mjs'],
@@ -28,7 +70,24 @@ export default tseslint.config(
     rules: {
       '@typescript-eslint/no-explicit-any': 'off',
       '@typescript-eslint/no-floating-promises': 'warn',
-      '@typescript-eslint/no-unsafe-argument': 'warn'
+      '@typescript-eslint/no-unsafe-argument': 'warn',
+      'no-restricted-imports': [
+        'error',
+        {
+          patterns: [
+            {
+              group: ['**/supabase/module'],
+              importNames: ['SB_ADMIN'],
+              message:
+                'Use SB_USER para dados do usuário; SB_ADMIN só nos módulos de SB_ADMIN_ALLOWED.',
+            },
+          ],
+        },
+      ],
     },
   },
-);
\ No newline at end of file
+  {
+    files: SB_ADMIN_ALLOWED,
+    rules: { 'no-restricted-imports': 'off' },
+  },
+);
@@ -1,29 +1,63 @@
 import {
+  BadRequestException,
   Body,
   Controller,
+  Delete,
+  Get,
+  Param,
   Patch,
   Post,
+  Put,
+  Query,
   Req,
   UnauthorizedException,
+  UploadedFile,
+  UseInterceptors,
   UsePipes,
   ValidationPipe,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import type { Request } from 'express';
 import { AccountService } from './account.service';
+import { DataExportService } from './data-export.service';
 import { RequestPhoneDto } from './dto/request-phone.dto';
 import { ConfirmPhoneDto } from './dto/confirm-phone.dto';
+import { RequestEmailDto } from './dto/request-email.dto';
+import { ConfirmEmailDto } from './dto/confirm-email.dto';
+import { CancelEmailDto } from './dto/cancel-email.dto';
 import { UpdateLanguageDto } from './dto/update-language.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { UpdateGenresDto } from './dto/update-genres.dto';
 import { ConfirmDeleteDto } from './dto/confirm-delete.dto';
+import { LinkIdentityDto } from './dto/link-identity.dto';
+import {
+  CreateFamilyProfileDto,
+  UpdateFamilyProfileDto,
+} from './dto/family-profile.dto';
+import { extractClientContext } from '../common/utils/client-context';
+import { SecurityEventsPageQueryDto } from '../security-events/dto/security-events-query.dto';
+import {
+  AVATAR_MAX_UPLOAD_BYTES,
+  AvatarUpload,
+  PublicProfileService,
+} from '../auth/public-profile.service';
+import { FamilyProfilesService } from '../auth/family-profiles.service';
 
 interface SessionizedRequest extends Request {
   session?: {
     userId: string;
+    tokenId?: string;
   };
 }
 
 @Controller('account')
 export class AccountController {
-  constructor(private readonly account: AccountService) {}
+  constructor(
+    private readonly account: AccountService,
+    private readonly dataExport: DataExportService,
+    private readonly publicProfile: PublicProfileService,
+    private readonly familyProfiles: FamilyProfilesService,
+  ) {}
 
   private requireProfileId(req: SessionizedRequest): string {
     const profileId = req.session?.userId;
@@ -50,7 +84,51 @@ export class AccountController {
     @Body() body: ConfirmPhoneDto,
   ) {
     const profileId = this.requireProfileId(req);
-    return this.account.confirmPhoneChange(profileId, body.code);
+    return this.account.confirmPhoneChange(
+      profileId,
+      body.code,
+      extractClientContext(req),
+    );
+  }
+
+  @Post('email/request')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async requestEmail(
+    @Req() req: SessionizedRequest,
+    @Body() body: RequestEmailDto,
+  ) {
+    const profileId = this.requireProfileId(req);
+    return this.account.requestEmailChange(
+      profileId,
+      { email: body.email, password: body.password, code: body.code },
+      req.session?.tokenId,
+      extractClientContext(req),
+    );
+  }
+
+  // Link do aviso enviado ao email atual; público, sem sessão
+  @Post('email/cancel')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async cancelEmail(@Req() req: Request, @Body() body: CancelEmailDto) {
+    return this.account.cancelEmailChange(
+      body.token,
+      extractClientContext(req),
+    );
+  }
+
+  @Post('email/confirm')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async confirmEmail(
+    @Req() req: SessionizedRequest,
+    @Body() body: ConfirmEmailDto,
+  ) {
+    const profileId = this.requireProfileId(req);
+    return this.account.confirmEmailChange(
+      profileId,
+      body.code,
+      req.session?.tokenId,
+      extractClientContext(req),
+    );
   }
 
   @Patch('language')
@@ -63,10 +141,108 @@ export class AccountController {
     return this.account.updateLanguage(profileId, body.languageId);
   }
 
+  @Patch('profile')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async updateProfile(
+    @Req() req: SessionizedRequest,
+    @Body() body: UpdateProfileDto,
+  ) {
+    const profileId = this.requireProfileId(req);
+    return this.publicProfile.updateProfile(profileId, body);
+  }
+
+  // PUT /account/avatar (multipart, campo "avatar")
+  @Put('avatar')
+  @UseInterceptors(
+    FileInterceptor('avatar', {
+      limits: { fileSize: AVATAR_MAX_UPLOAD_BYTES },
+    }),
+  )
+  async updateAvatar(
+    @Req() req: SessionizedRequest,
+    @UploadedFile() file: AvatarUpload | undefined,
+  ) {
+    const profileId = this.requireProfileId(req);
+    return this.publicProfile.updateAvatar(profileId, file);
+  }
+
+  @Delete('avatar')
+  async deleteAvatar(@Req() req: SessionizedRequest) {
+    const profileId = this.requireProfileId(req);
+    return this.publicProfile.deleteAvatar(profileId);
+  }
+
+  // PUT /account/genres — lista completa, na ordem de preferência
+  @Put('genres')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async updateGenres(
+    @Req() req: SessionizedRequest,
+    @Body() body: UpdateGenresDto,
+  ) {
+    const profileId = this.requireProfileId(req);
+    return this.publicProfile.replaceGenres(profileId, body.genreIds);
+  }
+
+  // Perfis da família; o SessionMiddleware só libera /account no perfil do
+  // titular, então aqui o profileId da sessão é a própria conta
+  @Get('family')
+  async listFamily(@Req() req: SessionizedRequest) {
+    const profileId = this.requireProfileId(req);
+    return this.familyProfiles.list(profileId);
+  }
+
+  @Post('family')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async createFamilyProfile(
+    @Req() req: SessionizedRequest,
+    @Body() body: CreateFamilyProfileDto,
+  ) {
+    const profileId = this.requireProfileId(req);
+    return this.familyProfiles.create(profileId, body);
+  }
+
+  @Patch('family/:id')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async updateFamilyProfile(
+    @Req() req: SessionizedRequest,
+    @Param('id') memberId: string,
+    @Body() body: UpdateFamilyProfileDto,
+  ) {
+    const profileId = this.requireProfileId(req);
+    return this.familyProfiles.update(profileId, memberId, body);
+  }
+
+  @Put('family/:id/avatar')
+  @UseInterceptors(
+    FileInterceptor('avatar', {
+      limits: { fileSize: AVATAR_MAX_UPLOAD_BYTES },
+    }),
+  )
+  async updateFamilyAvatar(
+    @Req() req: SessionizedRequest,
+    @Param('id') memberId: string,
+    @UploadedFile() file: AvatarUpload | undefined,
+  ) {
+    const profileId = this.requireProfileId(req);
+    return this.familyProfiles.updateAvatar(profileId, memberId, file);
+  }
+
+  @Delete('family/:id')
+  async removeFamilyProfile(
+    @Req() req: SessionizedRequest,
+    @Param('id') memberId: string,
+  ) {
+    const profileId = this.requireProfileId(req);
+    return this.familyProfiles.remove(profileId, memberId);
+  }
+
   @Post('delete/request')
   async requestDeletion(@Req() req: SessionizedRequest) {
     const profileId = this.requireProfileId(req);
-    return this.account.requestAccountDeletion(profileId);
+    return this.account.requestAccountDeletion(
+      profileId,
+      extractClientContext(req),
+    );
   }
 
   @Post('delete/confirm')
@@ -76,6 +252,78 @@ export class AccountController {
     @Body() body: ConfirmDeleteDto,
   ) {
     const profileId = this.requireProfileId(req);
-    return this.account.confirmAccountDeletion(profileId, body.code);
+    return this.account.confirmAccountDeletion(
+      profileId,
+      body.code,
+      extractClientContext(req),
+    );
+  }
+
+  @Get('terms-history')
+  async getTermsHistory(@Req() req: SessionizedRequest) {
+    const profileId = this.requireProfileId(req);
+    return this.account.getTermsHistory(profileId);
+  }
+
+  // GET /account/activity?start=0&end=19
+  @Get('activity')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async getActivity(
+    @Req() req: SessionizedRequest,
+    @Query() query: SecurityEventsPageQueryDto,
+  ) {
+    const profileId = this.requireProfileId(req);
+    if (query.end < query.start) {
+      throw new BadRequestException(
+        'Parâmetros inválidos: use start>=0 e end>=start.',
+      );
+    }
+    return this.account.getActivity(profileId, query.start, query.end);
+  }
+
+  // POST /account/export — o link chega por email quando o arquivo fica pronto
+  @Post('export')
+  async requestExport(@Req() req: SessionizedRequest) {
+    const profileId = this.requireProfileId(req);
+    return this.dataExport.requestExport(profileId, extractClientContext(req));
+  }
+
+  @Get('export/:id')
+  async getExport(@Req() req: SessionizedRequest, @Param('id') id: string) {
+    const profileId = this.requireProfileId(req);
+    return this.dataExport.getExport(profileId, id);
+  }
+
+  @Get('identities')
+  async listIdentities(@Req() req: SessionizedRequest) {
+    const profileId = this.requireProfileId(req);
+    return this.account.listIdentities(profileId);
+  }
+
+  @Post('identities')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async linkIdentity(
+    @Req() req: SessionizedRequest,
+    @Body() body: LinkIdentityDto,
+  ) {
+    const profileId = this.requireProfileId(req);
+    return this.account.linkIdentity(
+      profileId,
+      body,
+      extractClientContext(req),
+    );
+  }
+
+  @Delete('identities/:id')
+  async unlinkIdentity(
+    @Req() req: SessionizedRequest,
+    @Param('id') identityId: string,
+  ) {
+    const profileId = this.requireProfileId(req);
+    return this.account.unlinkIdentity(
+      profileId,
+      identityId,
+      extractClientContext(req),
+    );
   }
 }
@@ -1,11 +1,16 @@
 import { Module } from '@nestjs/common';
 import { AccountService } from './account.service';
 import { AccountController } from './account.controller';
+import { DataExportService } from './data-export.service';
 import { AuthModule } from '../auth/auth.module';
+import { MailModule } from '../mail/mail.module';
+import { MessagingModule } from '../messaging/messaging.module';
+import { TermsModule } from '../terms/terms.module';
+import { UsersModule } from '../users/users.module';
 
 @Module({
-  imports: [AuthModule],
+  imports: [AuthModule, MailModule, MessagingModule, TermsModule, UsersModule],
   controllers: [AccountController],
-  providers: [AccountService],
+  providers: [AccountService, DataExportService],
 })
 export class AccountModule {}
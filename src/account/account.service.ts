@@ -1,15 +1,43 @@
 import {
   BadRequestException,
+  ConflictException,
+  ForbiddenException,
   Inject,
   Injectable,
   InternalServerErrorException,
   Logger,
   NotFoundException,
+  UnauthorizedException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { SupabaseClient } from '@supabase/supabase-js';
 import { SB_ADMIN } from '../supabase/module';
 import { ProfileDetailsService } from '../auth/profile-details.service';
-import { hashToken, utcTimestampPlusMinutes } from '../common/utils/token';
+import { generateOpaqueToken, hashToken } from '../common/utils/token';
+import { TrustedTimeService } from '../trusted-time/trusted-time.service';
+import { MailService } from '../mail/mail.service';
+import { MessagingService } from '../messaging/messaging.service';
+import { KeyValueStore, ttlUntil } from '../kv-store/key-value-store';
+import { LoginThrottleService } from '../auth/login-throttle.service';
+import type { ClientContext } from '../common/utils/client-context';
+import { IdentitiesService, ProfileIdentity } from '../auth/identities.service';
+import { IdTokenVerifierService } from '../auth/id-token/id-token-verifier.service';
+import { PasswordsService } from '../auth/passwords.service';
+import { TwoFactorService } from '../auth/two-factor/two-factor.service';
+import { AccountDeletionService } from '../auth/account-deletion.service';
+import { SessionsService } from '../auth/sessions.service';
+import { TermsService } from '../terms/terms.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { UsersService } from '../users/users.service';
+import { SecurityAlertEvent } from '../mail/email-templates';
+import type { LinkIdentityDto } from './dto/link-identity.dto';
+
+const PHONE_CODE_TTL_MINUTES = 5;
+const DELETE_CODE_TTL_MINUTES = 10;
+const EMAIL_CODE_TTL_MINUTES = 10;
+const DEFAULT_EMAIL_CHANGE_HOLD_MINUTES = 15;
+// Login mais antigo que isso precisa da senha para trocar o email
+const REAUTH_WINDOW_MINUTES = 10;
 
 type PhoneChangeRequest = {
   phone: string;
@@ -17,6 +45,19 @@ type PhoneChangeRequest = {
   expiresAt: string;
 };
 
+/**
+ * Troca de email em andamento. Até `holdUntil` o código não é aceito e o
+ * email atual pode cancelar o pedido pelo link (`cancelHash`).
+ */
+type EmailChangeRequest = {
+  email: string;
+  previousEmail: string | null;
+  codeHash: string;
+  cancelHash: string;
+  holdUntil: string;
+  expiresAt: string;
+};
+
 type DeleteAccountRequest = {
   email: string;
   codeHash: string;
@@ -26,13 +67,36 @@ type DeleteAccountRequest = {
 @Injectable()
 export class AccountService {
   private readonly logger = new Logger(AccountService.name);
-  private readonly phoneRequests = new Map<string, PhoneChangeRequest>();
-  private readonly deleteRequests = new Map<string, DeleteAccountRequest>();
+  private readonly emailCancelUrl: string | null;
+  private readonly emailChangeHoldMinutes: number;
 
   constructor(
     @Inject(SB_ADMIN) private readonly supabase: SupabaseClient,
     private readonly profileDetails: ProfileDetailsService,
-  ) {}
+    private readonly mail: MailService,
+    private readonly messaging: MessagingService,
+    private readonly store: KeyValueStore,
+    private readonly loginThrottle: LoginThrottleService,
+    private readonly identities: IdentitiesService,
+    private readonly idTokenVerifier: IdTokenVerifierService,
+    private readonly passwords: PasswordsService,
+    private readonly twoFactor: TwoFactorService,
+    private readonly terms: TermsService,
+    private readonly accountDeletion: AccountDeletionService,
+    private readonly clock: TrustedTimeService,
+    private readonly securityEvents: SecurityEventsService,
+    private readonly sessions: SessionsService,
+    private readonly users: UsersService,
+    config: ConfigService,
+  ) {
+    this.emailCancelUrl =
+      config.get<string>('EMAIL_CHANGE_CANCEL_URL')?.trim() || null;
+    const hold = Number(config.get<string>('EMAIL_CHANGE_HOLD_MINUTES'));
+    this.emailChangeHoldMinutes =
+      Number.isInteger(hold) && hold >= 0
+        ? hold
+        : DEFAULT_EMAIL_CHANGE_HOLD_MINUTES;
+  }
 
   async requestPhoneChange(profileId: string, phoneRaw: string) {
     const phone = this.profileDetails.normalizePhone(phoneRaw);
@@ -40,32 +104,57 @@ export class AccountService {
       throw new BadRequestException('Telefone inválido.');
     }
 
-    await this.profileDetails.ensurePhoneAvailable(phone, profileId);
+    await this.users.ensurePhoneAvailable(phone, profileId);
 
     const code = this.generateNumericCode(5);
-    const expiresAt = await utcTimestampPlusMinutes(5);
+    const expiresAt = this.clock.plusMinutes(PHONE_CODE_TTL_MINUTES);
+    const currentDetails = await this.profileDetails.getDetails(profileId);
 
-    this.phoneRequests.set(profileId, {
-      phone,
-      codeHash: hashToken(code),
-      expiresAt,
+    const delivery = await this.messaging.sendCode({
+      to: phone,
+      code,
+      expiresInMinutes: PHONE_CODE_TTL_MINUTES,
+      language: this.profileDetails.normalizeLanguage(currentDetails?.language),
     });
 
-    this.logger.log(
-      `Código ${code} gerado para troca de telefone do perfil ${profileId}.`,
+    await this.store.set<PhoneChangeRequest>(
+      this.phoneKey(profileId),
+      { phone, codeHash: hashToken(code), expiresAt },
+      ttlUntil(expiresAt),
     );
 
-    return { expiresAt };
+    this.logger.log(`Troca de telefone solicitada pelo perfil ${profileId}.`);
+
+    return { expiresAt, delivery };
   }
 
-  async confirmPhoneChange(profileId: string, code: string) {
-    const entry = this.phoneRequests.get(profileId);
+  async confirmPhoneChange(
+    profileId: string,
+    code: string,
+    client?: ClientContext,
+  ) {
+    return this.securityEvents.track(
+      'phone.change',
+      { profileId, client },
+      () =>
+        this.loginThrottle.guard(
+          'account-phone',
+          { identity: profileId, client },
+          () => this.applyPhoneChange(profileId, code),
+        ),
+    );
+  }
+
+  private async applyPhoneChange(profileId: string, code: string) {
+    const entry = await this.store.get<PhoneChangeRequest>(
+      this.phoneKey(profileId),
+    );
     if (!entry) {
       throw new NotFoundException('Nenhum pedido de troca de telefone ativo.');
     }
 
     if (this.isExpired(entry.expiresAt)) {
-      this.phoneRequests.delete(profileId);
+      await this.store.delete(this.phoneKey(profileId));
       throw new BadRequestException('Código expirado. Solicite um novo.');
     }
 
@@ -75,7 +164,6 @@ export class AccountService {
 
     const currentDetails = await this.profileDetails.getDetails(profileId);
     const language = currentDetails?.language ?? 'en-US';
-    const genre = currentDetails?.genre ?? null;
     const acceptedTerms = currentDetails?.acceptedTerms ?? false;
 
     const { error } = await this.supabase.from('profile_details').upsert(
@@ -83,7 +171,6 @@ export class AccountService {
         profileId,
         phone: entry.phone,
         language,
-        genre,
         AcceptedTerms: acceptedTerms,
       },
       { onConflict: 'profileId' },
@@ -95,17 +182,272 @@ export class AccountService {
       );
     }
 
-    this.phoneRequests.delete(profileId);
+    await this.identities.updatePhone(profileId, entry.phone);
+    await this.store.delete(this.phoneKey(profileId));
     this.logger.log(`Telefone atualizado para o perfil ${profileId}.`);
 
     return { success: true };
   }
 
+  /**
+   * Envia um código ao novo email e avisa o endereço atual, que pode
+   * cancelar a troca enquanto ela está em espera. Exige reautenticação.
+   * Vale também para contas de provedor externo: o login por
+   * Google/Apple/Microsoft segue pelo `sub` do provedor e só o email de
+   * contato muda.
+   */
+  async requestEmailChange(
+    profileId: string,
+    input: { email: string; password?: string; code?: string },
+    currentTokenId?: string,
+    client?: ClientContext,
+  ) {
+    if (!this.emailCancelUrl) {
+      throw new InternalServerErrorException(
+        'Troca de email não configurada (EMAIL_CHANGE_CANCEL_URL).',
+      );
+    }
+    await this.loginThrottle.guard(
+      'account-email',
+      { identity: profileId, client },
+      () => this.assertReauthenticated(profileId, input, currentTokenId),
+    );
+
+    const email = String(input.email ?? '')
+      .trim()
+      .toLowerCase();
+    if (!email) {
+      throw new BadRequestException('Email inválido.');
+    }
+
+    const previousEmail = await this.getProfileEmail(profileId);
+    if (previousEmail?.toLowerCase() === email) {
+      throw new BadRequestException('Este já é o email da conta.');
+    }
+    await this.ensureEmailAvailable(email, profileId);
+
+    const previous = await this.store.get<EmailChangeRequest>(
+      this.emailKey(profileId),
+    );
+    if (previous) {
+      await this.store.delete(this.emailCancelKey(previous.cancelHash));
+    }
+
+    const code = this.generateNumericCode(6);
+    const { clear: cancelToken, hash: cancelHash } = generateOpaqueToken(32);
+    const holdUntil = this.clock.plusMinutes(this.emailChangeHoldMinutes);
+    const codeTtlMinutes = this.emailChangeHoldMinutes + EMAIL_CODE_TTL_MINUTES;
+    const expiresAt = this.clock.plusMinutes(codeTtlMinutes);
+
+    await this.store.set<EmailChangeRequest>(
+      this.emailKey(profileId),
+      {
+        email,
+        previousEmail,
+        codeHash: hashToken(code),
+        cancelHash,
+        holdUntil,
+        expiresAt,
+      },
+      ttlUntil(expiresAt),
+    );
+    await this.store.set(
+      this.emailCancelKey(cancelHash),
+      profileId,
+      ttlUntil(expiresAt),
+    );
+
+    const delivery = await this.mail.sendTemplate(
+      { email, profileId },
+      'verification-code',
+      { code, expiresInMinutes: codeTtlMinutes },
+    );
+    if (previousEmail) {
+      void this.mail.sendTemplate(
+        { email: previousEmail, profileId },
+        'email-change-requested',
+        {
+          cancelLink: this.buildEmailCancelLink(cancelToken),
+          holdUntil,
+          device: client?.deviceLabel ?? client?.userAgent ?? null,
+          ip: client?.ip ?? null,
+        },
+      );
+    }
+
+    this.logger.log(`Troca de email solicitada pelo perfil ${profileId}.`);
+    return { expiresAt, holdUntil, delivery };
+  }
+
+  /**
+   * Cancela a troca pelo link enviado ao email atual. Vale até a troca ser
+   * concluída; depois disso o link deixa de existir.
+   */
+  async cancelEmailChange(cancelToken: string, client?: ClientContext) {
+    const cancelHash = hashToken(String(cancelToken ?? '').trim());
+    const profileId = await this.store.get<string>(
+      this.emailCancelKey(cancelHash),
+    );
+    const entry = profileId
+      ? await this.store.get<EmailChangeRequest>(this.emailKey(profileId))
+      : null;
+    if (!profileId || !entry || entry.cancelHash !== cancelHash) {
+      throw new UnauthorizedException('Link inválido ou expirado.');
+    }
+
+    await this.store.delete(this.emailKey(profileId));
+    await this.store.delete(this.emailCancelKey(cancelHash));
+    void this.securityEvents.record({
+      type: 'email.change',
+      outcome: 'failure',
+      profileId,
+      client,
+      metadata: { reason: 'cancelled' },
+    });
+    this.logger.log(`Troca de email cancelada para o perfil ${profileId}.`);
+    return { cancelled: true };
+  }
+
+  /**
+   * Senha atual ou login recente, mais o código TOTP quando o 2FA está
+   * ativo.
+   */
+  private async assertReauthenticated(
+    profileId: string,
+    input: { password?: string; code?: string },
+    currentTokenId?: string,
+  ) {
+    if (input.password) {
+      const valid = await this.passwords.verifyPassword(
+        profileId,
+        input.password,
+      );
+      if (!valid) throw new UnauthorizedException('Senha inválida.');
+    } else {
+      const issuedAt = currentTokenId
+        ? await this.sessions.getIssuedAt(profileId, currentTokenId)
+        : null;
+      const loginAge = issuedAt ? Date.now() - Date.parse(issuedAt) : NaN;
+      if (!(loginAge <= REAUTH_WINDOW_MINUTES * 60_000)) {
+        throw new UnauthorizedException({
+          message: 'Confirme sua senha ou entre novamente para trocar o email.',
+          code: 'REAUTH_REQUIRED',
+        });
+      }
+    }
+
+    if (await this.twoFactor.isEnabled(profileId)) {
+      if (!input.code) {
+        throw new UnauthorizedException({
+          message: 'Informe o código de autenticação em dois fatores.',
+          code: 'TWO_FACTOR_REQUIRED',
+        });
+      }
+      await this.twoFactor.assertCode(profileId, input.code);
+    }
+  }
+
+  /**
+   * Troca o email e encerra as outras sessões da conta. A atualização só
+   * acontece se o email atual ainda for o do pedido.
+   */
+  async confirmEmailChange(
+    profileId: string,
+    code: string,
+    currentTokenId?: string,
+    client?: ClientContext,
+  ) {
+    return this.securityEvents.track(
+      'email.change',
+      { profileId, client },
+      () =>
+        this.loginThrottle.guard(
+          'account-email',
+          { identity: profileId, client },
+          () => this.applyEmailChange(profileId, code, currentTokenId, client),
+        ),
+    );
+  }
+
+  private async applyEmailChange(
+    profileId: string,
+    code: string,
+    currentTokenId?: string,
+    client?: ClientContext,
+  ) {
+    const entry = await this.store.get<EmailChangeRequest>(
+      this.emailKey(profileId),
+    );
+    if (!entry) {
+      throw new NotFoundException('Nenhum pedido de troca de email ativo.');
+    }
+
+    if (this.isExpired(entry.expiresAt)) {
+      await this.clearEmailChange(profileId, entry);
+      throw new BadRequestException('Código expirado. Solicite um novo.');
+    }
+
+    // Em espera não conta como tentativa falha do código
+    if (!this.isExpired(entry.holdUntil)) {
+      throw new ForbiddenException({
+        message: `A troca de email fica em espera até ${entry.holdUntil}.`,
+        code: 'EMAIL_CHANGE_ON_HOLD',
+        holdUntil: entry.holdUntil,
+      });
+    }
+
+    if (hashToken(code) !== entry.codeHash) {
+      throw new BadRequestException('Código inválido.');
+    }
+
+    let update = this.supabase
+      .from('profiles')
+      .update({ email: entry.email })
+      .eq('id', profileId);
+    update = entry.previousEmail
+      ? update.eq('email', entry.previousEmail)
+      : update.is('email', null);
+    const { data, error } = await update.select('id');
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ConflictException('Este email já está em uso.');
+      }
+      throw new InternalServerErrorException(
+        `Falha ao atualizar email: ${error.message}`,
+      );
+    }
+    if (!data || data.length === 0) {
+      await this.clearEmailChange(profileId, entry);
+      throw new ConflictException(
+        'O email da conta mudou desde o pedido. Solicite um novo código.',
+      );
+    }
+
+    await this.clearEmailChange(profileId, entry);
+    await this.identities.updateEmailPasswordEmail(profileId, entry.email);
+    const { revoked } = await this.sessions.revokeOtherSessions(
+      profileId,
+      currentTokenId,
+    );
+
+    if (entry.previousEmail) {
+      this.notifyIdentityChange(
+        entry.previousEmail,
+        profileId,
+        'email-changed',
+        client,
+      );
+    }
+    this.logger.log(`Email atualizado para o perfil ${profileId}.`);
+
+    return { success: true, email: entry.email, revokedSessions: revoked };
+  }
+
   async updateLanguage(profileId: string, languageId: 'pt-BR' | 'en-US') {
     const normalized = this.profileDetails.normalizeLanguage(languageId);
     const currentDetails = await this.profileDetails.getDetails(profileId);
     const phone = currentDetails?.phone ?? null;
-    const genre = currentDetails?.genre ?? null;
     const acceptedTerms = currentDetails?.acceptedTerms ?? false;
 
     const { error } = await this.supabase.from('profile_details').upsert(
@@ -113,7 +455,6 @@ export class AccountService {
         profileId,
         phone,
         language: normalized,
-        genre,
         AcceptedTerms: acceptedTerms,
       },
       { onConflict: 'profileId' },
@@ -132,36 +473,160 @@ export class AccountService {
     return { success: true };
   }
 
-  async requestAccountDeletion(profileId: string) {
+  async listIdentities(profileId: string) {
+    return { identities: await this.identities.list(profileId) };
+  }
+
+  /**
+   * Vincula um novo método de login. A sessão comprova o acesso à conta; o
+   * id_token (ou a senha nova, para o email da própria conta) comprova o
+   * outro lado.
+   */
+  async linkIdentity(
+    profileId: string,
+    input: LinkIdentityDto,
+    client?: ClientContext,
+  ) {
+    const email = await this.getProfileEmail(profileId);
+    if (!email) {
+      throw new BadRequestException('Conta sem email associado.');
+    }
+
+    let identity: ProfileIdentity;
+    if (input.provider === 'email-password') {
+      if (!input.password) {
+        throw new BadRequestException('Senha obrigatória.');
+      }
+      // Vincular não pode virar troca de senha sem a senha atual
+      const existing = await this.identities.findBySubject(
+        'email-password',
+        profileId,
+      );
+      if (existing) {
+        throw new ConflictException(
+          'Login por email e senha já vinculado. Use a troca de senha.',
+        );
+      }
+      identity = await this.identities.link({
+        profileId,
+        provider: 'email-password',
+        providerSub: profileId,
+        email,
+      });
+      await this.passwords.setPassword(profileId, input.password);
+    } else {
+      if (!input.id_token) {
+        throw new BadRequestException('id_token ausente.');
+      }
+      const claims = await this.idTokenVerifier.verify(
+        input.provider,
+        input.id_token,
+        { nonce: input.nonce },
+      );
+      identity = await this.identities.link({
+        profileId,
+        provider: input.provider,
+        providerSub: String(claims.sub),
+        email: String(claims.email).toLowerCase(),
+      });
+    }
+
+    this.notifyIdentityChange(email, profileId, 'login-method-linked', client);
+    return { identity };
+  }
+
+  async unlinkIdentity(
+    profileId: string,
+    identityId: string,
+    client?: ClientContext,
+  ) {
+    const result = await this.identities.unlink(profileId, identityId);
+    if (result.provider === 'email-password') {
+      // Sem senha não há segundo fator a proteger
+      await this.passwords.clearPassword(profileId);
+      await this.twoFactor.disable(profileId);
+    }
+
+    const email = await this.getProfileEmail(profileId);
+    if (email) {
+      this.notifyIdentityChange(
+        email,
+        profileId,
+        'login-method-removed',
+        client,
+      );
+    }
+    return result;
+  }
+
+  async getTermsHistory(profileId: string) {
+    const items = await this.terms.getHistory(profileId);
+    const current = await this.terms.getCurrentVersion();
+    return { current, total: items.length, items };
+  }
+
+  /** Histórico de eventos de segurança do próprio perfil. */
+  async getActivity(profileId: string, start: number, end: number) {
+    return this.securityEvents.listForProfile(profileId, start, end);
+  }
+
+  async requestAccountDeletion(profileId: string, client?: ClientContext) {
     const email = await this.getProfileEmail(profileId);
     if (!email) {
       throw new BadRequestException('Conta sem email associado.');
     }
 
     const code = this.generateNumericCode(6);
-    const expiresAt = await utcTimestampPlusMinutes(10);
+    const expiresAt = this.clock.plusMinutes(DELETE_CODE_TTL_MINUTES);
 
-    this.deleteRequests.set(profileId, {
-      email,
-      codeHash: hashToken(code),
-      expiresAt,
-    });
+    await this.store.set<DeleteAccountRequest>(
+      this.deleteKey(profileId),
+      { email, codeHash: hashToken(code), expiresAt },
+      ttlUntil(expiresAt),
+    );
 
-    this.logger.log(
-      `Código ${code} enviado para ${email} para confirmação de exclusão de conta.`,
+    const delivery = await this.mail.sendTemplate(
+      { email, profileId },
+      'account-deletion',
+      { code, expiresInMinutes: DELETE_CODE_TTL_MINUTES },
     );
+    void this.securityEvents.record({
+      type: 'account.deletion-requested',
+      outcome: 'success',
+      profileId,
+      client,
+    });
+
+    return { expiresAt, delivery };
+  }
 
-    return { expiresAt };
+  async confirmAccountDeletion(
+    profileId: string,
+    code: string,
+    client?: ClientContext,
+  ) {
+    return this.securityEvents.track(
+      'account.deletion',
+      { profileId, client },
+      () =>
+        this.loginThrottle.guard(
+          'account-delete',
+          { identity: profileId, client },
+          () => this.applyAccountDeletion(profileId, code),
+        ),
+    );
   }
 
-  async confirmAccountDeletion(profileId: string, code: string) {
-    const entry = this.deleteRequests.get(profileId);
+  private async applyAccountDeletion(profileId: string, code: string) {
+    const entry = await this.store.get<DeleteAccountRequest>(
+      this.deleteKey(profileId),
+    );
     if (!entry) {
       throw new NotFoundException('Nenhum pedido de exclusão ativo.');
     }
 
     if (this.isExpired(entry.expiresAt)) {
-      this.deleteRequests.delete(profileId);
+      await this.store.delete(this.deleteKey(profileId));
       throw new BadRequestException('Código expirado. Solicite um novo.');
     }
 
@@ -169,28 +634,13 @@ export class AccountService {
       throw new BadRequestException('Código inválido.');
     }
 
-    await this.performAccountDeletion(profileId);
-    this.deleteRequests.delete(profileId);
+    const { purgeAfter } = await this.accountDeletion.schedule(
+      profileId,
+      entry.email,
+    );
+    await this.store.delete(this.deleteKey(profileId));
 
-    this.logger.log(`Conta do perfil ${profileId} deletada com sucesso.`);
-    return { success: true };
-  }
-
-  private async performAccountDeletion(profileId: string) {
-    const operations = [
-      this.supabase.from('favorites').delete().eq('profileId', profileId),
-      this.supabase.from('tokens').delete().eq('user_id', profileId),
-      this.supabase.from('profiles').delete().eq('id', profileId),
-    ];
-
-    for (const op of operations) {
-      const { error } = await op;
-      if (error) {
-        throw new InternalServerErrorException(
-          `Falha ao deletar conta: ${error.message}`,
-        );
-      }
-    }
+    return { success: true, purgeAfter };
   }
 
   private async getProfileEmail(profileId: string): Promise<string | null> {
@@ -210,6 +660,65 @@ export class AccountService {
     return email && email.length > 0 ? email : null;
   }
 
+  private async ensureEmailAvailable(email: string, profileId: string) {
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .select('id')
+      .eq('email', email)
+      .neq('id', profileId)
+      .maybeSingle();
+
+    if (error) {
+      throw new InternalServerErrorException(
+        `Falha ao consultar email: ${error.message}`,
+      );
+    }
+    if (data) {
+      throw new ConflictException('Este email já está em uso.');
+    }
+  }
+
+  private notifyIdentityChange(
+    email: string,
+    profileId: string,
+    event: SecurityAlertEvent,
+    client?: ClientContext,
+  ) {
+    void this.mail.sendTemplate({ email, profileId }, 'security-alert', {
+      event,
+      occurredAt: new Date().toISOString(),
+      device: client?.deviceLabel ?? client?.userAgent ?? null,
+      ip: client?.ip ?? null,
+    });
+  }
+
+  private phoneKey(profileId: string) {
+    return `account:phone-change:${profileId}`;
+  }
+
+  private emailKey(profileId: string) {
+    return `account:email-change:${profileId}`;
+  }
+
+  private emailCancelKey(cancelHash: string) {
+    return `account:email-change:cancel:${cancelHash}`;
+  }
+
+  private async clearEmailChange(profileId: string, entry: EmailChangeRequest) {
+    await this.store.delete(this.emailKey(profileId));
+    await this.store.delete(this.emailCancelKey(entry.cancelHash));
+  }
+
+  private buildEmailCancelLink(cancelToken: string) {
+    const url = new URL(this.emailCancelUrl as string);
+    url.searchParams.set('token', cancelToken);
+    return url.toString();
+  }
+
+  private deleteKey(profileId: string) {
+    return `account:delete:${profileId}`;
+  }
+
   private generateNumericCode(length: number) {
     const min = 10 ** (length - 1);
     const max = 10 ** length - 1;
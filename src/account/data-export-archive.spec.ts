@@ -0,0 +1,53 @@
+import { inflateRawSync } from 'zlib';
+import { crc32 } from '../common/utils/zip';
+import { buildExportArchive, ExportData, toCsv } from './data-export-archive';
+
+const data: ExportData = {
+  exportedAt: '2026-03-01T12:00:00.000Z',
+  profile: { id: 'p1', email: 'ana@example.com' },
+  profileDetails: null,
+  familyProfiles: [],
+  favorites: [{ book_id: 'b1' }],
+  listeningProgress: [],
+  finishedBooks: [],
+  reviews: [],
+  sessions: [],
+  securityEvents: [],
+};
+
+describe('toCsv', () => {
+  it('escapes quotes, commas and formula-like values', () => {
+    const csv = toCsv([
+      { name: 'Ana, "A"', note: '=1+1', count: -1 },
+      { name: null, extra: { a: 1 } },
+    ]);
+
+    expect(csv).toBe(
+      'name,note,count,extra\r\n' +
+        '"Ana, ""A""",\'=1+1,-1,\r\n' +
+        ',,,"{""a"":1}"\r\n',
+    );
+  });
+});
+
+describe('buildExportArchive', () => {
+  it('stores data.json as the first deflated entry', () => {
+    const zip = buildExportArchive(data);
+
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    const nameLength = zip.readUInt16LE(26);
+    const compressedSize = zip.readUInt32LE(18);
+    expect(zip.toString('utf8', 30, 30 + nameLength)).toBe('data.json');
+
+    const start = 30 + nameLength;
+    const content = inflateRawSync(zip.subarray(start, start + compressedSize));
+    expect(JSON.parse(content.toString('utf8'))).toEqual(data);
+    expect(zip.readUInt32LE(14)).toBe(crc32(content));
+    // registro final lista data.json e os 9 CSVs
+    expect(zip.readUInt16LE(zip.length - 22 + 10)).toBe(10);
+  });
+
+  it('computes the standard CRC-32', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+});
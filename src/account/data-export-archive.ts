@@ -0,0 +1,75 @@
+// src/account/data-export-archive.ts
+import { createZip, ZipEntry } from '../common/utils/zip';
+
+export type ExportRow = Record<string, unknown>;
+
+/** Tudo o que a exportação leva; cada seção vira um CSV no arquivo. */
+export interface ExportData {
+  exportedAt: string;
+  profile: ExportRow | null;
+  profileDetails: ExportRow | null;
+  /** Perfis da família; os dados de escuta deles vêm nas seções abaixo. */
+  familyProfiles: ExportRow[];
+  favorites: ExportRow[];
+  listeningProgress: ExportRow[];
+  finishedBooks: ExportRow[];
+  reviews: ExportRow[];
+  sessions: ExportRow[];
+  securityEvents: ExportRow[];
+}
+
+const CSV_SECTIONS: {
+  file: string;
+  pick: (data: ExportData) => ExportRow[];
+}[] = [
+  { file: 'profile.csv', pick: (d) => (d.profile ? [d.profile] : []) },
+  {
+    file: 'profile_details.csv',
+    pick: (d) => (d.profileDetails ? [d.profileDetails] : []),
+  },
+  { file: 'family_profiles.csv', pick: (d) => d.familyProfiles },
+  { file: 'favorites.csv', pick: (d) => d.favorites },
+  { file: 'listening_progress.csv', pick: (d) => d.listeningProgress },
+  { file: 'finished_books.csv', pick: (d) => d.finishedBooks },
+  { file: 'reviews.csv', pick: (d) => d.reviews },
+  { file: 'sessions.csv', pick: (d) => d.sessions },
+  { file: 'security_events.csv', pick: (d) => d.securityEvents },
+];
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value as string);
+  // Evita que planilhas interpretem o valor como fórmula
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** CSV com as colunas de todas as linhas, na ordem em que aparecem. */
+export function toCsv(rows: ExportRow[]): string {
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+  const lines = [
+    columns.map(csvCell).join(','),
+    ...rows.map((row) => columns.map((col) => csvCell(row[col])).join(',')),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/** Zip com `data.json` completo e um CSV por seção. */
+export function buildExportArchive(data: ExportData): Buffer {
+  const entries: ZipEntry[] = [
+    { name: 'data.json', content: JSON.stringify(data, null, 2) },
+    ...CSV_SECTIONS.map((section) => ({
+      name: section.file,
+      content: toCsv(section.pick(data)),
+    })),
+  ];
+  return createZip(entries, new Date(data.exportedAt));
+}
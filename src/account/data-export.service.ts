@@ -0,0 +1,455 @@
+// src/account/data-export.service.ts
+import {
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SB_ADMIN } from '../supabase/module';
+import { TooManyAttemptsException } from '../common/exceptions/too-many-attempts.exception';
+import type { ClientContext } from '../common/utils/client-context';
+import { KeyValueStore } from '../kv-store/key-value-store';
+import { MailService } from '../mail/mail.service';
+import { SessionsService } from '../auth/sessions.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import {
+  buildExportArchive,
+  ExportData,
+  ExportRow,
+} from './data-export-archive';
+
+const DEFAULT_BUCKET = 'data-exports';
+const MAX_EXPORTS_PER_DAY = 3;
+const LINK_TTL_HOURS = 24;
+const ARCHIVE_RETENTION_DAYS = 7;
+const STALE_JOB_MINUTES = 30;
+const SWEEP_INTERVAL_MS = 10 * 60_000;
+const SECURITY_EVENTS_PAGE = 100;
+
+type ExportStatus = 'pending' | 'processing' | 'ready' | 'failed' | 'expired';
+
+/**
+ * Linha de `data_exports` (id, profile_id, status, requested_at, started_at,
+ * completed_at, expires_at, storage_path, error). O arquivo fica no bucket
+ * privado `DATA_EXPORT_BUCKET` e só é entregue por link assinado.
+ */
+type ExportRowRecord = {
+  id: string | number;
+  profile_id: string;
+  status: ExportStatus;
+  requested_at: string;
+  completed_at: string | null;
+  expires_at: string | null;
+  storage_path: string | null;
+};
+
+type FamilyProfileRecord = {
+  profile_id: string | number;
+  language: string | null;
+  maturity_level: string | null;
+  created_at: string | null;
+};
+
+const EXPORT_COLUMNS =
+  'id, profile_id, status, requested_at, completed_at, expires_at, storage_path';
+
+/**
+ * Exportação dos dados pessoais (LGPD/GDPR). O pedido cria um job que monta
+ * um zip com JSON e CSVs, guarda no storage e avisa por email com um link
+ * assinado. O arquivo é removido depois de `ARCHIVE_RETENTION_DAYS`.
+ */
+@Injectable()
+export class DataExportService implements OnModuleDestroy {
+  private readonly logger = new Logger(DataExportService.name);
+  private readonly bucket: string;
+  private readonly sweepTimer: NodeJS.Timeout;
+
+  constructor(
+    @Inject(SB_ADMIN) private readonly supabase: SupabaseClient,
+    private readonly store: KeyValueStore,
+    private readonly sessions: SessionsService,
+    private readonly securityEvents: SecurityEventsService,
+    private readonly mail: MailService,
+    config: ConfigService,
+  ) {
+    this.bucket = config.get<string>('DATA_EXPORT_BUCKET') || DEFAULT_BUCKET;
+
+    // Retoma jobs perdidos (instância reiniciada) e remove arquivos vencidos
+    this.sweepTimer = setInterval(() => {
+      void this.sweep();
+    }, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref?.();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  async requestExport(profileId: string, client?: ClientContext) {
+    return this.securityEvents.track(
+      'account.export',
+      { profileId, client },
+      () => this.startExport(profileId),
+    );
+  }
+
+  async getExport(profileId: string, exportId: string) {
+    const { data, error } = await this.supabase
+      .from('data_exports')
+      .select(EXPORT_COLUMNS)
+      .eq('id', exportId)
+      .eq('profile_id', profileId)
+      .maybeSingle();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar exportação: ${error.message}`,
+      );
+    if (!data) throw new NotFoundException('Exportação não encontrada.');
+
+    const row = data as ExportRowRecord;
+    const link = row.status === 'ready' ? await this.signedLink(row) : null;
+    return { ...this.toSummary(row), download: link };
+  }
+
+  private async startExport(profileId: string) {
+    const { data: running, error: runningError } = await this.supabase
+      .from('data_exports')
+      .select(EXPORT_COLUMNS)
+      .eq('profile_id', profileId)
+      .in('status', ['pending', 'processing'])
+      .limit(1)
+      .maybeSingle();
+    if (runningError)
+      throw new InternalServerErrorException(
+        `Falha ao consultar exportações: ${runningError.message}`,
+      );
+    if (running) return this.toSummary(running as ExportRowRecord);
+
+    const count = await this.store.increment(
+      `data-export:profile:${profileId}`,
+      24 * 60 * 60_000,
+    );
+    if (count > MAX_EXPORTS_PER_DAY) {
+      throw new TooManyAttemptsException(
+        'Limite diário de exportações atingido. Tente novamente amanhã.',
+        24 * 60 * 60,
+      );
+    }
+
+    const { data, error } = await this.supabase
+      .from('data_exports')
+      .insert({
+        profile_id: profileId,
+        status: 'pending',
+        requested_at: new Date().toISOString(),
+      })
+      .select(EXPORT_COLUMNS)
+      .single();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao criar exportação: ${error.message}`,
+      );
+
+    const row = data as ExportRowRecord;
+    this.logger.log(
+      `Exportação ${row.id} solicitada pelo perfil ${profileId}.`,
+    );
+    void this.run(row);
+    return this.toSummary(row);
+  }
+
+  private async sweep() {
+    const staleBefore = new Date(
+      Date.now() - STALE_JOB_MINUTES * 60_000,
+    ).toISOString();
+    await this.supabase
+      .from('data_exports')
+      .update({ status: 'pending' })
+      .eq('status', 'processing')
+      .lt('started_at', staleBefore);
+
+    const { data: pending, error } = await this.supabase
+      .from('data_exports')
+      .select(EXPORT_COLUMNS)
+      .eq('status', 'pending')
+      .lt('requested_at', new Date(Date.now() - 60_000).toISOString())
+      .limit(10);
+    if (error) {
+      this.logger.error(`Falha ao listar exportações: ${error.message}`);
+      return;
+    }
+    for (const row of (pending ?? []) as ExportRowRecord[]) {
+      await this.run(row);
+    }
+
+    await this.removeExpired();
+  }
+
+  /** Executa o job se conseguir reservá-lo; várias instâncias podem rodar. */
+  private async run(row: ExportRowRecord) {
+    const { data: claimed, error: claimError } = await this.supabase
+      .from('data_exports')
+      .update({ status: 'processing', started_at: new Date().toISOString() })
+      .eq('id', row.id)
+      .eq('status', 'pending')
+      .select('id');
+    if (claimError || !claimed?.length) return;
+
+    try {
+      const exportData = await this.collect(row.profile_id);
+      const archive = buildExportArchive(exportData);
+      const path = `${row.profile_id}/${row.id}.zip`;
+
+      const { error: uploadError } = await this.supabase.storage
+        .from(this.bucket)
+        .upload(path, archive, {
+          contentType: 'application/zip',
+          upsert: true,
+        });
+      if (uploadError) throw new Error(uploadError.message);
+
+      const completedAt = new Date().toISOString();
+      const expiresAt = new Date(
+        Date.now() + ARCHIVE_RETENTION_DAYS * 24 * 60 * 60_000,
+      ).toISOString();
+      const { error } = await this.supabase
+        .from('data_exports')
+        .update({
+          status: 'ready',
+          completed_at: completedAt,
+          expires_at: expiresAt,
+          storage_path: path,
+          error: null,
+        })
+        .eq('id', row.id);
+      if (error) throw new Error(error.message);
+
+      this.logger.log(
+        `Exportação ${row.id} do perfil ${row.profile_id} pronta (${archive.length} bytes).`,
+      );
+      await this.notify({
+        ...row,
+        status: 'ready',
+        completed_at: completedAt,
+        expires_at: expiresAt,
+        storage_path: path,
+      });
+    } catch (err) {
+      this.logger.error(`Falha na exportação ${row.id}: ${String(err)}`);
+      await this.supabase
+        .from('data_exports')
+        .update({ status: 'failed', error: String(err) })
+        .eq('id', row.id);
+    }
+  }
+
+  /**
+   * Dados da conta e de todos os perfis da família: favoritos, progresso,
+   * concluídos e avaliações trazem a coluna `profileId` de cada perfil.
+   */
+  private async collect(profileId: string): Promise<ExportData> {
+    const familyProfiles = await this.collectFamilyProfiles(profileId);
+    const listenerIds = [
+      profileId,
+      ...familyProfiles.map((member) => member.profileId),
+    ];
+    const [
+      profile,
+      details,
+      favorites,
+      progress,
+      finished,
+      reviews,
+      sessions,
+      securityEvents,
+    ] = await Promise.all([
+      this.supabase.from('profiles').select('*').eq('id', profileId).single(),
+      this.supabase
+        .from('profile_details')
+        .select('*')
+        .eq('profileId', profileId)
+        .maybeSingle(),
+      this.selectAll('favorites', listenerIds),
+      this.selectAll('listening_progress', listenerIds),
+      this.selectAll('finished', listenerIds),
+      this.selectAll('reviews', listenerIds),
+      this.sessions.listSessions(profileId),
+      this.collectSecurityEvents(profileId),
+    ]);
+    const error = profile.error ?? details.error;
+    if (error) throw new Error(`Falha ao consultar perfil: ${error.message}`);
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile: (profile.data as ExportRow | null) ?? null,
+      profileDetails: (details.data as ExportRow | null) ?? null,
+      familyProfiles,
+      favorites,
+      listeningProgress: progress,
+      finishedBooks: finished,
+      reviews,
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        deviceLabel: session.deviceLabel,
+        platform: session.platform,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        issuedAt: session.issuedAt,
+        lastSeenAt: session.lastSeenAt,
+        expiresAt: session.expiresAt,
+      })),
+      securityEvents,
+    };
+  }
+
+  private async selectAll(table: string, profileIds: string[]) {
+    const { data, error } = await this.supabase
+      .from(table)
+      .select('*')
+      .in('profileId', profileIds);
+    if (error) throw new Error(`Falha ao consultar ${table}: ${error.message}`);
+    return (data ?? []) as ExportRow[];
+  }
+
+  /** Perfis da família da conta, sem o hash do PIN. */
+  private async collectFamilyProfiles(accountId: string) {
+    const { data, error } = await this.supabase
+      .from('family_profiles')
+      .select('profile_id, language, maturity_level, created_at')
+      .eq('owner_id', accountId)
+      .neq('profile_id', accountId);
+    if (error)
+      throw new Error(`Falha ao consultar family_profiles: ${error.message}`);
+    const rows = (data ?? []) as FamilyProfileRecord[];
+    if (rows.length === 0) return [];
+
+    const { data: profiles, error: profilesError } = await this.supabase
+      .from('profiles')
+      .select('id, name')
+      .in(
+        'id',
+        rows.map((row) => row.profile_id),
+      );
+    if (profilesError)
+      throw new Error(`Falha ao consultar perfis: ${profilesError.message}`);
+    const names = new Map(
+      ((profiles ?? []) as { id: string | number; name: string | null }[]).map(
+        (row) => [String(row.id), row.name],
+      ),
+    );
+
+    return rows.map((row) => ({
+      profileId: String(row.profile_id),
+      name: names.get(String(row.profile_id)) ?? null,
+      language: row.language,
+      maturity: row.maturity_level,
+      createdAt: row.created_at,
+    }));
+  }
+
+  private async collectSecurityEvents(profileId: string) {
+    const events: ExportRow[] = [];
+    for (let start = 0; ; start += SECURITY_EVENTS_PAGE) {
+      const page = await this.securityEvents.listForProfile(
+        profileId,
+        start,
+        start + SECURITY_EVENTS_PAGE - 1,
+      );
+      events.push(...page.items.map((event) => ({ ...event })));
+      if (page.end + 1 >= page.total || page.items.length === 0) break;
+    }
+    return events;
+  }
+
+  private async notify(row: ExportRowRecord) {
+    const { data: profile } = await this.supabase
+      .from('profiles')
+      .select('email')
+      .eq('id', row.profile_id)
+      .maybeSingle();
+    const email = profile?.email ? String(profile.email) : null;
+    if (!email) return;
+
+    const link = await this.signedLink(row);
+    if (!link) return;
+    await this.mail.sendTemplate(
+      { email, profileId: row.profile_id },
+      'data-export-ready',
+      { link: link.url, expiresAt: link.expiresAt },
+    );
+  }
+
+  /** Link de download com validade curta; nunca passa do fim da retenção. */
+  private async signedLink(row: ExportRowRecord) {
+    if (!row.storage_path || !row.expires_at) return null;
+    const remainingMs = new Date(row.expires_at).getTime() - Date.now();
+    if (remainingMs <= 0) return null;
+
+    const ttlSeconds = Math.floor(
+      Math.min(LINK_TTL_HOURS * 60 * 60_000, remainingMs) / 1000,
+    );
+    const fileName = `dados-${row.requested_at.slice(0, 10)}.zip`;
+    const { data, error } = await this.supabase.storage
+      .from(this.bucket)
+      .createSignedUrl(row.storage_path, ttlSeconds, { download: fileName });
+    if (error || !data?.signedUrl)
+      throw new InternalServerErrorException(
+        `Falha ao gerar link de download: ${error?.message ?? 'sem URL'}`,
+      );
+    return {
+      url: data.signedUrl,
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+    };
+  }
+
+  private async removeExpired() {
+    const { data, error } = await this.supabase
+      .from('data_exports')
+      .select(EXPORT_COLUMNS)
+      .eq('status', 'ready')
+      .lt('expires_at', new Date().toISOString())
+      .limit(50);
+    if (error) {
+      this.logger.warn(
+        `Falha ao listar exportações vencidas: ${error.message}`,
+      );
+      return;
+    }
+
+    const rows = (data ?? []) as ExportRowRecord[];
+    const paths = rows
+      .map((row) => row.storage_path)
+      .filter((path): path is string => !!path);
+    if (paths.length > 0) {
+      const { error: removeError } = await this.supabase.storage
+        .from(this.bucket)
+        .remove(paths);
+      if (removeError) {
+        this.logger.warn(
+          `Falha ao remover arquivos de exportação: ${removeError.message}`,
+        );
+        return;
+      }
+    }
+    for (const row of rows) {
+      await this.supabase
+        .from('data_exports')
+        .update({ status: 'expired', storage_path: null })
+        .eq('id', row.id);
+    }
+  }
+
+  private toSummary(row: ExportRowRecord) {
+    return {
+      id: String(row.id),
+      status: row.status,
+      requestedAt: row.requested_at,
+      completedAt: row.completed_at ?? null,
+      expiresAt: row.expires_at ?? null,
+    };
+  }
+}
@@ -0,0 +1,9 @@
+import { Transform } from 'class-transformer';
+import { IsString, MinLength } from 'class-validator';
+
+export class CancelEmailDto {
+  @Transform(({ value }) => String(value ?? '').trim())
+  @IsString({ message: 'token deve ser uma string.' })
+  @MinLength(16, { message: 'token inválido.' })
+  token!: string;
+}
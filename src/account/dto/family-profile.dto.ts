@@ -0,0 +1,63 @@
+import { Transform } from 'class-transformer';
+import {
+  IsIn,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+  ValidateIf,
+} from 'class-validator';
+import { MATURITY_LEVELS } from '../../auth/family-scope';
+import type { MaturityLevel } from '../../auth/family-scope';
+
+const LANGUAGES = ['pt-BR', 'en-US'];
+const PIN_PATTERN = /^\d{4,6}$/;
+
+export class CreateFamilyProfileDto {
+  @Transform(({ value }) => String(value ?? '').trim())
+  @IsString({ message: 'name deve ser uma string.' })
+  @MinLength(1, { message: 'name não pode ser vazio.' })
+  @MaxLength(80, { message: 'name deve ter no máximo 80 caracteres.' })
+  name!: string;
+
+  @IsOptional()
+  @IsIn(LANGUAGES, { message: 'language deve ser pt-BR ou en-US.' })
+  language?: string;
+
+  @IsOptional()
+  @IsIn(MATURITY_LEVELS, {
+    message: 'maturity deve ser kids, teen ou adult.',
+  })
+  maturity?: MaturityLevel;
+
+  @IsOptional()
+  @Transform(({ value }) => String(value ?? '').trim())
+  @Matches(PIN_PATTERN, { message: 'pin deve ter de 4 a 6 dígitos.' })
+  pin?: string;
+}
+
+export class UpdateFamilyProfileDto {
+  @IsOptional()
+  @Transform(({ value }) => String(value ?? '').trim())
+  @IsString({ message: 'name deve ser uma string.' })
+  @MinLength(1, { message: 'name não pode ser vazio.' })
+  @MaxLength(80, { message: 'name deve ter no máximo 80 caracteres.' })
+  name?: string;
+
+  @IsOptional()
+  @IsIn(LANGUAGES, { message: 'language deve ser pt-BR ou en-US.' })
+  language?: string;
+
+  @IsOptional()
+  @IsIn(MATURITY_LEVELS, {
+    message: 'maturity deve ser kids, teen ou adult.',
+  })
+  maturity?: MaturityLevel;
+
+  // null remove o PIN
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @Transform(({ value }) => (value === null ? null : String(value).trim()))
+  @Matches(PIN_PATTERN, { message: 'pin deve ter de 4 a 6 dígitos.' })
+  pin?: string | null;
+}
@@ -0,0 +1,29 @@
+import { Transform } from 'class-transformer';
+import { IsIn, IsOptional, IsString, MinLength } from 'class-validator';
+import type { ExternalProvider } from '../../auth/id-token/provider-configs';
+
+export class LinkIdentityDto {
+  @Transform(({ value }) =>
+    String(value ?? '')
+      .trim()
+      .toLowerCase(),
+  )
+  @IsIn(['google', 'apple', 'microsoft', 'email-password'], {
+    message:
+      'provider deve ser "google", "apple", "microsoft" ou "email-password".',
+  })
+  provider!: ExternalProvider | 'email-password';
+
+  @IsOptional()
+  @IsString({ message: 'id_token deve ser uma string.' })
+  id_token?: string;
+
+  @IsOptional()
+  @IsString({ message: 'nonce deve ser uma string.' })
+  nonce?: string;
+
+  @IsOptional()
+  @IsString({ message: 'password deve ser uma string.' })
+  @MinLength(8, { message: 'password deve ter ao menos 8 caracteres.' })
+  password?: string;
+}
@@ -0,0 +1,23 @@
+import { Transform } from 'class-transformer';
+import { IsEmail, IsOptional, IsString } from 'class-validator';
+
+export class RequestEmailDto {
+  @Transform(({ value }) =>
+    String(value ?? '')
+      .trim()
+      .toLowerCase(),
+  )
+  @IsEmail({}, { message: 'email inválido.' })
+  email!: string;
+
+  // Sem senha, vale um login recente da sessão atual
+  @IsOptional()
+  @IsString({ message: 'password deve ser uma string.' })
+  password?: string;
+
+  // Código TOTP, obrigatório com o 2FA ativo
+  @IsOptional()
+  @Transform(({ value }) => String(value ?? '').trim())
+  @IsString({ message: 'code deve ser uma string.' })
+  code?: string;
+}
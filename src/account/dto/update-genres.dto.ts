@@ -0,0 +1,19 @@
+import {
+  ArrayMaxSize,
+  ArrayUnique,
+  IsArray,
+  IsInt,
+  Min,
+} from 'class-validator';
+import { MAX_PREFERRED_GENRES } from '../../auth/public-profile.service';
+
+export class UpdateGenresDto {
+  @IsArray({ message: 'genreIds deve ser uma lista.' })
+  @ArrayMaxSize(MAX_PREFERRED_GENRES, {
+    message: `Escolha no máximo ${MAX_PREFERRED_GENRES} gêneros.`,
+  })
+  @ArrayUnique({ message: 'genreIds não pode ter repetidos.' })
+  @IsInt({ each: true, message: 'genreIds deve conter ids inteiros.' })
+  @Min(1, { each: true, message: 'genreIds deve conter ids válidos.' })
+  genreIds!: number[];
+}
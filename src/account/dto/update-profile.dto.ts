@@ -0,0 +1,18 @@
+import { Transform } from 'class-transformer';
+import { IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+
+export class UpdateProfileDto {
+  @IsOptional()
+  @Transform(({ value }) => String(value ?? '').trim())
+  @IsString({ message: 'name deve ser uma string.' })
+  @MinLength(1, { message: 'name não pode ser vazio.' })
+  @MaxLength(80, { message: 'name deve ter no máximo 80 caracteres.' })
+  name?: string;
+
+  // String vazia ou null remove a bio
+  @IsOptional()
+  @Transform(({ value }) => String(value ?? '').trim())
+  @IsString({ message: 'bio deve ser uma string.' })
+  @MaxLength(280, { message: 'bio deve ter no máximo 280 caracteres.' })
+  bio?: string;
+}
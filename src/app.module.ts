@@ -11,6 +11,8 @@ import { join } from 'path';
 import { SessionMiddleware } from './auth/session.middleware';
 
 import { SupabaseModule } from './supabase/module';
+import { KeyValueStoreModule } from './kv-store/kv-store.module';
+import { TrustedTimeModule } from './trusted-time/trusted-time.module';
 import { BooksModule } from './books/books.module';
 import { FavoritesModule } from './favorites/favorites.module';
 import { AccountModule } from './account/account.module';
@@ -20,10 +22,17 @@ import { InsightsModule } from './insights/insights.module';
 import { HealthController } from './health.controller';
 import { AuthModule } from './auth/auth.module';
 import { ReviewsModule } from './reviews/reviews.module';
+import { TermsModule } from './terms/terms.module';
+import { RolesModule } from './roles/roles.module';
+import { SecurityEventsModule } from './security-events/security-events.module';
 
 @Module({
   imports: [
     SupabaseModule,
+    KeyValueStoreModule,
+    TrustedTimeModule,
+    RolesModule,
+    SecurityEventsModule,
     BooksModule,
     FavoritesModule,
     AccountModule,
@@ -32,6 +41,7 @@ import { ReviewsModule } from './reviews/reviews.module';
     AuthModule,
     InsightsModule,
     ReviewsModule,
+    TermsModule,
   ],
   controllers: [HealthController], // <— adiciona o endpoint /healthz
 })
@@ -44,6 +54,16 @@ export class AppModule implements NestModule {
         { path: 'auth/id-token', method: RequestMethod.POST },
         { path: 'auth/email/(.*)', method: RequestMethod.ALL },
         { path: 'auth/email', method: RequestMethod.ALL },
+        { path: 'auth/token/refresh', method: RequestMethod.POST },
+        { path: 'auth/link/confirm', method: RequestMethod.POST },
+        { path: 'auth/phone/login/(.*)', method: RequestMethod.POST },
+        { path: 'auth/guest', method: RequestMethod.POST },
+        // Cancelamento da troca de email pelo link enviado ao email atual
+        { path: 'account/email/cancel', method: RequestMethod.POST },
+        // Callbacks de status dos provedores de SMS/WhatsApp
+        { path: 'messaging/status/(.*)', method: RequestMethod.ALL },
+        // Texto dos termos vigente (exibido antes do login)
+        { path: 'terms/current', method: RequestMethod.GET },
         // health/docs públicos
         { path: 'health', method: RequestMethod.GET },
         { path: 'docs', method: RequestMethod.GET },
@@ -14,7 +14,7 @@ interface AssetAccessLog {
   accessType: 'full' | 'range';
   rangeStart?: number;
   rangeEnd?: number;
-  assetType: 'audio' | 'cover';
+  assetType: 'audio' | 'cover' | 'avatar';
 }
 
 @Injectable()
@@ -70,7 +70,7 @@ export class AssetAccessLoggerService {
     reason: string,
     userId?: string,
     ip?: string,
-    assetType: 'audio' | 'cover' = 'audio',
+    assetType: 'audio' | 'cover' | 'avatar' = 'audio',
   ): void {
     const fileIdentifier = folder ? `${folder}/${fileName}` : fileName;
     const userInfo = userId ? `User: ${userId}` : 'Usuário não autenticado';
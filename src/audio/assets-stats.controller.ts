@@ -2,6 +2,7 @@
 import { Controller, Get, Req, UnauthorizedException } from '@nestjs/common';
 import type { Request } from 'express';
 import { AssetAccessLoggerService } from './asset-access-logger.service';
+import { Roles } from '../roles/roles.decorator';
 
 interface SessionizedRequest extends Request {
   session?: {
@@ -18,6 +19,7 @@ export class AssetsStatsController {
   constructor(private readonly accessLogger: AssetAccessLoggerService) {}
 
   @Get('stats')
+  @Roles('support')
   async getAccessStats(@Req() req: SessionizedRequest) {
     // Verificar se o usuário está autenticado
     const userId = req.session?.userId;
@@ -7,8 +7,10 @@ import { AssetAccessLoggerService } from './asset-access-logger.service';
 import { ListeningProgressService } from './listening-progress.service';
 import { FinishedBooksController } from './finished-books.controller';
 import { FinishedBooksService } from './finished-books.service';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
+  imports: [AuthModule],
   controllers: [
     ProtectedAssetsController,
     AssetsStatsController,
@@ -1,6 +1,6 @@
 import { Inject, Injectable, Logger } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { SUPABASE_CLIENT } from '../supabase/module';
+import { SB_USER } from '../supabase/module';
 
 type FinishedRow = {
   id?: string | number;
@@ -26,9 +26,7 @@ export class FinishedBooksService {
   private readonly logger = new Logger(FinishedBooksService.name);
   private readonly MAX_FINISHED_BOOKS_PER_USER = 15;
 
-  constructor(
-    @Inject(SUPABASE_CLIENT) private readonly supabase: SupabaseClient,
-  ) {}
+  constructor(@Inject(SB_USER) private readonly supabase: SupabaseClient) {}
 
   async markAsFinished(
     profileId: string,
@@ -11,6 +11,7 @@ import {
 } from '@nestjs/common';
 import type { Request } from 'express';
 import { ListeningProgressService } from './listening-progress.service';
+import { DuplicatePolicy } from '../auth/duplicate-policy.decorator';
 
 interface SessionizedRequest extends Request {
   session?: {
@@ -38,9 +39,11 @@ export class ListeningProgressController {
 
   /**
    * Endpoint recomendado: cliente envia batidas periódicas ou eventos (pause/stop)
-   * informando a posição atual do áudio.
+   * informando a posição atual do áudio. Batidas repetidas com o mesmo corpo
+   * são legítimas; só chamadas simultâneas idênticas são recusadas.
    */
   @Put(':bookId')
+  @DuplicatePolicy({ mode: 'in-flight' })
   async upsertProgress(
     @Req() req: SessionizedRequest,
     @Param('bookId') bookId: string,
@@ -79,6 +82,7 @@ export class ListeningProgressController {
    * Internamente, delega para o fluxo consolidado de save.
    */
   @Post('update')
+  @DuplicatePolicy({ mode: 'in-flight' })
   async legacyUpdateProgress(
     @Req() req: SessionizedRequest,
     @Body()
@@ -1,7 +1,8 @@
 // src/audio/listening-progress.service.ts
 import { Injectable, Inject, Logger } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { SUPABASE_CLIENT } from '../supabase/module';
+import { SB_USER } from '../supabase/module';
+import { KeyValueStore } from '../kv-store/key-value-store';
 
 type PassiveSessionKey = string;
 
@@ -50,12 +51,6 @@ export interface ReportProgressResult {
 @Injectable()
 export class ListeningProgressService {
   private readonly logger = new Logger(ListeningProgressService.name);
-  private readonly audioBookCache = new Map<
-    string,
-    { bookId: string; cachedAt: number }
-  >();
-
-  private readonly passiveSessions = new Map<PassiveSessionKey, PassiveSession>();
 
   // Persistência
   private readonly MIN_PROGRESS_PERCENT = 5;
@@ -69,11 +64,13 @@ export class ListeningProgressService {
   private readonly SESSION_TIMEOUT_MS = 5 * 60 * 1000;
   private readonly CACHE_TTL_MS = 5 * 60 * 1000;
 
+  // Sessões passivas ficam no KeyValueStore e expiram após SESSION_TIMEOUT_MS
+  // sem atividade. O cache áudio → livro também, já que o serviço é criado a
+  // cada requisição (cliente SB_USER).
   constructor(
-    @Inject(SUPABASE_CLIENT) private readonly supabase: SupabaseClient,
-  ) {
-    setInterval(() => this.cleanupPassiveSessions(), 60000);
-  }
+    @Inject(SB_USER) private readonly supabase: SupabaseClient,
+    private readonly store: KeyValueStore,
+  ) {}
 
   /**
    * Endpoint principal: recebe batidas do cliente e persiste progresso
@@ -146,7 +143,7 @@ export class ListeningProgressService {
           progressPercent: normalized.progressPercent,
         },
       );
-      this.updatePassiveSession(profileId, normalized.bookId, {
+      await this.updatePassiveSession(profileId, normalized.bookId, {
         audioFileName: normalized.audioFileName,
         positionSeconds: normalized.positionSeconds,
         durationSeconds: normalized.durationSeconds ?? undefined,
@@ -184,13 +181,17 @@ export class ListeningProgressService {
     }
 
     const key = this.sessionKey(profileId, bookId);
-    this.passiveSessions.set(key, {
-      bookId,
-      audioFileName,
-      lastReportedPosition: initialPosition,
-      lastReportedAt: Date.now(),
-      durationSeconds: duration,
-    });
+    await this.store.set<PassiveSession>(
+      key,
+      {
+        bookId,
+        audioFileName,
+        lastReportedPosition: initialPosition,
+        lastReportedAt: Date.now(),
+        durationSeconds: duration,
+      },
+      this.SESSION_TIMEOUT_MS,
+    );
 
     if (initialPosition > 0) {
       await this.reportProgress(profileId, {
@@ -221,7 +222,7 @@ export class ListeningProgressService {
     }
 
     const key = this.sessionKey(profileId, bookId);
-    const passive = this.passiveSessions.get(key);
+    const passive = await this.store.get<PassiveSession>(key);
     const durationSeconds = options.duration ?? passive?.durationSeconds;
 
     const result = await this.reportProgress(profileId, {
@@ -238,6 +239,7 @@ export class ListeningProgressService {
       passive.lastReportedAt = Date.now();
       passive.durationSeconds =
         typeof durationSeconds === 'number' ? durationSeconds : passive.durationSeconds;
+      await this.store.set(key, passive, this.SESSION_TIMEOUT_MS);
     }
 
     return result;
@@ -254,7 +256,7 @@ export class ListeningProgressService {
     if (!bookId) return;
 
     const key = this.sessionKey(profileId, bookId);
-    const passive = this.passiveSessions.get(key);
+    const passive = await this.store.get<PassiveSession>(key);
 
     const finalPosition = passive?.lastReportedPosition ?? 0;
     const durationSeconds = passive?.durationSeconds;
@@ -268,7 +270,7 @@ export class ListeningProgressService {
       force: options.force ?? true,
     });
 
-    this.passiveSessions.delete(key);
+    await this.store.delete(key);
 
     this.logger.debug(
       `Sessão passiva encerrada: user=${profileId}, book=${bookId}`,
@@ -671,6 +673,11 @@ export class ListeningProgressService {
     }
   }
 
+  /** Livro do arquivo de áudio servido em /audios, quando conhecido. */
+  async findBookIdForAudio(audioFileName: string) {
+    return this.resolveBookId(audioFileName);
+  }
+
   private async resolveBookId(
     audioFileName: string,
     providedBookId?: string,
@@ -682,9 +689,10 @@ export class ListeningProgressService {
     const audioBaseName = this.extractAudioBaseName(audioFileName);
     if (!audioBaseName) return undefined;
 
-    const cached = this.audioBookCache.get(audioBaseName);
-    if (cached && Date.now() - cached.cachedAt < this.CACHE_TTL_MS) {
-      return cached.bookId;
+    const cacheKey = `listening-progress:audio-book:${audioBaseName}`;
+    const cached = await this.store.get<string>(cacheKey);
+    if (cached) {
+      return cached;
     }
 
     const { data, error } = await this.supabase
@@ -700,10 +708,7 @@ export class ListeningProgressService {
 
     const bookId = data?.book_id ? String(data.book_id) : undefined;
     if (bookId) {
-      this.audioBookCache.set(audioBaseName, {
-        bookId,
-        cachedAt: Date.now(),
-      });
+      await this.store.set(cacheKey, bookId, this.CACHE_TTL_MS);
     }
 
     return bookId;
@@ -717,16 +722,16 @@ export class ListeningProgressService {
   }
 
   private sessionKey(profileId: string, bookId: string): PassiveSessionKey {
-    return `${profileId}:${bookId}`;
+    return `listening-progress:passive:${profileId}:${bookId}`;
   }
 
-  private updatePassiveSession(
+  private async updatePassiveSession(
     profileId: string,
     bookId: string,
     info: { positionSeconds: number; durationSeconds?: number; audioFileName?: string },
   ) {
     const key = this.sessionKey(profileId, bookId);
-    const existing = this.passiveSessions.get(key);
+    const existing = await this.store.get<PassiveSession>(key);
     if (!existing) return;
 
     existing.lastReportedPosition = info.positionSeconds;
@@ -737,15 +742,6 @@ export class ListeningProgressService {
     if (info.audioFileName) {
       existing.audioFileName = info.audioFileName;
     }
-  }
-
-  private cleanupPassiveSessions(): void {
-    const now = Date.now();
-    for (const [key, session] of this.passiveSessions.entries()) {
-      if (now - session.lastReportedAt > this.SESSION_TIMEOUT_MS) {
-        this.passiveSessions.delete(key);
-        this.logger.debug(`Sessão passiva expirada removida (${key})`);
-      }
-    }
+    await this.store.set(key, existing, this.SESSION_TIMEOUT_MS);
   }
 }
@@ -8,12 +8,17 @@ import {
   UnauthorizedException,
   NotFoundException,
   Logger,
+  ForbiddenException,
 } from '@nestjs/common';
 import type { Response, Request } from 'express';
 import { join } from 'path';
 import { createReadStream, existsSync, statSync } from 'fs';
 import { AssetAccessLoggerService } from './asset-access-logger.service';
 import { ListeningProgressService } from './listening-progress.service';
+import { GuestService } from '../auth/guest.service';
+import { GUEST_PROVIDER } from '../auth/guest-scope';
+import { FamilyProfilesService } from '../auth/family-profiles.service';
+import type { MaturityLevel } from '../auth/family-scope';
 
 interface SessionizedRequest extends Request {
   session?: {
@@ -22,6 +27,7 @@ interface SessionizedRequest extends Request {
     provider: string;
     providerSub?: string;
     expiresAt: string;
+    maturityLevel?: MaturityLevel;
   };
 }
 
@@ -33,6 +39,8 @@ export class ProtectedAssetsController {
   constructor(
     private readonly accessLogger: AssetAccessLoggerService,
     private readonly listeningProgress: ListeningProgressService,
+    private readonly guests: GuestService,
+    private readonly familyProfiles: FamilyProfilesService,
   ) {}
 
   @Get('covers/:filename')
@@ -44,6 +52,16 @@ export class ProtectedAssetsController {
     return this.serveProtectedFile('covers', filename, req, res);
   }
 
+  // Avatares enviados em PUT /account/avatar
+  @Get('avatars/:filename')
+  async getAvatarFile(
+    @Param('filename') filename: string,
+    @Req() req: SessionizedRequest,
+    @Res() res: Response,
+  ) {
+    return this.serveProtectedFile('avatars', filename, req, res);
+  }
+
   @Get('audios/:folder/:filename')
   async getAudioFile(
     @Param('folder') folder: string,
@@ -64,7 +82,7 @@ export class ProtectedAssetsController {
   }
 
   private async serveProtectedFile(
-    assetType: 'covers' | 'audios',
+    assetType: 'covers' | 'audios' | 'avatars',
     filename: string,
     req: SessionizedRequest,
     res: Response,
@@ -79,7 +97,7 @@ export class ProtectedAssetsController {
         'Usuário não autenticado',
         undefined,
         req.ip || req.connection?.remoteAddress,
-        assetType === 'audios' ? 'audio' : 'cover',
+        this.logAssetType(assetType),
       );
       throw new UnauthorizedException(
         `Acesso negado. Faça login para acessar ${assetType}.`,
@@ -97,7 +115,7 @@ export class ProtectedAssetsController {
         'Nome de arquivo inválido',
         userId,
         req.ip || req.connection?.remoteAddress,
-        assetType === 'audios' ? 'audio' : 'cover',
+        this.logAssetType(assetType),
       );
       throw new NotFoundException(`Arquivo ${assetType} não encontrado.`);
     }
@@ -119,11 +137,25 @@ export class ProtectedAssetsController {
         'Arquivo não encontrado',
         userId,
         req.ip || req.connection?.remoteAddress,
-        assetType === 'audios' ? 'audio' : 'cover',
+        this.logAssetType(assetType),
       );
       throw new NotFoundException(`Arquivo ${assetType} não encontrado.`);
     }
 
+    // Áudio de convidado conta no mesmo limite dos resumos
+    if (assetType === 'audios' && req.session?.provider === GUEST_PROVIDER) {
+      await this.assertGuestAudioAllowed(sanitizedFilename, req);
+    }
+
+    // Perfis da família só tocam títulos da própria classificação
+    if (
+      assetType === 'audios' &&
+      req.session?.maturityLevel &&
+      req.session.maturityLevel !== 'adult'
+    ) {
+      await this.assertAudioMaturityAllowed(sanitizedFilename, req);
+    }
+
     try {
       const stats = statSync(filePath);
       const fileSize = stats.size;
@@ -144,7 +176,7 @@ export class ProtectedAssetsController {
         rangeEnd: req.headers.range
           ? this.parseRangeEnd(req.headers.range, fileSize)
           : undefined,
-        assetType: assetType === 'audios' ? 'audio' : 'cover',
+        assetType: this.logAssetType(assetType),
       });
 
       // Configurar headers baseado no tipo de asset
@@ -161,6 +193,40 @@ export class ProtectedAssetsController {
     }
   }
 
+  private async assertGuestAudioAllowed(
+    filename: string,
+    req: SessionizedRequest,
+  ) {
+    const session = req.session!;
+    const bookId = await this.listeningProgress.findBookIdForAudio(filename);
+    if (!bookId) {
+      throw new ForbiddenException(
+        'Áudio indisponível no modo convidado. Crie uma conta.',
+      );
+    }
+    await this.guests.assertSummaryAllowed(
+      session.userId,
+      bookId,
+      session.expiresAt,
+    );
+  }
+
+  private async assertAudioMaturityAllowed(
+    filename: string,
+    req: SessionizedRequest,
+  ) {
+    const bookId = await this.listeningProgress.findBookIdForAudio(filename);
+    if (!bookId) {
+      throw new ForbiddenException(
+        'Áudio indisponível para a classificação deste perfil.',
+      );
+    }
+    await this.familyProfiles.assertTitleAllowed(
+      bookId,
+      req.session?.maturityLevel,
+    );
+  }
+
   private async serveAudioFile(
     filePath: string,
     filename: string,
@@ -309,6 +375,11 @@ export class ProtectedAssetsController {
     stream.pipe(res);
   }
 
+  private logAssetType(assetType: 'covers' | 'audios' | 'avatars') {
+    if (assetType === 'audios') return 'audio';
+    return assetType === 'avatars' ? 'avatar' : 'cover';
+  }
+
   /**
    * Sanitiza o caminho para prevenir path traversal attacks
    */
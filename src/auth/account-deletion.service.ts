@@ -0,0 +1,413 @@
+// src/auth/account-deletion.service.ts
+import { randomUUID } from 'crypto';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  OnModuleDestroy,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SB_ADMIN } from '../supabase/module';
+import { generateOpaqueToken, hashToken } from '../common/utils/token';
+import { TrustedTimeService } from '../trusted-time/trusted-time.service';
+import { KeyValueStore, ttlUntil } from '../kv-store/key-value-store';
+import { MailService } from '../mail/mail.service';
+import { SessionsService } from './sessions.service';
+import { SessionCacheService } from './session-cache.service';
+import { PublicProfileService } from './public-profile.service';
+import { FamilyProfilesService } from './family-profiles.service';
+import { GuestService } from './guest.service';
+
+const DEFAULT_GRACE_DAYS = 30;
+const PURGE_INTERVAL_MS = 60 * 60_000;
+const PURGE_BATCH_SIZE = 20;
+const RESTORE_PENDING_TTL_MINUTES = 10;
+const KEY_PREFIX = 'account-restore';
+// Mesmo padrão de DataExportService
+const DEFAULT_EXPORT_BUCKET = 'data-exports';
+
+type DeletionStatus = 'scheduled' | 'purging' | 'purged' | 'restored';
+
+/**
+ * Linha de `account_deletions` (id, profile_id, email_hash, requested_at,
+ * purge_after, status, restored_at, purged_at, receipt jsonb). Só um pedido
+ * `scheduled` por perfil (índice único parcial). A linha sobrevive à
+ * exclusão e guarda o comprovante; o email fica só como hash.
+ */
+type DeletionRow = {
+  id: string | number;
+  profile_id: string;
+  email_hash: string | null;
+  requested_at: string;
+  purge_after: string;
+  status: DeletionStatus;
+};
+
+interface RestoreRecord {
+  tokenHash: string;
+  profileId: string;
+  provider: string;
+  providerSub: string;
+  expiresAt: string;
+}
+
+export interface DeletionReceipt {
+  receiptId: string;
+  profileId: string;
+  requestedAt: string;
+  purgedAt: string;
+  deleted: Record<string, number>;
+  anonymized: Record<string, number>;
+}
+
+type PurgeStep =
+  | { table: string; column: string; action: 'delete' }
+  | {
+      table: string;
+      column: string;
+      action: 'anonymize';
+      patch: Record<string, null>;
+    };
+
+/**
+ * Tudo o que pertence ao perfil, na ordem de remoção. Aceites de termos e
+ * eventos de segurança ficam sem IP/dispositivo para manter o histórico.
+ */
+const PURGE_STEPS: PurgeStep[] = [
+  { table: 'favorites', column: 'profileId', action: 'delete' },
+  { table: 'listening_progress', column: 'profileId', action: 'delete' },
+  { table: 'finished', column: 'profileId', action: 'delete' },
+  { table: 'reviews', column: 'profileId', action: 'delete' },
+  { table: 'passwords', column: 'profileId', action: 'delete' },
+  { table: 'profile_details', column: 'profileId', action: 'delete' },
+  { table: 'profile_genres', column: 'profile_id', action: 'delete' },
+  {
+    table: 'two_factor_recovery_codes',
+    column: 'profile_id',
+    action: 'delete',
+  },
+  { table: 'profile_two_factor', column: 'profile_id', action: 'delete' },
+  { table: 'profile_identities', column: 'profile_id', action: 'delete' },
+  { table: 'profile_roles', column: 'profile_id', action: 'delete' },
+  { table: 'data_exports', column: 'profile_id', action: 'delete' },
+  { table: 'refresh_tokens', column: 'user_id', action: 'delete' },
+  { table: 'tokens', column: 'user_id', action: 'delete' },
+  {
+    table: 'terms_acceptances',
+    column: 'profile_id',
+    action: 'anonymize',
+    patch: { ip: null, user_agent: null },
+  },
+  {
+    table: 'security_events',
+    column: 'profile_id',
+    action: 'anonymize',
+    patch: { ip: null, user_agent: null, device_label: null, location: null },
+  },
+  { table: 'profiles', column: 'id', action: 'delete' },
+];
+
+/**
+ * Exclusão de conta em duas etapas: o pedido confirmado agenda a remoção
+ * e encerra as sessões; durante a carência o login oferece restaurar a
+ * conta. Depois dela, o job remove os dados e grava o comprovante.
+ */
+@Injectable()
+export class AccountDeletionService implements OnModuleDestroy {
+  private readonly logger = new Logger(AccountDeletionService.name);
+  private readonly graceDays: number;
+  private readonly exportBucket: string;
+  private readonly purgeTimer: NodeJS.Timeout;
+
+  constructor(
+    @Inject(SB_ADMIN) private readonly supabase: SupabaseClient,
+    private readonly store: KeyValueStore,
+    private readonly sessions: SessionsService,
+    private readonly sessionCache: SessionCacheService,
+    private readonly publicProfile: PublicProfileService,
+    private readonly familyProfiles: FamilyProfilesService,
+    private readonly guests: GuestService,
+    private readonly mail: MailService,
+    private readonly clock: TrustedTimeService,
+    config: ConfigService,
+  ) {
+    // 0 remove os dados na próxima execução do job
+    const configured = Number(
+      config.get<string>('ACCOUNT_DELETION_GRACE_DAYS'),
+    );
+    this.graceDays =
+      Number.isInteger(configured) && configured >= 0
+        ? configured
+        : DEFAULT_GRACE_DAYS;
+    this.exportBucket =
+      config.get<string>('DATA_EXPORT_BUCKET') || DEFAULT_EXPORT_BUCKET;
+
+    this.purgeTimer = setInterval(() => {
+      void this.purgeDue();
+    }, PURGE_INTERVAL_MS);
+    this.purgeTimer.unref?.();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.purgeTimer);
+  }
+
+  async schedule(profileId: string, email: string | null) {
+    const existing = await this.findScheduled(profileId);
+    if (existing) return { purgeAfter: existing.purge_after };
+
+    const purgeAfter = this.clock.plusMinutes(this.graceDays * 24 * 60);
+    const { error } = await this.supabase.from('account_deletions').insert({
+      profile_id: profileId,
+      email_hash: email ? hashToken(email.toLowerCase()) : null,
+      requested_at: new Date().toISOString(),
+      purge_after: purgeAfter,
+      status: 'scheduled',
+    });
+    if (error && error.code !== '23505')
+      throw new InternalServerErrorException(
+        `Falha ao agendar exclusão: ${error.message}`,
+      );
+
+    await this.sessions.revokeAllSessions(profileId);
+    if (email) {
+      void this.mail.sendTemplate(
+        { email, profileId },
+        'account-deletion-scheduled',
+        { purgeAfter },
+      );
+    }
+
+    this.logger.log(
+      `Exclusão do perfil ${profileId} agendada para ${purgeAfter}.`,
+    );
+    return { purgeAfter };
+  }
+
+  async findScheduled(profileId: string): Promise<DeletionRow | null> {
+    const { data, error } = await this.supabase
+      .from('account_deletions')
+      .select('id, profile_id, email_hash, requested_at, purge_after, status')
+      .eq('profile_id', profileId)
+      .in('status', ['scheduled', 'purging'])
+      .maybeSingle();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar exclusão agendada: ${error.message}`,
+      );
+    return (data as DeletionRow | null) ?? null;
+  }
+
+  /** Passo pendente do login de uma conta agendada para exclusão. */
+  async createRestorePending(
+    profileId: string,
+    provider: string,
+    providerSub: string,
+  ) {
+    const { clear: token, hash: tokenHash } = generateOpaqueToken(32);
+    const expiresAt = this.clock.plusMinutes(RESTORE_PENDING_TTL_MINUTES);
+    await this.store.set<RestoreRecord>(
+      this.restoreKey(tokenHash),
+      { tokenHash, profileId, provider, providerSub, expiresAt },
+      ttlUntil(expiresAt),
+    );
+    return { token, expiresAt };
+  }
+
+  async restore(pendingToken: string) {
+    const token = String(pendingToken ?? '').trim();
+    if (!token) throw new BadRequestException('Token de restauração ausente.');
+
+    const tokenHash = hashToken(token);
+    const record = await this.store.get<RestoreRecord>(
+      this.restoreKey(tokenHash),
+    );
+    if (!record || new Date(record.expiresAt).getTime() <= Date.now()) {
+      throw new UnauthorizedException(
+        'Token de restauração inválido ou expirado. Refaça o login.',
+      );
+    }
+    await this.store.delete(this.restoreKey(tokenHash));
+
+    const { data, error } = await this.supabase
+      .from('account_deletions')
+      .update({ status: 'restored', restored_at: new Date().toISOString() })
+      .eq('profile_id', record.profileId)
+      .eq('status', 'scheduled')
+      .select('id');
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao restaurar conta: ${error.message}`,
+      );
+    if (!data || data.length === 0) {
+      throw new BadRequestException(
+        'A exclusão desta conta já está em andamento.',
+      );
+    }
+
+    this.logger.log(`Conta do perfil ${record.profileId} restaurada.`);
+    return {
+      profileId: record.profileId,
+      provider: record.provider,
+      providerSub: record.providerSub,
+    };
+  }
+
+  /**
+   * Remove as contas com carência vencida e os convidados com sessão
+   * vencida. Várias instâncias podem rodar.
+   */
+  async purgeDue() {
+    await this.purgeScheduledAccounts();
+    await this.guests.purgeExpired();
+  }
+
+  private async purgeScheduledAccounts() {
+    const { data, error } = await this.supabase
+      .from('account_deletions')
+      .select('id, profile_id, email_hash, requested_at, purge_after, status')
+      .eq('status', 'scheduled')
+      .lte('purge_after', new Date().toISOString())
+      .order('purge_after', { ascending: true })
+      .limit(PURGE_BATCH_SIZE);
+    if (error) {
+      this.logger.error(`Falha ao listar exclusões vencidas: ${error.message}`);
+      return;
+    }
+
+    for (const row of (data ?? []) as DeletionRow[]) {
+      if (!(await this.claim(row))) continue;
+      try {
+        await this.purge(row);
+      } catch (err) {
+        this.logger.error(
+          `Falha ao excluir dados do perfil ${row.profile_id}: ${String(err)}`,
+        );
+        await this.supabase
+          .from('account_deletions')
+          .update({ status: 'scheduled' })
+          .eq('id', row.id)
+          .eq('status', 'purging');
+      }
+    }
+  }
+
+  private async claim(row: DeletionRow) {
+    const { data, error } = await this.supabase
+      .from('account_deletions')
+      .update({ status: 'purging' })
+      .eq('id', row.id)
+      .eq('status', 'scheduled')
+      .select('id');
+    if (error) {
+      this.logger.error(
+        `Falha ao reservar exclusão ${row.id}: ${error.message}`,
+      );
+      return false;
+    }
+    return (data?.length ?? 0) > 0;
+  }
+
+  private async purge(row: DeletionRow): Promise<DeletionReceipt> {
+    const profileId = row.profile_id;
+    const { data: profile } = await this.supabase
+      .from('profiles')
+      .select('email')
+      .eq('id', profileId)
+      .maybeSingle();
+    const email = profile?.email ? String(profile.email) : null;
+    const language = email
+      ? await this.mail.resolveLanguage({ email, profileId })
+      : null;
+
+    // O arquivo do avatar fica fora do banco
+    await this.publicProfile.removeAvatarOf(profileId);
+    await this.removeDataExportFiles(profileId);
+    // Perfis da família saem junto com o titular
+    await this.familyProfiles.removeAll(profileId);
+
+    const deleted: Record<string, number> = {};
+    const anonymized: Record<string, number> = {};
+    for (const step of PURGE_STEPS) {
+      const { count, error } =
+        step.action === 'delete'
+          ? await this.supabase
+              .from(step.table)
+              .delete({ count: 'exact' })
+              .eq(step.column, profileId)
+          : await this.supabase
+              .from(step.table)
+              .update(step.patch, { count: 'exact' })
+              .eq(step.column, profileId);
+      if (error)
+        throw new InternalServerErrorException(
+          `Falha ao limpar ${step.table}: ${error.message}`,
+        );
+      (step.action === 'delete' ? deleted : anonymized)[step.table] =
+        count ?? 0;
+    }
+    this.sessionCache.invalidateUser(profileId);
+
+    const receipt: DeletionReceipt = {
+      receiptId: randomUUID(),
+      profileId,
+      requestedAt: row.requested_at,
+      purgedAt: new Date().toISOString(),
+      deleted,
+      anonymized,
+    };
+    const { error } = await this.supabase
+      .from('account_deletions')
+      .update({ status: 'purged', purged_at: receipt.purgedAt, receipt })
+      .eq('id', row.id);
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao gravar comprovante de exclusão: ${error.message}`,
+      );
+
+    if (email) {
+      void this.mail.sendTemplate(
+        { email, languageHint: language },
+        'account-deleted',
+        { receiptId: receipt.receiptId, purgedAt: receipt.purgedAt },
+      );
+    }
+    this.logger.log(
+      `Dados do perfil ${profileId} excluídos (comprovante ${receipt.receiptId}).`,
+    );
+    return receipt;
+  }
+
+  /** Arquivos das exportações de dados; as linhas saem em PURGE_STEPS. */
+  private async removeDataExportFiles(profileId: string) {
+    const { data, error } = await this.supabase
+      .from('data_exports')
+      .select('storage_path')
+      .eq('profile_id', profileId);
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar exportações: ${error.message}`,
+      );
+
+    const paths = ((data ?? []) as { storage_path: string | null }[])
+      .map((row) => row.storage_path)
+      .filter((path): path is string => !!path);
+    if (paths.length === 0) return;
+
+    const { error: removeError } = await this.supabase.storage
+      .from(this.exportBucket)
+      .remove(paths);
+    if (removeError)
+      throw new InternalServerErrorException(
+        `Falha ao remover arquivos de exportação: ${removeError.message}`,
+      );
+  }
+
+  private restoreKey(tokenHash: string) {
+    return `${KEY_PREFIX}:record:${tokenHash}`;
+  }
+}
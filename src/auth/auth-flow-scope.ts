@@ -0,0 +1,16 @@
+// src/auth/auth-flow-scope.ts
+
+/**
+ * Rotas do fluxo de login que aceitam tokens ainda sem permissão
+ * (verificação, termos, 2FA). Ficam fora da proteção contra duplicidade.
+ */
+const AUTH_FLOW_PREFIXES = ['/auth/email', '/auth/phone', '/auth/terms'];
+const AUTH_FLOW_PATHS = ['/auth/restore', '/auth/2fa/verify'];
+
+export function isAuthFlowRoute(path: string): boolean {
+  const normalized = path.toLowerCase();
+  return (
+    AUTH_FLOW_PREFIXES.some((prefix) => normalized.startsWith(prefix)) ||
+    AUTH_FLOW_PATHS.includes(normalized)
+  );
+}
@@ -2,10 +2,13 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
   HttpException,
   HttpStatus,
+  Param,
   Post,
+  Query,
   Req,
 } from '@nestjs/common';
 import type { Request } from 'express';
@@ -21,13 +24,39 @@ import { EmailResetRequestDto } from './dto/email-reset-request.dto';
 import { EmailResetVerifyDto } from './dto/email-reset-code.dto';
 import { EmailResetPasswordDto } from './dto/email-reset-password.dto';
 import { AcceptTermsDto } from './dto/accept-terms.dto';
-import { UsersService } from '../users/users.service';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { LinkConfirmDto } from './dto/link-confirm.dto';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { TwoFactorVerifyDto } from './dto/two-factor-verify.dto';
+import { TwoFactorDisableDto } from './dto/two-factor-disable.dto';
+import {
+  MagicLinkApproveDto,
+  MagicLinkPollDto,
+  MagicLinkRequestDto,
+} from './dto/magic-link.dto';
+import {
+  PhoneLoginEmailConfirmDto,
+  PhoneLoginEmailRequestDto,
+  PhoneLoginRequestDto,
+  PhoneLoginVerifyDto,
+} from './dto/phone-login.dto';
+import { GuestMergeDto } from './dto/guest.dto';
+import { RestoreAccountDto } from './dto/restore-account.dto';
+import { SwitchProfileDto } from './dto/switch-profile.dto';
 import { extractBearerToken } from '../common/utils/bearer';
 import { DuplicateRequestStatsService } from './duplicate-request-stats.service';
+import { SessionsService } from './sessions.service';
+import { extractClientContext } from '../common/utils/client-context';
+import { LoginThrottleService } from './login-throttle.service';
+import { SessionCacheService } from './session-cache.service';
+import { FamilyProfilesService } from './family-profiles.service';
+import { rethrowAsHttp } from '../common/utils/http-error';
+import { Roles } from '../roles/roles.decorator';
 
 interface SessionizedRequest extends Request {
   session?: {
     userId: string;
+    accountId?: string;
     tokenId: string;
     provider: string;
     providerSub?: string;
@@ -39,16 +68,22 @@ interface SessionizedRequest extends Request {
 export class AuthController {
   constructor(
     private readonly auth: AuthService,
-    private readonly users: UsersService,
     private readonly duplicateStats: DuplicateRequestStatsService,
+    private readonly sessions: SessionsService,
+    private readonly loginThrottle: LoginThrottleService,
+    private readonly sessionCache: SessionCacheService,
+    private readonly familyProfiles: FamilyProfilesService,
   ) {}
 
   // POST /auth/id-token
-  // Recebe { provider, id_token } do front, valida/normaliza no serviço,
-  // bloqueia email com provider diferente, gera token opaco,
-  // grava hash em `tokens` e retorna { token, expiresAt, user }
+  // Recebe { provider, id_token, nonce? } do front, valida assinatura e claims,
+  // gera token opaco, grava hash em `tokens` e retorna { token, expiresAt, user }.
+  // Se o email já pertence a outra conta, retorna { requiresLink, linkToken }.
   @Post('id-token')
-  async exchangeIdToken(@Body() body: ProviderIdTokenDto) {
+  async exchangeIdToken(
+    @Req() req: SessionizedRequest,
+    @Body() body: ProviderIdTokenDto,
+  ) {
     try {
       if (!body?.id_token) {
         throw new HttpException(
@@ -59,65 +94,63 @@ export class AuthController {
       const result = await this.auth.loginWithProvider(
         body.provider,
         body.id_token,
+        body.nonce,
+        extractClientContext(req, body.device),
       );
       return result;
-    } catch (e: any) {
+    } catch (e: unknown) {
       // mantém a mensagem que você pediu quando for provider diferente
       const providerLabel = body?.provider
         ? String(body.provider).trim()
         : 'desconhecido';
-      const fallbackMessage = `Falha ao efetuar login com provider ${providerLabel}`;
-      const message = e?.message ?? fallbackMessage;
-      const status =
-        e?.status && Number.isInteger(e.status)
-          ? e.status
-          : HttpStatus.BAD_REQUEST;
-      throw new HttpException({ message }, status);
+      rethrowAsHttp(e, `Falha ao efetuar login com provider ${providerLabel}`);
     }
   }
 
   @Post('email/login')
-  async loginWithEmail(@Body() body: EmailLoginDto) {
+  async loginWithEmail(
+    @Req() req: SessionizedRequest,
+    @Body() body: EmailLoginDto,
+  ) {
     try {
-      return await this.auth.loginWithEmail(body.email, body.password);
-    } catch (e: any) {
-      const status =
-        e?.status && Number.isInteger(e.status)
-          ? e.status
-          : HttpStatus.BAD_REQUEST;
-      const message = e?.message ?? 'Falha ao autenticar com email/senha.';
-      throw new HttpException({ message }, status);
+      return await this.auth.loginWithEmail(
+        body.email,
+        body.password,
+        extractClientContext(req),
+      );
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao autenticar com email/senha.');
     }
   }
 
   @Post('email/request-code')
-  async requestEmailCode(@Body() body: EmailRequestCodeDto) {
+  async requestEmailCode(
+    @Req() req: SessionizedRequest,
+    @Body() body: EmailRequestCodeDto,
+  ) {
     try {
-      return await this.auth.requestEmailRegistration(body.email);
-    } catch (e: any) {
-      const status =
-        e?.status && Number.isInteger(e.status)
-          ? e.status
-          : HttpStatus.BAD_REQUEST;
-      const message = e?.message ?? 'Falha ao iniciar verificação por email.';
-      throw new HttpException({ message }, status);
+      return await this.auth.requestEmailRegistration(
+        body.email,
+        body.language ?? req.headers['accept-language'],
+      );
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao iniciar verificação por email.');
     }
   }
 
   @Post('email/verify-code')
-  async verifyEmailCode(@Body() body: EmailVerifyCodeDto) {
+  async verifyEmailCode(
+    @Req() req: SessionizedRequest,
+    @Body() body: EmailVerifyCodeDto,
+  ) {
     try {
       return await this.auth.verifyEmailRegistration(
         body.pendingToken,
         body.code,
+        extractClientContext(req),
       );
-    } catch (e: any) {
-      const status =
-        e?.status && Number.isInteger(e.status)
-          ? e.status
-          : HttpStatus.BAD_REQUEST;
-      const message = e?.message ?? 'Código inválido.';
-      throw new HttpException({ message }, status);
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Código inválido.');
     }
   }
 
@@ -125,13 +158,8 @@ export class AuthController {
   async registerEmail(@Body() body: EmailRegisterDto) {
     try {
       return await this.auth.completeEmailRegistration(body);
-    } catch (e: any) {
-      const status =
-        e?.status && Number.isInteger(e.status)
-          ? e.status
-          : HttpStatus.BAD_REQUEST;
-      const message = e?.message ?? 'Falha ao concluir cadastro.';
-      throw new HttpException({ message }, status);
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao concluir cadastro.');
     }
   }
 
@@ -139,77 +167,257 @@ export class AuthController {
   async requestReset(@Body() body: EmailResetRequestDto) {
     try {
       return await this.auth.requestPasswordReset(body.email);
-    } catch (e: any) {
-      const status =
-        e?.status && Number.isInteger(e.status)
-          ? e.status
-          : HttpStatus.BAD_REQUEST;
-      const message = e?.message ?? 'Falha ao iniciar redefinição de senha.';
-      throw new HttpException({ message }, status);
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao iniciar redefinição de senha.');
     }
   }
 
   @Post('email/reset/verify')
-  async verifyReset(@Body() body: EmailResetVerifyDto) {
+  async verifyReset(
+    @Req() req: SessionizedRequest,
+    @Body() body: EmailResetVerifyDto,
+  ) {
     try {
-      return await this.auth.verifyPasswordReset(body.pendingToken, body.code);
-    } catch (e: any) {
-      const status =
-        e?.status && Number.isInteger(e.status)
-          ? e.status
-          : HttpStatus.BAD_REQUEST;
-      const message = e?.message ?? 'Código inválido.';
-      throw new HttpException({ message }, status);
+      return await this.auth.verifyPasswordReset(
+        body.pendingToken,
+        body.code,
+        extractClientContext(req),
+      );
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Código inválido.');
     }
   }
 
   @Post('email/reset/confirm')
-  async confirmReset(@Body() body: EmailResetPasswordDto) {
+  async confirmReset(
+    @Req() req: SessionizedRequest,
+    @Body() body: EmailResetPasswordDto,
+  ) {
     try {
-      return await this.auth.completePasswordReset(body);
-    } catch (e: any) {
-      const status =
-        e?.status && Number.isInteger(e.status)
-          ? e.status
-          : HttpStatus.BAD_REQUEST;
-      const message = e?.message ?? 'Falha ao redefinir senha.';
-      throw new HttpException({ message }, status);
+      return await this.auth.completePasswordReset(
+        body,
+        extractClientContext(req),
+      );
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao redefinir senha.');
     }
   }
 
+  // Login sem senha: o link do email aprova o pedido feito pelo app, que
+  // recebe a sessão em /auth/email/magic-link/poll
+  @Post('email/magic-link')
+  async requestMagicLink(
+    @Req() req: SessionizedRequest,
+    @Body() body: MagicLinkRequestDto,
+  ) {
+    try {
+      return await this.auth.requestMagicLink(
+        body.email,
+        body.deviceId,
+        body.language ?? req.headers['accept-language'],
+        extractClientContext(req),
+      );
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao enviar link de acesso.');
+    }
+  }
+
+  // Não consome o link: clientes de email costumam abrir links sozinhos
+  @Get('email/magic-link/approve')
+  async describeMagicLink(@Query('token') token: string) {
+    try {
+      return await this.auth.describeMagicLink(token);
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Link inválido.');
+    }
+  }
+
+  @Post('email/magic-link/approve')
+  async approveMagicLink(
+    @Req() req: SessionizedRequest,
+    @Body() body: MagicLinkApproveDto,
+  ) {
+    try {
+      return await this.auth.approveMagicLink(
+        body.token,
+        extractClientContext(req),
+      );
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao aprovar acesso.');
+    }
+  }
+
+  @Post('email/magic-link/poll')
+  async pollMagicLink(
+    @Req() req: SessionizedRequest,
+    @Body() body: MagicLinkPollDto,
+  ) {
+    try {
+      return await this.auth.pollMagicLink(
+        body.pollToken,
+        body.deviceId,
+        body.waitSeconds ?? 0,
+        extractClientContext(req),
+      );
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao consultar pedido de acesso.');
+    }
+  }
+
+  // Rota fora do SessionMiddleware: autentica pelo refresh token. O access
+  // token anterior segue válido por alguns minutos para não interromper
+  // requisições Range de um áudio em andamento.
   @Post('token/refresh')
-  async refreshToken(@Req() req: SessionizedRequest) {
+  async refreshToken(
+    @Req() req: SessionizedRequest,
+    @Body() body: RefreshTokenDto,
+  ) {
     try {
-      const tokenClear = extractBearerToken(req.headers?.authorization);
-      if (!tokenClear) {
+      const refreshClear =
+        body?.refreshToken?.trim() ||
+        extractBearerToken(req.headers?.authorization);
+      if (!refreshClear) {
         throw new HttpException(
-          { message: 'Token ausente.' },
+          { message: 'Refresh token ausente.' },
           HttpStatus.UNAUTHORIZED,
         );
       }
-      const result = await this.auth.refreshSessionToken(tokenClear);
+      const result = await this.auth.refreshSessionToken(
+        refreshClear,
+        extractClientContext(req),
+      );
       return result;
-    } catch (e: any) {
-      const status =
-        e?.status && Number.isInteger(e.status)
-          ? e.status
-          : HttpStatus.BAD_REQUEST;
-      const message = e?.message ?? 'Falha ao renovar sessão.';
-      throw new HttpException({ message }, status);
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao renovar sessão.');
+    }
+  }
+
+  // Rota pública: conclui a vinculação pedida por /auth/id-token com a prova
+  // de acesso à conta existente.
+  @Post('link/confirm')
+  async confirmLink(
+    @Req() req: SessionizedRequest,
+    @Body() body: LinkConfirmDto,
+  ) {
+    try {
+      return await this.auth.confirmIdentityLink(
+        body.linkToken,
+        {
+          password: body.password,
+          provider: body.provider,
+          idToken: body.id_token,
+          nonce: body.nonce,
+        },
+        extractClientContext(req, body.device),
+      );
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao vincular método de login.');
+    }
+  }
+
+  // POST /auth/2fa/verify
+  // Segundo passo do login por email/senha quando a conta tem 2FA ativo.
+  @Post('2fa/verify')
+  async verifyTwoFactor(
+    @Req() req: SessionizedRequest,
+    @Body() body: TwoFactorVerifyDto,
+  ) {
+    try {
+      return await this.auth.verifyTwoFactor(
+        body.pendingToken,
+        body.code,
+        extractClientContext(req),
+      );
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Código inválido.');
+    }
+  }
+
+  // POST /auth/2fa/enroll
+  // Gera o segredo TOTP e devolve o otpauth URI e o QR code para o app.
+  @Post('2fa/enroll')
+  async enrollTwoFactor(@Req() req: SessionizedRequest) {
+    if (!req.session?.userId) {
+      throw new HttpException(
+        { message: 'Não autorizado.' },
+        HttpStatus.UNAUTHORIZED,
+      );
     }
+
+    return this.auth.startTwoFactorEnrollment(req.session.userId);
+  }
+
+  // POST /auth/2fa/confirm
+  // Ativa o 2FA com o primeiro código e retorna os códigos de recuperação.
+  @Post('2fa/confirm')
+  async confirmTwoFactor(
+    @Req() req: SessionizedRequest,
+    @Body() body: TwoFactorCodeDto,
+  ) {
+    if (!req.session?.userId) {
+      throw new HttpException(
+        { message: 'Não autorizado.' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    return this.auth.confirmTwoFactorEnrollment(
+      req.session.userId,
+      body.code,
+      extractClientContext(req),
+    );
+  }
+
+  // POST /auth/2fa/disable
+  // Exige a senha atual e um código válido.
+  @Post('2fa/disable')
+  async disableTwoFactor(
+    @Req() req: SessionizedRequest,
+    @Body() body: TwoFactorDisableDto,
+  ) {
+    if (!req.session?.userId) {
+      throw new HttpException(
+        { message: 'Não autorizado.' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    return this.auth.disableTwoFactor(
+      req.session.userId,
+      { password: body.password, code: body.code },
+      extractClientContext(req),
+    );
   }
 
   @Post('terms/accept')
-  async acceptTerms(@Body() body: AcceptTermsDto) {
+  async acceptTerms(
+    @Req() req: SessionizedRequest,
+    @Body() body: AcceptTermsDto,
+  ) {
     try {
-      return await this.auth.acceptTerms(body.pendingToken);
-    } catch (e: any) {
-      const status =
-        e?.status && Number.isInteger(e.status)
-          ? e.status
-          : HttpStatus.BAD_REQUEST;
-      const message = e?.message ?? 'Falha ao aceitar termos.';
-      throw new HttpException({ message }, status);
+      return await this.auth.acceptTerms(
+        body.pendingToken,
+        extractClientContext(req),
+      );
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao aceitar termos.');
+    }
+  }
+
+  // POST /auth/restore
+  // Login de conta com exclusão agendada: restaura a conta e segue o login.
+  @Post('restore')
+  async restoreAccount(
+    @Req() req: SessionizedRequest,
+    @Body() body: RestoreAccountDto,
+  ) {
+    try {
+      return await this.auth.restoreAccount(
+        body.pendingToken,
+        extractClientContext(req),
+      );
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao restaurar conta.');
     }
   }
 
@@ -218,70 +426,228 @@ export class AuthController {
     try {
       const result = await this.auth.requestPhoneVerification(body);
       return result;
-    } catch (e: any) {
-      const status =
-        e?.status && Number.isInteger(e.status)
-          ? e.status
-          : HttpStatus.BAD_REQUEST;
-      const message = e?.message ?? 'Falha ao iniciar verificação.';
-      throw new HttpException({ message }, status);
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao iniciar verificação.');
     }
   }
 
   @Post('phone/verify-code')
-  async verifyPhoneCode(@Body() body: PhoneVerificationConfirmDto) {
+  async verifyPhoneCode(
+    @Req() req: SessionizedRequest,
+    @Body() body: PhoneVerificationConfirmDto,
+  ) {
     try {
-      const result = await this.auth.verifyPhoneCode(body);
+      const result = await this.auth.verifyPhoneCode(
+        body,
+        extractClientContext(req),
+      );
       return result;
-    } catch (e: any) {
-      const status =
-        e?.status && Number.isInteger(e.status)
-          ? e.status
-          : HttpStatus.BAD_REQUEST;
-      const message = e?.message ?? 'Código inválido.';
-      throw new HttpException({ message }, status);
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Código inválido.');
+    }
+  }
+
+  // Login pelo telefone (rotas fora do SessionMiddleware). A resposta não
+  // indica se o número já tem conta.
+  @Post('phone/login/request')
+  async requestPhoneLogin(@Body() body: PhoneLoginRequestDto) {
+    try {
+      return await this.auth.requestPhoneLogin(body);
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao enviar código.');
+    }
+  }
+
+  @Post('phone/login/verify')
+  async verifyPhoneLogin(
+    @Req() req: SessionizedRequest,
+    @Body() body: PhoneLoginVerifyDto,
+  ) {
+    try {
+      return await this.auth.verifyPhoneLogin(body, extractClientContext(req));
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Código inválido.');
+    }
+  }
+
+  // Perfis criados pelo telefone confirmam um email antes da sessão
+  @Post('phone/login/email/request')
+  async requestPhoneLoginEmail(
+    @Req() req: SessionizedRequest,
+    @Body() body: PhoneLoginEmailRequestDto,
+  ) {
+    try {
+      return await this.auth.requestPhoneLoginEmail(
+        body.pendingToken,
+        body.email,
+        body.language ?? req.headers['accept-language'],
+      );
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao iniciar verificação por email.');
     }
   }
 
+  @Post('phone/login/email/confirm')
+  async confirmPhoneLoginEmail(
+    @Req() req: SessionizedRequest,
+    @Body() body: PhoneLoginEmailConfirmDto,
+  ) {
+    try {
+      return await this.auth.confirmPhoneLoginEmail(
+        body,
+        extractClientContext(req),
+      );
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Código inválido.');
+    }
+  }
+
+  // POST /auth/guest
+  // Cria uma sessão de convidado (navegação e poucos resumos, sem conta).
+  @Post('guest')
+  async startGuestSession(@Req() req: SessionizedRequest) {
+    try {
+      return await this.auth.startGuestSession(extractClientContext(req));
+    } catch (e: unknown) {
+      rethrowAsHttp(e, 'Falha ao iniciar sessão de convidado.');
+    }
+  }
+
+  // POST /auth/guest/merge
+  // Depois do cadastro, leva os dados do convidado para a conta da sessão.
+  @Post('guest/merge')
+  async mergeGuestSession(
+    @Req() req: SessionizedRequest,
+    @Body() body: GuestMergeDto,
+  ) {
+    if (!req.session?.userId) {
+      throw new HttpException(
+        { message: 'Não autorizado.' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    return this.auth.mergeGuestSession(req.session.userId, body.guestToken);
+  }
+
   // GET /auth/me
-  // Lê o Bearer token (opaco), valida contra tabela `tokens`,
-  // e retorna o perfil do usuário.
+  // Lê o Bearer token (opaco), valida contra tabela `tokens`, e retorna o
+  // perfil completo: dados públicos, preferências, papéis, identidades
+  // vinculadas e assinatura.
   @Get('me')
   async me(@Req() req: SessionizedRequest) {
-    try {
-      if (!req.session?.userId) {
-        throw new HttpException(
-          { message: 'Não autorizado.' },
-          HttpStatus.UNAUTHORIZED,
-        );
-      }
+    if (!req.session?.userId) {
+      throw new HttpException(
+        { message: 'Não autorizado.' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+    return this.auth.getCurrentUser(
+      req.session.userId,
+      req.session.accountId ?? req.session.userId,
+    );
+  }
 
-      const user = await this.users.getById(req.session.userId);
-      // fallback simples, caso você ainda não tenha getById:
-      // const user = await this.users.getByTokenId(req.session.tokenId);
+  // GET /auth/profiles
+  // Perfis da conta disponíveis para troca (liberado a qualquer perfil ativo).
+  @Get('profiles')
+  async listProfiles(@Req() req: SessionizedRequest) {
+    if (!req.session?.userId) {
+      throw new HttpException(
+        { message: 'Não autorizado.' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
 
-      if (!user) {
-        return { userId: req.session.userId, name: null, email: null };
-      }
+    const accountId = req.session.accountId ?? req.session.userId;
+    const items = await this.familyProfiles.list(accountId);
+    return { activeProfileId: req.session.userId, items };
+  }
 
-      return {
-        userId: user.id,
-        email: user.email ?? null,
-        name: user.name ?? null,
-      };
-    } catch {
+  // POST /auth/profiles/:id/switch
+  // Troca o perfil ativo desta sessão; perfis com PIN exigem o PIN.
+  @Post('profiles/:id/switch')
+  async switchProfile(
+    @Req() req: SessionizedRequest,
+    @Param('id') profileId: string,
+    @Body() body: SwitchProfileDto,
+  ) {
+    if (!req.session?.userId) {
       throw new HttpException(
         { message: 'Não autorizado.' },
         HttpStatus.UNAUTHORIZED,
       );
     }
+
+    return this.familyProfiles.switchProfile(
+      {
+        accountId: req.session.accountId ?? req.session.userId,
+        userId: req.session.userId,
+        tokenId: req.session.tokenId,
+      },
+      profileId,
+      body.pin,
+      extractClientContext(req),
+    );
+  }
+
+  // GET /auth/sessions
+  // Lista os dispositivos com sessão ativa na conta.
+  @Get('sessions')
+  async listSessions(@Req() req: SessionizedRequest) {
+    if (!req.session?.userId) {
+      throw new HttpException(
+        { message: 'Não autorizado.' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    const items = await this.sessions.listSessions(
+      req.session.userId,
+      req.session.tokenId,
+    );
+    return { total: items.length, items };
+  }
+
+  // DELETE /auth/sessions/:id
+  // Encerra a sessão de um dispositivo específico.
+  @Delete('sessions/:id')
+  async revokeSession(
+    @Req() req: SessionizedRequest,
+    @Param('id') sessionId: string,
+  ) {
+    if (!req.session?.userId) {
+      throw new HttpException(
+        { message: 'Não autorizado.' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    return this.sessions.revokeSession(req.session.userId, sessionId);
+  }
+
+  // POST /auth/logout-all
+  // Encerra todas as sessões da conta, inclusive a atual e as dos perfis da
+  // família (as linhas de `tokens` são do titular).
+  @Post('logout-all')
+  async logoutAll(@Req() req: SessionizedRequest) {
+    if (!req.session?.userId) {
+      throw new HttpException(
+        { message: 'Não autorizado.' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    return this.sessions.revokeAllSessions(
+      req.session.accountId ?? req.session.userId,
+    );
   }
 
   // GET /auth/duplicate-stats
   // Endpoint para monitoramento das estatísticas de requisições duplicadas
   @Get('duplicate-stats')
+  @Roles('support')
   async getDuplicateStats(@Req() req: SessionizedRequest) {
-    // Verificar se o usuário tem permissão (pode ser expandido para verificar roles)
     if (!req.session?.userId) {
       throw new HttpException(
         { message: 'Não autorizado.' },
@@ -296,11 +662,49 @@ export class AuthController {
         data: stats,
         timestamp: new Date().toISOString(),
       };
-    } catch (e: any) {
+    } catch {
       throw new HttpException(
         { message: 'Erro ao recuperar estatísticas.' },
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
   }
+
+  // GET /auth/throttle-stats
+  // Contadores do limitador de tentativas (login e códigos OTP)
+  @Get('throttle-stats')
+  @Roles('support')
+  getThrottleStats(@Req() req: SessionizedRequest) {
+    if (!req.session?.userId) {
+      throw new HttpException(
+        { message: 'Não autorizado.' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    return {
+      message: 'Estatísticas do limitador de tentativas',
+      data: this.loginThrottle.getMetrics(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  // GET /auth/session-cache-stats
+  // Acertos, falhas e invalidações do cache de sessões do middleware
+  @Get('session-cache-stats')
+  @Roles('support')
+  getSessionCacheStats(@Req() req: SessionizedRequest) {
+    if (!req.session?.userId) {
+      throw new HttpException(
+        { message: 'Não autorizado.' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    return {
+      message: 'Estatísticas do cache de sessões',
+      data: this.sessionCache.getMetrics(),
+      timestamp: new Date().toISOString(),
+    };
+  }
 }
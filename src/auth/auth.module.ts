@@ -1,5 +1,6 @@
 // src/auth/auth.module.ts
 import { Module } from '@nestjs/common';
+import { APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
 import { JwtModule } from '@nestjs/jwt';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
@@ -10,11 +11,34 @@ import { PasswordsService } from './passwords.service';
 import { DuplicateRequestDetectorService } from './duplicate-request-detector.service';
 import { DuplicateRequestStatsService } from './duplicate-request-stats.service';
 import { TermsAcceptanceService } from './terms-acceptance.service';
+import { SessionsService } from './sessions.service';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { IdentitiesService } from './identities.service';
+import { TwoFactorService } from './two-factor/two-factor.service';
+import { SessionCacheService } from './session-cache.service';
+import { IdempotencyService } from './idempotency.service';
+import { MagicLinkService } from './magic-link.service';
+import { PhoneLoginService } from './phone-login.service';
+import { GuestService } from './guest.service';
+import { AccountDeletionService } from './account-deletion.service';
+import { PublicProfileService } from './public-profile.service';
+import { FamilyProfilesService } from './family-profiles.service';
+import { RequestDedupInterceptor } from './request-dedup.interceptor';
 import { UsersModule } from '../users/users.module';
+import { MailModule } from '../mail/mail.module';
+import { MessagingModule } from '../messaging/messaging.module';
+import { TermsModule } from '../terms/terms.module';
+import { TooManyAttemptsFilter } from '../common/filters/too-many-attempts.filter';
+import { IdTokenVerifierService } from './id-token/id-token-verifier.service';
+import { JWKS_SOURCE, RemoteJwksSource } from './id-token/jwks-source';
 
 @Module({
   imports: [
     UsersModule,
+    MailModule,
+    MessagingModule,
+    TermsModule,
     JwtModule.register({
       secret: process.env.APP_JWT_SECRET || 'dev-secret',
       signOptions: { expiresIn: '1d' },
@@ -30,12 +54,41 @@ import { UsersModule } from '../users/users.module';
     DuplicateRequestDetectorService,
     DuplicateRequestStatsService,
     TermsAcceptanceService,
+    SessionsService,
+    RefreshTokensService,
+    LoginThrottleService,
+    IdentitiesService,
+    TwoFactorService,
+    SessionCacheService,
+    IdempotencyService,
+    MagicLinkService,
+    PhoneLoginService,
+    GuestService,
+    AccountDeletionService,
+    PublicProfileService,
+    FamilyProfilesService,
+    { provide: APP_FILTER, useClass: TooManyAttemptsFilter },
+    { provide: APP_INTERCEPTOR, useClass: RequestDedupInterceptor },
+    IdTokenVerifierService,
+    { provide: JWKS_SOURCE, useFactory: () => new RemoteJwksSource() },
   ],
   exports: [
     ProfileDetailsService,
     EmailVerificationService,
     DuplicateRequestDetectorService,
     DuplicateRequestStatsService,
+    SessionsService,
+    RefreshTokensService,
+    LoginThrottleService,
+    IdentitiesService,
+    IdTokenVerifierService,
+    PasswordsService,
+    TwoFactorService,
+    SessionCacheService,
+    GuestService,
+    AccountDeletionService,
+    PublicProfileService,
+    FamilyProfilesService,
   ],
 })
 export class AuthModule {}
@@ -0,0 +1,131 @@
+import { AuthService } from './auth.service';
+
+type Mocks = Record<string, Record<string, jest.Mock>>;
+
+/** Consulta encadeável do supabase-js: toda chamada devolve a própria consulta. */
+function fakeSupabase() {
+  const query: Record<string, unknown> = {};
+  for (const method of ['insert', 'delete', 'update', 'eq', 'select']) {
+    query[method] = () => query;
+  }
+  query.single = () =>
+    Promise.resolve({ data: { id: 'token-1' }, error: null });
+  query.then = (resolve: (value: unknown) => unknown) =>
+    resolve({ data: [], error: null });
+  return { from: () => query };
+}
+
+function createService(mocks: Mocks) {
+  const dep = (name: string) => mocks[name] ?? {};
+  const service = new AuthService(
+    fakeSupabase() as never,
+    dep('users') as never,
+    dep('profileDetails') as never,
+    dep('phoneVerification') as never,
+    dep('emailVerification') as never,
+    dep('passwords') as never,
+    dep('termsAcceptance') as never,
+    dep('idTokenVerifier') as never,
+    dep('sessions') as never,
+    dep('refreshTokens') as never,
+    dep('mail') as never,
+    dep('loginThrottle') as never,
+    dep('identities') as never,
+    dep('twoFactor') as never,
+    { invalidateUser: jest.fn(), invalidateTokenHash: jest.fn() } as never,
+    dep('magicLinks') as never,
+    dep('phoneLogin') as never,
+    dep('guests') as never,
+    dep('accountDeletion') as never,
+    dep('publicProfile') as never,
+    dep('familyProfiles') as never,
+    dep('roles') as never,
+    dep('clock') as never,
+    dep('securityEvents') as never,
+  );
+  return service;
+}
+
+describe('AuthService two-factor', () => {
+  const linkRequest = {
+    profileId: 'p1',
+    provider: 'google',
+    providerSub: 'google-sub',
+    email: 'ana@example.com',
+  };
+
+  function mocks(): Mocks {
+    return {
+      loginThrottle: {
+        guard: jest.fn((_scope, _subject, fn: () => Promise<unknown>) => fn()),
+      },
+      identities: {
+        getLinkRequest: jest.fn().mockResolvedValue(linkRequest),
+        hasEmailPassword: jest.fn().mockResolvedValue(true),
+        link: jest.fn().mockResolvedValue(undefined),
+        clearLinkRequest: jest.fn().mockResolvedValue(undefined),
+      },
+      passwords: { verifyPassword: jest.fn().mockResolvedValue(true) },
+      mail: { sendTemplate: jest.fn().mockResolvedValue(undefined) },
+      twoFactor: {
+        isEnabled: jest.fn().mockResolvedValue(true),
+        createPending: jest.fn().mockResolvedValue({
+          token: 'pending-token',
+          expiresAt: '2026-10-19T12:05:00.000Z',
+        }),
+        pendingProfileId: jest.fn().mockResolvedValue('p1'),
+        verifyPending: jest.fn().mockResolvedValue({
+          profileId: 'p1',
+          provider: 'local',
+          providerSub: 'p1',
+        }),
+      },
+      profileDetails: { getDetails: jest.fn().mockResolvedValue(null) },
+      phoneVerification: {
+        createPending: jest.fn().mockResolvedValue({
+          token: 'phone-token',
+          expiresAt: '2026-10-19T12:05:00.000Z',
+        }),
+      },
+      securityEvents: {
+        trackFailures: jest.fn((_type, _subject, fn: () => Promise<unknown>) =>
+          fn(),
+        ),
+      },
+    };
+  }
+
+  it('asks for the second factor when a link is proved with the password', async () => {
+    const deps = mocks();
+    const service = createService(deps);
+
+    const result = await service.confirmIdentityLink('link-token', {
+      password: 'secret',
+    });
+
+    expect(result).toMatchObject({
+      user: null,
+      requiresTwoFactor: true,
+      twoFactorPendingToken: 'pending-token',
+    });
+    expect(deps.twoFactor.createPending).toHaveBeenCalledWith(
+      'p1',
+      'google',
+      'google-sub',
+    );
+    expect(deps.identities.link).toHaveBeenCalledWith(linkRequest);
+  });
+
+  it('throttles TOTP guesses per profile, not per pending token', async () => {
+    const deps = mocks();
+    const service = createService(deps);
+
+    await service.verifyTwoFactor('pending-token', '123456');
+
+    expect(deps.loginThrottle.guard).toHaveBeenCalledWith(
+      'two-factor',
+      expect.objectContaining({ identity: 'profile:p1' }),
+      expect.any(Function),
+    );
+  });
+});
@@ -1,21 +1,20 @@
 // src/auth/auth.service.ts
+import { randomUUID } from 'crypto';
 import {
   Inject,
   Injectable,
   UnauthorizedException,
   InternalServerErrorException,
   BadRequestException,
+  ConflictException,
   Logger,
 } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
 import { SB_ADMIN } from '../supabase/module';
 import { UsersService } from '../users/users.service';
-import { base64UrlDecode } from '../common/utils/base64url';
-import {
-  generateOpaqueToken,
-  hashToken,
-  utcTimestampPlusMinutes,
-} from '../common/utils/token';
+import { generateOpaqueToken, hashToken } from '../common/utils/token';
+import { issueDeviceId } from '../common/utils/device-id';
+import { TrustedTimeService } from '../trusted-time/trusted-time.service';
 import {
   ProfileDetails,
   ProfileDetailsService,
@@ -24,10 +23,39 @@ import { PhoneVerificationService } from './phone-verification.service';
 import { EmailVerificationService } from './email-verification.service';
 import { PasswordsService } from './passwords.service';
 import { TermsAcceptanceService } from './terms-acceptance.service';
-
-const SESSION_TTL_MINUTES = 60;
+import { IdTokenVerifierService } from './id-token/id-token-verifier.service';
+import {
+  EXTERNAL_PROVIDERS,
+  ExternalProvider,
+} from './id-token/provider-configs';
+import { SessionsService } from './sessions.service';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { MailService } from '../mail/mail.service';
+import { LoginThrottleService } from './login-throttle.service';
+import {
+  IdentitiesService,
+  IdentityLinkRequest,
+  providerLabelFor,
+} from './identities.service';
+import { TwoFactorService } from './two-factor/two-factor.service';
+import { SessionCacheService } from './session-cache.service';
+import { MagicLinkService } from './magic-link.service';
+import { PhoneLoginService } from './phone-login.service';
+import { GuestService } from './guest.service';
+import { GUEST_PROVIDER } from './guest-scope';
+import { AccountDeletionService } from './account-deletion.service';
+import { PublicProfileService } from './public-profile.service';
+import { FamilyProfilesService } from './family-profiles.service';
+import { RolesService } from '../roles/roles.service';
+import { SecurityAlertEvent } from '../mail/email-templates';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import type { ClientContext } from '../common/utils/client-context';
+
+const ACCESS_TOKEN_TTL_MINUTES = 15;
+// Janela em que o access token anterior continua válido após um refresh,
+// para que requisições Range de um áudio em reprodução não sejam cortadas.
+const ACCESS_TOKEN_GRACE_SECONDS = 120;
 const AUTH_FLOW_TTL_MINUTES = 5;
-type ExternalProvider = 'google' | 'apple' | 'microsoft';
 const PROVIDER_NAME_FIELDS: Record<ExternalProvider, string[]> = {
   google: ['name', 'given_name'],
   apple: ['name'],
@@ -46,55 +74,63 @@ export class AuthService {
     private readonly emailVerification: EmailVerificationService,
     private readonly passwords: PasswordsService,
     private readonly termsAcceptance: TermsAcceptanceService,
+    private readonly idTokenVerifier: IdTokenVerifierService,
+    private readonly sessions: SessionsService,
+    private readonly refreshTokens: RefreshTokensService,
+    private readonly mail: MailService,
+    private readonly loginThrottle: LoginThrottleService,
+    private readonly identities: IdentitiesService,
+    private readonly twoFactor: TwoFactorService,
+    private readonly sessionCache: SessionCacheService,
+    private readonly magicLinks: MagicLinkService,
+    private readonly phoneLogin: PhoneLoginService,
+    private readonly guests: GuestService,
+    private readonly accountDeletion: AccountDeletionService,
+    private readonly publicProfile: PublicProfileService,
+    private readonly familyProfiles: FamilyProfilesService,
+    private readonly roles: RolesService,
+    private readonly clock: TrustedTimeService,
+    private readonly securityEvents: SecurityEventsService,
   ) {}
 
-  // === helpers ===
-  private decodeIdTokenUnsafe(idToken: string, provider?: string): any {
-    const parts = idToken.split('.');
-    if (parts.length < 2)
-      throw new BadRequestException('Formato de id_token inválido.');
-    const payloadJson = base64UrlDecode(parts[1]);
-    try {
-      return JSON.parse(payloadJson);
-    } catch (err) {
-      const trimmed = payloadJson.trim();
-      const lastBrace = trimmed.lastIndexOf('}');
-      if (lastBrace >= 0) {
-        const candidate = trimmed.slice(0, lastBrace + 1);
-        try {
-          return JSON.parse(candidate);
-        } catch {
-          // segue para erro padrão
-        }
-      }
-      const label = provider ? ` do ${provider}` : '';
-      throw new BadRequestException(
-        `Claims inválidas${label}: formato JSON inesperado.`,
-      );
-    }
-  }
-
-  async loginWithProvider(provider: string, idToken: string) {
+  async loginWithProvider(
+    provider: string,
+    idToken: string,
+    nonce?: string,
+    client?: ClientContext,
+  ) {
     const normalizedProvider = String(provider).trim().toLowerCase();
     if (!normalizedProvider) {
       throw new BadRequestException('Provider ausente.');
     }
     switch (normalizedProvider) {
       case 'google':
-        return this.googleLogin(idToken);
+        return this.googleLogin(idToken, nonce, client);
       case 'apple':
-        return this.appleLogin(idToken);
+        return this.appleLogin(idToken, nonce, client);
       case 'microsoft':
-        return this.microsoftLogin(idToken);
+        return this.microsoftLogin(idToken, nonce, client);
       default:
         throw new BadRequestException(`Provider ${provider} não suportado.`);
     }
   }
 
-  async loginWithEmail(emailRaw: string, password: string) {
+  async loginWithEmail(
+    emailRaw: string,
+    password: string,
+    client?: ClientContext,
+  ) {
     const email = this.normalizeEmail(emailRaw);
     if (!email) throw new BadRequestException('Email inválido.');
 
+    const throttle = { identity: email, client };
+    try {
+      await this.loginThrottle.assertAllowed('email-login', throttle);
+    } catch (err) {
+      this.recordPasswordLoginFailure(null, client, 'blocked');
+      throw err;
+    }
+
     const { data: profile, error } = await this.supabase
       .from('profiles')
       .select('id, provider, name')
@@ -105,9 +141,17 @@ export class AuthService {
       throw new InternalServerErrorException(
         `Falha ao consultar perfil: ${error.message}`,
       );
-    if (!profile || !profile.id)
+    if (!profile || !profile.id) {
+      await this.loginThrottle.recordFailure('email-login', throttle);
+      this.recordPasswordLoginFailure(null, client);
       throw new UnauthorizedException('Email ou senha inválidos.');
-    if (profile.provider && profile.provider !== 'local') {
+    }
+    const hasPassword = await this.identities.hasEmailPassword({
+      id: String(profile.id),
+      email,
+      provider: profile.provider,
+    });
+    if (!hasPassword) {
       throw new UnauthorizedException(
         'Este email está vinculado a outro método de login.',
       );
@@ -117,43 +161,21 @@ export class AuthService {
       String(profile.id),
       password,
     );
-    if (!passwordOk)
+    if (!passwordOk) {
+      // Só contas existentes recebem o alerta de tentativas suspeitas
+      await this.loginThrottle.recordFailure('email-login', {
+        ...throttle,
+        alertEmail: email,
+      });
+      this.recordPasswordLoginFailure(String(profile.id), client);
       throw new UnauthorizedException('Email ou senha inválidos.');
-
-    const details = await this.profileDetails.getDetails(String(profile.id));
-    const provider = 'local';
-    const providerSub = String(profile.id);
-
-    if (!details || !details.phone) {
-      const pending = await this.phoneVerification.createPending(
-        String(profile.id),
-        provider,
-        providerSub,
-      );
-      await this.registerAuthFlowToken(
-        pending.token,
-        String(profile.id),
-        provider,
-        providerSub,
-        pending.expiresAt,
-      );
-      return {
-        user: null,
-        requiresPhone: true,
-        pendingToken: pending.token,
-        pendingTokenExpiresAt: pending.expiresAt,
-      };
     }
+    await this.loginThrottle.recordSuccess('email-login', throttle);
 
-    return this.issueSession(
-      String(profile.id),
-      provider,
-      providerSub,
-      details,
-    );
+    return this.continueFirstFactorLogin(String(profile.id), client);
   }
 
-  async requestEmailRegistration(emailRaw: string) {
+  async requestEmailRegistration(emailRaw: string, languageHint?: string) {
     const email = this.normalizeEmail(emailRaw);
     if (!email) throw new BadRequestException('Email inválido.');
 
@@ -171,11 +193,21 @@ export class AuthService {
       throw new BadRequestException('Email já cadastrado.');
     }
 
-    return this.emailVerification.request(email);
+    return this.emailVerification.request(email, languageHint);
   }
 
-  async verifyEmailRegistration(pendingToken: string, code: string) {
-    return this.emailVerification.verifyCode(pendingToken, code);
+  async verifyEmailRegistration(
+    pendingToken: string,
+    code: string,
+    client?: ClientContext,
+  ) {
+    return this.trackLoginFailures('email-code', client, () =>
+      this.loginThrottle.guard(
+        'email-verify',
+        { identity: hashToken(pendingToken ?? ''), client },
+        () => this.emailVerification.verifyCode(pendingToken, code),
+      ),
+    );
   }
 
   async completeEmailRegistration(input: {
@@ -218,6 +250,12 @@ export class AuthService {
       throw new InternalServerErrorException('Perfil não criado.');
 
     await this.passwords.setPassword(String(profile.id), input.password);
+    await this.identities.link({
+      profileId: String(profile.id),
+      provider: 'email-password',
+      providerSub: String(profile.id),
+      email,
+    });
 
     const pending = await this.phoneVerification.createPending(
       String(profile.id),
@@ -257,7 +295,12 @@ export class AuthService {
       throw new BadRequestException(
         'Nenhuma conta encontrada para este email.',
       );
-    if (profile.provider && profile.provider !== 'local') {
+    const hasPassword = await this.identities.hasEmailPassword({
+      id: String(profile.id),
+      email,
+      provider: profile.provider,
+    });
+    if (!hasPassword) {
       throw new BadRequestException(
         'Este email está vinculado a outro método de login.',
       );
@@ -266,15 +309,26 @@ export class AuthService {
     return this.emailVerification.requestReset(email);
   }
 
-  async verifyPasswordReset(pendingToken: string, code: string) {
-    return this.emailVerification.verifyResetCode(pendingToken, code);
+  async verifyPasswordReset(
+    pendingToken: string,
+    code: string,
+    client?: ClientContext,
+  ) {
+    return this.loginThrottle.guard(
+      'reset-verify',
+      { identity: hashToken(pendingToken ?? ''), client },
+      () => this.emailVerification.verifyResetCode(pendingToken, code),
+    );
   }
 
-  async completePasswordReset(input: {
-    resetToken: string;
-    password: string;
-    name?: string | null;
-  }) {
+  async completePasswordReset(
+    input: {
+      resetToken: string;
+      password: string;
+      name?: string | null;
+    },
+    client?: ClientContext,
+  ) {
     const payload = await this.emailVerification.consumeResetToken(
       input.resetToken,
     );
@@ -291,7 +345,12 @@ export class AuthService {
         `Falha ao consultar perfil: ${error.message}`,
       );
     if (!profile?.id) throw new BadRequestException('Conta não localizada.');
-    if (profile.provider && profile.provider !== 'local') {
+    const hasPassword = await this.identities.hasEmailPassword({
+      id: String(profile.id),
+      email,
+      provider: profile.provider,
+    });
+    if (!hasPassword) {
       throw new BadRequestException(
         'Este email está vinculado a outro método de login.',
       );
@@ -305,62 +364,382 @@ export class AuthService {
     }
 
     await this.passwords.setPassword(String(profile.id), input.password);
+    void this.securityEvents.record({
+      type: 'password.reset',
+      outcome: 'success',
+      profileId: String(profile.id),
+      client,
+    });
+    void this.mail.sendTemplate(
+      { email, profileId: String(profile.id) },
+      'security-alert',
+      {
+        event: 'password-changed',
+        occurredAt: new Date().toISOString(),
+        device: client?.deviceLabel ?? client?.userAgent ?? null,
+        ip: client?.ip ?? null,
+      },
+    );
 
-    const details = await this.profileDetails.getDetails(String(profile.id));
-    if (!details || !details.phone) {
-      const pending = await this.phoneVerification.createPending(
-        String(profile.id),
-        'local',
-        String(profile.id),
+    return this.continueFirstFactorLogin(String(profile.id), client);
+  }
+
+  async requestMagicLink(
+    emailRaw: string,
+    deviceId: string,
+    languageHint?: string,
+    client?: ClientContext,
+  ) {
+    const email = this.normalizeEmail(emailRaw);
+    if (!email) throw new BadRequestException('Email inválido.');
+
+    return this.trackLoginFailures('magic-link', client, () =>
+      this.loginThrottle.guard('magic-link', { identity: email, client }, () =>
+        this.magicLinks.request({ email, deviceId, languageHint, client }),
+      ),
+    );
+  }
+
+  async describeMagicLink(linkToken: string) {
+    return this.magicLinks.describe(linkToken);
+  }
+
+  async approveMagicLink(linkToken: string, client?: ClientContext) {
+    return this.trackLoginFailures('magic-link', client, () =>
+      this.loginThrottle.guard(
+        'magic-link',
+        { identity: hashToken(linkToken ?? ''), client },
+        () => this.magicLinks.approve(linkToken, client),
+      ),
+    );
+  }
+
+  /**
+   * Aprovado o link, o aparelho que pediu segue o mesmo caminho do login
+   * por senha (2FA, telefone e termos). Email sem conta cria o perfil.
+   */
+  async pollMagicLink(
+    pollToken: string,
+    deviceId: string,
+    waitSeconds: number,
+    client?: ClientContext,
+  ) {
+    const result = await this.trackLoginFailures('magic-link', client, () =>
+      this.loginThrottle.guard(
+        'magic-link',
+        { identity: hashToken(pollToken ?? ''), client },
+        () => this.magicLinks.poll(pollToken, deviceId, waitSeconds * 1000),
+      ),
+    );
+    if (result.status === 'pending') {
+      return { approved: false, expiresAt: result.expiresAt };
+    }
+
+    const { data: existing, error } = await this.supabase
+      .from('profiles')
+      .select('id')
+      .eq('email', result.email)
+      .maybeSingle();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar perfil: ${error.message}`,
       );
+
+    let profileId = existing?.id ? String(existing.id) : null;
+    if (!profileId) {
+      const { data: profile, error: insertError } = await this.supabase
+        .from('profiles')
+        .insert({ email: result.email, name: null, provider: 'magic-link' })
+        .select('id')
+        .single();
+      if (insertError)
+        throw new InternalServerErrorException(
+          `Falha ao criar perfil: ${insertError.message}`,
+        );
+      if (!profile?.id)
+        throw new InternalServerErrorException('Perfil não criado.');
+      profileId = String(profile.id);
+      await this.identities.link({
+        profileId,
+        provider: 'magic-link',
+        providerSub: result.email,
+        email: result.email,
+      });
+    }
+
+    const next = await this.continueFirstFactorLogin(
+      profileId,
+      client,
+      'magic-link',
+    );
+    return { approved: true, ...next };
+  }
+
+  async requestPhoneLogin(input: {
+    phone: string;
+    machineCode: string;
+    language?: string;
+  }) {
+    return this.phoneLogin.request(input);
+  }
+
+  /**
+   * Login pelo telefone. Número sem conta cria o perfil já com o telefone
+   * verificado; perfis sem email passam pelo passo de email antes da sessão.
+   */
+  async verifyPhoneLogin(
+    input: { loginToken: string; code: string; machineCode: string },
+    client?: ClientContext,
+  ) {
+    const verified = await this.trackLoginFailures('phone', client, () =>
+      this.loginThrottle.guard(
+        'phone-login',
+        { identity: hashToken(input.loginToken ?? ''), client },
+        () => this.phoneLogin.verify(input),
+      ),
+    );
+
+    const profileId =
+      (await this.users.findIdByPhone(verified.phone)) ??
+      (await this.createPhoneProfile(verified));
+
+    const profile = await this.loadProfileBasics(profileId);
+    if (!profile.email) {
+      const pending = await this.phoneLogin.createEmailStep(profileId);
       await this.registerAuthFlowToken(
         pending.token,
-        String(profile.id),
-        'local',
-        String(profile.id),
+        profileId,
+        'phone',
+        profileId,
         pending.expiresAt,
       );
       return {
         user: null,
-        requiresPhone: true,
-        pendingToken: pending.token,
-        pendingTokenExpiresAt: pending.expiresAt,
+        requiresPhone: false,
+        requiresEmail: true,
+        emailPendingToken: pending.token,
+        emailPendingTokenExpiresAt: pending.expiresAt,
       };
     }
 
-    return this.issueSession(
-      String(profile.id),
-      'local',
-      String(profile.id),
-      details,
+    return this.continueFirstFactorLogin(profileId, client, 'phone');
+  }
+
+  /**
+   * Cria o perfil e reserva o telefone em `profile_identities` no mesmo
+   * passo. Dois primeiros logins simultâneos com o mesmo número ficam com o
+   * perfil de quem reservou antes; o perfil do outro é descartado.
+   */
+  private async createPhoneProfile(verified: {
+    phone: string;
+    language: string;
+  }) {
+    const { data: profile, error } = await this.supabase
+      .from('profiles')
+      .insert({ email: null, name: null, provider: 'phone' })
+      .select('id')
+      .single();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao criar perfil: ${error.message}`,
+      );
+    if (!profile?.id)
+      throw new InternalServerErrorException('Perfil não criado.');
+    const createdId = String(profile.id);
+
+    const ownerId = await this.identities.claim({
+      profileId: createdId,
+      provider: 'phone',
+      providerSub: verified.phone,
+      email: null,
+    });
+    if (ownerId !== createdId) {
+      const { error: deleteError } = await this.supabase
+        .from('profiles')
+        .delete()
+        .eq('id', createdId);
+      if (deleteError)
+        this.logger.warn(
+          `Falha ao descartar perfil duplicado ${createdId}: ${deleteError.message}`,
+        );
+      return ownerId;
+    }
+
+    await this.profileDetails.saveDetails(createdId, {
+      phone: verified.phone,
+      language: verified.language,
+    });
+    return createdId;
+  }
+
+  async requestPhoneLoginEmail(
+    pendingToken: string,
+    emailRaw: string,
+    languageHint?: string,
+  ) {
+    const step = await this.phoneLogin.getEmailStep(pendingToken);
+    const email = this.normalizeEmail(emailRaw);
+    if (!email) throw new BadRequestException('Email inválido.');
+
+    // Email de outra conta só é recusado depois do código, para quem
+    // comprovou ser dono do endereço: a resposta aqui é sempre a mesma
+    const pending = await this.emailVerification.request(email, languageHint);
+    await this.phoneLogin.attachEmailToken(step, pending.token);
+    return {
+      emailToken: pending.token,
+      expiresAt: pending.expiresAt,
+      delivery: pending.delivery,
+    };
+  }
+
+  async confirmPhoneLoginEmail(
+    input: { pendingToken: string; emailToken: string; code: string },
+    client?: ClientContext,
+  ) {
+    const step = await this.phoneLogin.getEmailStep(input.pendingToken);
+    if (step.emailTokenHash !== hashToken(String(input.emailToken ?? ''))) {
+      throw new BadRequestException(
+        'Verificação de email não pertence a este login.',
+      );
+    }
+
+    const verified = await this.trackLoginFailures(
+      'email-code',
+      client,
+      () =>
+        this.loginThrottle.guard(
+          'email-verify',
+          { identity: hashToken(input.emailToken), client },
+          () => this.emailVerification.verifyCode(input.emailToken, input.code),
+        ),
+      step.profileId,
     );
+    const { email } = await this.emailVerification.consumeRegisterToken(
+      verified.registerToken,
+    );
+
+    const { error } = await this.supabase
+      .from('profiles')
+      .update({ email })
+      .eq('id', step.profileId);
+    if (error) {
+      if (error.code === '23505') {
+        throw new ConflictException('Email já cadastrado.');
+      }
+      throw new InternalServerErrorException(
+        `Falha ao salvar email: ${error.message}`,
+      );
+    }
+
+    await this.phoneLogin.clearEmailStep(step);
+    await this.revokeToken(input.pendingToken);
+    return this.continueFirstFactorLogin(step.profileId, client, 'phone');
   }
 
-  async googleLogin(idToken: string) {
-    return this.externalProviderLogin('google', idToken);
+  /**
+   * Sessão anônima com escopo restrito e sem refresh token. Os dados do
+   * convidado são levados para a conta em /auth/guest/merge.
+   */
+  async startGuestSession(client?: ClientContext) {
+    const profileId = await this.guests.createProfile(client);
+    const { clear: tokenClear, hash: tokenHash } = generateOpaqueToken(32);
+    const { expiresAt } = await this.persistTokenRecord({
+      tokenHash,
+      userId: profileId,
+      provider: GUEST_PROVIDER,
+      providerSub: profileId,
+      permission: true,
+      expiresAt: this.clock.plusMinutes(this.guests.sessionTtlMinutes),
+      client,
+    });
+    return {
+      sessionToken: tokenClear,
+      expiresAt,
+      guest: true,
+      limits: this.guests.limits,
+    };
   }
 
-  async appleLogin(idToken: string) {
-    return this.externalProviderLogin('apple', idToken);
+  async mergeGuestSession(profileId: string, guestToken: string) {
+    return this.guests.mergeInto(guestToken, profileId);
   }
 
-  async microsoftLogin(idToken: string) {
-    return this.externalProviderLogin('microsoft', idToken);
+  /**
+   * Perfil completo para `GET /auth/me`: dados públicos, preferências,
+   * papéis, métodos de login vinculados e assinatura. `profileId` é o perfil
+   * ativo da sessão; telefone, termos, identidades e assinatura são sempre
+   * da conta (`accountId`).
+   */
+  async getCurrentUser(profileId: string, accountId: string = profileId) {
+    const user = await this.users.getById(profileId);
+    if (!user) throw new UnauthorizedException('Sessão inválida.');
+
+    const [profile, details, roles, identities, subscription, family] =
+      await Promise.all([
+        this.publicProfile.getProfile(profileId),
+        this.profileDetails.getDetails(accountId),
+        this.roles.getRoles(profileId),
+        this.identities.list(accountId),
+        this.users.getSubscription(accountId),
+        profileId === accountId
+          ? null
+          : this.familyProfiles.get(accountId, profileId),
+      ]);
+
+    return {
+      userId: user.id,
+      accountId,
+      provider: user.provider,
+      guest: user.provider === GUEST_PROVIDER,
+      email: user.email,
+      emailVerified: user.emailVerified,
+      phone: details?.phone ?? null,
+      name: user.name,
+      bio: profile?.bio ?? null,
+      // Avatar enviado pelo usuário tem precedência sobre a foto do provedor
+      avatarUrl: profile?.avatarUrl ?? user.picture,
+      preferences: {
+        language:
+          family?.language ??
+          this.profileDetails.normalizeLanguage(details?.language),
+        genres: profile?.genres ?? [],
+        maturity: family?.maturity ?? 'adult',
+      },
+      acceptedTerms: details?.acceptedTerms ?? false,
+      roles,
+      identities,
+      subscription,
+    };
+  }
+
+  async googleLogin(idToken: string, nonce?: string, client?: ClientContext) {
+    return this.externalProviderLogin('google', idToken, nonce, client);
+  }
+
+  async appleLogin(idToken: string, nonce?: string, client?: ClientContext) {
+    return this.externalProviderLogin('apple', idToken, nonce, client);
+  }
+
+  async microsoftLogin(
+    idToken: string,
+    nonce?: string,
+    client?: ClientContext,
+  ) {
+    return this.externalProviderLogin('microsoft', idToken, nonce, client);
   }
 
   private async externalProviderLogin(
     provider: ExternalProvider,
     idToken: string,
+    nonce?: string,
+    client?: ClientContext,
   ) {
-    // 1) claims (aqui simulado; no real, use this.users.verifyGoogleIdToken)
-    const claims = this.decodeIdTokenUnsafe(idToken, provider);
-    if (!claims?.email || !claims?.sub) {
-      throw new BadRequestException(`Claims inválidas do ${provider}.`);
-    }
-
-    const user = await Promise.resolve(
-      this.upsertUserByProvider(provider, claims),
+    // 1) claims verificadas (assinatura via JWKS, iss, aud, exp/iat, nonce)
+    const claims = await this.trackLoginFailures(provider, client, () =>
+      this.idTokenVerifier.verify(provider, idToken, { nonce }),
     );
+
+    const user = this.users.fromProviderClaims(provider, claims);
     const email = String(user.email).toLowerCase();
     const providerLabel = user.provider ?? provider;
     const providerSub = user.providerSub ?? String(claims.sub ?? '');
@@ -373,50 +752,232 @@ export class AuthService {
         'Identificador do provider ausente.',
       );
     }
-    // 2) Checar se já existe um perfil com outro provider
-    const { data: existingProfile, error: selectErr } = await this.supabase
-      .from('profiles')
-      .select('email, provider')
-      .eq('email', email)
-      .maybeSingle();
+    // 2) Identidade já vinculada a um perfil?
+    const identity = await this.identities.findBySubject(provider, providerSub);
+    let profileId: string;
+    if (identity) {
+      profileId = identity.profileId;
+      this.identities.touch(identity.id);
+    } else {
+      const { data: existingProfile, error: selectErr } = await this.supabase
+        .from('profiles')
+        .select('id, provider')
+        .eq('email', email)
+        .maybeSingle();
 
-    if (selectErr)
-      throw new InternalServerErrorException(
-        `Falha ao consultar profiles: ${selectErr.message}`,
+      if (selectErr)
+        throw new InternalServerErrorException(
+          `Falha ao consultar profiles: ${selectErr.message}`,
+        );
+
+      if (existingProfile) {
+        // 3) Email já pertence a uma conta: só entra direto se for a
+        //    identidade original de um perfil anterior a profile_identities
+        const candidate = { provider, providerSub, email };
+        const adopted = await this.identities.adoptLegacyIdentity(
+          {
+            id: String(existingProfile.id),
+            provider: existingProfile.provider,
+          },
+          candidate,
+        );
+        if (!adopted) {
+          const link = await this.identities.createLinkRequest({
+            ...candidate,
+            profileId: String(existingProfile.id),
+          });
+          return {
+            user: null,
+            requiresPhone: false,
+            requiresLink: true,
+            linkToken: link.linkToken,
+            linkTokenExpiresAt: link.expiresAt,
+            linkMethods: link.methods,
+          };
+        }
+        profileId = String(existingProfile.id);
+      } else {
+        // 4) Conta nova
+        const { data: profile, error: insertErr } = await this.supabase
+          .from('profiles')
+          .insert({ email, name: profileName ?? null, provider: providerLabel })
+          .select('id')
+          .single();
+
+        if (insertErr)
+          throw new InternalServerErrorException(
+            `Falha ao salvar profile: ${insertErr.message}`,
+          );
+        profileId = String(profile.id);
+        await this.identities.link({ profileId, provider, providerSub, email });
+      }
+    }
+
+    await this.users.saveProviderClaims(profileId, {
+      ...user,
+      name: profileName || undefined,
+    });
+    return this.continueLogin(profileId, providerLabel, providerSub, client);
+  }
+
+  /**
+   * Conclui a vinculação iniciada em um login externo. A identidade nova já
+   * foi verificada; aqui o usuário comprova o acesso à conta existente com a
+   * senha ou com o id_token de um provider já vinculado.
+   */
+  async confirmIdentityLink(
+    linkToken: string,
+    proof: {
+      password?: string;
+      provider?: string;
+      idToken?: string;
+      nonce?: string;
+    },
+    client?: ClientContext,
+  ) {
+    const request = await this.loginThrottle.guard(
+      'identity-link',
+      { identity: hashToken(linkToken ?? ''), client },
+      async () => {
+        const pending = await this.identities.getLinkRequest(linkToken);
+        await this.assertLinkProof(pending, proof);
+        return pending;
+      },
+    );
+
+    await this.identities.link(request);
+    await this.identities.clearLinkRequest(linkToken);
+    void this.mail.sendTemplate(
+      { email: request.email, profileId: request.profileId },
+      'security-alert',
+      {
+        event: 'login-method-linked',
+        occurredAt: new Date().toISOString(),
+        device: client?.deviceLabel ?? client?.userAgent ?? null,
+        ip: client?.ip ?? null,
+      },
+    );
+
+    // A senha é um primeiro fator: com 2FA ativo a sessão espera o código
+    if (proof.password) {
+      return this.continueFirstFactorLogin(
+        request.profileId,
+        client,
+        providerLabelFor(request.provider),
+        request.providerSub,
       );
+    }
+    return this.continueLogin(
+      request.profileId,
+      providerLabelFor(request.provider),
+      request.providerSub,
+      client,
+    );
+  }
 
-    if (existingProfile && existingProfile.provider !== providerLabel) {
+  private async assertLinkProof(
+    request: IdentityLinkRequest,
+    proof: {
+      password?: string;
+      provider?: string;
+      idToken?: string;
+      nonce?: string;
+    },
+  ) {
+    if (proof.password) {
+      const hasPassword = await this.identities.hasEmailPassword({
+        id: request.profileId,
+        email: request.email,
+      });
+      if (
+        hasPassword &&
+        (await this.passwords.verifyPassword(request.profileId, proof.password))
+      )
+        return;
+      throw new UnauthorizedException('Senha inválida.');
+    }
+
+    if (proof.idToken && proof.provider) {
+      const provider = String(proof.provider)
+        .trim()
+        .toLowerCase() as ExternalProvider;
+      if (!EXTERNAL_PROVIDERS.includes(provider)) {
+        throw new BadRequestException(
+          `Provider ${proof.provider} não suportado.`,
+        );
+      }
+      const claims = await this.idTokenVerifier.verify(
+        provider,
+        proof.idToken,
+        { nonce: proof.nonce },
+      );
+      const linked = await this.identities.findBySubject(
+        provider,
+        String(claims.sub),
+      );
+      if (linked?.profileId === request.profileId) return;
       throw new UnauthorizedException(
-        'esse email está registrad com outro provider.',
+        'Esta identidade não pertence à conta a ser vinculada.',
       );
     }
 
-    // 3) Upsert do profile (idempotente)
-    const { data: profile, error: upsertErr } = await this.supabase
-      .from('profiles')
-      .upsert(
-        { email, name: profileName ?? null, provider: providerLabel },
-        { onConflict: 'email' },
-      )
-      .select('id') // <- Aqui pedimos explicitamente o id
-      .single();
+    throw new BadRequestException(
+      'Informe a senha ou o id_token de um método já vinculado.',
+    );
+  }
 
-    if (upsertErr)
-      throw new InternalServerErrorException(
-        `Falha ao salvar profile: ${upsertErr.message}`,
+  /**
+   * Primeiro fator concluído (senha, link ou telefone): com 2FA ativo, a
+   * sessão só é emitida depois do código em /auth/2fa/verify.
+   */
+  private async continueFirstFactorLogin(
+    profileId: string,
+    client?: ClientContext,
+    providerLabel = 'local',
+    providerSub = profileId,
+  ) {
+    if (await this.twoFactor.isEnabled(profileId)) {
+      const pending = await this.twoFactor.createPending(
+        profileId,
+        providerLabel,
+        providerSub,
       );
+      await this.registerAuthFlowToken(
+        pending.token,
+        profileId,
+        providerLabel,
+        providerSub,
+        pending.expiresAt,
+      );
+      return {
+        user: null,
+        requiresPhone: false,
+        requiresTwoFactor: true,
+        twoFactorPendingToken: pending.token,
+        twoFactorPendingTokenExpiresAt: pending.expiresAt,
+      };
+    }
 
-    const details = await this.profileDetails.getDetails(profile.id);
+    return this.continueLogin(profileId, providerLabel, providerSub, client);
+  }
+
+  private async continueLogin(
+    profileId: string,
+    providerLabel: string,
+    providerSub: string,
+    client?: ClientContext,
+  ) {
+    const details = await this.profileDetails.getDetails(profileId);
 
     if (!details || !details.phone) {
       const pending = await this.phoneVerification.createPending(
-        profile.id,
+        profileId,
         providerLabel,
         providerSub,
       );
       await this.registerAuthFlowToken(
         pending.token,
-        String(profile.id),
+        profileId,
         providerLabel,
         providerSub,
         pending.expiresAt,
@@ -429,7 +990,13 @@ export class AuthService {
       };
     }
 
-    return this.issueSession(profile.id, providerLabel, providerSub, details);
+    return this.issueSession(
+      profileId,
+      providerLabel,
+      providerSub,
+      details,
+      client,
+    );
   }
 
   async verifySessionToken(tokenClear: string) {
@@ -462,29 +1029,39 @@ export class AuthService {
     return { email, provider: row.provider, providerSub: row.provider_sub };
   }
 
-  async refreshSessionToken(tokenClear: string) {
-    if (!tokenClear) throw new UnauthorizedException('Token ausente.');
-    const tokenHash = hashToken(tokenClear);
+  async refreshSessionToken(refreshClear: string, client?: ClientContext) {
+    if (!refreshClear)
+      throw new UnauthorizedException('Refresh token ausente.');
+
+    const record = await this.refreshTokens.inspect(refreshClear);
 
     const { data: current, error } = await this.supabase
       .from('tokens')
-      .select('id,user_id,provider,provider_sub,expires_at,revoked_at')
-      .eq('token_hash', tokenHash)
+      .select(
+        'id,user_id,provider,provider_sub,token_hash,device_label,platform,user_agent',
+      )
+      .eq('id', record.sessionId)
       .maybeSingle();
 
     if (error)
       throw new InternalServerErrorException(
-        `Falha ao consultar token: ${error.message}`,
+        `Falha ao consultar sessão: ${error.message}`,
+      );
+    if (!current || String(current.user_id) !== record.userId) {
+      await this.refreshTokens.revokeFamily(record.familyId, record.userId);
+      void this.securityEvents.record({
+        type: 'token.refresh',
+        outcome: 'failure',
+        profileId: record.userId,
+        client,
+        metadata: { reason: 'session-ended' },
+      });
+      throw new UnauthorizedException(
+        'Sessão encerrada. Faça login novamente.',
       );
-    if (!current) throw new UnauthorizedException('Token inválido.');
-    if (current.revoked_at) throw new UnauthorizedException('Token revogado.');
-    if (!current.expires_at || new Date(current.expires_at) <= new Date()) {
-      throw new UnauthorizedException('Token expirado.');
     }
 
-    const details = await this.profileDetails.getDetails(
-      String(current.user_id),
-    );
+    const details = await this.profileDetails.getDetails(record.userId);
     if (!details || !details.phone) {
       throw new UnauthorizedException('Perfil incompleto.');
     }
@@ -498,7 +1075,7 @@ export class AuthService {
           : '';
 
     const pendingTerms = await this.maybeRequireTermsAcceptance(
-      String(current.user_id),
+      record.userId,
       provider,
       providerSub,
       details,
@@ -507,33 +1084,58 @@ export class AuthService {
       return pendingTerms;
     }
 
-    const { clear: newTokenClear, hash: newTokenHash } =
-      generateOpaqueToken(32);
-    const expiresAt = await this.persistTokenRecord({
-      tokenHash: newTokenHash,
-      userId: String(current.user_id),
-      provider: current.provider,
-      providerSub: current.provider_sub,
-      permission: true,
-      consumeTokenHash: tokenHash,
-    });
+    await this.refreshTokens.markRotated(record);
+
+    const { clear: accessClear, hash: accessHash } = generateOpaqueToken(32);
+    const expiresAt = this.clock.plusMinutes(ACCESS_TOKEN_TTL_MINUTES);
+    const now = new Date();
+    const graceUntil = new Date(
+      now.getTime() + ACCESS_TOKEN_GRACE_SECONDS * 1000,
+    ).toISOString();
 
-    this.scheduleTokenDeletion(String(current.id), 60_000);
+    const { error: updateError } = await this.supabase
+      .from('tokens')
+      .update({
+        token_hash: accessHash,
+        expires_at: expiresAt,
+        previous_token_hash: current.token_hash ?? null,
+        previous_token_expires_at: graceUntil,
+        device_label: client?.deviceLabel ?? current.device_label ?? null,
+        platform: client?.platform ?? current.platform ?? null,
+        user_agent: client?.userAgent ?? current.user_agent ?? null,
+        ip: client?.ip ?? null,
+        last_seen_at: now.toISOString(),
+      })
+      .eq('id', current.id);
 
-    const profile = await this.loadProfileBasics(String(current.user_id));
+    if (updateError)
+      throw new InternalServerErrorException(
+        `Falha ao renovar sessão: ${updateError.message}`,
+      );
+    // o token anterior passa a valer só até o fim da janela de tolerância
+    this.sessionCache.invalidateTokenId(current.id);
 
-    return {
-      sessionToken: newTokenClear,
-      expiresAt,
-      user: {
-        email: profile.email,
-        name: profile.name,
-        phone: details.phone,
-        language: details.language,
-        genre: details.genre,
-      },
-      requiresPhone: false,
-    };
+    const refresh = await this.refreshTokens.issue({
+      userId: record.userId,
+      sessionId: String(current.id),
+      familyId: record.familyId,
+    });
+
+    const profile = await this.loadProfileBasics(record.userId);
+    void this.securityEvents.record({
+      type: 'token.refresh',
+      outcome: 'success',
+      profileId: record.userId,
+      client,
+      metadata: { sessionId: String(current.id) },
+    });
+
+    return this.buildSessionResponse(
+      { accessToken: accessClear, expiresAt, ...refresh },
+      profile,
+      details,
+      client,
+    );
   }
 
   async requestPhoneVerification(input: {
@@ -545,29 +1147,131 @@ export class AuthService {
     return this.phoneVerification.requestCode(input);
   }
 
-  async verifyPhoneCode(input: {
-    pendingToken: string;
-    machineCode: string;
-    code: string;
-  }) {
-    const result = await this.phoneVerification.verifyCode(input);
+  async verifyPhoneCode(
+    input: {
+      pendingToken: string;
+      machineCode: string;
+      code: string;
+    },
+    client?: ClientContext,
+  ) {
+    const result = await this.trackLoginFailures('phone-code', client, () =>
+      this.loginThrottle.guard(
+        'phone-verify',
+        { identity: hashToken(input.pendingToken ?? ''), client },
+        () => this.phoneVerification.verifyCode(input),
+      ),
+    );
     await this.revokeToken(input.pendingToken);
     return this.issueSession(
       result.profileId,
       result.provider,
       result.providerSub,
       result.details,
+      client,
+    );
+  }
+
+  async verifyTwoFactor(
+    pendingToken: string,
+    code: string,
+    client?: ClientContext,
+  ) {
+    // Cada login com senha gera outro token pendente; o limite de códigos
+    // segue o perfil, dono do segredo TOTP
+    const profileId = await this.twoFactor.pendingProfileId(pendingToken);
+    const identity = profileId
+      ? `profile:${profileId}`
+      : hashToken(pendingToken ?? '');
+    const result = await this.trackLoginFailures('two-factor', client, () =>
+      this.loginThrottle.guard('two-factor', { identity, client }, () =>
+        this.twoFactor.verifyPending(pendingToken, code),
+      ),
+    );
+    await this.revokeToken(pendingToken);
+    return this.continueLogin(
+      result.profileId,
+      result.provider,
+      result.providerSub,
+      client,
     );
   }
 
-  async acceptTerms(pendingToken: string) {
-    const result = await this.termsAcceptance.acceptTerms(pendingToken);
+  async startTwoFactorEnrollment(profileId: string) {
+    const profile = await this.loadProfileWithProvider(profileId);
+    if (!profile.email || !(await this.identities.hasEmailPassword(profile))) {
+      throw new BadRequestException(
+        'A autenticação em dois fatores está disponível apenas para contas com email e senha.',
+      );
+    }
+    return this.twoFactor.startEnrollment(profileId, profile.email);
+  }
+
+  async confirmTwoFactorEnrollment(
+    profileId: string,
+    code: string,
+    client?: ClientContext,
+  ) {
+    const result = await this.loginThrottle.guard(
+      'two-factor',
+      { identity: `profile:${profileId}`, client },
+      () => this.twoFactor.confirmEnrollment(profileId, code),
+    );
+    await this.notifySecurityEvent(profileId, 'two-factor-enabled', client);
+    return result;
+  }
+
+  /** Desativar exige a senha atual e um código válido (TOTP ou recuperação). */
+  async disableTwoFactor(
+    profileId: string,
+    input: { password: string; code: string },
+    client?: ClientContext,
+  ) {
+    await this.loginThrottle.guard(
+      'two-factor',
+      { identity: `profile:${profileId}`, client },
+      async () => {
+        const passwordOk = await this.passwords.verifyPassword(
+          profileId,
+          input.password,
+        );
+        if (!passwordOk) throw new UnauthorizedException('Senha inválida.');
+        await this.twoFactor.assertCode(profileId, input.code);
+      },
+    );
+
+    const result = await this.twoFactor.disable(profileId);
+    await this.notifySecurityEvent(profileId, 'two-factor-disabled', client);
+    return result;
+  }
+
+  async acceptTerms(pendingToken: string, client?: ClientContext) {
+    const result = await this.termsAcceptance.acceptTerms(pendingToken, client);
     await this.revokeToken(pendingToken);
     return this.issueSession(
       result.profileId,
       result.provider,
       result.providerSub,
       result.details,
+      client,
+    );
+  }
+
+  /** Cancela a exclusão agendada e segue o login interrompido. */
+  async restoreAccount(pendingToken: string, client?: ClientContext) {
+    const result = await this.accountDeletion.restore(pendingToken);
+    await this.revokeToken(pendingToken);
+    void this.securityEvents.record({
+      type: 'account.restore',
+      outcome: 'success',
+      profileId: result.profileId,
+      client,
+    });
+    return this.continueLogin(
+      result.profileId,
+      result.provider,
+      result.providerSub,
+      client,
     );
   }
 
@@ -576,6 +1280,7 @@ export class AuthService {
     provider: string,
     providerSub: string,
     details: ProfileDetails,
+    client?: ClientContext,
   ) {
     if (!details.phone) {
       throw new InternalServerErrorException(
@@ -583,6 +1288,15 @@ export class AuthService {
       );
     }
 
+    const pendingRestore = await this.maybeRequireRestore(
+      profileId,
+      provider,
+      providerSub,
+    );
+    if (pendingRestore) {
+      return pendingRestore;
+    }
+
     const pendingTerms = await this.maybeRequireTermsAcceptance(
       profileId,
       provider,
@@ -595,30 +1309,134 @@ export class AuthService {
 
     const profile = await this.loadProfileBasics(profileId);
 
+    const familyId = randomUUID();
     const { clear: tokenClear, hash: tokenHash } = generateOpaqueToken(32);
-    const expiresAt = await this.persistTokenRecord({
+    const { id: sessionId, expiresAt } = await this.persistTokenRecord({
       tokenHash,
       userId: profileId,
       provider,
       providerSub,
       permission: true,
-      clearUserTokens: true,
+      familyId,
+      client,
+    });
+    const refresh = await this.refreshTokens.issue({
+      userId: profileId,
+      sessionId,
+      familyId,
+    });
+    await this.sessions.enforceSessionCap(profileId);
+    void this.securityEvents.record({
+      type: 'login',
+      outcome: 'success',
+      profileId,
+      client,
+      metadata: { provider, sessionId },
     });
 
+    return this.buildSessionResponse(
+      { accessToken: tokenClear, expiresAt, ...refresh },
+      profile,
+      details,
+      client,
+    );
+  }
+
+  private buildSessionResponse(
+    tokens: {
+      accessToken: string;
+      expiresAt: string;
+      refreshToken: string;
+      refreshExpiresAt: string;
+    },
+    profile: { email: string | null; name: string | null },
+    details: ProfileDetails,
+    client?: ClientContext,
+  ) {
     return {
-      sessionToken: tokenClear,
-      expiresAt,
+      sessionToken: tokens.accessToken,
+      expiresAt: tokens.expiresAt,
+      refreshToken: tokens.refreshToken,
+      refreshExpiresAt: tokens.refreshExpiresAt,
+      // O cliente reenvia em `X-Device-Id`; identifica o aparelho no
+      // limitador de tentativas
+      deviceId: client?.deviceId ?? issueDeviceId(),
       user: {
         email: profile.email,
         name: profile.name,
         phone: details.phone,
         language: details.language,
-        genre: details.genre,
       },
       requiresPhone: false,
     };
   }
 
+  private async loadProfileWithProvider(profileId: string) {
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .select('email, provider')
+      .eq('id', profileId)
+      .maybeSingle();
+
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar perfil: ${error.message}`,
+      );
+    if (!data) throw new BadRequestException('Perfil não localizado.');
+
+    return {
+      id: profileId,
+      email: data.email ? String(data.email) : '',
+      provider: data.provider ? String(data.provider) : null,
+    };
+  }
+
+  private async notifySecurityEvent(
+    profileId: string,
+    event: SecurityAlertEvent,
+    client?: ClientContext,
+  ) {
+    const { email } = await this.loadProfileBasics(profileId);
+    if (!email) return;
+    void this.mail.sendTemplate({ email, profileId }, 'security-alert', {
+      event,
+      occurredAt: new Date().toISOString(),
+      device: client?.deviceLabel ?? client?.userAgent ?? null,
+      ip: client?.ip ?? null,
+    });
+  }
+
+  private recordPasswordLoginFailure(
+    profileId: string | null,
+    client?: ClientContext,
+    outcome: 'failure' | 'blocked' = 'failure',
+  ) {
+    void this.securityEvents.record({
+      type: 'login',
+      outcome,
+      profileId,
+      client,
+      metadata: { method: 'password' },
+    });
+  }
+
+  /**
+   * Falhas e bloqueios de um passo de login viram evento `login` com o
+   * método usado; o sucesso é registrado quando a sessão é emitida.
+   */
+  private trackLoginFailures<T>(
+    method: string,
+    client: ClientContext | undefined,
+    fn: () => Promise<T>,
+    profileId: string | null = null,
+  ) {
+    return this.securityEvents.trackFailures(
+      'login',
+      { profileId, client, metadata: { method } },
+      fn,
+    );
+  }
+
   private async loadProfileBasics(profileId: string) {
     const { data, error } = await this.supabase
       .from('profiles')
@@ -638,30 +1456,6 @@ export class AuthService {
     };
   }
 
-  private scheduleTokenDeletion(tokenId: string, delayMs: number) {
-    const timer = setTimeout(async () => {
-      try {
-        const { error } = await this.supabase
-          .from('tokens')
-          .delete()
-          .eq('id', tokenId);
-        if (error) {
-          this.logger.error(
-            `Falha ao apagar token ${tokenId}: ${error.message ?? error}`,
-          );
-        }
-      } catch (err) {
-        this.logger.error(
-          `Erro inesperado ao apagar token ${tokenId}: ${String(err)}`,
-        );
-      }
-    }, delayMs);
-
-    if (typeof (timer as any)?.unref === 'function') {
-      (timer as any).unref();
-    }
-  }
-
   private async persistTokenRecord(input: {
     tokenHash: string;
     userId: string;
@@ -669,41 +1463,48 @@ export class AuthService {
     providerSub: string;
     permission: boolean;
     expiresAt?: string;
-    consumeTokenHash?: string | null;
-    clearUserTokens?: boolean;
+    familyId?: string;
+    clearPendingTokens?: boolean;
+    client?: ClientContext;
   }) {
     const issuedAt = new Date().toISOString();
     const expiresAt =
       input.expiresAt ??
-      (await utcTimestampPlusMinutes(
-        input.permission ? SESSION_TTL_MINUTES : AUTH_FLOW_TTL_MINUTES,
-      ));
-
-    if (input.consumeTokenHash) {
-      await this.deleteTokenByHash(input.consumeTokenHash);
-    }
+      this.clock.plusMinutes(
+        input.permission ? ACCESS_TOKEN_TTL_MINUTES : AUTH_FLOW_TTL_MINUTES,
+      );
 
-    if (input.clearUserTokens) {
-      await this.deleteTokensByUser(input.userId);
+    if (input.clearPendingTokens) {
+      await this.deletePendingTokensByUser(input.userId);
     }
 
-    const { error } = await this.supabase.from('tokens').insert({
-      user_id: input.userId,
-      token_hash: input.tokenHash,
-      provider: input.provider,
-      provider_sub:
-        input.providerSub !== undefined ? input.providerSub : null,
-      issued_at: issuedAt,
-      expires_at: expiresAt,
-      revoked_at: null,
-      permission: input.permission,
-    });
+    const { data, error } = await this.supabase
+      .from('tokens')
+      .insert({
+        user_id: input.userId,
+        token_hash: input.tokenHash,
+        provider: input.provider,
+        provider_sub:
+          input.providerSub !== undefined ? input.providerSub : null,
+        issued_at: issuedAt,
+        expires_at: expiresAt,
+        revoked_at: null,
+        permission: input.permission,
+        device_label: input.client?.deviceLabel ?? null,
+        platform: input.client?.platform ?? null,
+        user_agent: input.client?.userAgent ?? null,
+        ip: input.client?.ip ?? null,
+        last_seen_at: issuedAt,
+        family_id: input.familyId ?? null,
+      })
+      .select('id')
+      .single();
     if (error)
       throw new InternalServerErrorException(
         `Falha ao criar token: ${error.message}`,
       );
 
-    return expiresAt;
+    return { id: String(data.id), expiresAt };
   }
 
   private async registerAuthFlowToken(
@@ -722,7 +1523,7 @@ export class AuthService {
       providerSub,
       permission: false,
       expiresAt,
-      clearUserTokens: true,
+      clearPendingTokens: true,
     });
   }
 
@@ -730,6 +1531,7 @@ export class AuthService {
     if (!tokenClear) return;
     const tokenHash = hashToken(tokenClear);
     await this.supabase.from('tokens').delete().eq('token_hash', tokenHash);
+    this.sessionCache.invalidateTokenHash(tokenHash);
   }
 
   private async maybeRequireTermsAcceptance(
@@ -738,7 +1540,9 @@ export class AuthService {
     providerSub: string,
     details: ProfileDetails,
   ) {
-    if (details.acceptedTerms) {
+    // Pede novo aceite sempre que a versão obrigatória vigente for mais
+    // recente que a última aceita
+    if (!(await this.termsAcceptance.requiresAcceptance(profileId, details))) {
       return null;
     }
 
@@ -762,31 +1566,55 @@ export class AuthService {
       requiresTermsAcceptance: true,
       termsPendingToken: pending.token,
       termsPendingTokenExpiresAt: pending.expiresAt,
+      termsVersion: pending.version,
     };
   }
 
-  private async deleteTokensByUser(userId: string) {
-    const { error } = await this.supabase
-      .from('tokens')
-      .delete()
-      .eq('user_id', userId);
-    if (error) {
-      this.logger.error(
-        `Falha ao remover tokens do usuário ${userId}: ${error.message}`,
-      );
-    }
+  // Conta com exclusão agendada: a sessão só sai se o usuário restaurar
+  private async maybeRequireRestore(
+    profileId: string,
+    provider: string,
+    providerSub: string,
+  ) {
+    const scheduled = await this.accountDeletion.findScheduled(profileId);
+    if (!scheduled) return null;
+
+    const pending = await this.accountDeletion.createRestorePending(
+      profileId,
+      provider,
+      providerSub,
+    );
+    await this.registerAuthFlowToken(
+      pending.token,
+      profileId,
+      provider,
+      providerSub,
+      pending.expiresAt,
+    );
+
+    return {
+      user: null,
+      requiresPhone: false,
+      requiresRestore: true,
+      restorePendingToken: pending.token,
+      restorePendingTokenExpiresAt: pending.expiresAt,
+      deletionScheduledFor: scheduled.purge_after,
+    };
   }
 
-  private async deleteTokenByHash(tokenHash: string) {
+  // Fluxos pendentes (telefone/termos) não derrubam as sessões ativas.
+  private async deletePendingTokensByUser(userId: string) {
     const { error } = await this.supabase
       .from('tokens')
       .delete()
-      .eq('token_hash', tokenHash);
+      .eq('user_id', userId)
+      .eq('permission', false);
     if (error) {
       this.logger.error(
-        `Falha ao remover token ${tokenHash.slice(0, 8)}...: ${error.message}`,
+        `Falha ao remover tokens pendentes do usuário ${userId}: ${error.message}`,
       );
     }
+    this.sessionCache.invalidateUser(userId);
   }
 
   private normalizeEmail(email?: string) {
@@ -796,19 +1624,6 @@ export class AuthService {
     return normalized.length > 0 ? normalized : null;
   }
 
-  private upsertUserByProvider(provider: ExternalProvider, claims: any) {
-    switch (provider) {
-      case 'google':
-        return this.users.upsertFromGoogleClaims(claims);
-      case 'apple':
-        return this.users.upsertFromAppleClaims(claims);
-      case 'microsoft':
-        return this.users.upsertFromMicrosoftClaims(claims);
-      default:
-        throw new BadRequestException(`Provider ${provider} não suportado.`);
-    }
-  }
-
   private pickName(claims: any, fields: string[]): string | null {
     for (const field of fields) {
       const value = claims?.[field];
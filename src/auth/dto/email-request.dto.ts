@@ -1,6 +1,10 @@
-import { IsEmail } from 'class-validator';
+import { IsEmail, IsOptional, IsString } from 'class-validator';
 
 export class EmailRequestCodeDto {
   @IsEmail()
   email!: string;
+
+  @IsOptional()
+  @IsString()
+  language?: string;
 }
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class GuestMergeDto {
+  // Token da sessão de convidado usada antes do cadastro
+  @IsString()
+  @IsNotEmpty()
+  guestToken!: string;
+}
@@ -0,0 +1,43 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+class DeviceDto {
+  @IsOptional() @IsString() label?: string;
+  @IsOptional() @IsString() platform?: string;
+}
+
+/**
+ * Prova de acesso à conta existente: a senha ou o id_token de um provider
+ * já vinculado.
+ */
+export class LinkConfirmDto {
+  @IsString()
+  @IsNotEmpty()
+  linkToken!: string;
+
+  @IsOptional()
+  @IsString()
+  password?: string;
+
+  @IsOptional()
+  @IsString()
+  provider?: string;
+
+  @IsOptional()
+  @IsString()
+  id_token?: string;
+
+  @IsOptional()
+  @IsString()
+  nonce?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DeviceDto)
+  device?: DeviceDto;
+}
@@ -0,0 +1,49 @@
+import {
+  IsEmail,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class MagicLinkRequestDto {
+  @IsEmail()
+  email!: string;
+
+  // Identificador estável da instalação do app que pediu o link
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  deviceId!: string;
+
+  @IsOptional()
+  @IsString()
+  language?: string;
+}
+
+export class MagicLinkApproveDto {
+  @IsString()
+  @IsNotEmpty()
+  token!: string;
+}
+
+export class MagicLinkPollDto {
+  @IsString()
+  @IsNotEmpty()
+  pollToken!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  deviceId!: string;
+
+  // Espera pela aprovação antes de responder (long polling)
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(25)
+  waitSeconds?: number;
+}
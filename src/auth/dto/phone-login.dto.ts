@@ -0,0 +1,63 @@
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+} from 'class-validator';
+
+export class PhoneLoginRequestDto {
+  @IsString()
+  @IsNotEmpty()
+  @Length(8, 20, { message: 'Telefone deve ter entre 8 e 20 caracteres.' })
+  phone!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  machineCode!: string;
+
+  @IsOptional()
+  @IsString()
+  language?: string;
+}
+
+export class PhoneLoginVerifyDto {
+  @IsString()
+  @IsNotEmpty()
+  loginToken!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  machineCode!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  code!: string;
+}
+
+export class PhoneLoginEmailRequestDto {
+  @IsString()
+  @IsNotEmpty()
+  pendingToken!: string;
+
+  @IsEmail()
+  email!: string;
+
+  @IsOptional()
+  @IsString()
+  language?: string;
+}
+
+export class PhoneLoginEmailConfirmDto {
+  @IsString()
+  @IsNotEmpty()
+  pendingToken!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  emailToken!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  code!: string;
+}
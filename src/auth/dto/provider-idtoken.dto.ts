@@ -8,6 +8,7 @@ import {
 import { Type } from 'class-transformer';
 
 class DeviceDto {
+  @IsOptional() @IsString() label?: string;
   @IsOptional() @IsString() platform?: string;
   @IsOptional() @IsString() app_version?: string;
 }
@@ -21,6 +22,10 @@ export class ProviderIdTokenDto {
   @IsNotEmpty()
   id_token!: string;
 
+  @IsOptional()
+  @IsString()
+  nonce?: string;
+
   @IsOptional()
   @ValidateNested()
   @Type(() => DeviceDto)
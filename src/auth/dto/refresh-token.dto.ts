@@ -0,0 +1,7 @@
+import { IsOptional, IsString } from 'class-validator';
+
+export class RefreshTokenDto {
+  @IsOptional()
+  @IsString()
+  refreshToken?: string;
+}
@@ -0,0 +1,7 @@
+import { IsOptional, Matches } from 'class-validator';
+
+export class SwitchProfileDto {
+  @IsOptional()
+  @Matches(/^\d{4,6}$/, { message: 'pin deve ter de 4 a 6 dígitos.' })
+  pin?: string;
+}
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString, Length } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  @IsString()
+  @IsNotEmpty()
+  @Length(6, 11)
+  code!: string;
+}
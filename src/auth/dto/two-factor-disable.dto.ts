@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString, Length } from 'class-validator';
+
+export class TwoFactorDisableDto {
+  @IsString()
+  @IsNotEmpty()
+  password!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @Length(6, 11)
+  code!: string;
+}
@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString, Length } from 'class-validator';
+
+export class TwoFactorVerifyDto {
+  @IsString()
+  @IsNotEmpty()
+  pendingToken!: string;
+
+  // Código do app autenticador ou código de recuperação (xxxxx-xxxxx)
+  @IsString()
+  @IsNotEmpty()
+  @Length(6, 11)
+  code!: string;
+}
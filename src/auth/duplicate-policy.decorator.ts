@@ -0,0 +1,21 @@
+// src/auth/duplicate-policy.decorator.ts
+import { SetMetadata } from '@nestjs/common';
+
+export const DUPLICATE_POLICY_KEY = 'duplicate-policy';
+
+/**
+ * `reject`: recusa repetições idênticas em andamento e por `windowMs` após a
+ * conclusão. `in-flight`: recusa só enquanto a primeira estiver em
+ * andamento. `allow`: não verifica.
+ */
+export interface DuplicatePolicyOptions {
+  mode: 'reject' | 'in-flight' | 'allow';
+  windowMs?: number;
+}
+
+/**
+ * Política para rotas mutáveis chamadas sem `Idempotency-Key`. Sem o
+ * decorator vale `reject` com a janela padrão do detector.
+ */
+export const DuplicatePolicy = (options: DuplicatePolicyOptions) =>
+  SetMetadata(DUPLICATE_POLICY_KEY, options);
@@ -1,100 +1,72 @@
 // src/auth/duplicate-request-detector.service.ts
-import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { createHash } from 'crypto';
 import type { Request } from 'express';
+import { KeyValueStore } from '../kv-store/key-value-store';
 
-interface PendingRequest {
-  timestamp: number;
-  resolve: (value: any) => void;
-  reject: (error: any) => void;
-}
+const KEY_PREFIX = 'duplicate-request';
 
 @Injectable()
-export class DuplicateRequestDetectorService implements OnModuleDestroy {
+export class DuplicateRequestDetectorService {
   private readonly logger = new Logger(DuplicateRequestDetectorService.name);
-  private readonly pendingRequests = new Map<string, PendingRequest>();
-  private readonly recentRequests = new Map<string, number>();
-  private readonly cleanupInterval: NodeJS.Timeout;
+  // Requests in flight on this instance (only used for stats)
+  private readonly inFlight = new Set<string>();
 
   // Configuration
   private readonly maxAge = 30000; // 30 seconds
   private readonly duplicateMemoryMs = 45000; // Keep signatures for 45s after completion
-  private readonly cleanupFrequency = 5000; // 5 seconds
 
-  constructor() {
-    // Cleanup interval - remove requests older than maxAge
-    this.cleanupInterval = setInterval(() => {
-      this.cleanupOldRequests();
-    }, this.cleanupFrequency);
-  }
+  constructor(private readonly store: KeyValueStore) {}
 
   /**
-   * Check if a request is a duplicate and should be blocked
-   * Returns null if not duplicate, or the pending promise if duplicate
+   * Atomically register a request as pending.
+   * Returns null if an identical request is pending or finished recently,
+   * otherwise a cleanup function that should be called when the request completes.
+   * `memoryMs` overrides how long the signature is kept after completion (0 forgets it).
    */
-  checkDuplicateRequest(req: Request, token: string): boolean {
-    const signature = this.generateRequestSignature(req, token);
-    if (this.pendingRequests.has(signature)) {
-      this.logger.debug(
-        `Requisição duplicada detectada (pendente): ${signature.slice(0, 16)}...`,
-      );
-      return true;
-    }
-
-    const lastSeen = this.recentRequests.get(signature);
-    if (lastSeen && Date.now() - lastSeen < this.duplicateMemoryMs) {
+  async tryRegisterRequest(
+    req: Request,
+    sessionKey: string,
+    memoryMs = this.duplicateMemoryMs,
+  ): Promise<(() => void) | null> {
+    const signature = this.generateRequestSignature(req, sessionKey);
+    const key = `${KEY_PREFIX}:${signature}`;
+
+    const acquired = await this.store.setIfAbsent(key, 'pending', this.maxAge);
+    if (!acquired) {
       this.logger.debug(
-        `Requisição duplicada detectada (janela recente): ${signature.slice(0, 16)}...`,
+        `Requisição duplicada detectada: ${signature.slice(0, 16)}...`,
       );
-      return true;
+      return null;
     }
 
-    return false;
-  }
-
-  /**
-   * Register a new request as pending
-   * Returns a cleanup function that should be called when the request completes
-   */
-  registerRequest(req: Request, token: string): () => void {
-    const signature = this.generateRequestSignature(req, token);
-
-    let requestResolver: (value: any) => void;
-    let requestRejecter: (error: any) => void;
-
-    const requestPromise = new Promise((resolve, reject) => {
-      requestResolver = resolve;
-      requestRejecter = reject;
-    });
-
-    this.pendingRequests.set(signature, {
-      timestamp: Date.now(),
-      resolve: requestResolver!,
-      reject: requestRejecter!,
-    });
-
+    this.inFlight.add(signature);
     this.logger.debug(
       `Requisição registrada: ${req.method} ${req.url} - signature: ${signature.slice(0, 16)}...`,
     );
 
-    // Return cleanup function
+    let finished = false;
     return () => {
-      const pending = this.pendingRequests.get(signature);
-      if (pending) {
-        pending.resolve('completed');
-        this.pendingRequests.delete(signature);
-        this.logger.debug(
-          `Requisição finalizada: ${signature.slice(0, 16)}...`,
-        );
-      }
-      this.recentRequests.set(signature, Date.now());
+      if (finished) return;
+      finished = true;
+      this.inFlight.delete(signature);
+      const settle =
+        memoryMs > 0
+          ? this.store.set(key, 'completed', memoryMs)
+          : this.store.delete(key);
+      settle.catch((err: unknown) =>
+        this.logger.warn(
+          `Falha ao registrar conclusão da requisição: ${String(err)}`,
+        ),
+      );
+      this.logger.debug(`Requisição finalizada: ${signature.slice(0, 16)}...`);
     };
   }
 
   /**
    * Generate a unique signature for a request based on its characteristics
    */
-  private generateRequestSignature(req: Request, token: string): string {
+  private generateRequestSignature(req: Request, sessionKey: string): string {
     const method = req.method;
     const url = req.url;
     const body = req.body ? JSON.stringify(req.body) : '';
@@ -104,75 +76,19 @@ export class DuplicateRequestDetectorService implements OnModuleDestroy {
     const userAgent = req.headers['user-agent'] || '';
     const ip = req.ip || req.connection?.remoteAddress || '';
 
-    // Create a hash from request characteristics + token
-    const signatureData = `${method}:${url}:${body}:${query}:${token}:${userAgent}:${ip}`;
+    // Create a hash from request characteristics + session
+    const signatureData = `${method}:${url}:${body}:${query}:${sessionKey}:${userAgent}:${ip}`;
     return createHash('sha256').update(signatureData).digest('hex');
   }
 
   /**
-   * Clean up old requests that have been pending too long
-   */
-  private cleanupOldRequests(): void {
-    const now = Date.now();
-    let cleanedCount = 0;
-
-    for (const [signature, request] of this.pendingRequests.entries()) {
-      if (now - request.timestamp > this.maxAge) {
-        request.resolve('timeout');
-        this.pendingRequests.delete(signature);
-        cleanedCount++;
-      }
-    }
-
-    let recentCleaned = 0;
-    for (const [signature, timestamp] of this.recentRequests.entries()) {
-      if (now - timestamp > this.duplicateMemoryMs) {
-        this.recentRequests.delete(signature);
-        recentCleaned++;
-      }
-    }
-
-    if (cleanedCount > 0) {
-      this.logger.debug(
-        `Limpeza automática: ${cleanedCount} requisições expiradas removidas`,
-      );
-    }
-
-    if (recentCleaned > 0) {
-      this.logger.debug(
-        `Limpeza automática: ${recentCleaned} assinaturas recentes expurgadas`,
-      );
-    }
-  }
-
-  /**
-   * Get current statistics about pending requests
+   * Get current statistics about pending requests on this instance
    */
   getStats() {
     return {
-      pendingRequests: this.pendingRequests.size,
-      recentRequests: this.recentRequests.size,
+      pendingRequests: this.inFlight.size,
       maxAge: this.maxAge,
       duplicateMemoryMs: this.duplicateMemoryMs,
-      cleanupFrequency: this.cleanupFrequency,
     };
   }
-
-  /**
-   * Cleanup on module destroy
-   */
-  onModuleDestroy() {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-    }
-
-    // Resolve all pending requests
-    for (const [signature, request] of this.pendingRequests.entries()) {
-      request.resolve('shutdown');
-    }
-
-    this.pendingRequests.clear();
-    this.recentRequests.clear();
-    this.logger.log('DuplicateRequestDetectorService destroyed');
-  }
 }
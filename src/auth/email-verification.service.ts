@@ -2,20 +2,20 @@ import {
   Injectable,
   BadRequestException,
   UnauthorizedException,
-  Logger,
 } from '@nestjs/common';
-import {
-  generateOpaqueToken,
-  hashToken,
-  utcTimestampPlusMinutes,
-} from '../common/utils/token';
+import { generateOpaqueToken, hashToken } from '../common/utils/token';
+import { TrustedTimeService } from '../trusted-time/trusted-time.service';
+import { EmailDelivery, MailService } from '../mail/mail.service';
+import { KeyValueStore, ttlUntil } from '../kv-store/key-value-store';
 
 const EMAIL_PENDING_TTL_MINUTES = 10;
 const EMAIL_CODE_TTL_MINUTES = 5;
 const MAX_VERIFICATION_ATTEMPTS = 5;
 const MIN_RESEND_INTERVAL_MS = 45_000;
+const KEY_PREFIX = 'email-verification';
 
 type EmailVerificationStatus = 'pending' | 'verified';
+type EmailCodePurpose = 'verification-code' | 'password-reset';
 
 interface EmailRecord {
   tokenHash: string;
@@ -24,21 +24,19 @@ interface EmailRecord {
   status: EmailVerificationStatus;
   codeHash: string | null;
   codeExpiresAt: string | null;
-  attempts: number;
   lastCodeSentAt?: number;
   registerTokenHash?: string;
   registerTokenExpiresAt?: string;
   resetTokenHash?: string;
   resetTokenExpiresAt?: string;
-  tokenTimer?: ReturnType<typeof setTimeout>;
-  codeTimer?: ReturnType<typeof setTimeout>;
-  registerTimer?: ReturnType<typeof setTimeout>;
-  resetTimer?: ReturnType<typeof setTimeout>;
+  purpose: EmailCodePurpose;
+  languageHint?: string | null;
 }
 
 export interface EmailPending {
   token: string;
   expiresAt: string;
+  delivery: EmailDelivery;
 }
 
 export interface EmailVerified {
@@ -63,20 +61,24 @@ export interface EmailResetPayload {
 
 @Injectable()
 export class EmailVerificationService {
-  private readonly logger = new Logger(EmailVerificationService.name);
-
-  private readonly pendingByToken = new Map<string, EmailRecord>();
-  private readonly emailIndex = new Map<string, string>();
-  private readonly registerIndex = new Map<string, string>();
-  private readonly resetIndex = new Map<string, string>();
-
-  async request(emailRaw: string): Promise<EmailPending> {
+  constructor(
+    private readonly mail: MailService,
+    private readonly store: KeyValueStore,
+    private readonly clock: TrustedTimeService,
+  ) {}
+
+  async request(
+    emailRaw: string,
+    languageHint?: string | null,
+  ): Promise<EmailPending> {
     const email = this.normalizeEmail(emailRaw);
     if (!email) throw new BadRequestException('Email inválido.');
 
-    const existingTokenHash = this.emailIndex.get(email);
+    const existingTokenHash = await this.store.get<string>(
+      this.emailKey(email),
+    );
     if (existingTokenHash) {
-      const existing = this.pendingByToken.get(existingTokenHash);
+      const existing = await this.loadRecord(existingTokenHash);
       if (
         existing &&
         existing.status === 'verified' &&
@@ -88,42 +90,10 @@ export class EmailVerificationService {
           'Este email já foi verificado. Conclua o cadastro com o token recebido.',
         );
       }
-      this.clearRecord(existingTokenHash);
-    }
-
-    const { clear: token, hash: tokenHash } = generateOpaqueToken(32);
-    const tokenExpiresAt = await utcTimestampPlusMinutes(
-      EMAIL_PENDING_TTL_MINUTES,
-    );
-
-    const record: EmailRecord = {
-      tokenHash,
-      email,
-      tokenExpiresAt,
-      status: 'pending',
-      codeHash: null,
-      codeExpiresAt: null,
-      attempts: 0,
-    };
-
-    const msUntilExpiry = new Date(tokenExpiresAt).getTime() - Date.now();
-    if (msUntilExpiry > 0) {
-      record.tokenTimer = setTimeout(
-        () => this.clearRecord(tokenHash),
-        msUntilExpiry,
-      );
-      if (typeof (record.tokenTimer as any)?.unref === 'function') {
-        (record.tokenTimer as any).unref();
-      }
+      await this.clearRecord(existingTokenHash);
     }
 
-    this.pendingByToken.set(tokenHash, record);
-    this.emailIndex.set(email, tokenHash);
-
-    const code = this.generateAndStoreCode(record);
-    this.sendVerificationEmail(email, code);
-
-    return { token, expiresAt: tokenExpiresAt };
+    return this.startFlow(email, 'verification-code', languageHint);
   }
 
   async resendCode(tokenClear: string) {
@@ -140,8 +110,9 @@ export class EmailVerificationService {
       );
     }
     const code = this.generateAndStoreCode(record);
-    this.sendVerificationEmail(record.email, code);
-    return { ok: true, codeExpiresAt: record.codeExpiresAt };
+    await this.saveRecord(record);
+    const delivery = await this.sendCodeEmail(record, code);
+    return { ok: true, codeExpiresAt: record.codeExpiresAt, delivery };
   }
 
   async verifyCode(
@@ -153,54 +124,24 @@ export class EmailVerificationService {
       throw new BadRequestException('Verificação já concluída.');
     }
 
-    const code = this.normalizeCode(codeRaw);
-    if (!code) throw new BadRequestException('Código obrigatório.');
-
-    if (!record.codeHash || !record.codeExpiresAt) {
-      throw new BadRequestException('Nenhum código foi solicitado.');
-    }
-
-    if (this.isExpired(record.codeExpiresAt)) {
-      const newCode = this.generateAndStoreCode(record);
-      this.sendVerificationEmail(record.email, newCode);
-      throw new BadRequestException(
-        'Código expirado. Um novo código foi enviado.',
-      );
-    }
-
-    const providedHash = hashToken(code);
-    if (providedHash !== record.codeHash) {
-      this.handleInvalidAttempt(record);
-      throw new BadRequestException('Código inválido.');
-    }
+    await this.assertCode(record, codeRaw);
 
     record.status = 'verified';
     record.codeHash = null;
     record.codeExpiresAt = null;
-    if (record.codeTimer) {
-      clearTimeout(record.codeTimer);
-      record.codeTimer = undefined;
-    }
 
     const { clear: registerToken, hash: registerHash } =
       generateOpaqueToken(32);
-    const registerExpiresAt = await utcTimestampPlusMinutes(
-      EMAIL_PENDING_TTL_MINUTES,
-    );
+    const registerExpiresAt = this.clock.plusMinutes(EMAIL_PENDING_TTL_MINUTES);
     record.registerTokenHash = registerHash;
     record.registerTokenExpiresAt = registerExpiresAt;
-    this.registerIndex.set(registerHash, record.tokenHash);
 
-    const msUntilRegister = new Date(registerExpiresAt).getTime() - Date.now();
-    if (msUntilRegister > 0) {
-      record.registerTimer = setTimeout(
-        () => this.clearRecord(record.tokenHash),
-        msUntilRegister,
-      );
-      if (typeof (record.registerTimer as any)?.unref === 'function') {
-        (record.registerTimer as any).unref();
-      }
-    }
+    await this.saveRecord(record);
+    await this.store.set(
+      this.registerKey(registerHash),
+      record.tokenHash,
+      ttlUntil(registerExpiresAt),
+    );
 
     return { registerToken, expiresAt: registerExpiresAt, email: record.email };
   }
@@ -209,16 +150,18 @@ export class EmailVerificationService {
     registerTokenClear: string,
   ): Promise<EmailRegistrationPayload> {
     const registerHash = hashToken(registerTokenClear);
-    const tokenHash = this.registerIndex.get(registerHash);
+    const tokenHash = await this.store.get<string>(
+      this.registerKey(registerHash),
+    );
     if (!tokenHash) {
       throw new UnauthorizedException(
         'Token de registro inválido ou expirado.',
       );
     }
 
-    const record = this.pendingByToken.get(tokenHash);
+    const record = await this.loadRecord(tokenHash);
     if (!record) {
-      this.registerIndex.delete(registerHash);
+      await this.store.delete(this.registerKey(registerHash));
       throw new UnauthorizedException(
         'Token de registro inválido ou expirado.',
       );
@@ -228,16 +171,12 @@ export class EmailVerificationService {
       !record.registerTokenExpiresAt ||
       this.isExpired(record.registerTokenExpiresAt)
     ) {
-      this.clearRecord(record.tokenHash);
+      await this.clearRecord(record.tokenHash);
       throw new UnauthorizedException('Token de registro expirado.');
     }
 
-    if (record.registerTimer) {
-      clearTimeout(record.registerTimer);
-    }
-
     const email = record.email;
-    this.clearRecord(record.tokenHash);
+    await this.clearRecord(record.tokenHash);
     return { email };
   }
 
@@ -245,45 +184,14 @@ export class EmailVerificationService {
     const email = this.normalizeEmail(emailRaw);
     if (!email) throw new BadRequestException('Email inválido.');
 
-    const existingTokenHash = this.emailIndex.get(email);
-    if (existingTokenHash) {
-      const existing = this.pendingByToken.get(existingTokenHash);
-      if (existing) this.clearRecord(existingTokenHash);
-    }
-
-    const { clear: token, hash: tokenHash } = generateOpaqueToken(32);
-    const tokenExpiresAt = await utcTimestampPlusMinutes(
-      EMAIL_PENDING_TTL_MINUTES,
+    const existingTokenHash = await this.store.get<string>(
+      this.emailKey(email),
     );
-
-    const record: EmailRecord = {
-      tokenHash,
-      email,
-      tokenExpiresAt,
-      status: 'pending',
-      codeHash: null,
-      codeExpiresAt: null,
-      attempts: 0,
-    };
-
-    const msUntilExpiry = new Date(tokenExpiresAt).getTime() - Date.now();
-    if (msUntilExpiry > 0) {
-      record.tokenTimer = setTimeout(
-        () => this.clearRecord(tokenHash),
-        msUntilExpiry,
-      );
-      if (typeof (record.tokenTimer as any)?.unref === 'function') {
-        (record.tokenTimer as any).unref();
-      }
+    if (existingTokenHash) {
+      await this.clearRecord(existingTokenHash);
     }
 
-    this.pendingByToken.set(tokenHash, record);
-    this.emailIndex.set(email, tokenHash);
-
-    const code = this.generateAndStoreCode(record);
-    this.sendVerificationEmail(email, code);
-
-    return { token, expiresAt: tokenExpiresAt };
+    return this.startFlow(email, 'password-reset');
   }
 
   async verifyResetCode(
@@ -292,68 +200,38 @@ export class EmailVerificationService {
   ): Promise<EmailResetToken> {
     const record = await this.getRecordByToken(tokenClear);
 
-    const code = this.normalizeCode(codeRaw);
-    if (!code) throw new BadRequestException('Código obrigatório.');
-
-    if (!record.codeHash || !record.codeExpiresAt) {
-      throw new BadRequestException('Nenhum código foi solicitado.');
-    }
-
-    if (this.isExpired(record.codeExpiresAt)) {
-      const newCode = this.generateAndStoreCode(record);
-      this.sendVerificationEmail(record.email, newCode);
-      throw new BadRequestException(
-        'Código expirado. Um novo código foi enviado.',
-      );
-    }
-
-    const providedHash = hashToken(code);
-    if (providedHash !== record.codeHash) {
-      this.handleInvalidAttempt(record);
-      throw new BadRequestException('Código inválido.');
-    }
+    await this.assertCode(record, codeRaw);
 
     record.codeHash = null;
     record.codeExpiresAt = null;
-    if (record.codeTimer) {
-      clearTimeout(record.codeTimer);
-      record.codeTimer = undefined;
-    }
 
     const { clear: resetToken, hash: resetHash } = generateOpaqueToken(32);
-    const resetExpiresAt = await utcTimestampPlusMinutes(
-      EMAIL_PENDING_TTL_MINUTES,
-    );
+    const resetExpiresAt = this.clock.plusMinutes(EMAIL_PENDING_TTL_MINUTES);
     record.resetTokenHash = resetHash;
     record.resetTokenExpiresAt = resetExpiresAt;
-    this.resetIndex.set(resetHash, record.tokenHash);
 
-    const msUntilReset = new Date(resetExpiresAt).getTime() - Date.now();
-    if (msUntilReset > 0) {
-      record.resetTimer = setTimeout(
-        () => this.clearRecord(record.tokenHash),
-        msUntilReset,
-      );
-      if (typeof (record.resetTimer as any)?.unref === 'function') {
-        (record.resetTimer as any).unref();
-      }
-    }
+    await this.saveRecord(record);
+    await this.store.set(
+      this.resetKey(resetHash),
+      record.tokenHash,
+      ttlUntil(resetExpiresAt),
+    );
 
     return { resetToken, expiresAt: resetExpiresAt, email: record.email };
   }
 
   async consumeResetToken(resetTokenClear: string): Promise<EmailResetPayload> {
     const resetHash = hashToken(resetTokenClear);
-    const tokenHash = this.resetIndex.get(resetHash);
+    const tokenHash = await this.store.get<string>(this.resetKey(resetHash));
     if (!tokenHash) {
       throw new UnauthorizedException(
         'Token de redefinição inválido ou expirado.',
       );
     }
 
-    const record = this.pendingByToken.get(tokenHash);
+    const record = await this.loadRecord(tokenHash);
     if (!record) {
-      this.resetIndex.delete(resetHash);
+      await this.store.delete(this.resetKey(resetHash));
       throw new UnauthorizedException(
         'Token de redefinição inválido ou expirado.',
       );
@@ -363,87 +241,182 @@ export class EmailVerificationService {
       !record.resetTokenExpiresAt ||
       this.isExpired(record.resetTokenExpiresAt)
     ) {
-      this.clearRecord(record.tokenHash);
+      await this.clearRecord(record.tokenHash);
       throw new UnauthorizedException('Token de redefinição expirado.');
     }
 
-    if (record.resetTimer) {
-      clearTimeout(record.resetTimer);
-    }
-
     const email = record.email;
-    this.clearRecord(record.tokenHash);
+    await this.clearRecord(record.tokenHash);
     return { email };
   }
 
+  private async startFlow(
+    email: string,
+    purpose: EmailCodePurpose,
+    languageHint?: string | null,
+  ): Promise<EmailPending> {
+    const { clear: token, hash: tokenHash } = generateOpaqueToken(32);
+    const tokenExpiresAt = this.clock.plusMinutes(EMAIL_PENDING_TTL_MINUTES);
+
+    const record: EmailRecord = {
+      tokenHash,
+      email,
+      tokenExpiresAt,
+      status: 'pending',
+      codeHash: null,
+      codeExpiresAt: null,
+      purpose,
+      languageHint,
+    };
+
+    const code = this.generateAndStoreCode(record);
+    await this.saveRecord(record);
+    await this.store.set(
+      this.emailKey(email),
+      tokenHash,
+      ttlUntil(tokenExpiresAt),
+    );
+
+    const delivery = await this.sendCodeEmail(record, code);
+
+    return { token, expiresAt: tokenExpiresAt, delivery };
+  }
+
+  private async assertCode(record: EmailRecord, codeRaw: string) {
+    const code = this.normalizeCode(codeRaw);
+    if (!code) throw new BadRequestException('Código obrigatório.');
+
+    if (!record.codeHash || !record.codeExpiresAt) {
+      throw new BadRequestException('Nenhum código foi solicitado.');
+    }
+
+    if (this.isExpired(record.codeExpiresAt)) {
+      const newCode = this.generateAndStoreCode(record);
+      await this.saveRecord(record);
+      const delivery = await this.sendCodeEmail(record, newCode);
+      throw new BadRequestException(
+        delivery.status === 'sent'
+          ? 'Código expirado. Um novo código foi enviado.'
+          : 'Código expirado. Não foi possível enviar um novo código.',
+      );
+    }
+
+    // Conta antes de comparar: tentativas em paralelo recebem números
+    // diferentes do contador e não passam juntas do limite
+    const attempts = await this.store.increment(
+      this.attemptsKey(record.codeHash),
+      ttlUntil(record.codeExpiresAt),
+    );
+    const providedHash = hashToken(code);
+    if (
+      attempts > MAX_VERIFICATION_ATTEMPTS ||
+      providedHash !== record.codeHash
+    ) {
+      await this.handleInvalidAttempt(record, attempts);
+      throw new BadRequestException('Código inválido.');
+    }
+  }
+
   private async getRecordByToken(tokenClear: string): Promise<EmailRecord> {
     const tokenHash = hashToken(tokenClear);
-    const record = this.pendingByToken.get(tokenHash);
+    const record = await this.loadRecord(tokenHash);
     if (!record) {
       throw new UnauthorizedException('Token inválido.');
     }
     if (this.isExpired(record.tokenExpiresAt)) {
-      this.clearRecord(tokenHash);
+      await this.clearRecord(tokenHash);
       throw new UnauthorizedException('Token expirado. Solicite novamente.');
     }
     return record;
   }
 
+  private loadRecord(tokenHash: string) {
+    return this.store.get<EmailRecord>(this.recordKey(tokenHash));
+  }
+
+  /** O registro vive até o último token do fluxo expirar. */
+  private async saveRecord(record: EmailRecord) {
+    const expiries = [
+      record.tokenExpiresAt,
+      record.registerTokenExpiresAt,
+      record.resetTokenExpiresAt,
+    ]
+      .filter((iso): iso is string => Boolean(iso))
+      .map((iso) => new Date(iso).getTime());
+    const lastExpiry = new Date(Math.max(...expiries)).toISOString();
+
+    await this.store.set(
+      this.recordKey(record.tokenHash),
+      record,
+      ttlUntil(lastExpiry),
+    );
+  }
+
   private generateAndStoreCode(record: EmailRecord) {
     const code = this.generateCode();
     record.codeHash = hashToken(code);
     record.codeExpiresAt = new Date(
       Date.now() + EMAIL_CODE_TTL_MINUTES * 60_000,
     ).toISOString();
-    record.attempts = 0;
     record.lastCodeSentAt = Date.now();
-    if (record.codeTimer) {
-      clearTimeout(record.codeTimer);
-    }
-    const msUntilExpiry = new Date(record.codeExpiresAt).getTime() - Date.now();
-    if (msUntilExpiry > 0) {
-      record.codeTimer = setTimeout(() => {
-        record.codeHash = null;
-        record.codeExpiresAt = null;
-      }, msUntilExpiry);
-      if (typeof (record.codeTimer as any)?.unref === 'function') {
-        (record.codeTimer as any).unref();
-      }
-    }
     return code;
   }
 
-  private handleInvalidAttempt(record: EmailRecord) {
-    record.attempts += 1;
-    if (record.attempts >= MAX_VERIFICATION_ATTEMPTS) {
-      this.clearRecord(record.tokenHash);
+  private async handleInvalidAttempt(record: EmailRecord, attempts: number) {
+    if (attempts >= MAX_VERIFICATION_ATTEMPTS) {
+      await this.clearRecord(record.tokenHash);
       throw new BadRequestException('Número máximo de tentativas excedido.');
     }
   }
 
-  private clearRecord(tokenHash: string) {
-    const record = this.pendingByToken.get(tokenHash);
+  private async clearRecord(tokenHash: string) {
+    const record = await this.loadRecord(tokenHash);
     if (!record) return;
 
-    if (record.tokenTimer) clearTimeout(record.tokenTimer);
-    if (record.codeTimer) clearTimeout(record.codeTimer);
-    if (record.registerTimer) clearTimeout(record.registerTimer);
-    if (record.resetTimer) clearTimeout(record.resetTimer);
-
-    this.pendingByToken.delete(tokenHash);
-    if (this.emailIndex.get(record.email) === tokenHash) {
-      this.emailIndex.delete(record.email);
+    await this.store.delete(this.recordKey(tokenHash));
+    if (record.codeHash) {
+      await this.store.delete(this.attemptsKey(record.codeHash));
+    }
+    if (
+      (await this.store.get<string>(this.emailKey(record.email))) === tokenHash
+    ) {
+      await this.store.delete(this.emailKey(record.email));
     }
     if (record.registerTokenHash) {
-      this.registerIndex.delete(record.registerTokenHash);
+      await this.store.delete(this.registerKey(record.registerTokenHash));
     }
     if (record.resetTokenHash) {
-      this.resetIndex.delete(record.resetTokenHash);
+      await this.store.delete(this.resetKey(record.resetTokenHash));
     }
   }
 
-  private sendVerificationEmail(email: string, code: string) {
-    this.logger.log(`Código ${code} enviado para o email ${email}`);
+  private sendCodeEmail(record: EmailRecord, code: string) {
+    return this.mail.sendTemplate(
+      { email: record.email, languageHint: record.languageHint },
+      record.purpose,
+      { code, expiresInMinutes: EMAIL_CODE_TTL_MINUTES },
+    );
+  }
+
+  private recordKey(tokenHash: string) {
+    return `${KEY_PREFIX}:record:${tokenHash}`;
+  }
+
+  /** Contador por código: um código novo começa do zero. */
+  private attemptsKey(codeHash: string) {
+    return `${KEY_PREFIX}:attempts:${codeHash}`;
+  }
+
+  private emailKey(email: string) {
+    return `${KEY_PREFIX}:email:${email}`;
+  }
+
+  private registerKey(registerHash: string) {
+    return `${KEY_PREFIX}:register:${registerHash}`;
+  }
+
+  private resetKey(resetHash: string) {
+    return `${KEY_PREFIX}:reset:${resetHash}`;
   }
 
   private generateCode() {
@@ -0,0 +1,51 @@
+import { ForbiddenException } from '@nestjs/common';
+import { FamilyProfilesService } from './family-profiles.service';
+import { allowedMaturityLevels } from './family-scope';
+
+function createService(bookMaturity: string | null) {
+  const query: Record<string, jest.Mock> = {
+    maybeSingle: jest.fn().mockResolvedValue({
+      data: { maturity_level: bookMaturity },
+      error: null,
+    }),
+  };
+  query.select = jest.fn().mockReturnValue(query);
+  query.eq = jest.fn().mockReturnValue(query);
+  const supabase = { from: jest.fn().mockReturnValue(query) };
+  const service = new FamilyProfilesService(
+    supabase as never,
+    {} as never,
+    {} as never,
+    {} as never,
+    {} as never,
+    {} as never,
+  );
+  return { service, supabase };
+}
+
+describe('FamilyProfilesService maturity', () => {
+  it('lists the title ratings each profile level can see', () => {
+    expect(allowedMaturityLevels('kids')).toEqual(['kids']);
+    expect(allowedMaturityLevels('teen')).toEqual(['kids', 'teen']);
+    expect(allowedMaturityLevels(undefined)).toEqual(['kids', 'teen', 'adult']);
+  });
+
+  it('blocks titles rated above the active profile', async () => {
+    const { service } = createService('teen');
+
+    await expect(service.assertTitleAllowed('b1', 'kids')).rejects.toThrow(
+      ForbiddenException,
+    );
+    await expect(
+      service.assertTitleAllowed('b1', 'teen'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('skips the lookup for adult profiles', async () => {
+    const { service, supabase } = createService('adult');
+
+    await service.assertTitleAllowed('b1', 'adult');
+
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,444 @@
+// src/auth/family-profiles.service.ts
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import * as argon2 from 'argon2';
+import { SB_ADMIN } from '../supabase/module';
+import type { ClientContext } from '../common/utils/client-context';
+import { SessionCacheService } from './session-cache.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { ProfileDetailsService } from './profile-details.service';
+import { AvatarUpload, PublicProfileService } from './public-profile.service';
+import { TrustedTimeService } from '../trusted-time/trusted-time.service';
+import {
+  allowedMaturityLevels,
+  FAMILY_PROVIDER,
+  MaturityLevel,
+  normalizeMaturity,
+} from './family-scope';
+
+const MAX_FAMILY_PROFILES = 5;
+
+/**
+ * Linha de `family_profiles` (profile_id, owner_id, language,
+ * maturity_level, pin_hash, created_at). Cada perfil da família também é
+ * uma linha de `profiles` com `provider = 'family'`, então favoritos,
+ * progresso e concluídos continuam indexados por `profileId`. O titular só
+ * tem linha aqui quando define um PIN.
+ */
+type FamilyRow = {
+  profile_id: string;
+  owner_id: string;
+  language: string | null;
+  maturity_level: string | null;
+  pin_hash: string | null;
+  created_at: string | null;
+};
+
+type ProfileRow = {
+  id: string | number;
+  name: string | null;
+  avatar_path: string | null;
+};
+
+export interface FamilyProfile {
+  id: string;
+  name: string | null;
+  avatarUrl: string | null;
+  language: string;
+  maturity: MaturityLevel;
+  hasPin: boolean;
+  owner: boolean;
+}
+
+export interface FamilyProfileInput {
+  name?: string;
+  language?: string;
+  maturity?: MaturityLevel;
+  /** `null` remove o PIN. */
+  pin?: string | null;
+}
+
+/**
+ * Perfis de ouvinte sob uma mesma conta. A sessão guarda o perfil ativo
+ * em `tokens.active_profile_id`; o SessionMiddleware expõe esse perfil em
+ * `session.userId` e a conta em `session.accountId`.
+ */
+@Injectable()
+export class FamilyProfilesService {
+  private readonly logger = new Logger(FamilyProfilesService.name);
+
+  constructor(
+    @Inject(SB_ADMIN) private readonly supabase: SupabaseClient,
+    private readonly sessionCache: SessionCacheService,
+    private readonly loginThrottle: LoginThrottleService,
+    private readonly profileDetails: ProfileDetailsService,
+    private readonly publicProfile: PublicProfileService,
+    private readonly clock: TrustedTimeService,
+  ) {}
+
+  async list(accountId: string): Promise<FamilyProfile[]> {
+    const [owner, ownerDetails, rows] = await Promise.all([
+      this.loadProfiles([accountId]),
+      this.profileDetails.getDetails(accountId),
+      this.loadFamilyRows(accountId),
+    ]);
+    const ownerRow = rows.find((row) => row.profile_id === accountId);
+    const members = rows.filter((row) => row.profile_id !== accountId);
+    const profiles = await this.loadProfiles(
+      members.map((row) => row.profile_id),
+    );
+
+    const result: FamilyProfile[] = [
+      {
+        ...this.publicFields(accountId, owner),
+        language: this.profileDetails.normalizeLanguage(ownerDetails?.language),
+        maturity: 'adult',
+        hasPin: Boolean(ownerRow?.pin_hash),
+        owner: true,
+      },
+    ];
+    for (const row of members) {
+      result.push({
+        ...this.publicFields(row.profile_id, profiles),
+        language: this.profileDetails.normalizeLanguage(row.language),
+        maturity: normalizeMaturity(row.maturity_level),
+        hasPin: Boolean(row.pin_hash),
+        owner: false,
+      });
+    }
+    return result;
+  }
+
+  async get(accountId: string, profileId: string) {
+    const profile = (await this.list(accountId)).find(
+      (entry) => entry.id === profileId,
+    );
+    if (!profile) throw new NotFoundException('Perfil não encontrado.');
+    return profile;
+  }
+
+  async create(accountId: string, input: FamilyProfileInput) {
+    const members = (await this.loadFamilyRows(accountId)).filter(
+      (row) => row.profile_id !== accountId,
+    );
+    if (members.length >= MAX_FAMILY_PROFILES) {
+      throw new BadRequestException(
+        `Limite de ${MAX_FAMILY_PROFILES} perfis por conta atingido.`,
+      );
+    }
+    if (!input.name) throw new BadRequestException('Informe o nome do perfil.');
+
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .insert({ email: null, name: input.name, provider: FAMILY_PROVIDER })
+      .select('id')
+      .single();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao criar perfil: ${error.message}`,
+      );
+    const profileId = String(data.id);
+
+    const { error: familyError } = await this.supabase
+      .from('family_profiles')
+      .insert({
+        profile_id: profileId,
+        owner_id: accountId,
+        language: input.language ?? null,
+        maturity_level: input.maturity ?? 'adult',
+        pin_hash: input.pin ? await argon2.hash(input.pin) : null,
+        created_at: this.clock.nowIso(),
+      });
+    if (familyError) {
+      await this.supabase.from('profiles').delete().eq('id', profileId);
+      throw new InternalServerErrorException(
+        `Falha ao criar perfil: ${familyError.message}`,
+      );
+    }
+
+    this.logger.log(`Perfil ${profileId} criado na conta ${accountId}.`);
+    return this.get(accountId, profileId);
+  }
+
+  /**
+   * Nome e idioma do titular seguem em `/account` e a classificação dele é
+   * sempre `adult`; aqui o titular só define ou remove o próprio PIN.
+   */
+  async update(
+    accountId: string,
+    profileId: string,
+    input: FamilyProfileInput,
+  ) {
+    if (profileId === accountId) {
+      if (
+        input.name !== undefined ||
+        input.language !== undefined ||
+        input.maturity !== undefined
+      ) {
+        throw new BadRequestException(
+          'No perfil do titular, apenas o PIN pode ser alterado aqui.',
+        );
+      }
+      if (input.pin === undefined) return this.get(accountId, profileId);
+      await this.saveOwnerPin(accountId, input.pin);
+      return this.get(accountId, profileId);
+    }
+
+    await this.requireMember(accountId, profileId);
+    if (input.name !== undefined) {
+      const { error } = await this.supabase
+        .from('profiles')
+        .update({ name: input.name })
+        .eq('id', profileId);
+      if (error)
+        throw new InternalServerErrorException(
+          `Falha ao atualizar perfil: ${error.message}`,
+        );
+    }
+
+    const patch: Record<string, string | null> = {};
+    if (input.language !== undefined) patch.language = input.language;
+    if (input.maturity !== undefined) patch.maturity_level = input.maturity;
+    if (input.pin !== undefined)
+      patch.pin_hash = input.pin ? await argon2.hash(input.pin) : null;
+    if (Object.keys(patch).length > 0) {
+      const { error } = await this.supabase
+        .from('family_profiles')
+        .update(patch)
+        .eq('profile_id', profileId)
+        .eq('owner_id', accountId);
+      if (error)
+        throw new InternalServerErrorException(
+          `Falha ao atualizar perfil: ${error.message}`,
+        );
+      // A classificação do perfil ativo vai no cache das sessões
+      if (input.maturity !== undefined)
+        this.sessionCache.invalidateUser(accountId);
+    }
+    return this.get(accountId, profileId);
+  }
+
+  async updateAvatar(
+    accountId: string,
+    profileId: string,
+    file: AvatarUpload | undefined,
+  ) {
+    await this.requireMember(accountId, profileId);
+    return this.publicProfile.updateAvatar(profileId, file);
+  }
+
+  async remove(accountId: string, profileId: string) {
+    if (profileId === accountId) {
+      throw new BadRequestException(
+        'O perfil do titular só sai com a exclusão da conta.',
+      );
+    }
+    await this.requireMember(accountId, profileId);
+    await this.purgeMember(accountId, profileId);
+    this.logger.log(`Perfil ${profileId} removido da conta ${accountId}.`);
+    return { success: true };
+  }
+
+  /** Remove todos os perfis da família; usado na exclusão da conta. */
+  async removeAll(accountId: string) {
+    const rows = await this.loadFamilyRows(accountId);
+    for (const row of rows) {
+      if (row.profile_id === accountId) continue;
+      await this.purgeMember(accountId, row.profile_id);
+    }
+    await this.supabase
+      .from('family_profiles')
+      .delete()
+      .eq('owner_id', accountId);
+  }
+
+  /**
+   * Troca o perfil ativo da sessão. Perfis com PIN exigem o PIN, com o
+   * mesmo limitador de tentativas dos códigos de login.
+   */
+  async switchProfile(
+    session: { accountId: string; userId: string; tokenId: string },
+    profileId: string,
+    pin: string | undefined,
+    client?: ClientContext,
+  ) {
+    const { accountId } = session;
+    const target = await this.get(accountId, profileId);
+
+    if (target.hasPin && profileId !== session.userId) {
+      await this.loginThrottle.guard(
+        'profile-pin',
+        { identity: profileId, client },
+        () => this.verifyPin(accountId, profileId, pin),
+      );
+    }
+
+    const { error } = await this.supabase
+      .from('tokens')
+      .update({ active_profile_id: profileId === accountId ? null : profileId })
+      .eq('id', session.tokenId)
+      .eq('user_id', accountId);
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao trocar de perfil: ${error.message}`,
+      );
+    this.sessionCache.invalidateTokenId(session.tokenId);
+
+    return { activeProfile: target };
+  }
+
+  /**
+   * Barra resumo e áudio de títulos acima da classificação do perfil ativo
+   * (`session.maturityLevel`). Perfis `adult` não consultam o banco.
+   */
+  async assertTitleAllowed(
+    bookId: string,
+    maturity: MaturityLevel | undefined,
+  ) {
+    if (!maturity || maturity === 'adult') return;
+
+    const { data, error } = await this.supabase
+      .from('books')
+      .select('maturity_level')
+      .eq('id', bookId)
+      .maybeSingle();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar classificação do título: ${error.message}`,
+      );
+    const level = normalizeMaturity(
+      (data as { maturity_level: string | null } | null)?.maturity_level,
+    );
+    if (!allowedMaturityLevels(maturity).includes(level)) {
+      throw new ForbiddenException({
+        message: 'Título indisponível para a classificação deste perfil.',
+        code: 'MATURITY_RESTRICTED',
+      });
+    }
+  }
+
+  private async verifyPin(
+    accountId: string,
+    profileId: string,
+    pin: string | undefined,
+  ) {
+    if (!pin) throw new UnauthorizedException('Informe o PIN do perfil.');
+    const row = (await this.loadFamilyRows(accountId)).find(
+      (entry) => entry.profile_id === profileId,
+    );
+    let valid = false;
+    try {
+      valid = row?.pin_hash ? await argon2.verify(row.pin_hash, pin) : false;
+    } catch {
+      valid = false;
+    }
+    if (!valid) throw new UnauthorizedException('PIN inválido.');
+  }
+
+  private async saveOwnerPin(accountId: string, pin: string | null) {
+    const { error } = await this.supabase.from('family_profiles').upsert(
+      {
+        profile_id: accountId,
+        owner_id: accountId,
+        pin_hash: pin ? await argon2.hash(pin) : null,
+      },
+      { onConflict: 'profile_id' },
+    );
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao salvar PIN: ${error.message}`,
+      );
+  }
+
+  private async requireMember(accountId: string, profileId: string) {
+    const { data, error } = await this.supabase
+      .from('family_profiles')
+      .select('profile_id')
+      .eq('profile_id', profileId)
+      .eq('owner_id', accountId)
+      .maybeSingle();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar perfil: ${error.message}`,
+      );
+    if (!data || profileId === accountId) {
+      throw new ForbiddenException('Perfil não pertence a esta conta.');
+    }
+  }
+
+  /**
+   * Remove o perfil e os dados dele numa única transação, pela função
+   * `purge_family_profile(p_owner_id uuid, p_profile_id uuid) returns text`
+   * (supabase/migrations, execução só para `service_role`). A função confere
+   * que o perfil pertence à conta, devolve ao titular as sessões que estavam
+   * no perfil, apaga `favorites`, `listening_progress`, `finished`,
+   * `reviews`, `profile_genres`, `family_profiles` e a linha de `profiles`
+   * com `provider = 'family'`, e retorna o `avatar_path` removido. O arquivo
+   * do avatar fica fora do banco e só sai depois do commit.
+   */
+  private async purgeMember(accountId: string, profileId: string) {
+    const result = await this.supabase.rpc('purge_family_profile', {
+      p_owner_id: accountId,
+      p_profile_id: profileId,
+    });
+    if (result.error)
+      throw new InternalServerErrorException(
+        `Falha ao remover perfil: ${result.error.message}`,
+      );
+    this.sessionCache.invalidateUser(accountId);
+
+    const avatarPath = result.data as string | null;
+    if (avatarPath) await this.publicProfile.removeAvatarFile(avatarPath);
+  }
+
+  private async loadFamilyRows(accountId: string): Promise<FamilyRow[]> {
+    const { data, error } = await this.supabase
+      .from('family_profiles')
+      .select(
+        'profile_id, owner_id, language, maturity_level, pin_hash, created_at',
+      )
+      .eq('owner_id', accountId)
+      .order('created_at', { ascending: true });
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar perfis da família: ${error.message}`,
+      );
+    return ((data ?? []) as FamilyRow[]).map((row) => ({
+      ...row,
+      profile_id: String(row.profile_id),
+    }));
+  }
+
+  private async loadProfiles(ids: string[]) {
+    if (ids.length === 0) return new Map<string, ProfileRow>();
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .select('id, name, avatar_path')
+      .in('id', ids);
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar perfis: ${error.message}`,
+      );
+    return new Map(
+      ((data ?? []) as ProfileRow[]).map((row) => [String(row.id), row]),
+    );
+  }
+
+  private publicFields(profileId: string, profiles: Map<string, ProfileRow>) {
+    const row = profiles.get(profileId);
+    return {
+      id: profileId,
+      name: row?.name ?? null,
+      avatarUrl: this.publicProfile.avatarUrl(row?.avatar_path),
+    };
+  }
+}
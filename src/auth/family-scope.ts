@@ -0,0 +1,44 @@
+// src/auth/family-scope.ts
+export const FAMILY_PROVIDER = 'family';
+
+/**
+ * Rotas da conta que só o perfil do titular acessa. Perfis da família
+ * usam o restante normalmente, com os próprios favoritos e progresso.
+ */
+const OWNER_ONLY_PREFIXES = [
+  '/account',
+  '/auth/sessions',
+  '/auth/logout-all',
+  '/auth/2fa',
+  '/auth/guest/merge',
+];
+
+export function isOwnerOnlyRoute(path: string): boolean {
+  const normalized = path.toLowerCase();
+  return OWNER_ONLY_PREFIXES.some(
+    (prefix) => normalized === prefix || normalized.startsWith(`${prefix}/`),
+  );
+}
+
+/**
+ * Classificação indicativa do perfil (`family_profiles.maturity_level`) e
+ * dos títulos (`books.maturity_level`). O titular é sempre `adult`.
+ */
+export const MATURITY_LEVELS = ['kids', 'teen', 'adult'] as const;
+export type MaturityLevel = (typeof MATURITY_LEVELS)[number];
+
+export function normalizeMaturity(value: unknown): MaturityLevel {
+  return MATURITY_LEVELS.includes(value as MaturityLevel)
+    ? (value as MaturityLevel)
+    : 'adult';
+}
+
+/**
+ * Classificações de título que o perfil pode ver: `kids` só `kids`, `teen`
+ * até `teen` e `adult` (ou sessão sem perfil da família) todas.
+ */
+export function allowedMaturityLevels(
+  level: MaturityLevel = 'adult',
+): MaturityLevel[] {
+  return MATURITY_LEVELS.slice(0, MATURITY_LEVELS.indexOf(level) + 1);
+}
@@ -0,0 +1,74 @@
+import { planGuestMerge, ProgressEntry } from './guest-merge';
+
+const progress = (bookId: string, updatedAt: string): ProgressEntry => ({
+  bookId,
+  positionSeconds: 60,
+  durationSeconds: 600,
+  progressPercent: 10,
+  updatedAt,
+});
+
+describe('planGuestMerge', () => {
+  const limits = { progress: 7, finished: 15 };
+
+  it('adds guest favorites and keeps the most recent progress', () => {
+    const plan = planGuestMerge(
+      {
+        favorites: ['a'],
+        progress: [progress('a', '2026-01-02'), progress('b', '2026-01-05')],
+        finished: [],
+      },
+      {
+        favorites: ['a', 'c'],
+        progress: [progress('a', '2026-01-03'), progress('b', '2026-01-04')],
+        finished: [],
+      },
+      limits,
+    );
+
+    expect(plan.favoritesToInsert).toEqual(['c']);
+    expect(plan.progressToUpsert.map((e) => e.bookId)).toEqual(['a']);
+    expect(plan.progressToDelete).toEqual([]);
+  });
+
+  it('drops progress older than a finish of the same book', () => {
+    const plan = planGuestMerge(
+      { favorites: [], progress: [progress('a', '2026-01-01')], finished: [] },
+      {
+        favorites: [],
+        progress: [progress('b', '2026-01-09')],
+        finished: [
+          { bookId: 'a', createdAt: '2026-01-02' },
+          { bookId: 'b', createdAt: '2026-01-03' },
+        ],
+      },
+      limits,
+    );
+
+    expect(plan.finishedToInsert.map((e) => e.bookId)).toEqual(['b', 'a']);
+    expect(plan.progressToDelete).toEqual(['a']);
+    // voltou a ouvir depois de concluir: o progresso continua
+    expect(plan.progressToUpsert.map((e) => e.bookId)).toEqual(['b']);
+  });
+
+  it('trims to the per-profile limits keeping the newest rows', () => {
+    const plan = planGuestMerge(
+      {
+        favorites: [],
+        progress: [progress('a', '2026-01-01')],
+        finished: [{ bookId: 'x', createdAt: '2026-01-01' }],
+      },
+      {
+        favorites: [],
+        progress: [progress('b', '2026-01-02')],
+        finished: [{ bookId: 'y', createdAt: '2026-01-02' }],
+      },
+      { progress: 1, finished: 1 },
+    );
+
+    expect(plan.progressToUpsert.map((e) => e.bookId)).toEqual(['b']);
+    expect(plan.progressToDelete).toEqual(['a']);
+    expect(plan.finishedToInsert.map((e) => e.bookId)).toEqual(['y']);
+    expect(plan.finishedToDelete).toEqual(['x']);
+  });
+});
@@ -0,0 +1,109 @@
+// src/auth/guest-merge.ts
+export interface ProgressEntry {
+  bookId: string;
+  positionSeconds: number | null;
+  durationSeconds: number | null;
+  progressPercent: number | null;
+  updatedAt: string | null;
+}
+
+export interface FinishedEntry {
+  bookId: string;
+  createdAt: string | null;
+}
+
+export interface ActivitySnapshot {
+  favorites: string[];
+  progress: ProgressEntry[];
+  finished: FinishedEntry[];
+}
+
+export interface MergeLimits {
+  progress: number;
+  finished: number;
+}
+
+/** Alterações a aplicar na conta para absorver os dados do convidado. */
+export interface GuestMergePlan {
+  favoritesToInsert: string[];
+  finishedToInsert: FinishedEntry[];
+  finishedToDelete: string[];
+  progressToUpsert: ProgressEntry[];
+  progressToDelete: string[];
+}
+
+function timeOf(iso: string | null) {
+  const ms = iso ? new Date(iso).getTime() : NaN;
+  return Number.isFinite(ms) ? ms : 0;
+}
+
+function byRecent<T>(pick: (item: T) => string | null) {
+  return (a: T, b: T) => timeOf(pick(b)) - timeOf(pick(a));
+}
+
+/**
+ * Junta a atividade do convidado com a da conta. Em conflito vence o
+ * registro mais recente; progresso mais antigo que a conclusão do mesmo
+ * livro é descartado; os limites por perfil mantêm os mais recentes.
+ */
+export function planGuestMerge(
+  account: ActivitySnapshot,
+  guest: ActivitySnapshot,
+  limits: MergeLimits,
+): GuestMergePlan {
+  const accountFavorites = new Set(account.favorites);
+  const favoritesToInsert = Array.from(new Set(guest.favorites)).filter(
+    (bookId) => !accountFavorites.has(bookId),
+  );
+
+  const finishedByBook = new Map<string, FinishedEntry>();
+  for (const entry of [...account.finished, ...guest.finished]) {
+    const current = finishedByBook.get(entry.bookId);
+    if (!current || timeOf(entry.createdAt) > timeOf(current.createdAt)) {
+      finishedByBook.set(entry.bookId, entry);
+    }
+  }
+  const keptFinished = Array.from(finishedByBook.values())
+    .sort(byRecent((entry) => entry.createdAt))
+    .slice(0, limits.finished);
+  const keptFinishedByBook = new Map(
+    keptFinished.map((entry) => [entry.bookId, entry]),
+  );
+
+  const accountFinished = new Set(account.finished.map((e) => e.bookId));
+  const finishedToInsert = keptFinished.filter(
+    (entry) => !accountFinished.has(entry.bookId),
+  );
+  const finishedToDelete = Array.from(accountFinished).filter(
+    (bookId) => !keptFinishedByBook.has(bookId),
+  );
+
+  const accountProgress = new Map(account.progress.map((e) => [e.bookId, e]));
+  const progressByBook = new Map<string, ProgressEntry>(accountProgress);
+  for (const entry of guest.progress) {
+    const current = progressByBook.get(entry.bookId);
+    if (!current || timeOf(entry.updatedAt) > timeOf(current.updatedAt)) {
+      progressByBook.set(entry.bookId, entry);
+    }
+  }
+  const keptProgress = Array.from(progressByBook.values())
+    .filter((entry) => {
+      const finished = keptFinishedByBook.get(entry.bookId);
+      return !finished || timeOf(entry.updatedAt) > timeOf(finished.createdAt);
+    })
+    .sort(byRecent((entry) => entry.updatedAt))
+    .slice(0, limits.progress);
+  const keptProgressBooks = new Set(keptProgress.map((e) => e.bookId));
+
+  return {
+    favoritesToInsert,
+    finishedToInsert,
+    finishedToDelete,
+    progressToUpsert: keptProgress.filter(
+      (entry) => accountProgress.get(entry.bookId) !== entry,
+    ),
+    progressToDelete: Array.from(accountProgress.keys()).filter(
+      (bookId) => !keptProgressBooks.has(bookId),
+    ),
+  };
+}
@@ -0,0 +1,30 @@
+// src/auth/guest-scope.ts
+export const GUEST_PROVIDER = 'guest';
+
+type GuestRoute = { method: 'GET' | 'ANY'; prefix: string };
+
+/** Rotas liberadas para sessões de convidado; o resto exige conta. */
+const GUEST_ROUTES: GuestRoute[] = [
+  { method: 'GET', prefix: '/books' },
+  { method: 'GET', prefix: '/summaries' },
+  { method: 'GET', prefix: '/reviews' },
+  { method: 'GET', prefix: '/covers' },
+  { method: 'GET', prefix: '/audios' },
+  { method: 'GET', prefix: '/auth/me' },
+  { method: 'ANY', prefix: '/favorites' },
+  { method: 'ANY', prefix: '/listening-progress' },
+  { method: 'ANY', prefix: '/finished-books' },
+];
+
+export function isGuestRoute(method: string, path: string): boolean {
+  const normalized = path.toLowerCase();
+  const verb = method.toUpperCase();
+  return GUEST_ROUTES.some(
+    (route) =>
+      (route.method === 'ANY' ||
+        route.method === verb ||
+        (route.method === 'GET' && verb === 'HEAD')) &&
+      (normalized === route.prefix ||
+        normalized.startsWith(`${route.prefix}/`)),
+  );
+}
@@ -0,0 +1,354 @@
+// src/auth/guest.service.ts
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SB_ADMIN } from '../supabase/module';
+import { hashToken } from '../common/utils/token';
+import { TooManyAttemptsException } from '../common/exceptions/too-many-attempts.exception';
+import type { ClientContext } from '../common/utils/client-context';
+import { KeyValueStore, ttlUntil } from '../kv-store/key-value-store';
+import { SessionCacheService } from './session-cache.service';
+import { GUEST_PROVIDER } from './guest-scope';
+import {
+  ActivitySnapshot,
+  FinishedEntry,
+  planGuestMerge,
+  ProgressEntry,
+} from './guest-merge';
+
+const KEY_PREFIX = 'guest';
+const DEFAULT_SUMMARY_LIMIT = 3;
+const DEFAULT_SESSION_TTL_DAYS = 30;
+const MAX_GUESTS_PER_IP_PER_HOUR = 10;
+const EXPIRED_PURGE_BATCH_SIZE = 50;
+// Mesmos limites de ListeningProgressService e FinishedBooksService
+const MAX_PROGRESS_ROWS = 7;
+const MAX_FINISHED_ROWS = 15;
+
+type ProgressRow = {
+  book_id: string;
+  position_seconds: number | null;
+  duration_seconds: number | null;
+  progress_percent: number | null;
+  updated_at: string | null;
+};
+
+type FinishedRow = { book_id: string; created_at: string | null };
+type GuestTokenRow = { user_id: string | number; expires_at: string | null };
+
+/**
+ * Convidados são perfis `provider = 'guest'` sem email nem telefone, com
+ * uma sessão longa e acesso restrito (ver `guest-scope.ts`). Ao criar a
+ * conta, favoritos e progresso do convidado são levados para ela.
+ */
+@Injectable()
+export class GuestService {
+  private readonly logger = new Logger(GuestService.name);
+  private readonly summaryLimit: number;
+  private readonly sessionTtlDays: number;
+
+  constructor(
+    @Inject(SB_ADMIN) private readonly supabase: SupabaseClient,
+    private readonly store: KeyValueStore,
+    private readonly sessionCache: SessionCacheService,
+    config: ConfigService,
+  ) {
+    const limit = Number(config.get<string>('GUEST_SUMMARY_LIMIT'));
+    this.summaryLimit =
+      Number.isInteger(limit) && limit >= 0 ? limit : DEFAULT_SUMMARY_LIMIT;
+    const days = Number(config.get<string>('GUEST_SESSION_TTL_DAYS'));
+    this.sessionTtlDays =
+      Number.isInteger(days) && days > 0 ? days : DEFAULT_SESSION_TTL_DAYS;
+  }
+
+  get sessionTtlMinutes() {
+    return this.sessionTtlDays * 24 * 60;
+  }
+
+  get limits() {
+    return { summaries: this.summaryLimit };
+  }
+
+  async createProfile(client?: ClientContext) {
+    if (client?.ip) {
+      const created = await this.store.increment(
+        `${KEY_PREFIX}:ip:${hashToken(client.ip)}`,
+        60 * 60_000,
+      );
+      if (created > MAX_GUESTS_PER_IP_PER_HOUR) {
+        throw new TooManyAttemptsException(
+          'Muitas sessões de convidado criadas. Tente novamente mais tarde.',
+          60 * 60,
+        );
+      }
+    }
+
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .insert({ email: null, name: null, provider: GUEST_PROVIDER })
+      .select('id')
+      .single();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao criar convidado: ${error.message}`,
+      );
+    if (!data?.id)
+      throw new InternalServerErrorException('Convidado não criado.');
+    return String(data.id);
+  }
+
+  /**
+   * Conta os resumos distintos abertos pelo convidado. Reabrir um resumo já
+   * visto não consome o limite.
+   */
+  async assertSummaryAllowed(
+    profileId: string,
+    bookId: string,
+    sessionExpiresAt?: string,
+  ) {
+    const ttl = ttlUntil(sessionExpiresAt);
+    // Marca o livro e só então conta, tudo com operações atômicas: pedidos
+    // em paralelo de livros diferentes não passam juntos do limite
+    const bookKey = `${KEY_PREFIX}:summaries:${profileId}:${bookId}`;
+    const firstUse = await this.store.setIfAbsent(bookKey, true, ttl);
+    if (!firstUse) return;
+
+    const used = await this.store.increment(
+      this.summaryCountKey(profileId),
+      ttl,
+    );
+    if (used > this.summaryLimit) {
+      await this.store.delete(bookKey);
+      throw new ForbiddenException({
+        message:
+          'Limite de resumos do modo convidado atingido. Crie uma conta.',
+        code: 'GUEST_LIMIT_REACHED',
+      });
+    }
+  }
+
+  /**
+   * Remove convidados com a sessão vencida, junto com favoritos e
+   * progresso. A sessão de convidado não é renovada, então o token vencido
+   * marca o fim do convidado.
+   */
+  async purgeExpired() {
+    const { data, error } = await this.supabase
+      .from('tokens')
+      .select('user_id')
+      .eq('provider', GUEST_PROVIDER)
+      .lte('expires_at', new Date().toISOString())
+      .limit(EXPIRED_PURGE_BATCH_SIZE);
+    if (error) {
+      this.logger.error(
+        `Falha ao listar convidados vencidos: ${error.message}`,
+      );
+      return;
+    }
+
+    const guestIds = new Set(
+      ((data ?? []) as { user_id: string }[]).map((row) => String(row.user_id)),
+    );
+    for (const guestId of guestIds) {
+      try {
+        await this.deleteGuest(guestId);
+      } catch (err) {
+        this.logger.error(
+          `Falha ao remover convidado ${guestId}: ${String(err)}`,
+        );
+      }
+    }
+    if (guestIds.size > 0) {
+      this.logger.log(`${guestIds.size} convidados vencidos removidos.`);
+    }
+  }
+
+  /**
+   * Leva favoritos, progresso e livros concluídos do convidado para
+   * `profileId` e apaga o perfil convidado com suas sessões.
+   */
+  async mergeInto(guestToken: string, profileId: string) {
+    const guestId = await this.resolveGuestToken(guestToken);
+    if (guestId === profileId) {
+      throw new BadRequestException('Sessão de convidado inválida.');
+    }
+
+    const [account, guest] = await Promise.all([
+      this.loadSnapshot(profileId),
+      this.loadSnapshot(guestId),
+    ]);
+    const plan = planGuestMerge(account, guest, {
+      progress: MAX_PROGRESS_ROWS,
+      finished: MAX_FINISHED_ROWS,
+    });
+
+    const replaced = plan.progressToUpsert.map((entry) => entry.bookId);
+    const operations = [
+      plan.favoritesToInsert.length > 0 &&
+        this.supabase.from('favorites').insert(
+          plan.favoritesToInsert.map((bookId) => ({
+            profileId,
+            book_id: bookId,
+          })),
+        ),
+      plan.finishedToDelete.length > 0 &&
+        this.supabase
+          .from('finished')
+          .delete()
+          .eq('profileId', profileId)
+          .in('book_id', plan.finishedToDelete),
+      plan.finishedToInsert.length > 0 &&
+        this.supabase.from('finished').insert(
+          plan.finishedToInsert.map((entry) => ({
+            profileId,
+            book_id: entry.bookId,
+            created_at: entry.createdAt ?? new Date().toISOString(),
+          })),
+        ),
+      plan.progressToDelete.length + replaced.length > 0 &&
+        this.supabase
+          .from('listening_progress')
+          .delete()
+          .eq('profileId', profileId)
+          .in('book_id', [...plan.progressToDelete, ...replaced]),
+      plan.progressToUpsert.length > 0 &&
+        this.supabase.from('listening_progress').insert(
+          plan.progressToUpsert.map((entry) => ({
+            profileId,
+            book_id: entry.bookId,
+            position_seconds: entry.positionSeconds,
+            duration_seconds: entry.durationSeconds,
+            progress_percent: entry.progressPercent,
+            updated_at: entry.updatedAt ?? new Date().toISOString(),
+          })),
+        ),
+    ];
+    for (const op of operations) {
+      if (!op) continue;
+      const { error } = await op;
+      if (error)
+        throw new InternalServerErrorException(
+          `Falha ao migrar dados do convidado: ${error.message}`,
+        );
+    }
+
+    await this.deleteGuest(guestId);
+    this.logger.log(`Convidado ${guestId} incorporado ao perfil ${profileId}.`);
+
+    return {
+      merged: true,
+      favorites: plan.favoritesToInsert.length,
+      listeningProgress: plan.progressToUpsert.length,
+      finished: plan.finishedToInsert.length,
+    };
+  }
+
+  private async resolveGuestToken(guestToken: string) {
+    const token = String(guestToken ?? '').trim();
+    if (!token) throw new BadRequestException('Token de convidado ausente.');
+
+    const { data, error } = await this.supabase
+      .from('tokens')
+      .select('user_id, expires_at')
+      .eq('token_hash', hashToken(token))
+      .eq('provider', GUEST_PROVIDER)
+      .maybeSingle();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar convidado: ${error.message}`,
+      );
+    const row = data as GuestTokenRow | null;
+    if (
+      !row ||
+      (row.expires_at && new Date(row.expires_at).getTime() <= Date.now())
+    ) {
+      throw new UnauthorizedException(
+        'Sessão de convidado inválida ou expirada.',
+      );
+    }
+    return String(row.user_id);
+  }
+
+  private async loadSnapshot(profileId: string): Promise<ActivitySnapshot> {
+    const [favorites, progress, finished] = await Promise.all([
+      this.supabase
+        .from('favorites')
+        .select('book_id')
+        .eq('profileId', profileId),
+      this.supabase
+        .from('listening_progress')
+        .select(
+          'book_id, position_seconds, duration_seconds, progress_percent, updated_at',
+        )
+        .eq('profileId', profileId),
+      this.supabase
+        .from('finished')
+        .select('book_id, created_at')
+        .eq('profileId', profileId),
+    ]);
+    const error = favorites.error ?? progress.error ?? finished.error;
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar atividade: ${error.message}`,
+      );
+
+    return {
+      favorites: ((favorites.data ?? []) as { book_id: string }[]).map((row) =>
+        String(row.book_id),
+      ),
+      progress: ((progress.data ?? []) as ProgressRow[]).map(
+        (row): ProgressEntry => ({
+          bookId: String(row.book_id),
+          positionSeconds: row.position_seconds,
+          durationSeconds: row.duration_seconds,
+          progressPercent: row.progress_percent,
+          updatedAt: row.updated_at,
+        }),
+      ),
+      finished: ((finished.data ?? []) as FinishedRow[]).map(
+        (row): FinishedEntry => ({
+          bookId: String(row.book_id),
+          createdAt: row.created_at,
+        }),
+      ),
+    };
+  }
+
+  private async deleteGuest(guestId: string) {
+    const operations = [
+      this.supabase.from('favorites').delete().eq('profileId', guestId),
+      this.supabase
+        .from('listening_progress')
+        .delete()
+        .eq('profileId', guestId),
+      this.supabase.from('finished').delete().eq('profileId', guestId),
+      this.supabase.from('tokens').delete().eq('user_id', guestId),
+      this.supabase
+        .from('profiles')
+        .delete()
+        .eq('id', guestId)
+        .eq('provider', GUEST_PROVIDER),
+    ];
+    for (const op of operations) {
+      const { error } = await op;
+      if (error)
+        throw new InternalServerErrorException(
+          `Falha ao remover convidado: ${error.message}`,
+        );
+    }
+    await this.store.delete(this.summaryCountKey(guestId));
+    this.sessionCache.invalidateUser(guestId);
+  }
+
+  private summaryCountKey(profileId: string) {
+    return `${KEY_PREFIX}:summaries:${profileId}:count`;
+  }
+}
@@ -0,0 +1,123 @@
+import { generateKeyPairSync, createHash, KeyObject } from 'crypto';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as jwt from 'jsonwebtoken';
+import { IdTokenVerifierService } from './id-token-verifier.service';
+import { LocalJwksSource } from './jwks-source';
+
+const GOOGLE_CLIENT_ID = 'app.apps.googleusercontent.com';
+
+function createKey(kid: string) {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256' };
+  return { kid, privateKey, jwk };
+}
+
+function sign(
+  privateKey: KeyObject,
+  kid: string,
+  overrides: Record<string, unknown> = {},
+) {
+  const now = Math.floor(Date.now() / 1000);
+  return jwt.sign(
+    {
+      iss: 'https://accounts.google.com',
+      aud: GOOGLE_CLIENT_ID,
+      sub: '1234567890',
+      email: 'listener@example.com',
+      email_verified: true,
+      iat: now,
+      exp: now + 300,
+      ...overrides,
+    },
+    privateKey,
+    { algorithm: 'RS256', keyid: kid },
+  );
+}
+
+describe('IdTokenVerifierService', () => {
+  const current = createKey('key-1');
+  let jwks: LocalJwksSource;
+  let verifier: IdTokenVerifierService;
+
+  beforeEach(() => {
+    jwks = new LocalJwksSource({ google: { keys: [current.jwk] } });
+    verifier = new IdTokenVerifierService(
+      jwks,
+      new ConfigService({ GOOGLE_CLIENT_IDS: GOOGLE_CLIENT_ID }),
+    );
+  });
+
+  it('accepts a token signed by a key from the provider JWKS', async () => {
+    const claims = await verifier.verify(
+      'google',
+      sign(current.privateKey, current.kid),
+    );
+    expect(claims.email).toBe('listener@example.com');
+    expect(claims.sub).toBe('1234567890');
+  });
+
+  it('rejects a token signed by an unknown key', async () => {
+    const forged = createKey('key-1');
+    await expect(
+      verifier.verify('google', sign(forged.privateKey, forged.kid)),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('rejects a token issued for another client id', async () => {
+    const token = sign(current.privateKey, current.kid, { aud: 'other-app' });
+    await expect(verifier.verify('google', token)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejects expired tokens beyond the clock skew', async () => {
+    const past = Math.floor(Date.now() / 1000) - 3600;
+    const token = sign(current.privateKey, current.kid, {
+      iat: past,
+      exp: past + 300,
+    });
+    await expect(verifier.verify('google', token)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
+
+  it('follows key rotation on the JWKS source', async () => {
+    const next = createKey('key-2');
+    jwks.rotate('google', { keys: [next.jwk] });
+    await expect(
+      verifier.verify('google', sign(next.privateKey, next.kid)),
+    ).resolves.toMatchObject({ sub: '1234567890' });
+    await expect(
+      verifier.verify('google', sign(current.privateKey, current.kid)),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('checks the nonce in clear or hashed form', async () => {
+    const nonce = 'raw-nonce';
+    const hashed = createHash('sha256').update(nonce).digest('hex');
+    const withNonce = sign(current.privateKey, current.kid, { nonce });
+
+    await expect(
+      verifier.verify('google', withNonce, { nonce }),
+    ).resolves.toBeDefined();
+    await expect(
+      verifier.verify(
+        'google',
+        sign(current.privateKey, current.kid, { nonce: hashed }),
+        { nonce },
+      ),
+    ).resolves.toBeDefined();
+    await expect(
+      verifier.verify('google', withNonce, { nonce: 'other' }),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('refuses logins when the provider has no configured client ids', async () => {
+    await expect(
+      verifier.verify('apple', sign(current.privateKey, current.kid)),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+});
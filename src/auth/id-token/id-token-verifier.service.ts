@@ -0,0 +1,188 @@
+// src/auth/id-token/id-token-verifier.service.ts
+import { createHash } from 'crypto';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as jwt from 'jsonwebtoken';
+import { JWKS_SOURCE, SigningKeyNotFoundError } from './jwks-source';
+import type { JwksSource } from './jwks-source';
+import { ExternalProvider, PROVIDER_VERIFICATION } from './provider-configs';
+
+const DEFAULT_CLOCK_SKEW_SECONDS = 60;
+
+export interface VerifiedIdTokenClaims {
+  sub: string;
+  email: string;
+  email_verified?: boolean | string;
+  name?: string;
+  given_name?: string;
+  picture?: string;
+  nonce?: string;
+  iss: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  [claim: string]: unknown;
+}
+
+export interface VerifyIdTokenOptions {
+  /** Nonce gerado pelo app antes do login (valor em claro). */
+  nonce?: string | null;
+}
+
+@Injectable()
+export class IdTokenVerifierService {
+  private readonly logger = new Logger(IdTokenVerifierService.name);
+
+  constructor(
+    @Inject(JWKS_SOURCE) private readonly jwks: JwksSource,
+    private readonly config: ConfigService,
+  ) {}
+
+  async verify(
+    provider: ExternalProvider,
+    idToken: string,
+    options: VerifyIdTokenOptions = {},
+  ): Promise<VerifiedIdTokenClaims> {
+    const settings = PROVIDER_VERIFICATION[provider];
+    const audiences = this.getAudiences(settings.audienceEnv);
+    if (audiences.length === 0) {
+      this.logger.error(
+        `${settings.audienceEnv} não configurado; login ${provider} recusado.`,
+      );
+      throw new UnauthorizedException(`Login ${provider} indisponível.`);
+    }
+
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new BadRequestException('Formato de id_token inválido.');
+    }
+    const kid = decoded.header.kid;
+    if (!kid) {
+      throw new UnauthorizedException(`id_token do ${provider} sem kid.`);
+    }
+
+    let publicKey: string;
+    try {
+      publicKey = await this.jwks.getSigningKey(provider, kid);
+    } catch (err) {
+      if (err instanceof SigningKeyNotFoundError) {
+        throw new UnauthorizedException(
+          `Assinatura do id_token do ${provider} não reconhecida.`,
+        );
+      }
+      throw err;
+    }
+
+    const clockTolerance = this.getClockSkewSeconds();
+    let claims: jwt.JwtPayload;
+    try {
+      const verified = jwt.verify(idToken, publicKey, {
+        algorithms: settings.algorithms,
+        audience: audiences as [string, ...string[]],
+        issuer: settings.issuerFromClaims
+          ? undefined
+          : (settings.issuers as [string, ...string[]]),
+        clockTolerance,
+      });
+      if (typeof verified === 'string') {
+        throw new UnauthorizedException(`Claims inválidas do ${provider}.`);
+      }
+      claims = verified;
+    } catch (err) {
+      throw this.toUnauthorized(provider, err);
+    }
+
+    if (settings.issuerFromClaims) {
+      const expectedIssuer = settings.issuerFromClaims(claims);
+      if (!expectedIssuer || claims.iss !== expectedIssuer) {
+        throw new UnauthorizedException(`Emissor inválido do ${provider}.`);
+      }
+      this.assertTenant(provider, claims);
+    }
+
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    if (typeof claims.exp !== 'number') {
+      throw new UnauthorizedException(`id_token do ${provider} sem exp.`);
+    }
+    if (
+      typeof claims.iat !== 'number' ||
+      claims.iat > nowSeconds + clockTolerance
+    ) {
+      throw new UnauthorizedException(
+        `iat inválido no id_token do ${provider}.`,
+      );
+    }
+
+    this.assertNonce(provider, claims, options.nonce);
+
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new BadRequestException(`Claims inválidas do ${provider}.`);
+    }
+    if (typeof claims.email !== 'string' || !claims.email) {
+      throw new BadRequestException(`Claims inválidas do ${provider}.`);
+    }
+
+    return claims as VerifiedIdTokenClaims;
+  }
+
+  private assertNonce(
+    provider: ExternalProvider,
+    claims: jwt.JwtPayload,
+    expected?: string | null,
+  ) {
+    const tokenNonce = typeof claims.nonce === 'string' ? claims.nonce : null;
+    const provided = expected ? String(expected).trim() : null;
+
+    if (!tokenNonce && !provided) return;
+    if (!tokenNonce || !provided) {
+      throw new UnauthorizedException(`Nonce inválido no login ${provider}.`);
+    }
+
+    // Apple (e alguns SDKs) assinam o SHA-256 do nonce em vez do valor em claro.
+    const hashed = createHash('sha256').update(provided, 'utf8').digest('hex');
+    if (tokenNonce !== provided && tokenNonce !== hashed) {
+      throw new UnauthorizedException(`Nonce inválido no login ${provider}.`);
+    }
+  }
+
+  private assertTenant(provider: ExternalProvider, claims: jwt.JwtPayload) {
+    const tenant = this.config.get<string>('MICROSOFT_TENANT_ID')?.trim();
+    if (provider !== 'microsoft' || !tenant) return;
+    if (claims.tid !== tenant) {
+      throw new UnauthorizedException(`Tenant não autorizado no ${provider}.`);
+    }
+  }
+
+  private getAudiences(envKey: string): string[] {
+    return String(this.config.get<string>(envKey) ?? '')
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean);
+  }
+
+  private getClockSkewSeconds() {
+    const raw = Number(this.config.get<string>('ID_TOKEN_CLOCK_SKEW_SECONDS'));
+    return Number.isFinite(raw) && raw >= 0 ? raw : DEFAULT_CLOCK_SKEW_SECONDS;
+  }
+
+  private toUnauthorized(provider: ExternalProvider, err: unknown) {
+    if (err instanceof UnauthorizedException) return err;
+    if (err instanceof jwt.TokenExpiredError) {
+      return new UnauthorizedException(`id_token do ${provider} expirado.`);
+    }
+    if (err instanceof jwt.NotBeforeError) {
+      return new UnauthorizedException(
+        `id_token do ${provider} ainda não é válido.`,
+      );
+    }
+    const reason = err instanceof Error ? err.message : String(err);
+    this.logger.warn(`id_token do ${provider} rejeitado: ${reason}`);
+    return new UnauthorizedException(`id_token do ${provider} inválido.`);
+  }
+}
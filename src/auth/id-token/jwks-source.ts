@@ -0,0 +1,100 @@
+// src/auth/id-token/jwks-source.ts
+import { createPublicKey, JsonWebKey } from 'crypto';
+import { JwksClient } from 'jwks-rsa';
+import {
+  EXTERNAL_PROVIDERS,
+  ExternalProvider,
+  PROVIDER_VERIFICATION,
+} from './provider-configs';
+
+export const JWKS_SOURCE = 'JWKS_SOURCE';
+
+/**
+ * Fonte das chaves públicas usadas para validar assinaturas de id_token.
+ * Retorna a chave em PEM para o `kid` informado.
+ */
+export interface JwksSource {
+  getSigningKey(provider: ExternalProvider, kid: string): Promise<string>;
+}
+
+export class SigningKeyNotFoundError extends Error {
+  constructor(provider: ExternalProvider, kid: string) {
+    super(`Chave ${kid} não encontrada no JWKS do ${provider}.`);
+  }
+}
+
+/**
+ * Busca o JWKS publicado por cada provider. O `jwks-rsa` mantém as chaves em
+ * cache e refaz o download quando recebe um `kid` desconhecido, o que cobre a
+ * rotação de chaves sem reiniciar o servidor.
+ */
+export class RemoteJwksSource implements JwksSource {
+  private readonly clients = new Map<ExternalProvider, JwksClient>();
+
+  constructor(
+    options: { cacheMaxAgeMs?: number; requestsPerMinute?: number } = {},
+  ) {
+    for (const provider of EXTERNAL_PROVIDERS) {
+      this.clients.set(
+        provider,
+        new JwksClient({
+          jwksUri: PROVIDER_VERIFICATION[provider].jwksUri,
+          cache: true,
+          cacheMaxEntries: 10,
+          cacheMaxAge: options.cacheMaxAgeMs ?? 6 * 60 * 60 * 1000,
+          rateLimit: true,
+          jwksRequestsPerMinute: options.requestsPerMinute ?? 10,
+          timeout: 5000,
+        }),
+      );
+    }
+  }
+
+  async getSigningKey(provider: ExternalProvider, kid: string) {
+    const client = this.clients.get(provider);
+    if (!client) throw new SigningKeyNotFoundError(provider, kid);
+    try {
+      const key = await client.getSigningKey(kid);
+      return key.getPublicKey();
+    } catch {
+      throw new SigningKeyNotFoundError(provider, kid);
+    }
+  }
+}
+
+/**
+ * Conjunto de chaves fixo em memória (testes e ambientes sem rede).
+ * `rotate` troca as chaves de um provider em tempo de execução.
+ */
+export class LocalJwksSource implements JwksSource {
+  private readonly keys = new Map<ExternalProvider, Map<string, string>>();
+
+  constructor(
+    jwks: Partial<Record<ExternalProvider, { keys: JsonWebKey[] }>> = {},
+  ) {
+    for (const [provider, set] of Object.entries(jwks)) {
+      if (set) this.rotate(provider as ExternalProvider, set);
+    }
+  }
+
+  rotate(provider: ExternalProvider, jwks: { keys: JsonWebKey[] }) {
+    const byKid = new Map<string, string>();
+    for (const jwk of jwks.keys ?? []) {
+      const kid = typeof jwk.kid === 'string' ? jwk.kid : null;
+      if (!kid) continue;
+      const pem = createPublicKey({ key: jwk, format: 'jwk' })
+        .export({ type: 'spki', format: 'pem' })
+        .toString();
+      byKid.set(kid, pem);
+    }
+    this.keys.set(provider, byKid);
+  }
+
+  getSigningKey(provider: ExternalProvider, kid: string) {
+    const pem = this.keys.get(provider)?.get(kid);
+    if (!pem) {
+      return Promise.reject(new SigningKeyNotFoundError(provider, kid));
+    }
+    return Promise.resolve(pem);
+  }
+}
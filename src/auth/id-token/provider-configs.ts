@@ -0,0 +1,54 @@
+// src/auth/id-token/provider-configs.ts
+export type ExternalProvider = 'google' | 'apple' | 'microsoft';
+
+export const EXTERNAL_PROVIDERS: ExternalProvider[] = [
+  'google',
+  'apple',
+  'microsoft',
+];
+
+export interface ProviderVerificationConfig {
+  jwksUri: string;
+  /** Emissores aceitos (comparação exata). */
+  issuers: string[];
+  /**
+   * Emissor dependente de claims (ex.: Microsoft usa o tenant do token).
+   * Quando definido, substitui a checagem de `issuers`.
+   */
+  issuerFromClaims?: (claims: Record<string, unknown>) => string | null;
+  /** Variável de ambiente com os client IDs aceitos em `aud`. */
+  audienceEnv: string;
+  algorithms: ('RS256' | 'ES256')[];
+}
+
+export const PROVIDER_VERIFICATION: Record<
+  ExternalProvider,
+  ProviderVerificationConfig
+> = {
+  google: {
+    jwksUri: 'https://www.googleapis.com/oauth2/v3/certs',
+    issuers: ['https://accounts.google.com', 'accounts.google.com'],
+    audienceEnv: 'GOOGLE_CLIENT_IDS',
+    algorithms: ['RS256'],
+  },
+  apple: {
+    jwksUri: 'https://appleid.apple.com/auth/keys',
+    issuers: ['https://appleid.apple.com'],
+    audienceEnv: 'APPLE_CLIENT_IDS',
+    algorithms: ['RS256', 'ES256'],
+  },
+  microsoft: {
+    jwksUri: 'https://login.microsoftonline.com/common/discovery/v2.0/keys',
+    issuers: [],
+    issuerFromClaims: (claims) =>
+      typeof claims.tid === 'string' && claims.tid
+        ? `https://login.microsoftonline.com/${claims.tid}/v2.0`
+        : null,
+    audienceEnv: 'MICROSOFT_CLIENT_IDS',
+    algorithms: ['RS256'],
+  },
+};
+
+export function isExternalProvider(value: string): value is ExternalProvider {
+  return (EXTERNAL_PROVIDERS as string[]).includes(value);
+}
@@ -0,0 +1,137 @@
+// src/auth/idempotency.service.ts
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import type { Request } from 'express';
+import { KeyValueStore } from '../kv-store/key-value-store';
+
+const KEY_PREFIX = 'idempotency';
+const DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Limite para uma requisição em andamento; evita chave presa se a instância cair
+const PENDING_TTL_MS = 60_000;
+const MAX_KEY_LENGTH = 255;
+
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+interface IdempotencyRecord {
+  state: 'pending' | 'completed';
+  fingerprint: string;
+  response?: StoredResponse;
+  createdAt: string;
+}
+
+export type IdempotencyOutcome =
+  | { status: 'acquired' }
+  | { status: 'in-progress' }
+  | { status: 'mismatch' }
+  | { status: 'replay'; response: StoredResponse };
+
+/**
+ * Guarda a primeira resposta de cada `Idempotency-Key` por usuário, para
+ * que novas tentativas recebam o mesmo resultado sem reexecutar a rota.
+ */
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly windowMs: number;
+
+  constructor(
+    private readonly store: KeyValueStore,
+    config: ConfigService,
+  ) {
+    const configured = Number(config.get<string>('IDEMPOTENCY_TTL_MS'));
+    this.windowMs =
+      Number.isFinite(configured) && configured > 0
+        ? configured
+        : DEFAULT_WINDOW_MS;
+  }
+
+  /** Valida o header; `null` quando a requisição não traz a chave. */
+  readKey(req: Request): string | null {
+    const raw = req.headers['idempotency-key'];
+    if (raw === undefined) return null;
+
+    const value = (Array.isArray(raw) ? raw[0] : raw)?.trim() ?? '';
+    if (
+      !value ||
+      value.length > MAX_KEY_LENGTH ||
+      !/^[\x21-\x7e]+$/.test(value)
+    ) {
+      throw new BadRequestException('Idempotency-Key inválida.');
+    }
+    return value;
+  }
+
+  /** Mesmo método, rota e corpo: só assim a repetição é considerada idêntica. */
+  fingerprint(req: Request): string {
+    const body = req.body ? JSON.stringify(req.body) : '';
+    return createHash('sha256')
+      .update(`${req.method}:${req.originalUrl}:${body}`)
+      .digest('hex');
+  }
+
+  async begin(
+    userId: string,
+    key: string,
+    fingerprint: string,
+  ): Promise<IdempotencyOutcome> {
+    const storeKey = this.storeKey(userId, key);
+    const pending: IdempotencyRecord = {
+      state: 'pending',
+      fingerprint,
+      createdAt: new Date().toISOString(),
+    };
+
+    // uma segunda tentativa cobre a chave que expira entre as duas chamadas
+    for (let attempt = 0; attempt < 2; attempt++) {
+      if (await this.store.setIfAbsent(storeKey, pending, PENDING_TTL_MS)) {
+        return { status: 'acquired' };
+      }
+
+      const existing = await this.store.get<IdempotencyRecord>(storeKey);
+      if (!existing) continue;
+      if (existing.fingerprint !== fingerprint) return { status: 'mismatch' };
+      if (existing.state === 'pending' || !existing.response) {
+        return { status: 'in-progress' };
+      }
+      return { status: 'replay', response: existing.response };
+    }
+    return { status: 'in-progress' };
+  }
+
+  async complete(
+    userId: string,
+    key: string,
+    fingerprint: string,
+    response: StoredResponse,
+  ) {
+    const record: IdempotencyRecord = {
+      state: 'completed',
+      fingerprint,
+      response,
+      createdAt: new Date().toISOString(),
+    };
+    try {
+      await this.store.set(this.storeKey(userId, key), record, this.windowMs);
+    } catch (err) {
+      this.logger.warn(`Falha ao guardar resposta idempotente: ${String(err)}`);
+    }
+  }
+
+  /** Libera a chave quando a resposta não deve ser reaproveitada (ex.: 5xx). */
+  async release(userId: string, key: string) {
+    try {
+      await this.store.delete(this.storeKey(userId, key));
+    } catch (err) {
+      this.logger.warn(`Falha ao liberar Idempotency-Key: ${String(err)}`);
+    }
+  }
+
+  private storeKey(userId: string, key: string) {
+    const digest = createHash('sha256').update(key).digest('hex');
+    return `${KEY_PREFIX}:${userId}:${digest}`;
+  }
+}
@@ -0,0 +1,438 @@
+// src/auth/identities.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SB_ADMIN } from '../supabase/module';
+import { SupabaseUserClients } from '../supabase/user-clients.service';
+import { generateOpaqueToken, hashToken } from '../common/utils/token';
+import { TrustedTimeService } from '../trusted-time/trusted-time.service';
+import { KeyValueStore, ttlUntil } from '../kv-store/key-value-store';
+import { ExternalProvider } from './id-token/provider-configs';
+import { SessionCacheService } from './session-cache.service';
+
+const LINK_REQUEST_TTL_MINUTES = 10;
+const KEY_PREFIX = 'identity-link';
+
+export type IdentityProvider =
+  | ExternalProvider
+  | 'email-password'
+  | 'magic-link'
+  | 'phone';
+
+/**
+ * Linha de `profile_identities` (id, profile_id, provider, provider_sub,
+ * email, linked_at, last_used_at). `(provider, provider_sub)` é único.
+ */
+type IdentityRow = {
+  id: string | number;
+  profile_id: string;
+  provider: IdentityProvider;
+  provider_sub: string;
+  email: string | null;
+  linked_at: string | null;
+  last_used_at: string | null;
+};
+
+export interface ProfileIdentity {
+  id: string;
+  provider: IdentityProvider;
+  email: string | null;
+  linkedAt: string | null;
+  lastUsedAt: string | null;
+}
+
+export interface IdentityLinkRequest {
+  profileId: string;
+  provider: IdentityProvider;
+  providerSub: string;
+  email: string;
+}
+
+/** Converte o rótulo usado em `profiles.provider` e `tokens.provider`. */
+export function identityFromProviderLabel(
+  label?: string | null,
+): IdentityProvider | null {
+  switch (label) {
+    case 'local':
+    case 'email-password':
+      return 'email-password';
+    case 'google':
+    case 'apple':
+    case 'microsoft':
+    case 'magic-link':
+    case 'phone':
+      return label;
+    default:
+      return null;
+  }
+}
+
+export function providerLabelFor(provider: IdentityProvider) {
+  return provider === 'email-password' ? 'local' : provider;
+}
+
+// Logins em que a sessão guarda o próprio perfil em `tokens.provider_sub`
+const PROFILE_SUBJECT_PROVIDERS: IdentityProvider[] = [
+  'email-password',
+  'magic-link',
+  'phone',
+];
+
+/**
+ * `provider_sub` das sessões abertas pela identidade: senha, link e
+ * telefone usam o id do perfil; providers externos, o `sub` do id_token.
+ */
+function sessionSubjectFor(row: IdentityRow) {
+  return PROFILE_SUBJECT_PROVIDERS.includes(row.provider)
+    ? String(row.profile_id)
+    : row.provider_sub;
+}
+
+/**
+ * Identidades de login de cada perfil. A leitura usa o cliente do próprio
+ * perfil (RLS); gravações e buscas por `(provider, provider_sub)` cruzam
+ * perfis ou acontecem antes da sessão e usam o service_role.
+ */
+@Injectable()
+export class IdentitiesService {
+  private readonly logger = new Logger(IdentitiesService.name);
+
+  constructor(
+    @Inject(SB_ADMIN) private readonly supabase: SupabaseClient,
+    private readonly userClients: SupabaseUserClients,
+    private readonly store: KeyValueStore,
+    private readonly sessionCache: SessionCacheService,
+    private readonly clock: TrustedTimeService,
+  ) {}
+
+  async findBySubject(provider: IdentityProvider, providerSub: string) {
+    const { data, error } = await this.supabase
+      .from('profile_identities')
+      .select('id, profile_id, provider, provider_sub')
+      .eq('provider', provider)
+      .eq('provider_sub', providerSub)
+      .maybeSingle();
+
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar identidades: ${error.message}`,
+      );
+    if (!data) return null;
+
+    const row = data as Pick<
+      IdentityRow,
+      'id' | 'profile_id' | 'provider' | 'provider_sub'
+    >;
+    return { id: String(row.id), profileId: String(row.profile_id) };
+  }
+
+  async list(profileId: string): Promise<ProfileIdentity[]> {
+    const rows = await this.loadRows(profileId);
+    return rows.map((row) => ({
+      id: String(row.id),
+      provider: row.provider,
+      email: row.email ?? null,
+      linkedAt: row.linked_at ?? null,
+      lastUsedAt: row.last_used_at ?? null,
+    }));
+  }
+
+  /**
+   * Indica se o perfil pode entrar com email/senha. Perfis anteriores a
+   * `profile_identities` recebem a identidade de email/senha a partir de
+   * `profiles.provider` na primeira consulta.
+   */
+  async hasEmailPassword(profile: {
+    id: string;
+    email: string;
+    provider?: string | null;
+  }) {
+    const rows = await this.loadRows(profile.id);
+    if (rows.some((row) => row.provider === 'email-password')) return true;
+    if (rows.length > 0) return false;
+    if (identityFromProviderLabel(profile.provider) !== 'email-password')
+      return false;
+
+    await this.link({
+      profileId: profile.id,
+      provider: 'email-password',
+      providerSub: profile.id,
+      email: profile.email,
+    });
+    return true;
+  }
+
+  /**
+   * Adota a identidade externa de um perfil criado antes de
+   * `profile_identities`, quando o perfil ainda não tem nenhuma identidade
+   * e foi criado pelo mesmo provider.
+   */
+  async adoptLegacyIdentity(
+    profile: { id: string; provider?: string | null },
+    identity: Omit<IdentityLinkRequest, 'profileId'>,
+  ) {
+    if (identityFromProviderLabel(profile.provider) !== identity.provider)
+      return false;
+    const rows = await this.loadRows(profile.id);
+    if (rows.length > 0) return false;
+
+    await this.link({ ...identity, profileId: profile.id });
+    return true;
+  }
+
+  async link(input: IdentityLinkRequest): Promise<ProfileIdentity> {
+    const existing = await this.findBySubject(
+      input.provider,
+      input.providerSub,
+    );
+    if (existing) {
+      if (existing.profileId !== input.profileId) {
+        throw new ConflictException(
+          'Esta identidade já está vinculada a outra conta.',
+        );
+      }
+      const identities = await this.list(input.profileId);
+      const current = identities.find((item) => item.id === existing.id);
+      if (current) return current;
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from('profile_identities')
+      .insert({
+        profile_id: input.profileId,
+        provider: input.provider,
+        provider_sub: input.providerSub,
+        email: input.email,
+        linked_at: now,
+        last_used_at: null,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ConflictException(
+          'Esta identidade já está vinculada a outra conta.',
+        );
+      }
+      throw new InternalServerErrorException(
+        `Falha ao vincular identidade: ${error.message}`,
+      );
+    }
+
+    this.logger.log(
+      `Identidade ${input.provider} vinculada ao perfil ${input.profileId}.`,
+    );
+    return {
+      id: String(data.id),
+      provider: input.provider,
+      email: input.email,
+      linkedAt: now,
+      lastUsedAt: null,
+    };
+  }
+
+  /**
+   * Reserva `(provider, provider_sub)` para o perfil recém-criado. Se outro
+   * cadastro simultâneo chegou antes, devolve o perfil dono da identidade.
+   */
+  async claim(
+    input: Omit<IdentityLinkRequest, 'email'> & { email: string | null },
+  ): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('profile_identities')
+      .upsert(
+        {
+          profile_id: input.profileId,
+          provider: input.provider,
+          provider_sub: input.providerSub,
+          email: input.email,
+          linked_at: new Date().toISOString(),
+          last_used_at: null,
+        },
+        { onConflict: 'provider,provider_sub', ignoreDuplicates: true },
+      )
+      .select('profile_id');
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao vincular identidade: ${error.message}`,
+      );
+    if (data && data.length > 0) return input.profileId;
+
+    const owner = await this.findBySubject(input.provider, input.providerSub);
+    if (!owner)
+      throw new InternalServerErrorException('Identidade não encontrada.');
+    return owner.profileId;
+  }
+
+  /** Acompanha a troca de telefone do perfil que entra pelo telefone. */
+  async updatePhone(profileId: string, phone: string) {
+    const { error } = await this.supabase
+      .from('profile_identities')
+      .update({ provider_sub: phone })
+      .eq('profile_id', profileId)
+      .eq('provider', 'phone');
+    if (error) {
+      if (error.code === '23505') {
+        throw new ConflictException('Telefone já cadastrado.');
+      }
+      throw new InternalServerErrorException(
+        `Falha ao atualizar identidade: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Acompanha a troca do email da conta. Só a identidade de email/senha usa
+   * o email da conta; as externas mantêm o email do provedor.
+   */
+  async updateEmailPasswordEmail(profileId: string, email: string) {
+    const { error } = await this.supabase
+      .from('profile_identities')
+      .update({ email })
+      .eq('profile_id', profileId)
+      .eq('provider', 'email-password');
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao atualizar identidade: ${error.message}`,
+      );
+  }
+
+  /**
+   * Remove uma identidade e encerra as sessões abertas com ela. O perfil
+   * precisa manter ao menos um método de login.
+   */
+  async unlink(profileId: string, identityId: string) {
+    const rows = await this.loadRows(profileId);
+    const target = rows.find((row) => String(row.id) === identityId);
+    if (!target) throw new NotFoundException('Identidade não encontrada.');
+    if (rows.length <= 1) {
+      throw new BadRequestException(
+        'A conta precisa manter ao menos um método de login.',
+      );
+    }
+
+    const { error } = await this.supabase
+      .from('profile_identities')
+      .delete()
+      .eq('id', identityId)
+      .eq('profile_id', profileId);
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao desvincular identidade: ${error.message}`,
+      );
+
+    const label = providerLabelFor(target.provider);
+    const { error: sessionError } = await this.supabase
+      .from('tokens')
+      .delete()
+      .eq('user_id', profileId)
+      .eq('provider', label)
+      .eq('provider_sub', sessionSubjectFor(target));
+    if (sessionError) {
+      this.logger.error(
+        `Falha ao encerrar sessões da identidade ${identityId}: ${sessionError.message}`,
+      );
+    }
+    this.sessionCache.invalidateUser(profileId);
+
+    // `profiles.provider` continua apontando para um método ainda vinculado
+    const remaining = rows.find((row) => String(row.id) !== identityId);
+    if (remaining) {
+      const { error: profileError } = await this.supabase
+        .from('profiles')
+        .update({ provider: providerLabelFor(remaining.provider) })
+        .eq('id', profileId)
+        .eq('provider', label);
+      if (profileError) {
+        this.logger.error(
+          `Falha ao atualizar provider do perfil ${profileId}: ${profileError.message}`,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Identidade ${target.provider} desvinculada do perfil ${profileId}.`,
+    );
+    return { success: true, provider: target.provider };
+  }
+
+  touch(identityId: string) {
+    void this.supabase
+      .from('profile_identities')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', identityId)
+      .then(({ error }) => {
+        if (error) {
+          this.logger.warn(
+            `Falha ao atualizar last_used_at da identidade ${identityId}: ${error.message}`,
+          );
+        }
+      });
+  }
+
+  /**
+   * Guarda a identidade recém-verificada até que o dono da conta existente
+   * comprove o acesso por um dos métodos já vinculados.
+   */
+  async createLinkRequest(request: IdentityLinkRequest) {
+    const { clear, hash } = generateOpaqueToken(32);
+    const expiresAt = this.clock.plusMinutes(LINK_REQUEST_TTL_MINUTES);
+    await this.store.set<IdentityLinkRequest>(
+      this.linkKey(hash),
+      request,
+      ttlUntil(expiresAt),
+    );
+
+    const methods = Array.from(
+      new Set((await this.loadRows(request.profileId)).map((r) => r.provider)),
+    );
+    return { linkToken: clear, expiresAt, methods };
+  }
+
+  async getLinkRequest(linkToken: string) {
+    const request = await this.store.get<IdentityLinkRequest>(
+      this.linkKey(hashToken(linkToken ?? '')),
+    );
+    if (!request) {
+      throw new UnauthorizedException(
+        'Token de vinculação inválido ou expirado.',
+      );
+    }
+    return request;
+  }
+
+  async clearLinkRequest(linkToken: string) {
+    await this.store.delete(this.linkKey(hashToken(linkToken ?? '')));
+  }
+
+  private async loadRows(profileId: string): Promise<IdentityRow[]> {
+    const { data, error } = await this.userClients
+      .forProfile(profileId)
+      .from('profile_identities')
+      .select(
+        'id, profile_id, provider, provider_sub, email, linked_at, last_used_at',
+      )
+      .eq('profile_id', profileId)
+      .order('linked_at', { ascending: true });
+
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar identidades: ${error.message}`,
+      );
+    return (data ?? []) as IdentityRow[];
+  }
+
+  private linkKey(tokenHash: string) {
+    return `${KEY_PREFIX}:${tokenHash}`;
+  }
+}
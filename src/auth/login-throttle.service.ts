@@ -0,0 +1,237 @@
+// src/auth/login-throttle.service.ts
+import { createHash } from 'crypto';
+import { HttpException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { KeyValueStore } from '../kv-store/key-value-store';
+import { MailService } from '../mail/mail.service';
+import { TooManyAttemptsException } from '../common/exceptions/too-many-attempts.exception';
+import type { ClientContext } from '../common/utils/client-context';
+
+const KEY_PREFIX = 'login-throttle';
+const FAILURE_WINDOW_MS = 15 * 60_000;
+const BASE_DELAY_SECONDS = 2;
+const MAX_DELAY_SECONDS = 5 * 60;
+const LOCKOUT_MINUTES = 15;
+// Falhas extras (além das gratuitas) até o bloqueio temporário
+const ATTEMPTS_UNTIL_LOCKOUT = 5;
+
+export type ThrottleScope =
+  | 'email-login'
+  | 'email-verify'
+  | 'reset-verify'
+  | 'phone-verify'
+  | 'phone-login'
+  | 'magic-link'
+  | 'account-phone'
+  | 'account-email'
+  | 'account-delete'
+  | 'identity-link'
+  | 'two-factor'
+  | 'profile-pin';
+
+type ThrottleDimension = 'identity' | 'ip' | 'device';
+
+/** Falhas gratuitas por dimensão antes do backoff. */
+const FREE_ATTEMPTS: Record<ThrottleDimension, number> = {
+  identity: 5,
+  device: 5,
+  // IPs podem ser compartilhados (NAT, redes móveis)
+  ip: 20,
+};
+
+export interface ThrottleSubjects {
+  /** Email do login, perfil ou hash do token pendente do fluxo. */
+  identity: string;
+  /** Destinatário do alerta de tentativas suspeitas, quando conhecido. */
+  alertEmail?: string | null;
+  client?: ClientContext | null;
+}
+
+export interface ScopeCounters {
+  attempts: number;
+  failures: number;
+  successes: number;
+  blocked: number;
+  lockouts: number;
+}
+
+interface BlockEntry {
+  until: string;
+  lockout: boolean;
+}
+
+@Injectable()
+export class LoginThrottleService {
+  private readonly logger = new Logger(LoginThrottleService.name);
+  private readonly counters = new Map<ThrottleScope, ScopeCounters>();
+  private readonly startedAt = new Date().toISOString();
+  private readonly alertsEnabled: boolean;
+
+  constructor(
+    private readonly store: KeyValueStore,
+    private readonly mail: MailService,
+    config: ConfigService,
+  ) {
+    this.alertsEnabled =
+      String(config.get('THROTTLE_ALERT_EMAILS') ?? 'false') === 'true';
+  }
+
+  /**
+   * Executa `action` respeitando o limite do escopo. Erros 400/401 contam
+   * como tentativa falha; sucesso zera os contadores de identidade e
+   * dispositivo.
+   */
+  async guard<T>(
+    scope: ThrottleScope,
+    subjects: ThrottleSubjects,
+    action: () => Promise<T>,
+  ): Promise<T> {
+    await this.assertAllowed(scope, subjects);
+
+    let result: T;
+    try {
+      result = await action();
+    } catch (err) {
+      if (this.isFailedAttempt(err)) {
+        await this.recordFailure(scope, subjects);
+      }
+      throw err;
+    }
+
+    await this.recordSuccess(scope, subjects);
+    return result;
+  }
+
+  async assertAllowed(scope: ThrottleScope, subjects: ThrottleSubjects) {
+    let waitMs = 0;
+    for (const [dimension, value] of this.dimensions(subjects)) {
+      const block = await this.store.get<BlockEntry>(
+        this.key(scope, dimension, value, 'block'),
+      );
+      if (!block) continue;
+      waitMs = Math.max(waitMs, new Date(block.until).getTime() - Date.now());
+    }
+
+    if (waitMs > 0) {
+      this.bump(scope, 'blocked');
+      const retryAfter = Math.ceil(waitMs / 1000);
+      throw new TooManyAttemptsException(
+        `Muitas tentativas. Tente novamente em ${retryAfter}s.`,
+        retryAfter,
+      );
+    }
+    this.bump(scope, 'attempts');
+  }
+
+  async recordFailure(scope: ThrottleScope, subjects: ThrottleSubjects) {
+    this.bump(scope, 'failures');
+
+    for (const [dimension, value] of this.dimensions(subjects)) {
+      const failures = await this.store.increment(
+        this.key(scope, dimension, value, 'failures'),
+        FAILURE_WINDOW_MS,
+      );
+      const free = FREE_ATTEMPTS[dimension];
+      if (failures < free) continue;
+
+      const extra = failures - free;
+      const lockout = extra >= ATTEMPTS_UNTIL_LOCKOUT;
+      const delaySeconds = lockout
+        ? LOCKOUT_MINUTES * 60
+        : Math.min(BASE_DELAY_SECONDS * 2 ** extra, MAX_DELAY_SECONDS);
+      const until = new Date(Date.now() + delaySeconds * 1000).toISOString();
+
+      await this.store.set<BlockEntry>(
+        this.key(scope, dimension, value, 'block'),
+        { until, lockout },
+        delaySeconds * 1000,
+      );
+
+      if (lockout) {
+        this.bump(scope, 'lockouts');
+        this.logger.warn(
+          `Bloqueio temporário em ${scope} (${dimension}) após ${failures} falhas.`,
+        );
+        if (dimension === 'identity' && extra === ATTEMPTS_UNTIL_LOCKOUT) {
+          this.sendSuspiciousAttemptsAlert(subjects);
+        }
+      }
+    }
+  }
+
+  async recordSuccess(scope: ThrottleScope, subjects: ThrottleSubjects) {
+    this.bump(scope, 'successes');
+    for (const [dimension, value] of this.dimensions(subjects)) {
+      // O IP segue contando: um atacante acertando uma conta não deve
+      // liberar tentativas contra as demais.
+      if (dimension === 'ip') continue;
+      await this.store.delete(this.key(scope, dimension, value, 'failures'));
+    }
+  }
+
+  getMetrics() {
+    const scopes: Record<string, ScopeCounters> = {};
+    for (const [scope, counters] of this.counters.entries()) {
+      scopes[scope] = { ...counters };
+    }
+    return { since: this.startedAt, scopes };
+  }
+
+  private dimensions(
+    subjects: ThrottleSubjects,
+  ): [ThrottleDimension, string][] {
+    const result: [ThrottleDimension, string][] = [
+      ['identity', subjects.identity.trim().toLowerCase()],
+    ];
+    if (subjects.client?.ip) result.push(['ip', subjects.client.ip]);
+    // Só o id assinado pelo servidor: rótulo e user agent são do cliente e
+    // agrupariam todos os usuários do mesmo navegador num único balde
+    const deviceId = subjects.client?.deviceId;
+    if (deviceId) result.push(['device', deviceId]);
+    return result;
+  }
+
+  private key(
+    scope: ThrottleScope,
+    dimension: ThrottleDimension,
+    value: string,
+    kind: 'failures' | 'block',
+  ) {
+    const digest = createHash('sha256').update(value).digest('hex');
+    return `${KEY_PREFIX}:${scope}:${dimension}:${digest}:${kind}`;
+  }
+
+  private isFailedAttempt(err: unknown) {
+    if (!(err instanceof HttpException)) return false;
+    if (err instanceof TooManyAttemptsException) return false;
+    const status = err.getStatus();
+    return status === 400 || status === 401;
+  }
+
+  private bump(scope: ThrottleScope, field: keyof ScopeCounters) {
+    const counters = this.counters.get(scope) ?? {
+      attempts: 0,
+      failures: 0,
+      successes: 0,
+      blocked: 0,
+      lockouts: 0,
+    };
+    counters[field] += 1;
+    this.counters.set(scope, counters);
+  }
+
+  private sendSuspiciousAttemptsAlert(subjects: ThrottleSubjects) {
+    if (!this.alertsEnabled || !subjects.alertEmail) return;
+    void this.mail.sendTemplate(
+      { email: subjects.alertEmail },
+      'security-alert',
+      {
+        event: 'suspicious-attempts',
+        occurredAt: new Date().toISOString(),
+        device:
+          subjects.client?.deviceLabel ?? subjects.client?.userAgent ?? null,
+        ip: subjects.client?.ip ?? null,
+      },
+    );
+  }
+}
@@ -0,0 +1,351 @@
+// src/auth/magic-link.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { generateOpaqueToken, hashToken } from '../common/utils/token';
+import type { ClientContext } from '../common/utils/client-context';
+import { TrustedTimeService } from '../trusted-time/trusted-time.service';
+import { EmailDelivery, MailService } from '../mail/mail.service';
+import { KeyValueStore, ttlUntil } from '../kv-store/key-value-store';
+import { PubSub } from '../kv-store/pub-sub';
+
+const MAGIC_LINK_TTL_MINUTES = 10;
+const MIN_RESEND_INTERVAL_MS = 45_000;
+const MAX_POLL_WAIT_MS = 25_000;
+const SUGGESTED_POLL_INTERVAL_MS = 3_000;
+const KEY_PREFIX = 'magic-link';
+const APPROVED_CHANNEL = 'magic-link:approved';
+
+/**
+ * Pedido de login por link. `pollHash` identifica o aparelho que pediu
+ * (só ele conhece o token de consulta); `linkHash` é o token do email.
+ */
+interface MagicLinkRecord {
+  pollHash: string;
+  linkHash: string | null;
+  deviceHash: string;
+  email: string;
+  status: 'pending' | 'approved';
+  expiresAt: string;
+  requestedAt: number;
+  deviceLabel: string | null;
+  platform: string | null;
+  approvedAt?: string;
+  approvedIp?: string | null;
+}
+
+export interface MagicLinkPending {
+  pollToken: string;
+  expiresAt: string;
+  pollIntervalMs: number;
+  delivery: EmailDelivery;
+}
+
+export type MagicLinkPollResult =
+  | { status: 'pending'; expiresAt: string }
+  | { status: 'approved'; email: string };
+
+@Injectable()
+export class MagicLinkService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MagicLinkService.name);
+  private readonly linkUrl: string | null;
+  // Consultas em espera (long polling) nesta instância, por pollHash
+  private readonly waiters = new Map<string, Set<() => void>>();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private readonly mail: MailService,
+    private readonly store: KeyValueStore,
+    private readonly pubSub: PubSub,
+    private readonly clock: TrustedTimeService,
+    config: ConfigService,
+  ) {
+    this.linkUrl = config.get<string>('MAGIC_LINK_URL')?.trim() || null;
+  }
+
+  onModuleInit() {
+    this.unsubscribe = this.pubSub.subscribe(APPROVED_CHANNEL, (message) => {
+      const pollHash = (message as { pollHash?: unknown } | null)?.pollHash;
+      if (typeof pollHash === 'string') this.wake(pollHash);
+    });
+  }
+
+  onModuleDestroy() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    for (const pollHash of Array.from(this.waiters.keys())) {
+      this.wake(pollHash);
+    }
+  }
+
+  /**
+   * Envia o link para o email. O aparelho que pediu recebe o token de
+   * consulta e só ele (mesmo `deviceId`) pode concluir o login.
+   */
+  async request(input: {
+    email: string;
+    deviceId: string;
+    languageHint?: string | null;
+    client?: ClientContext;
+  }): Promise<MagicLinkPending> {
+    if (!this.linkUrl) {
+      throw new InternalServerErrorException(
+        'Login por link não configurado (MAGIC_LINK_URL).',
+      );
+    }
+    const deviceId = String(input.deviceId ?? '').trim();
+    if (!deviceId) {
+      throw new BadRequestException('Identificador do dispositivo ausente.');
+    }
+
+    // Um pedido pendente por aparelho: pedir para o email de outra pessoa
+    // não derruba o pedido que ela fez no próprio aparelho
+    const deviceHash = hashToken(deviceId);
+    const existingPollHash = await this.store.get<string>(
+      this.deviceKey(deviceHash),
+    );
+    if (existingPollHash) {
+      const existing = await this.loadRecord(existingPollHash);
+      if (
+        existing &&
+        Date.now() - existing.requestedAt < MIN_RESEND_INTERVAL_MS
+      ) {
+        throw new BadRequestException(
+          'Aguarde alguns segundos antes de solicitar um novo link.',
+        );
+      }
+      await this.clearRecord(existingPollHash);
+    }
+
+    const { clear: pollToken, hash: pollHash } = generateOpaqueToken(32);
+    const { clear: linkToken, hash: linkHash } = generateOpaqueToken(32);
+    const expiresAt = this.clock.plusMinutes(MAGIC_LINK_TTL_MINUTES);
+
+    const record: MagicLinkRecord = {
+      pollHash,
+      linkHash,
+      deviceHash,
+      email: input.email,
+      status: 'pending',
+      expiresAt,
+      requestedAt: Date.now(),
+      deviceLabel: input.client?.deviceLabel ?? null,
+      platform: input.client?.platform ?? null,
+    };
+    const ttl = ttlUntil(expiresAt);
+    await this.store.set(this.recordKey(pollHash), record, ttl);
+    await this.store.set(this.linkKey(linkHash), pollHash, ttl);
+    await this.store.set(this.deviceKey(deviceHash), pollHash, ttl);
+
+    const delivery = await this.mail.sendTemplate(
+      { email: input.email, languageHint: input.languageHint },
+      'magic-link',
+      {
+        link: this.buildLink(linkToken),
+        expiresInMinutes: MAGIC_LINK_TTL_MINUTES,
+        device: record.deviceLabel ?? record.platform,
+      },
+    );
+
+    return {
+      pollToken,
+      expiresAt,
+      pollIntervalMs: SUGGESTED_POLL_INTERVAL_MS,
+      delivery,
+    };
+  }
+
+  /** Dados exibidos na página do link antes da aprovação; não consome o token. */
+  async describe(linkToken: string) {
+    const record = await this.getRecordByLink(linkToken);
+    return {
+      email: this.maskEmail(record.email),
+      device: record.deviceLabel,
+      platform: record.platform,
+      expiresAt: record.expiresAt,
+    };
+  }
+
+  /**
+   * Aprova o login pendente. Quem abre o link não recebe sessão: ela é
+   * entregue ao aparelho que fez o pedido, na próxima consulta.
+   */
+  async approve(linkToken: string, client?: ClientContext) {
+    const record = await this.getRecordByLink(linkToken);
+
+    record.status = 'approved';
+    record.linkHash = null;
+    record.approvedAt = new Date().toISOString();
+    record.approvedIp = client?.ip ?? null;
+    await this.store.delete(this.linkKey(hashToken(linkToken.trim())));
+    await this.store.set(
+      this.recordKey(record.pollHash),
+      record,
+      ttlUntil(record.expiresAt),
+    );
+
+    this.wake(record.pollHash);
+    this.pubSub
+      .publish(APPROVED_CHANNEL, { pollHash: record.pollHash })
+      .catch((err: unknown) =>
+        this.logger.warn(`Falha ao propagar aprovação: ${String(err)}`),
+      );
+
+    this.logger.log(`Login por link aprovado para ${record.email}.`);
+    return { approved: true, device: record.deviceLabel };
+  }
+
+  /**
+   * Consulta do aparelho que pediu o link. Com `waitMs` a resposta espera a
+   * aprovação (long polling) em vez de voltar imediatamente como pendente.
+   * O pedido aprovado é consumido na primeira consulta.
+   */
+  async poll(
+    pollToken: string,
+    deviceId: string,
+    waitMs = 0,
+  ): Promise<MagicLinkPollResult> {
+    const token = String(pollToken ?? '').trim();
+    if (!token) throw new BadRequestException('Token de consulta ausente.');
+    const pollHash = hashToken(token);
+
+    let record = await this.getActiveRecord(pollHash);
+    if (record.deviceHash !== hashToken(String(deviceId ?? '').trim())) {
+      throw new UnauthorizedException(
+        'Este link foi solicitado em outro dispositivo.',
+      );
+    }
+
+    const wait = Math.min(Math.max(waitMs, 0), MAX_POLL_WAIT_MS);
+    if (record.status === 'pending' && wait > 0) {
+      await this.waitForApproval(pollHash, wait);
+      record = await this.getActiveRecord(pollHash);
+    }
+
+    if (record.status === 'pending') {
+      return { status: 'pending', expiresAt: record.expiresAt };
+    }
+
+    // consultas simultâneas: só a primeira leva a sessão
+    const claimed = await this.store.setIfAbsent(
+      this.consumedKey(pollHash),
+      true,
+      ttlUntil(record.expiresAt),
+    );
+    if (!claimed) {
+      throw new UnauthorizedException('Pedido de login já concluído.');
+    }
+    await this.clearRecord(pollHash);
+    return { status: 'approved', email: record.email };
+  }
+
+  private waitForApproval(pollHash: string, waitMs: number) {
+    return new Promise<void>((resolve) => {
+      let waiters = this.waiters.get(pollHash);
+      if (!waiters) {
+        waiters = new Set();
+        this.waiters.set(pollHash, waiters);
+      }
+      const done = () => {
+        clearTimeout(timer);
+        const current = this.waiters.get(pollHash);
+        current?.delete(done);
+        if (current?.size === 0) this.waiters.delete(pollHash);
+        resolve();
+      };
+      const timer = setTimeout(done, waitMs);
+      waiters.add(done);
+    });
+  }
+
+  private wake(pollHash: string) {
+    const waiters = this.waiters.get(pollHash);
+    if (!waiters) return;
+    for (const done of Array.from(waiters)) done();
+  }
+
+  private async getRecordByLink(linkToken: string) {
+    const token = String(linkToken ?? '').trim();
+    if (!token) throw new BadRequestException('Link inválido.');
+
+    const pollHash = await this.store.get<string>(
+      this.linkKey(hashToken(token)),
+    );
+    if (!pollHash) {
+      throw new UnauthorizedException('Link inválido ou já utilizado.');
+    }
+    const record = await this.getActiveRecord(pollHash);
+    if (record.status !== 'pending') {
+      throw new UnauthorizedException('Link inválido ou já utilizado.');
+    }
+    return record;
+  }
+
+  private async getActiveRecord(pollHash: string) {
+    const record = await this.loadRecord(pollHash);
+    if (!record) {
+      throw new UnauthorizedException('Pedido de login inválido ou expirado.');
+    }
+    if (new Date(record.expiresAt).getTime() <= Date.now()) {
+      await this.clearRecord(pollHash);
+      throw new UnauthorizedException('Link expirado. Solicite um novo.');
+    }
+    return record;
+  }
+
+  private loadRecord(pollHash: string) {
+    return this.store.get<MagicLinkRecord>(this.recordKey(pollHash));
+  }
+
+  private async clearRecord(pollHash: string) {
+    const record = await this.loadRecord(pollHash);
+    if (record) {
+      if (record.linkHash) {
+        await this.store.delete(this.linkKey(record.linkHash));
+      }
+      const current = await this.store.get<string>(
+        this.deviceKey(record.deviceHash),
+      );
+      if (current === pollHash) {
+        await this.store.delete(this.deviceKey(record.deviceHash));
+      }
+    }
+    await this.store.delete(this.recordKey(pollHash));
+  }
+
+  private buildLink(linkToken: string) {
+    const url = new URL(this.linkUrl as string);
+    url.searchParams.set('token', linkToken);
+    return url.toString();
+  }
+
+  private maskEmail(email: string) {
+    const [local, domain] = email.split('@');
+    if (!domain) return email;
+    const visible = local.slice(0, Math.min(2, local.length));
+    return `${visible}${'*'.repeat(Math.max(local.length - 2, 1))}@${domain}`;
+  }
+
+  private recordKey(pollHash: string) {
+    return `${KEY_PREFIX}:record:${pollHash}`;
+  }
+
+  private linkKey(linkHash: string) {
+    return `${KEY_PREFIX}:link:${linkHash}`;
+  }
+
+  private consumedKey(pollHash: string) {
+    return `${KEY_PREFIX}:consumed:${pollHash}`;
+  }
+
+  private deviceKey(deviceHash: string) {
+    return `${KEY_PREFIX}:device:${deviceHash}`;
+  }
+}
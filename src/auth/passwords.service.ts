@@ -29,6 +29,18 @@ export class PasswordsService {
     }
   }
 
+  async clearPassword(profileId: string) {
+    const { error } = await this.supabase
+      .from('passwords')
+      .delete()
+      .eq('profileId', profileId);
+    if (error) {
+      throw new InternalServerErrorException(
+        `Falha ao remover senha: ${error.message}`,
+      );
+    }
+  }
+
   async verifyPassword(profileId: string, password: string): Promise<boolean> {
     const { data, error } = await this.supabase
       .from('passwords')
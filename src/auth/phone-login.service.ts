@@ -0,0 +1,245 @@
+// src/auth/phone-login.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { randomInt } from 'crypto';
+import { ProfileDetailsService } from './profile-details.service';
+import { generateOpaqueToken, hashToken } from '../common/utils/token';
+import { TrustedTimeService } from '../trusted-time/trusted-time.service';
+import { MessagingService } from '../messaging/messaging.service';
+import { KeyValueStore, ttlUntil } from '../kv-store/key-value-store';
+
+const LOGIN_CODE_TTL_MINUTES = 5;
+const EMAIL_STEP_TTL_MINUTES = 30;
+const MAX_VERIFICATION_ATTEMPTS = 5;
+const MIN_RESEND_INTERVAL_MS = 45_000;
+const KEY_PREFIX = 'phone-login';
+
+interface LoginRecord {
+  tokenHash: string;
+  phone: string;
+  language: string;
+  machineCode: string;
+  codeHash: string;
+  codeExpiresAt: string;
+  sentAt: number;
+}
+
+/** Perfis criados pelo telefone ainda precisam confirmar um email. */
+interface EmailStepRecord {
+  tokenHash: string;
+  profileId: string;
+  expiresAt: string;
+  emailTokenHash?: string | null;
+}
+
+export interface PhoneLoginPending {
+  loginToken: string;
+  codeExpiresAt: string;
+}
+
+export interface PhoneLoginVerified {
+  phone: string;
+  language: string;
+}
+
+/**
+ * Login pelo número de telefone. O código é o mesmo SMS/WhatsApp da
+ * verificação de telefone, preso ao `machineCode` que o pediu.
+ */
+@Injectable()
+export class PhoneLoginService {
+  constructor(
+    private readonly profileDetails: ProfileDetailsService,
+    private readonly messaging: MessagingService,
+    private readonly store: KeyValueStore,
+    private readonly clock: TrustedTimeService,
+  ) {}
+
+  async request(input: {
+    phone: string;
+    machineCode: string;
+    language?: string | null;
+  }) {
+    const phone = this.profileDetails.normalizePhone(input.phone);
+    if (!phone) throw new BadRequestException('Telefone obrigatório.');
+    const machineCode = String(input.machineCode ?? '').trim();
+    if (!machineCode)
+      throw new BadRequestException('Código da máquina obrigatório.');
+
+    const existingHash = await this.store.get<string>(this.phoneKey(phone));
+    if (existingHash) {
+      const existing = await this.loadRecord(existingHash);
+      if (existing && Date.now() - existing.sentAt < MIN_RESEND_INTERVAL_MS) {
+        throw new BadRequestException(
+          'Aguarde alguns segundos antes de solicitar um novo código.',
+        );
+      }
+    }
+
+    const language = this.profileDetails.normalizeLanguage(input.language);
+    const code = String(randomInt(100000, 1000000));
+    const codeExpiresAt = this.clock.plusMinutes(LOGIN_CODE_TTL_MINUTES);
+
+    // Envia antes de trocar o registro: se o número estiver limitado, o
+    // código anterior continua válido.
+    const delivery = await this.messaging.sendCode({
+      to: phone,
+      code,
+      expiresInMinutes: LOGIN_CODE_TTL_MINUTES,
+      language,
+    });
+
+    if (existingHash) await this.clearRecord(existingHash);
+
+    const { clear: loginToken, hash: tokenHash } = generateOpaqueToken(32);
+    const record: LoginRecord = {
+      tokenHash,
+      phone,
+      language,
+      machineCode,
+      codeHash: hashToken(code),
+      codeExpiresAt,
+      sentAt: Date.now(),
+    };
+    await this.saveRecord(record);
+    await this.store.set(
+      this.phoneKey(phone),
+      tokenHash,
+      ttlUntil(codeExpiresAt),
+    );
+
+    return { loginToken, codeExpiresAt, delivery };
+  }
+
+  async verify(input: {
+    loginToken: string;
+    code: string;
+    machineCode: string;
+  }): Promise<PhoneLoginVerified> {
+    const loginToken = String(input.loginToken ?? '').trim();
+    const code = String(input.code ?? '').trim();
+    const machineCode = String(input.machineCode ?? '').trim();
+    if (!loginToken) throw new BadRequestException('Token de login ausente.');
+    if (!code) throw new BadRequestException('Código obrigatório.');
+
+    const tokenHash = hashToken(loginToken);
+    const record = await this.loadRecord(tokenHash);
+    if (!record) {
+      throw new UnauthorizedException(
+        'Código expirado ou inválido. Solicite um novo.',
+      );
+    }
+    if (new Date(record.codeExpiresAt).getTime() <= Date.now()) {
+      await this.clearRecord(tokenHash);
+      throw new BadRequestException('Código expirado. Solicite um novo.');
+    }
+    if (record.machineCode !== machineCode) {
+      throw new BadRequestException('Código não solicitado para esta máquina.');
+    }
+
+    // Incremento atômico antes de comparar, para que tentativas em paralelo
+    // não passem juntas do limite
+    const attempts = await this.store.increment(
+      this.attemptsKey(tokenHash),
+      ttlUntil(record.codeExpiresAt),
+    );
+    if (
+      attempts > MAX_VERIFICATION_ATTEMPTS ||
+      hashToken(code) !== record.codeHash
+    ) {
+      if (attempts >= MAX_VERIFICATION_ATTEMPTS) {
+        await this.clearRecord(tokenHash);
+        throw new BadRequestException(
+          'Número máximo de tentativas excedido. Solicite um novo código.',
+        );
+      }
+      throw new BadRequestException('Código inválido.');
+    }
+
+    await this.clearRecord(tokenHash);
+    return { phone: record.phone, language: record.language };
+  }
+
+  async createEmailStep(profileId: string) {
+    const { clear: token, hash: tokenHash } = generateOpaqueToken(32);
+    const expiresAt = this.clock.plusMinutes(EMAIL_STEP_TTL_MINUTES);
+    await this.store.set<EmailStepRecord>(
+      this.emailStepKey(tokenHash),
+      { tokenHash, profileId, expiresAt },
+      ttlUntil(expiresAt),
+    );
+    return { token, expiresAt };
+  }
+
+  async getEmailStep(pendingToken: string): Promise<EmailStepRecord> {
+    const token = String(pendingToken ?? '').trim();
+    if (!token) throw new BadRequestException('Token pendente ausente.');
+
+    const record = await this.store.get<EmailStepRecord>(
+      this.emailStepKey(hashToken(token)),
+    );
+    if (!record || new Date(record.expiresAt).getTime() <= Date.now()) {
+      throw new UnauthorizedException(
+        'Token pendente inválido ou expirado. Refaça o login.',
+      );
+    }
+    return record;
+  }
+
+  /** Guarda qual verificação de email pertence a este passo pendente. */
+  async attachEmailToken(record: EmailStepRecord, emailToken: string) {
+    record.emailTokenHash = hashToken(emailToken);
+    await this.store.set(
+      this.emailStepKey(record.tokenHash),
+      record,
+      ttlUntil(record.expiresAt),
+    );
+  }
+
+  async clearEmailStep(record: EmailStepRecord) {
+    await this.store.delete(this.emailStepKey(record.tokenHash));
+  }
+
+  private loadRecord(tokenHash: string) {
+    return this.store.get<LoginRecord>(this.recordKey(tokenHash));
+  }
+
+  private async saveRecord(record: LoginRecord) {
+    await this.store.set(
+      this.recordKey(record.tokenHash),
+      record,
+      ttlUntil(record.codeExpiresAt),
+    );
+  }
+
+  private async clearRecord(tokenHash: string) {
+    const record = await this.loadRecord(tokenHash);
+    await this.store.delete(this.recordKey(tokenHash));
+    await this.store.delete(this.attemptsKey(tokenHash));
+    if (!record) return;
+    if (
+      (await this.store.get<string>(this.phoneKey(record.phone))) === tokenHash
+    ) {
+      await this.store.delete(this.phoneKey(record.phone));
+    }
+  }
+
+  private recordKey(tokenHash: string) {
+    return `${KEY_PREFIX}:record:${tokenHash}`;
+  }
+
+  private attemptsKey(tokenHash: string) {
+    return `${KEY_PREFIX}:attempts:${tokenHash}`;
+  }
+
+  private phoneKey(phone: string) {
+    return `${KEY_PREFIX}:phone:${phone}`;
+  }
+
+  private emailStepKey(tokenHash: string) {
+    return `${KEY_PREFIX}:email-step:${tokenHash}`;
+  }
+}
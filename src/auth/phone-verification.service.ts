@@ -2,21 +2,21 @@ import {
   Injectable,
   BadRequestException,
   UnauthorizedException,
-  Logger,
 } from '@nestjs/common';
 import {
   ProfileDetails,
   ProfileDetailsService,
 } from './profile-details.service';
-import {
-  generateOpaqueToken,
-  hashToken,
-  utcTimestampPlusMinutes,
-} from '../common/utils/token';
+import { generateOpaqueToken, hashToken } from '../common/utils/token';
+import { TrustedTimeService } from '../trusted-time/trusted-time.service';
+import { MessagingService } from '../messaging/messaging.service';
+import { UsersService } from '../users/users.service';
+import { KeyValueStore, ttlUntil } from '../kv-store/key-value-store';
 
 const PHONE_PENDING_TTL_MINUTES = 10;
 const PHONE_CODE_TTL_MINUTES = 5;
 const MAX_VERIFICATION_ATTEMPTS = 5;
+const KEY_PREFIX = 'phone-verification';
 
 interface PendingRecord {
   tokenHash: string;
@@ -29,15 +29,12 @@ interface PendingRecord {
   codeHash: string | null;
   codeExpiresAt: string | null;
   attempts: number;
-  tokenTimer?: ReturnType<typeof setTimeout>;
-  codeTimer?: ReturnType<typeof setTimeout>;
+  machineCode?: string | null;
 }
 
-type CodeCacheEntry = {
-  code: string;
+type MachineCodeEntry = {
   expiresAt: string;
   tokenHash: string;
-  timeout?: ReturnType<typeof setTimeout>;
 };
 
 export interface PendingVerification {
@@ -54,13 +51,13 @@ export interface VerifiedPhoneResult {
 
 @Injectable()
 export class PhoneVerificationService {
-  private readonly logger = new Logger(PhoneVerificationService.name);
-
-  private readonly pendingByToken = new Map<string, PendingRecord>();
-  private readonly profileIndex = new Map<string, string>();
-  private readonly codeCache = new Map<string, CodeCacheEntry>();
-
-  constructor(private readonly profileDetails: ProfileDetailsService) {}
+  constructor(
+    private readonly profileDetails: ProfileDetailsService,
+    private readonly users: UsersService,
+    private readonly messaging: MessagingService,
+    private readonly store: KeyValueStore,
+    private readonly clock: TrustedTimeService,
+  ) {}
 
   async createPending(
     profileId: string,
@@ -73,13 +70,13 @@ export class PhoneVerificationService {
     }
 
     const { clear: token, hash: tokenHash } = generateOpaqueToken(32);
-    const tokenExpiresAt = await utcTimestampPlusMinutes(
-      PHONE_PENDING_TTL_MINUTES,
-    );
+    const tokenExpiresAt = this.clock.plusMinutes(PHONE_PENDING_TTL_MINUTES);
 
-    const existingToken = this.profileIndex.get(normalizedId);
+    const existingToken = await this.store.get<string>(
+      this.profileKey(normalizedId),
+    );
     if (existingToken) {
-      this.clearRecord(existingToken);
+      await this.clearRecord(existingToken);
     }
 
     const record: PendingRecord = {
@@ -95,19 +92,12 @@ export class PhoneVerificationService {
       attempts: 0,
     };
 
-    const msUntilExpiry = new Date(tokenExpiresAt).getTime() - Date.now();
-    if (msUntilExpiry > 0) {
-      record.tokenTimer = setTimeout(
-        () => this.clearRecord(tokenHash),
-        msUntilExpiry,
-      );
-      if (typeof (record.tokenTimer as any)?.unref === 'function') {
-        (record.tokenTimer as any).unref();
-      }
-    }
-
-    this.pendingByToken.set(tokenHash, record);
-    this.profileIndex.set(normalizedId, tokenHash);
+    await this.saveRecord(record);
+    await this.store.set(
+      this.profileKey(normalizedId),
+      tokenHash,
+      ttlUntil(tokenExpiresAt),
+    );
 
     return { token, expiresAt: tokenExpiresAt };
   }
@@ -126,7 +116,7 @@ export class PhoneVerificationService {
     if (!phone) throw new BadRequestException('Telefone obrigatório.');
 
     const record = await this.getRecordByPendingToken(pendingToken);
-    await this.profileDetails.ensurePhoneAvailable(phone, record.profileId);
+    await this.users.ensurePhoneAvailable(phone, record.profileId);
 
     const language = this.profileDetails.normalizeLanguage(input.language);
     const machineCode = this.normalizeMachineCode(input.machineCode);
@@ -135,39 +125,36 @@ export class PhoneVerificationService {
 
     const verificationCode = this.generateVerificationCode();
     const codeHash = hashToken(verificationCode);
-    const codeExpiresAt = await utcTimestampPlusMinutes(PHONE_CODE_TTL_MINUTES);
+    const codeExpiresAt = this.clock.plusMinutes(PHONE_CODE_TTL_MINUTES);
+
+    // Envia antes de trocar o código: se o número estiver limitado, o código
+    // anterior continua válido.
+    const delivery = await this.messaging.sendCode({
+      to: phone,
+      code: verificationCode,
+      expiresInMinutes: PHONE_CODE_TTL_MINUTES,
+      language,
+    });
+
+    if (record.machineCode && record.machineCode !== machineCode) {
+      await this.store.delete(this.machineKey(record.machineCode));
+    }
 
     record.phone = phone;
     record.language = language;
     record.codeHash = codeHash;
     record.codeExpiresAt = codeExpiresAt;
     record.attempts = 0;
+    record.machineCode = machineCode;
 
-    if (record.codeTimer) {
-      clearTimeout(record.codeTimer);
-      record.codeTimer = undefined;
-    }
-    const msUntilCodeExpiry = new Date(codeExpiresAt).getTime() - Date.now();
-    if (msUntilCodeExpiry > 0) {
-      record.codeTimer = setTimeout(
-        () => this.clearRecord(record.tokenHash),
-        msUntilCodeExpiry,
-      );
-      if (typeof (record.codeTimer as any)?.unref === 'function') {
-        (record.codeTimer as any).unref();
-      }
-    }
-
-    this.storeCodeForMachine(
-      machineCode,
-      record.tokenHash,
-      verificationCode,
-      codeExpiresAt,
+    await this.saveRecord(record);
+    await this.store.set<MachineCodeEntry>(
+      this.machineKey(machineCode),
+      { expiresAt: codeExpiresAt, tokenHash: record.tokenHash },
+      ttlUntil(codeExpiresAt),
     );
 
-    this.dispatchWhatsappCode(phone, verificationCode, machineCode);
-
-    return { ok: true, codeExpiresAt };
+    return { ok: true, codeExpiresAt, delivery };
   }
 
   async verifyCode(input: {
@@ -187,14 +174,15 @@ export class PhoneVerificationService {
 
     const record = await this.getRecordByPendingToken(pendingToken);
 
-    const cached = this.codeCache.get(machineCode);
+    const cached = await this.store.get<MachineCodeEntry>(
+      this.machineKey(machineCode),
+    );
     if (!cached || cached.tokenHash !== record.tokenHash) {
       throw new BadRequestException('Código não solicitado para esta máquina.');
     }
 
     if (this.isExpired(cached.expiresAt)) {
-      this.codeCache.delete(machineCode);
-      this.clearRecord(record.tokenHash);
+      await this.clearRecord(record.tokenHash);
       throw new BadRequestException('Código expirado. Solicite um novo.');
     }
 
@@ -207,14 +195,13 @@ export class PhoneVerificationService {
     }
 
     if (this.isExpired(record.codeExpiresAt)) {
-      this.codeCache.delete(machineCode);
-      this.clearRecord(record.tokenHash);
+      await this.clearRecord(record.tokenHash);
       throw new BadRequestException('Código expirado. Solicite um novo.');
     }
 
     const codeHash = hashToken(code);
     if (codeHash !== record.codeHash) {
-      this.handleInvalidAttempt(record);
+      await this.handleInvalidAttempt(record);
       throw new BadRequestException('Código inválido.');
     }
 
@@ -223,8 +210,7 @@ export class PhoneVerificationService {
       language: record.language ?? 'en-US',
     });
 
-    this.clearRecord(record.tokenHash);
-    this.codeCache.delete(machineCode);
+    await this.clearRecord(record.tokenHash);
 
     return {
       profileId: record.profileId,
@@ -236,12 +222,14 @@ export class PhoneVerificationService {
 
   private async getRecordByPendingToken(token: string): Promise<PendingRecord> {
     const tokenHash = hashToken(token);
-    const record = this.pendingByToken.get(tokenHash);
+    const record = await this.store.get<PendingRecord>(
+      this.recordKey(tokenHash),
+    );
     if (!record) {
       throw new UnauthorizedException('Token de verificação inválido.');
     }
     if (this.isExpired(record.tokenExpiresAt)) {
-      this.clearRecord(tokenHash);
+      await this.clearRecord(tokenHash);
       throw new UnauthorizedException(
         'Token de verificação expirado. Refaça o login.',
       );
@@ -249,34 +237,64 @@ export class PhoneVerificationService {
     return record;
   }
 
-  private handleInvalidAttempt(record: PendingRecord) {
+  /**
+   * Depois que um código é enviado, o registro expira junto com ele; antes
+   * disso, vale o prazo do token pendente.
+   */
+  private async saveRecord(record: PendingRecord) {
+    await this.store.set(
+      this.recordKey(record.tokenHash),
+      record,
+      ttlUntil(record.codeExpiresAt ?? record.tokenExpiresAt),
+    );
+  }
+
+  private async handleInvalidAttempt(record: PendingRecord) {
     record.attempts += 1;
     if (record.attempts >= MAX_VERIFICATION_ATTEMPTS) {
-      this.clearRecord(record.tokenHash);
+      await this.clearRecord(record.tokenHash);
       throw new BadRequestException(
         'Número máximo de tentativas excedido. Refaça o login.',
       );
     }
+    await this.saveRecord(record);
   }
 
-  private clearRecord(tokenHash: string) {
-    const record = this.pendingByToken.get(tokenHash);
+  private async clearRecord(tokenHash: string) {
+    const record = await this.store.get<PendingRecord>(
+      this.recordKey(tokenHash),
+    );
     if (!record) return;
 
-    if (record.tokenTimer) {
-      clearTimeout(record.tokenTimer);
+    await this.store.delete(this.recordKey(tokenHash));
+
+    const profileToken = await this.store.get<string>(
+      this.profileKey(record.profileId),
+    );
+    if (profileToken === tokenHash) {
+      await this.store.delete(this.profileKey(record.profileId));
     }
-    if (record.codeTimer) {
-      clearTimeout(record.codeTimer);
+
+    if (record.machineCode) {
+      const machine = await this.store.get<MachineCodeEntry>(
+        this.machineKey(record.machineCode),
+      );
+      if (machine?.tokenHash === tokenHash) {
+        await this.store.delete(this.machineKey(record.machineCode));
+      }
     }
+  }
 
-    this.pendingByToken.delete(tokenHash);
+  private recordKey(tokenHash: string) {
+    return `${KEY_PREFIX}:record:${tokenHash}`;
+  }
 
-    if (this.profileIndex.get(record.profileId) === tokenHash) {
-      this.profileIndex.delete(record.profileId);
-    }
+  private profileKey(profileId: string) {
+    return `${KEY_PREFIX}:profile:${profileId}`;
+  }
 
-    this.evictCachesByToken(tokenHash);
+  private machineKey(machineCode: string) {
+    return `${KEY_PREFIX}:machine:${machineCode}`;
   }
 
   private isExpired(iso?: string | null) {
@@ -291,52 +309,4 @@ export class PhoneVerificationService {
   private generateVerificationCode() {
     return String(Math.floor(10000 + Math.random() * 90000));
   }
-
-  private dispatchWhatsappCode(
-    phone: string,
-    code: string,
-    machineCode: string,
-  ) {
-    this.logger.log(
-      `Código ${code} destinado a ${phone} (machine=${machineCode})`,
-    );
-  }
-
-  private storeCodeForMachine(
-    machineCode: string,
-    tokenHash: string,
-    code: string,
-    expiresAt: string,
-  ) {
-    const existing = this.codeCache.get(machineCode);
-    if (existing?.timeout) {
-      clearTimeout(existing.timeout);
-    }
-
-    const entry: CodeCacheEntry = { code, expiresAt, tokenHash };
-    const msUntilExpiry = new Date(expiresAt).getTime() - Date.now();
-    if (msUntilExpiry > 0) {
-      entry.timeout = setTimeout(() => {
-        const current = this.codeCache.get(machineCode);
-        if (current && current.tokenHash === tokenHash) {
-          this.codeCache.delete(machineCode);
-        }
-      }, msUntilExpiry);
-      if (typeof (entry.timeout as any)?.unref === 'function') {
-        (entry.timeout as any).unref();
-      }
-    }
-    this.codeCache.set(machineCode, entry);
-  }
-
-  private evictCachesByToken(tokenHash: string) {
-    for (const [machine, entry] of this.codeCache.entries()) {
-      if (entry.tokenHash === tokenHash) {
-        if (entry.timeout) {
-          clearTimeout(entry.timeout);
-        }
-        this.codeCache.delete(machine);
-      }
-    }
-  }
 }
@@ -1,16 +1,13 @@
 import {
-  Inject,
   Injectable,
   InternalServerErrorException,
   BadRequestException,
 } from '@nestjs/common';
-import { SupabaseClient } from '@supabase/supabase-js';
-import { SB_ADMIN } from '../supabase/module';
+import { SupabaseUserClients } from '../supabase/user-clients.service';
 
 export interface ProfileDetails {
   phone: string | null;
   language: string;
-  genre: string | null;
   acceptedTerms: boolean;
 }
 
@@ -18,13 +15,16 @@ type ProfileDetailsRow = {
   profileId?: string;
   phone?: string | null;
   language?: string | null;
-  genre?: string | null;
   AcceptedTerms?: boolean | null;
 };
 
+/**
+ * `profile_details` de cada conta, lido e gravado com o cliente do próprio
+ * perfil (RLS). A busca de telefone entre perfis fica no UsersService.
+ */
 @Injectable()
 export class ProfileDetailsService {
-  constructor(@Inject(SB_ADMIN) private readonly supabase: SupabaseClient) {}
+  constructor(private readonly userClients: SupabaseUserClients) {}
 
   normalizePhone(phone: string) {
     return String(phone ?? '')
@@ -32,33 +32,19 @@ export class ProfileDetailsService {
       .trim();
   }
 
-  normalizeLanguage(language?: string | null) {
-    if (!language) return 'en-US';
-    const trimmed = language.trim();
-    return trimmed.length > 0 ? trimmed : 'en-US';
-  }
-
-  async ensurePhoneAvailable(phone: string, profileId: string) {
-    const { data, error } = await this.supabase
-      .from('profile_details')
-      .select('profileId')
-      .eq('phone', phone)
-      .maybeSingle();
-
-    if (error)
-      throw new InternalServerErrorException(
-        `Falha ao validar telefone: ${error.message}`,
-      );
-
-    if (data && String(data.profileId) !== profileId) {
-      throw new BadRequestException('Telefone já vinculado a outra conta.');
-    }
+  /** Reduz ao idioma suportado (pt-BR ou en-US); o padrão é en-US. */
+  normalizeLanguage(language?: string | null): 'pt-BR' | 'en-US' {
+    const lowered = String(language ?? '')
+      .trim()
+      .toLowerCase();
+    return lowered.startsWith('pt') ? 'pt-BR' : 'en-US';
   }
 
   async getDetails(profileId: string): Promise<ProfileDetails | null> {
-    const { data, error } = await this.supabase
+    const { data, error } = await this.userClients
+      .forProfile(profileId)
       .from('profile_details')
-      .select('phone, language, genre, AcceptedTerms')
+      .select('phone, language, AcceptedTerms')
       .eq('profileId', profileId)
       .maybeSingle();
 
@@ -82,22 +68,21 @@ export class ProfileDetailsService {
 
     const language = this.normalizeLanguage(input.language);
     const currentDetails = await this.getDetails(profileId);
-    const genre = currentDetails?.genre ?? null;
     const acceptedTerms = currentDetails?.acceptedTerms ?? false;
 
-    const { data, error } = await this.supabase
+    const { data, error } = await this.userClients
+      .forProfile(profileId)
       .from('profile_details')
       .upsert(
         {
           profileId,
           phone,
           language,
-          genre,
           AcceptedTerms: acceptedTerms,
         },
         { onConflict: 'profileId' },
       )
-      .select('phone, language, genre, AcceptedTerms')
+      .select('phone, language, AcceptedTerms')
       .single();
 
     if (error)
@@ -115,7 +100,6 @@ export class ProfileDetailsService {
     return {
       phone: data.phone ?? null,
       language: this.normalizeLanguage(data.language),
-      genre: data.genre ?? null,
       acceptedTerms: Boolean(data.AcceptedTerms),
     };
   }
@@ -142,19 +126,19 @@ export class ProfileDetailsService {
       );
     }
 
-    const { data, error } = await this.supabase
+    const { data, error } = await this.userClients
+      .forProfile(profileId)
       .from('profile_details')
       .upsert(
         {
           profileId,
           phone: this.normalizePhone(baseDetails.phone),
           language: this.normalizeLanguage(baseDetails.language),
-          genre: baseDetails.genre ?? null,
           AcceptedTerms: true,
         },
         { onConflict: 'profileId' },
       )
-      .select('phone, language, genre, AcceptedTerms')
+      .select('phone, language, AcceptedTerms')
       .single();
 
     if (error)
@@ -0,0 +1,318 @@
+// src/auth/public-profile.service.ts
+import { randomBytes } from 'crypto';
+import { mkdir, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import sharp from 'sharp';
+import { SupabaseUserClients } from '../supabase/user-clients.service';
+import {
+  GENRE_ID_TO_SLUG,
+  resolveGenreSlug,
+} from '../books/genre/genre.constants';
+
+const AVATAR_SIZE = 256;
+const AVATAR_FORMATS = ['jpeg', 'png', 'webp'];
+// Rejeita imagens absurdas antes de decodificar (ex.: bombas de descompressão)
+const AVATAR_MAX_INPUT_PIXELS = 40_000_000;
+export const AVATAR_MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+export const MAX_PREFERRED_GENRES = 5;
+
+/** Colunas de `profiles` que formam o perfil público. */
+type ProfileRow = {
+  id: string;
+  email: string | null;
+  name: string | null;
+  bio: string | null;
+  avatar_path: string | null;
+};
+
+type GenreRow = { genre_id: number; position: number };
+
+export interface PreferredGenre {
+  id: number;
+  genre: string;
+}
+
+export interface PublicProfile {
+  userId: string;
+  email: string | null;
+  name: string | null;
+  bio: string | null;
+  avatarUrl: string | null;
+  genres: PreferredGenre[];
+}
+
+export interface AvatarUpload {
+  buffer: Buffer;
+  mimetype: string;
+  size: number;
+}
+
+/**
+ * Perfil editável pelo próprio usuário: nome de exibição, bio, avatar e
+ * gêneros preferidos em ordem (`profile_genres`), que substituem a antiga
+ * coluna `profile_details.genre`. Tudo é lido e gravado com o cliente do
+ * próprio perfil (RLS).
+ */
+@Injectable()
+export class PublicProfileService {
+  private readonly logger = new Logger(PublicProfileService.name);
+  // Mesma pasta servida pelo ProtectedAssetsController
+  private readonly avatarsPath = join(
+    __dirname,
+    '..',
+    '..',
+    'public',
+    'avatars',
+  );
+
+  constructor(private readonly userClients: SupabaseUserClients) {}
+
+  async getProfile(profileId: string): Promise<PublicProfile | null> {
+    const { data, error } = await this.userClients
+      .forProfile(profileId)
+      .from('profiles')
+      .select('id, email, name, bio, avatar_path')
+      .eq('id', profileId)
+      .maybeSingle();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar perfil: ${error.message}`,
+      );
+    if (!data) return null;
+
+    const row = data as ProfileRow;
+    return {
+      userId: String(row.id),
+      email: row.email ?? null,
+      name: row.name ?? null,
+      bio: row.bio ?? null,
+      avatarUrl: this.avatarUrl(row.avatar_path),
+      genres: await this.getGenres(profileId),
+    };
+  }
+
+  async updateProfile(
+    profileId: string,
+    input: { name?: string; bio?: string | null },
+  ) {
+    const patch: Record<string, string | null> = {};
+    if (input.name !== undefined) patch.name = input.name;
+    if (input.bio !== undefined) patch.bio = input.bio || null;
+    if (Object.keys(patch).length === 0) {
+      throw new BadRequestException('Informe name ou bio.');
+    }
+
+    const { data, error } = await this.userClients
+      .forProfile(profileId)
+      .from('profiles')
+      .update(patch)
+      .eq('id', profileId)
+      .select('id');
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao atualizar perfil: ${error.message}`,
+      );
+    if (!data?.length) throw new NotFoundException('Perfil não encontrado.');
+
+    return this.requireProfile(profileId);
+  }
+
+  /**
+   * Valida o arquivo pelo conteúdo (não pelo mimetype informado), corta em
+   * quadrado e grava em WebP. O nome é novo a cada envio para furar caches.
+   */
+  async updateAvatar(profileId: string, file: AvatarUpload | undefined) {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException('Envie a imagem no campo "avatar".');
+    }
+    if (file.size > AVATAR_MAX_UPLOAD_BYTES) {
+      throw new BadRequestException('Imagem maior que 5 MB.');
+    }
+
+    let image: Buffer;
+    try {
+      const input = sharp(file.buffer, {
+        limitInputPixels: AVATAR_MAX_INPUT_PIXELS,
+      });
+      const metadata = await input.metadata();
+      if (!metadata.format || !AVATAR_FORMATS.includes(metadata.format)) {
+        throw new BadRequestException('Use uma imagem JPEG, PNG ou WebP.');
+      }
+      image = await input
+        .rotate()
+        .resize(AVATAR_SIZE, AVATAR_SIZE, { fit: 'cover' })
+        .webp({ quality: 85 })
+        .toBuffer();
+    } catch (err) {
+      if (err instanceof BadRequestException) throw err;
+      throw new BadRequestException('Imagem inválida.');
+    }
+
+    const fileName = `${profileId}-${randomBytes(6).toString('hex')}.webp`;
+    await mkdir(this.avatarsPath, { recursive: true });
+    await writeFile(join(this.avatarsPath, fileName), image);
+
+    const previous = await this.swapAvatarPath(profileId, fileName);
+    if (previous) await this.removeAvatarFile(previous);
+
+    this.logger.log(`Avatar atualizado para o perfil ${profileId}.`);
+    return { avatarUrl: this.avatarUrl(fileName) };
+  }
+
+  async deleteAvatar(profileId: string) {
+    const previous = await this.swapAvatarPath(profileId, null);
+    if (previous) await this.removeAvatarFile(previous);
+    return { avatarUrl: null };
+  }
+
+  /** Só apaga o arquivo; usado na exclusão definitiva da conta. */
+  async removeAvatarOf(profileId: string) {
+    const { data, error } = await this.userClients
+      .forProfile(profileId)
+      .from('profiles')
+      .select('avatar_path')
+      .eq('id', profileId)
+      .maybeSingle();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar avatar: ${error.message}`,
+      );
+    const fileName = (data as Pick<ProfileRow, 'avatar_path'> | null)
+      ?.avatar_path;
+    if (fileName) await this.removeAvatarFile(fileName);
+  }
+
+  async getGenres(profileId: string): Promise<PreferredGenre[]> {
+    const { data, error } = await this.userClients
+      .forProfile(profileId)
+      .from('profile_genres')
+      .select('genre_id, position')
+      .eq('profile_id', profileId)
+      .order('position', { ascending: true });
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar gêneros: ${error.message}`,
+      );
+
+    const rows = (data ?? []) as GenreRow[];
+    if (rows.length === 0) return this.legacyGenre(profileId);
+    return rows.flatMap((row) => {
+      const genre = resolveGenreSlug(Number(row.genre_id));
+      return genre ? [{ id: Number(row.genre_id), genre }] : [];
+    });
+  }
+
+  /** Substitui a lista inteira; a ordem do array é a ordem de preferência. */
+  async replaceGenres(profileId: string, genreIds: number[]) {
+    const unknown = genreIds.filter((id) => !resolveGenreSlug(id));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Gêneros inexistentes: ${unknown.join(', ')}.`,
+      );
+    }
+
+    const supabase = this.userClients.forProfile(profileId);
+    const { error: deleteError } = await supabase
+      .from('profile_genres')
+      .delete()
+      .eq('profile_id', profileId);
+    if (deleteError)
+      throw new InternalServerErrorException(
+        `Falha ao atualizar gêneros: ${deleteError.message}`,
+      );
+
+    if (genreIds.length > 0) {
+      const { error } = await supabase.from('profile_genres').insert(
+        genreIds.map((genreId, position) => ({
+          profile_id: profileId,
+          genre_id: genreId,
+          position,
+        })),
+      );
+      if (error)
+        throw new InternalServerErrorException(
+          `Falha ao atualizar gêneros: ${error.message}`,
+        );
+    }
+
+    // A coluna antiga deixa de valer assim que a lista é gravada
+    await supabase
+      .from('profile_details')
+      .update({ genre: null })
+      .eq('profileId', profileId);
+
+    return { genres: await this.getGenres(profileId) };
+  }
+
+  private async requireProfile(profileId: string) {
+    const profile = await this.getProfile(profileId);
+    if (!profile) throw new NotFoundException('Perfil não encontrado.');
+    return profile;
+  }
+
+  /** Grava o novo avatar e devolve o anterior para ser apagado. */
+  private async swapAvatarPath(profileId: string, fileName: string | null) {
+    const supabase = this.userClients.forProfile(profileId);
+    const { data: current, error: readError } = await supabase
+      .from('profiles')
+      .select('avatar_path')
+      .eq('id', profileId)
+      .maybeSingle();
+    if (readError)
+      throw new InternalServerErrorException(
+        `Falha ao consultar avatar: ${readError.message}`,
+      );
+    if (!current) throw new NotFoundException('Perfil não encontrado.');
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ avatar_path: fileName })
+      .eq('id', profileId);
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao atualizar avatar: ${error.message}`,
+      );
+
+    const previous = (current as Pick<ProfileRow, 'avatar_path'>).avatar_path;
+    return previous && previous !== fileName ? previous : null;
+  }
+
+  /** Apaga o arquivo do avatar; falhas só geram aviso no log. */
+  async removeAvatarFile(fileName: string) {
+    try {
+      await unlink(join(this.avatarsPath, fileName));
+    } catch (err) {
+      this.logger.warn(`Falha ao remover avatar ${fileName}: ${String(err)}`);
+    }
+  }
+
+  avatarUrl(fileName: string | null | undefined) {
+    return fileName ? `/avatars/${fileName}` : null;
+  }
+
+  /** Perfis que ainda só têm `profile_details.genre` preenchido. */
+  private async legacyGenre(profileId: string): Promise<PreferredGenre[]> {
+    const { data } = await this.userClients
+      .forProfile(profileId)
+      .from('profile_details')
+      .select('genre')
+      .eq('profileId', profileId)
+      .maybeSingle();
+    const legacy = String(data?.genre ?? '')
+      .trim()
+      .toLowerCase();
+    if (!legacy) return [];
+
+    const match = Object.entries(GENRE_ID_TO_SLUG).find(
+      ([, slug]) => slug.toLowerCase() === legacy,
+    );
+    return match ? [{ id: Number(match[0]), genre: match[1] }] : [];
+  }
+}
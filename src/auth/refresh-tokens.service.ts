@@ -0,0 +1,188 @@
+// src/auth/refresh-tokens.service.ts
+import {
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SB_ADMIN } from '../supabase/module';
+import { SessionCacheService } from './session-cache.service';
+import { generateOpaqueToken, hashToken } from '../common/utils/token';
+import { TrustedTimeService } from '../trusted-time/trusted-time.service';
+
+const REFRESH_TOKEN_TTL_DAYS = 30;
+
+/**
+ * Linha de `refresh_tokens`. Todos os refresh tokens emitidos a partir do
+ * mesmo login compartilham `family_id` com a sessão em `tokens`.
+ */
+type RefreshTokenRow = {
+  id: string | number;
+  family_id: string;
+  session_id: string | number;
+  user_id: string;
+  expires_at: string | null;
+  rotated_at: string | null;
+  revoked_at: string | null;
+};
+
+export interface IssuedRefreshToken {
+  refreshToken: string;
+  refreshExpiresAt: string;
+}
+
+export interface RefreshTokenRecord {
+  id: string;
+  familyId: string;
+  sessionId: string;
+  userId: string;
+}
+
+@Injectable()
+export class RefreshTokensService {
+  private readonly logger = new Logger(RefreshTokensService.name);
+
+  constructor(
+    @Inject(SB_ADMIN) private readonly supabase: SupabaseClient,
+    private readonly sessionCache: SessionCacheService,
+    private readonly clock: TrustedTimeService,
+  ) {}
+
+  async issue(input: {
+    userId: string;
+    sessionId: string;
+    familyId: string;
+  }): Promise<IssuedRefreshToken> {
+    const { clear, hash } = generateOpaqueToken(48);
+    const expiresAt = this.clock.plusMinutes(REFRESH_TOKEN_TTL_DAYS * 24 * 60);
+
+    const { error } = await this.supabase.from('refresh_tokens').insert({
+      family_id: input.familyId,
+      session_id: input.sessionId,
+      user_id: input.userId,
+      token_hash: hash,
+      expires_at: expiresAt,
+      rotated_at: null,
+      revoked_at: null,
+    });
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao criar refresh token: ${error.message}`,
+      );
+
+    return { refreshToken: clear, refreshExpiresAt: expiresAt };
+  }
+
+  /**
+   * Valida o refresh token sem consumi-lo. Um token já rotacionado indica
+   * que uma cópia antiga foi reapresentada: a família inteira é revogada.
+   */
+  async inspect(refreshClear: string): Promise<RefreshTokenRecord> {
+    const row = await this.findByHash(hashToken(refreshClear));
+    if (!row) throw new UnauthorizedException('Refresh token inválido.');
+
+    if (row.rotated_at) {
+      await this.handleReuse(row);
+      throw new UnauthorizedException(
+        'Refresh token reutilizado. Faça login novamente.',
+      );
+    }
+    if (row.revoked_at) {
+      throw new UnauthorizedException('Refresh token revogado.');
+    }
+    if (!row.expires_at || new Date(row.expires_at) <= new Date()) {
+      throw new UnauthorizedException('Refresh token expirado.');
+    }
+
+    return {
+      id: String(row.id),
+      familyId: String(row.family_id),
+      sessionId: String(row.session_id),
+      userId: String(row.user_id),
+    };
+  }
+
+  /**
+   * Marca o token como rotacionado. A atualização é condicional, então duas
+   * requisições concorrentes com o mesmo token não rotacionam ambas.
+   */
+  async markRotated(record: RefreshTokenRecord) {
+    const { data, error } = await this.supabase
+      .from('refresh_tokens')
+      .update({ rotated_at: new Date().toISOString() })
+      .eq('id', record.id)
+      .is('rotated_at', null)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao rotacionar refresh token: ${error.message}`,
+      );
+
+    if (!data || data.length === 0) {
+      await this.revokeFamily(record.familyId, record.userId);
+      throw new UnauthorizedException(
+        'Refresh token reutilizado. Faça login novamente.',
+      );
+    }
+  }
+
+  async revokeFamily(familyId: string, userId?: string) {
+    const now = new Date().toISOString();
+    const { error: revokeError } = await this.supabase
+      .from('refresh_tokens')
+      .update({ revoked_at: now })
+      .eq('family_id', familyId)
+      .is('revoked_at', null);
+    if (revokeError) {
+      this.logger.error(
+        `Falha ao revogar família ${familyId}: ${revokeError.message}`,
+      );
+    }
+
+    const { data: sessions, error: sessionError } = await this.supabase
+      .from('tokens')
+      .delete()
+      .eq('family_id', familyId)
+      .select('id');
+    if (sessionError) {
+      this.logger.error(
+        `Falha ao encerrar sessão da família ${familyId}: ${sessionError.message}`,
+      );
+    }
+    for (const row of (sessions ?? []) as { id: string | number }[]) {
+      this.sessionCache.invalidateTokenId(row.id);
+    }
+
+    this.logger.warn(
+      `Família de tokens ${familyId} revogada${userId ? ` (usuário ${userId})` : ''}.`,
+    );
+  }
+
+  private async handleReuse(row: RefreshTokenRow) {
+    this.logger.warn(
+      `Reuso de refresh token detectado (família ${row.family_id}, usuário ${row.user_id}).`,
+    );
+    await this.revokeFamily(String(row.family_id), String(row.user_id));
+  }
+
+  private async findByHash(tokenHash: string): Promise<RefreshTokenRow | null> {
+    const { data, error } = await this.supabase
+      .from('refresh_tokens')
+      .select(
+        'id, family_id, session_id, user_id, expires_at, rotated_at, revoked_at',
+      )
+      .eq('token_hash', tokenHash)
+      .maybeSingle();
+
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar refresh token: ${error.message}`,
+      );
+
+    return (data as RefreshTokenRow | null) ?? null;
+  }
+}
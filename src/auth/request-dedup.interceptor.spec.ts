@@ -0,0 +1,150 @@
+import {
+  Controller,
+  Post,
+  Res,
+  StreamableFile,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { lastValueFrom, of } from 'rxjs';
+import { MemoryKeyValueStore } from '../kv-store/memory-kv.store';
+import { DuplicateRequestDetectorService } from './duplicate-request-detector.service';
+import { DuplicateRequestStatsService } from './duplicate-request-stats.service';
+import { IdempotencyService } from './idempotency.service';
+import { RequestDedupInterceptor } from './request-dedup.interceptor';
+
+@Controller('orders')
+class OrdersController {
+  @Post()
+  create() {
+    return null;
+  }
+
+  @Post('raw')
+  raw(@Res() res: unknown) {
+    return res;
+  }
+}
+
+function request(body: unknown, headers: Record<string, string> = {}) {
+  return {
+    method: 'POST',
+    url: '/orders',
+    originalUrl: '/orders',
+    baseUrl: '',
+    path: '/orders',
+    body,
+    query: {},
+    headers: { 'idempotency-key': 'order-1', ...headers },
+    ip: '10.0.0.1',
+    session: { userId: 'profile-1', tokenId: 'token-1', permission: true },
+  };
+}
+
+function context(req: unknown, handler: keyof OrdersController = 'create') {
+  const res = { setHeader: jest.fn() };
+  const ctx = new ExecutionContextHost(
+    [req, res],
+    OrdersController,
+    OrdersController.prototype[handler],
+  );
+  ctx.setType('http');
+  return { ctx, res };
+}
+
+describe('RequestDedupInterceptor', () => {
+  let store: MemoryKeyValueStore;
+  let interceptor: RequestDedupInterceptor;
+
+  beforeEach(() => {
+    store = new MemoryKeyValueStore();
+    const config = { get: () => undefined } as unknown as ConfigService;
+    interceptor = new RequestDedupInterceptor(
+      new Reflector(),
+      new DuplicateRequestDetectorService(store),
+      new DuplicateRequestStatsService(),
+      new IdempotencyService(store, config),
+    );
+  });
+
+  afterEach(() => store.onModuleDestroy());
+
+  it('replays the first response for the same Idempotency-Key', async () => {
+    const handler = jest.fn(() => of({ id: 'order-1' }));
+
+    const first = context(request({ item: 'a' }));
+    await lastValueFrom(
+      await interceptor.intercept(first.ctx, { handle: handler }),
+    );
+
+    const retry = context(request({ item: 'a' }));
+    const body = await lastValueFrom(
+      await interceptor.intercept(retry.ctx, { handle: handler }),
+    );
+
+    expect(body).toEqual({ id: 'order-1' });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(retry.res.setHeader).toHaveBeenCalledWith(
+      'Idempotent-Replayed',
+      'true',
+    );
+  });
+
+  it('rejects a key reused with a different body', async () => {
+    const handler = jest.fn(() => of({ id: 'order-1' }));
+    await lastValueFrom(
+      await interceptor.intercept(context(request({ item: 'a' })).ctx, {
+        handle: handler,
+      }),
+    );
+
+    await expect(
+      interceptor.intercept(context(request({ item: 'b' })).ctx, {
+        handle: handler,
+      }),
+    ).rejects.toBeInstanceOf(UnprocessableEntityException);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not store streamed files for replay', async () => {
+    const file = new StreamableFile(Buffer.from('pdf'));
+    const handler = jest.fn(() => of(file));
+
+    for (let i = 0; i < 2; i++) {
+      await lastValueFrom(
+        await interceptor.intercept(context(request({ item: 'a' })).ctx, {
+          handle: handler,
+        }),
+      );
+    }
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves handlers using @Res() untouched', async () => {
+    const handler = jest.fn(() => of(undefined));
+
+    for (let i = 0; i < 2; i++) {
+      await lastValueFrom(
+        await interceptor.intercept(
+          context(request({ item: 'a' }), 'raw').ctx,
+          { handle: handler },
+        ),
+      );
+    }
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('guards tokens without permission outside the login flow', async () => {
+    const req = request({ item: 'a' }, {});
+    delete (req.headers as Record<string, string>)['idempotency-key'];
+    req.session.permission = false;
+    const handler = jest.fn(() => of({}));
+
+    await interceptor.intercept(context(req).ctx, { handle: handler });
+    await expect(
+      interceptor.intercept(context(req).ctx, { handle: handler }),
+    ).rejects.toMatchObject({ status: 429 });
+  });
+});
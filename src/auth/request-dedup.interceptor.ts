@@ -0,0 +1,210 @@
+// src/auth/request-dedup.interceptor.ts
+import {
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NestInterceptor,
+  StreamableFile,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import {
+  HTTP_CODE_METADATA,
+  ROUTE_ARGS_METADATA,
+} from '@nestjs/common/constants';
+import { RouteParamtypes } from '@nestjs/common/enums/route-paramtypes.enum';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import { Observable, catchError, concatMap, finalize, from, of } from 'rxjs';
+import { DuplicateRequestDetectorService } from './duplicate-request-detector.service';
+import { DuplicateRequestStatsService } from './duplicate-request-stats.service';
+import { IdempotencyService } from './idempotency.service';
+import { isAuthFlowRoute } from './auth-flow-scope';
+import {
+  DUPLICATE_POLICY_KEY,
+  DuplicatePolicyOptions,
+} from './duplicate-policy.decorator';
+
+interface SessionizedRequest extends Request {
+  session?: {
+    userId: string;
+    tokenId: string;
+  };
+}
+
+/**
+ * Roda depois do SessionMiddleware em métodos mutáveis de qualquer token,
+ * exceto no fluxo de login. Com `Idempotency-Key` a primeira resposta é
+ * reaproveitada; sem ela vale a `@DuplicatePolicy` da rota. Handlers com
+ * `@Res()` ficam de fora: a resposta não passa pelo interceptor.
+ */
+@Injectable()
+export class RequestDedupInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(RequestDedupInterceptor.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly duplicateDetector: DuplicateRequestDetectorService,
+    private readonly duplicateStats: DuplicateRequestStatsService,
+    private readonly idempotency: IdempotencyService,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    if (context.getType() !== 'http') return next.handle();
+
+    const req = context.switchToHttp().getRequest<SessionizedRequest>();
+    const session = req.session;
+    if (
+      !session ||
+      this.isSafeMethod(req.method) ||
+      isAuthFlowRoute(req.baseUrl + req.path) ||
+      this.usesRawResponse(context)
+    ) {
+      return next.handle();
+    }
+
+    const key = this.idempotency.readKey(req);
+    if (key !== null) {
+      return this.handleIdempotent(context, next, session.userId, key);
+    }
+
+    const policy = this.reflector.getAllAndOverride<
+      DuplicatePolicyOptions | undefined
+    >(DUPLICATE_POLICY_KEY, [context.getHandler(), context.getClass()]) ?? {
+      mode: 'reject',
+    };
+    if (policy.mode === 'allow') return next.handle();
+
+    const release = await this.duplicateDetector.tryRegisterRequest(
+      req,
+      session.tokenId,
+      policy.mode === 'in-flight' ? 0 : policy.windowMs,
+    );
+    if (!release) {
+      this.duplicateStats.recordDuplicateRequest({
+        method: req.method,
+        url: req.url,
+        userAgent: req.headers['user-agent'],
+        ip: req.ip || req.socket?.remoteAddress,
+        userId: session.userId,
+      });
+      throw new HttpException(
+        {
+          message:
+            'Requisição duplicada detectada. Aguarde a conclusão da requisição anterior.',
+          code: 'DUPLICATE_REQUEST',
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    return next.handle().pipe(finalize(release));
+  }
+
+  private async handleIdempotent(
+    context: ExecutionContext,
+    next: CallHandler,
+    userId: string,
+    key: string,
+  ): Promise<Observable<unknown>> {
+    const req = context.switchToHttp().getRequest<Request>();
+    const res = context.switchToHttp().getResponse<Response>();
+    const fingerprint = this.idempotency.fingerprint(req);
+
+    const outcome = await this.idempotency.begin(userId, key, fingerprint);
+    if (outcome.status === 'mismatch') {
+      throw new UnprocessableEntityException(
+        'Idempotency-Key já utilizada com outra requisição.',
+      );
+    }
+    if (outcome.status === 'in-progress') {
+      throw new ConflictException(
+        'Requisição com esta Idempotency-Key ainda em andamento.',
+      );
+    }
+    if (outcome.status === 'replay') {
+      this.logger.debug(
+        `Resposta reaproveitada para ${req.method} ${req.originalUrl} (usuário ${userId}).`,
+      );
+      res.setHeader('Idempotent-Replayed', 'true');
+      const { statusCode, body } = outcome.response;
+      // o status de sucesso é reaplicado pelo próprio Nest; erros voltam como exceção
+      if (statusCode >= 400) {
+        throw new HttpException(
+          body as string | Record<string, unknown>,
+          statusCode,
+        );
+      }
+      return of(body);
+    }
+
+    const successStatus = this.successStatus(context, req.method);
+    return next.handle().pipe(
+      concatMap(async (body: unknown) => {
+        // arquivos em stream não podem ser guardados para reenvio
+        if (body instanceof StreamableFile) {
+          await this.idempotency.release(userId, key);
+          return body;
+        }
+        await this.idempotency.complete(userId, key, fingerprint, {
+          statusCode: successStatus,
+          body: body ?? null,
+        });
+        return body;
+      }),
+      catchError((err: unknown) =>
+        from(this.settleFailure(userId, key, fingerprint, err)),
+      ),
+    );
+  }
+
+  // Erros do cliente (4xx) também são reaproveitados; 5xx libera a chave
+  private async settleFailure(
+    userId: string,
+    key: string,
+    fingerprint: string,
+    err: unknown,
+  ): Promise<never> {
+    if (err instanceof HttpException && err.getStatus() < 500) {
+      await this.idempotency.complete(userId, key, fingerprint, {
+        statusCode: err.getStatus(),
+        body: err.getResponse(),
+      });
+    } else {
+      await this.idempotency.release(userId, key);
+    }
+    throw err;
+  }
+
+  private successStatus(context: ExecutionContext, method: string) {
+    const custom = this.reflector.get<number | undefined>(
+      HTTP_CODE_METADATA,
+      context.getHandler(),
+    );
+    if (custom) return custom;
+    return method.toUpperCase() === 'POST' ? HttpStatus.CREATED : HttpStatus.OK;
+  }
+
+  private usesRawResponse(context: ExecutionContext): boolean {
+    const args =
+      (Reflect.getMetadata(
+        ROUTE_ARGS_METADATA,
+        context.getClass(),
+        context.getHandler().name,
+      ) as Record<string, unknown> | undefined) ?? {};
+    const raw = [`${RouteParamtypes.RESPONSE}`, `${RouteParamtypes.NEXT}`];
+    return Object.keys(args).some((arg) => raw.includes(arg.split(':')[0]));
+  }
+
+  private isSafeMethod(method: string | undefined): boolean {
+    if (!method) return false;
+    const upper = method.toUpperCase();
+    return upper === 'GET' || upper === 'HEAD' || upper === 'OPTIONS';
+  }
+}
@@ -0,0 +1,223 @@
+// src/auth/session-cache.service.ts
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { PubSub } from '../kv-store/pub-sub';
+
+const DEFAULT_TTL_MS = 15_000;
+const DEFAULT_MAX_ENTRIES = 5_000;
+const INVALIDATION_CHANNEL = 'session-cache:invalidate';
+
+/** Colunas de `tokens` usadas pelo SessionMiddleware. */
+export interface CachedTokenRow {
+  id: string | number;
+  user_id: string;
+  provider: string | null;
+  provider_sub: string | null;
+  expires_at: string | null;
+  permission: boolean | null;
+  active_profile_id?: string | null;
+  /** `family_profiles.maturity_level` do perfil ativo, quando há um. */
+  maturity_level?: string | null;
+}
+
+type InvalidationKind = 'token-hash' | 'token-id' | 'user';
+
+interface InvalidationMessage {
+  origin: string;
+  kind: InvalidationKind;
+  value: string;
+}
+
+interface CacheEntry {
+  row: CachedTokenRow;
+  validUntil: number;
+}
+
+/**
+ * Cache LRU em memória das linhas de `tokens`, indexado pelo hash do token.
+ * Toda alteração/remoção de sessão precisa invalidar a entrada; a
+ * invalidação é repassada às demais instâncias pelo PubSub.
+ */
+@Injectable()
+export class SessionCacheService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SessionCacheService.name);
+  private readonly instanceId = randomUUID();
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly hashesByTokenId = new Map<string, Set<string>>();
+  private readonly hashesByUser = new Map<string, Set<string>>();
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private unsubscribe: (() => void) | null = null;
+  private readonly metrics = {
+    hits: 0,
+    misses: 0,
+    evictions: 0,
+    invalidations: 0,
+    remoteInvalidations: 0,
+  };
+
+  constructor(
+    private readonly pubSub: PubSub,
+    config: ConfigService,
+  ) {
+    const ttl = Number(config.get<string>('SESSION_CACHE_TTL_MS'));
+    this.ttlMs = Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_TTL_MS;
+    const max = Number(config.get<string>('SESSION_CACHE_MAX_ENTRIES'));
+    this.maxEntries =
+      Number.isInteger(max) && max > 0 ? max : DEFAULT_MAX_ENTRIES;
+  }
+
+  onModuleInit() {
+    this.unsubscribe = this.pubSub.subscribe(INVALIDATION_CHANNEL, (message) =>
+      this.handleRemoteInvalidation(message),
+    );
+  }
+
+  onModuleDestroy() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  get enabled() {
+    return this.ttlMs > 0;
+  }
+
+  get(tokenHash: string): CachedTokenRow | null {
+    if (!this.enabled) return null;
+
+    const entry = this.entries.get(tokenHash);
+    if (!entry || entry.validUntil <= Date.now()) {
+      if (entry) this.remove(tokenHash);
+      this.metrics.misses++;
+      return null;
+    }
+
+    // reinserir mantém a ordem de uso do Map (LRU)
+    this.entries.delete(tokenHash);
+    this.entries.set(tokenHash, entry);
+    this.metrics.hits++;
+    return entry.row;
+  }
+
+  /** `validUntil` limita a entrada, ex.: fim da janela do token anterior. */
+  set(tokenHash: string, row: CachedTokenRow, validUntil?: string | null) {
+    if (!this.enabled) return;
+
+    const limits = [Date.now() + this.ttlMs];
+    if (validUntil) limits.push(Date.parse(validUntil));
+    if (row.expires_at) limits.push(Date.parse(row.expires_at));
+    const until = Math.min(...limits.filter((value) => !Number.isNaN(value)));
+
+    this.remove(tokenHash);
+    this.entries.set(tokenHash, { row, validUntil: until });
+    this.index(this.hashesByTokenId, String(row.id), tokenHash);
+    this.index(this.hashesByUser, String(row.user_id), tokenHash);
+
+    while (this.entries.size > this.maxEntries) {
+      const [oldest] = this.entries.keys();
+      this.remove(oldest);
+      this.metrics.evictions++;
+    }
+  }
+
+  invalidateTokenHash(tokenHash: string) {
+    this.apply('token-hash', tokenHash);
+    this.broadcast('token-hash', tokenHash);
+  }
+
+  invalidateTokenId(tokenId: string | number) {
+    this.apply('token-id', String(tokenId));
+    this.broadcast('token-id', String(tokenId));
+  }
+
+  invalidateUser(userId: string) {
+    this.apply('user', userId);
+    this.broadcast('user', userId);
+  }
+
+  getMetrics() {
+    const lookups = this.metrics.hits + this.metrics.misses;
+    return {
+      enabled: this.enabled,
+      ttlMs: this.ttlMs,
+      maxEntries: this.maxEntries,
+      size: this.entries.size,
+      ...this.metrics,
+      hitRate: lookups > 0 ? this.metrics.hits / lookups : 0,
+    };
+  }
+
+  private apply(kind: InvalidationKind, value: string) {
+    const hashes =
+      kind === 'token-hash'
+        ? [value]
+        : Array.from(
+            (kind === 'token-id'
+              ? this.hashesByTokenId
+              : this.hashesByUser
+            ).get(value) ?? [],
+          );
+    for (const hash of hashes) {
+      if (this.remove(hash)) this.metrics.invalidations++;
+    }
+  }
+
+  private broadcast(kind: InvalidationKind, value: string) {
+    const message: InvalidationMessage = {
+      origin: this.instanceId,
+      kind,
+      value,
+    };
+    this.pubSub.publish(INVALIDATION_CHANNEL, message).catch((err) => {
+      this.logger.warn(
+        `Falha ao propagar invalidação de sessão: ${String(err)}`,
+      );
+    });
+  }
+
+  private handleRemoteInvalidation(raw: unknown) {
+    const message = raw as Partial<InvalidationMessage> | null;
+    if (!message || message.origin === this.instanceId) return;
+    if (
+      typeof message.value !== 'string' ||
+      (message.kind !== 'token-hash' &&
+        message.kind !== 'token-id' &&
+        message.kind !== 'user')
+    ) {
+      return;
+    }
+    this.metrics.remoteInvalidations++;
+    this.apply(message.kind, message.value);
+  }
+
+  private remove(tokenHash: string) {
+    const entry = this.entries.get(tokenHash);
+    if (!entry) return false;
+    this.entries.delete(tokenHash);
+    this.unindex(this.hashesByTokenId, String(entry.row.id), tokenHash);
+    this.unindex(this.hashesByUser, String(entry.row.user_id), tokenHash);
+    return true;
+  }
+
+  private index(map: Map<string, Set<string>>, key: string, hash: string) {
+    let hashes = map.get(key);
+    if (!hashes) {
+      hashes = new Set();
+      map.set(key, hashes);
+    }
+    hashes.add(hash);
+  }
+
+  private unindex(map: Map<string, Set<string>>, key: string, hash: string) {
+    const hashes = map.get(key);
+    if (!hashes) return;
+    hashes.delete(hash);
+    if (hashes.size === 0) map.delete(key);
+  }
+}
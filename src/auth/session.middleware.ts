@@ -5,11 +5,28 @@ import { SupabaseClient } from '@supabase/supabase-js';
 import { SUPABASE_CLIENT } from '../supabase/module';
 import { hashToken } from '../common/utils/token';
 import { extractBearerToken } from '../common/utils/bearer';
-import { DuplicateRequestDetectorService } from './duplicate-request-detector.service';
-import { DuplicateRequestStatsService } from './duplicate-request-stats.service';
+import { SessionsService } from './sessions.service';
+import { CachedTokenRow, SessionCacheService } from './session-cache.service';
+import {
+  extractClientContext,
+  extractClientIp,
+} from '../common/utils/client-context';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { GUEST_PROVIDER, isGuestRoute } from './guest-scope';
+import {
+  isOwnerOnlyRoute,
+  MaturityLevel,
+  normalizeMaturity,
+} from './family-scope';
+import { isAuthFlowRoute } from './auth-flow-scope';
 
 type SessionPayload = {
+  /** Perfil ativo da sessão: o titular ou um perfil da família. */
   userId: string;
+  /** Conta dona da sessão (`tokens.user_id`). */
+  accountId: string;
+  /** Classificação do perfil ativo; o titular é sempre `adult`. */
+  maturityLevel: MaturityLevel;
   tokenId: string;
   provider: string;
   providerSub?: string;
@@ -27,14 +44,15 @@ export class SessionMiddleware implements NestMiddleware {
 
   constructor(
     @Inject(SUPABASE_CLIENT) private readonly sb: SupabaseClient,
-    private readonly duplicateDetector: DuplicateRequestDetectorService,
-    private readonly duplicateStats: DuplicateRequestStatsService,
+    private readonly sessions: SessionsService,
+    private readonly sessionCache: SessionCacheService,
+    private readonly securityEvents: SecurityEventsService,
   ) {}
 
   async use(req: SessionizedRequest, res: Response, next: NextFunction) {
     try {
       const { token: tokenClear, source } = this.extractTokenFromRequest(req);
-      const isAuthFlowRoute = this.isAuthFlowRoute(req);
+      const authFlowRoute = isAuthFlowRoute(this.requestPath(req));
       if (!tokenClear) {
         this.logger.warn('Token ausente (header/query/cookie).');
         return res.status(401).json({ message: 'Token ausente.' });
@@ -46,69 +64,10 @@ export class SessionMiddleware implements NestMiddleware {
 
       const tokenHash = hashToken(tokenClear);
 
-      const shouldEnforceDuplicateGuard =
-        !this.isSafeMethod(req.method) && !isAuthFlowRoute;
-      let cleanup: () => void = () => {};
+      const handleError = (message: string, statusCode = 401) =>
+        res.status(statusCode).json({ message });
 
-      if (shouldEnforceDuplicateGuard) {
-        const isDuplicate = this.duplicateDetector.checkDuplicateRequest(
-          req,
-          tokenClear,
-        );
-        if (isDuplicate) {
-          this.duplicateStats.recordDuplicateRequest({
-            method: req.method,
-            url: req.url,
-            userAgent: req.headers['user-agent'],
-            ip: req.ip || req.connection?.remoteAddress,
-          });
-
-          this.logger.warn(
-            `Requisição duplicada detectada: ${req.method} ${req.url} - token: ${tokenHash.slice(
-              0,
-              8,
-            )}...`,
-          );
-          return res.status(429).json({
-            message:
-              'Requisição duplicada detectada. Aguarde a conclusão da requisição anterior.',
-            code: 'DUPLICATE_REQUEST',
-          });
-        }
-
-        cleanup = this.duplicateDetector.registerRequest(req, tokenClear);
-
-        const originalSend = res.send.bind(res);
-        const originalJson = res.json.bind(res);
-        const originalEnd = res.end.bind(res);
-
-        res.send = function (body?: any) {
-          cleanup();
-          return originalSend(body);
-        };
-
-        res.json = function (body?: any) {
-          cleanup();
-          return originalJson(body);
-        };
-
-        res.end = function (chunk?: any, encoding?: any) {
-          cleanup();
-          return originalEnd(chunk, encoding);
-        };
-      }
-
-      // Handle errors and cleanup
-      const handleError = (message: string, statusCode = 401) => {
-        cleanup();
-        return res.status(statusCode).json({ message });
-      };
-
-      const { data, error } = await this.sb
-        .from('tokens')
-        .select('id,user_id,provider,provider_sub,expires_at,permission')
-        .eq('token_hash', tokenHash)
-        .maybeSingle();
+      const { data, error } = await this.findTokenRow(tokenHash);
 
       if (error || !data) {
         this.logger.warn(
@@ -117,6 +76,13 @@ export class SessionMiddleware implements NestMiddleware {
         return handleError('Token inválido ou expirado.');
       }
 
+      if (data.expires_at && new Date(data.expires_at) <= new Date()) {
+        return res.status(401).json({
+          message: 'Token expirado.',
+          code: 'TOKEN_EXPIRED',
+        });
+      }
+
       const provider = data.provider ? String(data.provider) : 'unknown';
       const providerSub = data.provider_sub
         ? String(data.provider_sub)
@@ -124,15 +90,46 @@ export class SessionMiddleware implements NestMiddleware {
 
       const permission = Boolean((data as any)?.permission);
 
-      if (!permission && !isAuthFlowRoute) {
+      if (!permission && !authFlowRoute) {
         this.logger.warn(
           `Token ${data.id} sem permissão tentou acessar rota ${req.method} ${req.originalUrl}`,
         );
+        void this.securityEvents.record({
+          type: 'session.rejected',
+          outcome: 'failure',
+          profileId: String(data.user_id),
+          client: extractClientContext(req),
+          metadata: { reason: 'pending-token', route: req.path },
+        });
         return handleError('Permissão insuficiente.', 403);
       }
 
+      if (
+        provider === GUEST_PROVIDER &&
+        !isGuestRoute(req.method, this.requestPath(req))
+      ) {
+        return res.status(403).json({
+          message: 'Crie uma conta para acessar este recurso.',
+          code: 'GUEST_RESTRICTED',
+        });
+      }
+
+      const activeProfileId = data.active_profile_id
+        ? String(data.active_profile_id)
+        : null;
+      if (activeProfileId && isOwnerOnlyRoute(this.requestPath(req))) {
+        return res.status(403).json({
+          message: 'Mude para o perfil do titular para acessar este recurso.',
+          code: 'OWNER_PROFILE_REQUIRED',
+        });
+      }
+
       req.session = {
-        userId: String(data.user_id),
+        userId: activeProfileId ?? String(data.user_id),
+        accountId: String(data.user_id),
+        maturityLevel: activeProfileId
+          ? normalizeMaturity(data.maturity_level)
+          : 'adult',
         tokenId: String(data.id),
         provider,
         providerSub,
@@ -140,6 +137,10 @@ export class SessionMiddleware implements NestMiddleware {
         permission,
       };
 
+      if (permission) {
+        this.sessions.touch(String(data.id), extractClientIp(req));
+      }
+
       this.logger.debug(
         `Usuário ${data.user_id} autenticado com provider ${provider}. tokenId=${data.id}`,
       );
@@ -151,6 +152,70 @@ export class SessionMiddleware implements NestMiddleware {
     }
   }
 
+  /**
+   * Procura o token atual e, se não achar, o token anterior ainda dentro da
+   * janela de tolerância após um refresh. Consulta o cache antes do banco.
+   */
+  private async findTokenRow(
+    tokenHash: string,
+  ): Promise<{ data: CachedTokenRow | null; error: unknown }> {
+    const cached = this.sessionCache.get(tokenHash);
+    if (cached) return { data: cached, error: null };
+
+    const columns =
+      'id,user_id,provider,provider_sub,expires_at,permission,active_profile_id';
+
+    const current = await this.sb
+      .from('tokens')
+      .select(columns)
+      .eq('token_hash', tokenHash)
+      .maybeSingle();
+    if (current.error) return current;
+    if (current.data) {
+      const row = await this.withMaturity(current.data as CachedTokenRow);
+      this.sessionCache.set(tokenHash, row);
+      return { data: row, error: null };
+    }
+
+    const previous = await this.sb
+      .from('tokens')
+      .select(`${columns},previous_token_expires_at`)
+      .eq('previous_token_hash', tokenHash)
+      .gt('previous_token_expires_at', new Date().toISOString())
+      .maybeSingle();
+    if (previous.error || !previous.data) return previous;
+
+    const { previous_token_expires_at, ...previousRow } =
+      previous.data as CachedTokenRow & {
+        previous_token_expires_at: string | null;
+      };
+    const row = await this.withMaturity(previousRow);
+    this.sessionCache.set(tokenHash, row, previous_token_expires_at);
+    return { data: row, error: null };
+  }
+
+  /**
+   * Anexa a classificação do perfil ativo à linha do token. Sem perfil da
+   * família ativo não há consulta; na falha o perfil fica com `kids`, a
+   * classificação mais restrita.
+   */
+  private async withMaturity(row: CachedTokenRow): Promise<CachedTokenRow> {
+    if (!row.active_profile_id) return row;
+    const { data, error } = await this.sb
+      .from('family_profiles')
+      .select('maturity_level')
+      .eq('profile_id', row.active_profile_id)
+      .maybeSingle();
+    if (error) {
+      this.logger.warn(
+        `Falha ao consultar classificação do perfil ${row.active_profile_id}: ${error.message}`,
+      );
+    }
+    const level = (data as { maturity_level: string | null } | null)
+      ?.maturity_level;
+    return { ...row, maturity_level: error ? 'kids' : (level ?? null) };
+  }
+
   private extractTokenFromRequest(
     req: Request,
   ): { token: string | null; source: 'header' | 'query' | 'cookie' | null } {
@@ -225,21 +290,9 @@ export class SessionMiddleware implements NestMiddleware {
     return null;
   }
 
-  private isSafeMethod(method: string | undefined): boolean {
-    if (!method) return false;
-    const upper = method.toUpperCase();
-    return upper === 'GET' || upper === 'HEAD' || upper === 'OPTIONS';
-  }
-
-  private isAuthFlowRoute(req: Request): boolean {
-    const path =
-      (req.baseUrl ? `${req.baseUrl}${req.path}` : req.path) || req.originalUrl;
-    if (!path) return false;
-    const normalized = path.toLowerCase();
+  private requestPath(req: Request): string {
     return (
-      normalized.startsWith('/auth/email') ||
-      normalized.startsWith('/auth/phone') ||
-      normalized.startsWith('/auth/terms')
+      (req.baseUrl ? `${req.baseUrl}${req.path}` : req.path) || req.originalUrl
     );
   }
 }
@@ -5,6 +5,7 @@ declare module 'express-serve-static-core' {
   interface Request {
     session?: {
       userId: string;
+      accountId: string;
       tokenId: string;
       provider: string;
       providerSub?: string;
@@ -0,0 +1,284 @@
+// src/auth/sessions.service.ts
+import {
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SB_ADMIN } from '../supabase/module';
+import { SessionCacheService } from './session-cache.service';
+
+const DEFAULT_MAX_SESSIONS_PER_ACCOUNT = 5;
+const LAST_SEEN_FLUSH_INTERVAL_MS = 60_000;
+
+/**
+ * Linha de `tokens` com os metadados do dispositivo
+ * (device_label, platform, user_agent, ip, last_seen_at).
+ */
+type SessionRow = {
+  id: string | number;
+  device_label: string | null;
+  platform: string | null;
+  user_agent: string | null;
+  ip: string | null;
+  issued_at: string | null;
+  last_seen_at: string | null;
+  expires_at: string | null;
+};
+
+export interface SessionSummary {
+  id: string;
+  deviceLabel: string | null;
+  platform: string | null;
+  userAgent: string | null;
+  ip: string | null;
+  issuedAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string | null;
+  current: boolean;
+}
+
+interface PendingTouch {
+  seenAt: string;
+  ip: string | null;
+}
+
+@Injectable()
+export class SessionsService implements OnModuleDestroy {
+  private readonly logger = new Logger(SessionsService.name);
+  private readonly pendingTouches = new Map<string, PendingTouch>();
+  private readonly flushTimer: NodeJS.Timeout;
+  private readonly maxSessions: number;
+
+  constructor(
+    @Inject(SB_ADMIN) private readonly supabase: SupabaseClient,
+    private readonly sessionCache: SessionCacheService,
+    config: ConfigService,
+  ) {
+    const configured = Number(config.get<string>('MAX_SESSIONS_PER_ACCOUNT'));
+    this.maxSessions =
+      Number.isInteger(configured) && configured > 0
+        ? configured
+        : DEFAULT_MAX_SESSIONS_PER_ACCOUNT;
+
+    // last_seen_at é acumulado em memória e gravado em lote
+    this.flushTimer = setInterval(() => {
+      void this.flushLastSeen();
+    }, LAST_SEEN_FLUSH_INTERVAL_MS);
+    this.flushTimer.unref?.();
+  }
+
+  async listSessions(
+    userId: string,
+    currentTokenId?: string,
+  ): Promise<SessionSummary[]> {
+    const { data, error } = await this.supabase
+      .from('tokens')
+      .select(
+        'id, device_label, platform, user_agent, ip, issued_at, last_seen_at, expires_at',
+      )
+      .eq('user_id', userId)
+      .eq('permission', true)
+      .order('issued_at', { ascending: false });
+
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao listar sessões: ${error.message}`,
+      );
+
+    return ((data ?? []) as SessionRow[]).map((row) => {
+      const id = String(row.id);
+      const pending = this.pendingTouches.get(id);
+      return {
+        id,
+        deviceLabel: row.device_label ?? null,
+        platform: row.platform ?? null,
+        userAgent: row.user_agent ?? null,
+        ip: pending?.ip ?? row.ip ?? null,
+        issuedAt: row.issued_at ?? null,
+        lastSeenAt: pending?.seenAt ?? row.last_seen_at ?? null,
+        expiresAt: row.expires_at ?? null,
+        current: id === currentTokenId,
+      };
+    });
+  }
+
+  async revokeSession(userId: string, sessionId: string) {
+    const { data, error } = await this.supabase
+      .from('tokens')
+      .delete()
+      .eq('user_id', userId)
+      .eq('id', sessionId)
+      .eq('permission', true)
+      .select('id');
+
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao encerrar sessão: ${error.message}`,
+      );
+    if (!data || data.length === 0)
+      throw new NotFoundException('Sessão não encontrada.');
+
+    this.pendingTouches.delete(sessionId);
+    this.sessionCache.invalidateTokenId(sessionId);
+    this.logger.log(`Sessão ${sessionId} encerrada pelo usuário ${userId}.`);
+    return { success: true };
+  }
+
+  async revokeAllSessions(userId: string) {
+    const { data, error } = await this.supabase
+      .from('tokens')
+      .delete()
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao encerrar sessões: ${error.message}`,
+      );
+
+    for (const row of data ?? []) {
+      this.pendingTouches.delete(String(row.id));
+    }
+    this.sessionCache.invalidateUser(userId);
+    const revoked = data?.length ?? 0;
+    this.logger.log(`${revoked} sessões encerradas para o usuário ${userId}.`);
+    return { success: true, revoked };
+  }
+
+  /** Momento do login que abriu a sessão (`tokens.issued_at`). */
+  async getIssuedAt(userId: string, sessionId: string) {
+    const { data, error } = await this.supabase
+      .from('tokens')
+      .select('issued_at')
+      .eq('user_id', userId)
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar sessão: ${error.message}`,
+      );
+    const row = data as Pick<SessionRow, 'issued_at'> | null;
+    return row?.issued_at ?? null;
+  }
+
+  /** Encerra as sessões da conta, menos a atual. */
+  async revokeOtherSessions(userId: string, currentTokenId?: string) {
+    let query = this.supabase.from('tokens').delete().eq('user_id', userId);
+    if (currentTokenId) query = query.neq('id', currentTokenId);
+    const { data, error } = await query.select('id');
+
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao encerrar sessões: ${error.message}`,
+      );
+
+    for (const row of data ?? []) {
+      const id = String(row.id);
+      this.pendingTouches.delete(id);
+      this.sessionCache.invalidateTokenId(id);
+    }
+    const revoked = data?.length ?? 0;
+    this.logger.log(
+      `${revoked} outras sessões encerradas para o usuário ${userId}.`,
+    );
+    return { revoked };
+  }
+
+  /**
+   * Mantém no máximo `MAX_SESSIONS_PER_ACCOUNT` sessões ativas, encerrando
+   * as usadas há mais tempo.
+   */
+  async enforceSessionCap(userId: string) {
+    const { data, error } = await this.supabase
+      .from('tokens')
+      .select('id, issued_at, last_seen_at')
+      .eq('user_id', userId)
+      .eq('permission', true);
+
+    if (error) {
+      this.logger.error(
+        `Falha ao verificar limite de sessões do usuário ${userId}: ${error.message}`,
+      );
+      return;
+    }
+
+    const rows = (data ?? []) as Pick<
+      SessionRow,
+      'id' | 'issued_at' | 'last_seen_at'
+    >[];
+    if (rows.length <= this.maxSessions) return;
+
+    const activity = (row: (typeof rows)[number]) => {
+      const pending = this.pendingTouches.get(String(row.id))?.seenAt;
+      const value = pending ?? row.last_seen_at ?? row.issued_at;
+      const parsed = value ? Date.parse(value) : NaN;
+      return Number.isNaN(parsed) ? 0 : parsed;
+    };
+
+    const idsToDelete = rows
+      .sort((a, b) => activity(b) - activity(a))
+      .slice(this.maxSessions)
+      .map((row) => row.id);
+
+    const { error: deleteError } = await this.supabase
+      .from('tokens')
+      .delete()
+      .in('id', idsToDelete);
+
+    if (deleteError) {
+      this.logger.error(
+        `Falha ao encerrar sessões excedentes do usuário ${userId}: ${deleteError.message}`,
+      );
+      return;
+    }
+
+    for (const id of idsToDelete) {
+      this.pendingTouches.delete(String(id));
+      this.sessionCache.invalidateTokenId(id);
+    }
+    this.logger.log(
+      `${idsToDelete.length} sessões antigas encerradas por limite (usuário ${userId}).`,
+    );
+  }
+
+  /** Registra atividade da sessão sem escrever no banco a cada requisição. */
+  touch(tokenId: string, ip?: string | null) {
+    this.pendingTouches.set(tokenId, {
+      seenAt: new Date().toISOString(),
+      ip: ip ?? null,
+    });
+  }
+
+  async flushLastSeen() {
+    if (this.pendingTouches.size === 0) return;
+
+    const batch = Array.from(this.pendingTouches.entries());
+    this.pendingTouches.clear();
+
+    for (const [tokenId, touch] of batch) {
+      const update: Record<string, string> = { last_seen_at: touch.seenAt };
+      if (touch.ip) update.ip = touch.ip;
+
+      const { error } = await this.supabase
+        .from('tokens')
+        .update(update)
+        .eq('id', tokenId);
+      if (error) {
+        this.logger.warn(
+          `Falha ao atualizar last_seen_at da sessão ${tokenId}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  async onModuleDestroy() {
+    clearInterval(this.flushTimer);
+    await this.flushLastSeen();
+  }
+}
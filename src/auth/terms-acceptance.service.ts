@@ -7,13 +7,14 @@ import {
   ProfileDetails,
   ProfileDetailsService,
 } from './profile-details.service';
-import {
-  generateOpaqueToken,
-  hashToken,
-  utcTimestampPlusMinutes,
-} from '../common/utils/token';
+import { generateOpaqueToken, hashToken } from '../common/utils/token';
+import { TrustedTimeService } from '../trusted-time/trusted-time.service';
+import { KeyValueStore, ttlUntil } from '../kv-store/key-value-store';
+import { TermsService } from '../terms/terms.service';
+import type { ClientContext } from '../common/utils/client-context';
 
 const TERMS_PENDING_TTL_MINUTES = 5;
+const KEY_PREFIX = 'terms-acceptance';
 
 interface PendingTermsRecord {
   tokenHash: string;
@@ -22,12 +23,14 @@ interface PendingTermsRecord {
   providerSub: string;
   expiresAt: string;
   details: ProfileDetails;
-  timer?: ReturnType<typeof setTimeout>;
+  // Versão apresentada ao usuário; null enquanto não há versões cadastradas
+  version: string | null;
 }
 
 export interface PendingTerms {
   token: string;
   expiresAt: string;
+  version: string | null;
 }
 
 export interface TermsAcceptanceResult {
@@ -35,14 +38,21 @@ export interface TermsAcceptanceResult {
   provider: string;
   providerSub: string;
   details: ProfileDetails;
+  version: string | null;
 }
 
 @Injectable()
 export class TermsAcceptanceService {
-  private readonly pending = new Map<string, PendingTermsRecord>();
-  private readonly profileIndex = new Map<string, string>();
-
-  constructor(private readonly profileDetails: ProfileDetailsService) {}
+  constructor(
+    private readonly profileDetails: ProfileDetailsService,
+    private readonly store: KeyValueStore,
+    private readonly terms: TermsService,
+    private readonly clock: TrustedTimeService,
+  ) {}
+
+  async requiresAcceptance(profileId: string, details: ProfileDetails) {
+    return this.terms.requiresAcceptance(profileId, details.acceptedTerms);
+  }
 
   async createPending(
     profileId: string,
@@ -57,7 +67,8 @@ export class TermsAcceptanceService {
     }
 
     const { clear, hash } = generateOpaqueToken(32);
-    const expiresAt = await utcTimestampPlusMinutes(TERMS_PENDING_TTL_MINUTES);
+    const expiresAt = this.clock.plusMinutes(TERMS_PENDING_TTL_MINUTES);
+    const current = await this.terms.getCurrentVersion();
 
     const record: PendingTermsRecord = {
       tokenHash: hash,
@@ -66,41 +77,41 @@ export class TermsAcceptanceService {
       providerSub,
       expiresAt,
       details,
+      version: current?.version ?? null,
     };
 
-    const existingTokenHash = this.profileIndex.get(profileId);
+    const existingTokenHash = await this.store.get<string>(
+      this.profileKey(profileId),
+    );
     if (existingTokenHash) {
-      this.clearRecord(existingTokenHash);
+      await this.clearRecord(existingTokenHash);
     }
 
-    const msUntilExpiry = new Date(expiresAt).getTime() - Date.now();
-    if (msUntilExpiry > 0) {
-      record.timer = setTimeout(() => this.clearRecord(hash), msUntilExpiry);
-      if (typeof (record.timer as any)?.unref === 'function') {
-        (record.timer as any).unref();
-      }
-    }
+    await this.store.set(this.recordKey(hash), record, ttlUntil(expiresAt));
+    await this.store.set(this.profileKey(profileId), hash, ttlUntil(expiresAt));
 
-    this.pending.set(hash, record);
-    this.profileIndex.set(profileId, hash);
-
-    return { token: clear, expiresAt };
+    return { token: clear, expiresAt, version: record.version };
   }
 
-  async acceptTerms(pendingToken: string): Promise<TermsAcceptanceResult> {
+  async acceptTerms(
+    pendingToken: string,
+    client?: ClientContext,
+  ): Promise<TermsAcceptanceResult> {
     const token = String(pendingToken ?? '').trim();
     if (!token) {
       throw new BadRequestException('Token de aceite ausente.');
     }
 
     const tokenHash = hashToken(token);
-    const record = this.pending.get(tokenHash);
+    const record = await this.store.get<PendingTermsRecord>(
+      this.recordKey(tokenHash),
+    );
     if (!record) {
       throw new UnauthorizedException('Token de aceite inválido.');
     }
 
     if (this.isExpired(record.expiresAt)) {
-      this.clearRecord(tokenHash);
+      await this.clearRecord(tokenHash);
       throw new UnauthorizedException('Token de aceite expirado.');
     }
 
@@ -108,13 +119,22 @@ export class TermsAcceptanceService {
       record.profileId,
       record.details,
     );
-    this.clearRecord(tokenHash);
+    if (record.version) {
+      await this.terms.recordAcceptance({
+        profileId: record.profileId,
+        version: record.version,
+        language: updatedDetails.language,
+        client,
+      });
+    }
+    await this.clearRecord(tokenHash);
 
     return {
       profileId: record.profileId,
       provider: record.provider,
       providerSub: record.providerSub,
       details: updatedDetails,
+      version: record.version,
     };
   }
 
@@ -123,17 +143,26 @@ export class TermsAcceptanceService {
     return new Date(expiresAt).getTime() <= Date.now();
   }
 
-  private clearRecord(tokenHash: string) {
-    const record = this.pending.get(tokenHash);
-    if (record?.timer) {
-      clearTimeout(record.timer);
-    }
+  private async clearRecord(tokenHash: string) {
+    const record = await this.store.get<PendingTermsRecord>(
+      this.recordKey(tokenHash),
+    );
     if (record) {
-      const current = this.profileIndex.get(record.profileId);
+      const current = await this.store.get<string>(
+        this.profileKey(record.profileId),
+      );
       if (current === tokenHash) {
-        this.profileIndex.delete(record.profileId);
+        await this.store.delete(this.profileKey(record.profileId));
       }
     }
-    this.pending.delete(tokenHash);
+    await this.store.delete(this.recordKey(tokenHash));
+  }
+
+  private recordKey(tokenHash: string) {
+    return `${KEY_PREFIX}:record:${tokenHash}`;
+  }
+
+  private profileKey(profileId: string) {
+    return `${KEY_PREFIX}:profile:${profileId}`;
   }
 }
@@ -0,0 +1,52 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  totpCode,
+  verifyTotp,
+} from './totp';
+
+// Segredo ASCII "12345678901234567890" dos vetores de teste da RFC 6238
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    const bytes = Buffer.from('audiolivros');
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('matches the RFC 6238 SHA-1 vectors', () => {
+    expect(totpCode(RFC_SECRET, Math.floor(59 / 30), 8)).toBe('94287082');
+    expect(totpCode(RFC_SECRET, Math.floor(1111111109 / 30), 8)).toBe(
+      '07081804',
+    );
+    expect(totpCode(RFC_SECRET, Math.floor(1234567890 / 30), 8)).toBe(
+      '89005924',
+    );
+  });
+
+  it('accepts codes within one step of clock drift', () => {
+    const now = 1_700_000_000_000;
+    const step = Math.floor(now / 30_000);
+    const previous = totpCode(RFC_SECRET, step - 1);
+
+    expect(verifyTotp(RFC_SECRET, previous, { now })).toBe(step - 1);
+    expect(
+      verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), { now }),
+    ).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abc123', { now })).toBeNull();
+  });
+
+  it('builds an otpauth URI for authenticator apps', () => {
+    const uri = buildOtpauthUri({
+      secret: RFC_SECRET,
+      account: 'listener@example.com',
+      issuer: 'Audiolivros',
+    });
+    expect(uri.startsWith('otpauth://totp/Audiolivros%3Alistener%40')).toBe(
+      true,
+    );
+    expect(uri).toContain(`secret=${RFC_SECRET}`);
+  });
+});
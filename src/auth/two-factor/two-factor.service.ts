@@ -0,0 +1,377 @@
+// src/auth/two-factor/two-factor.service.ts
+import { randomBytes } from 'crypto';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseClient } from '@supabase/supabase-js';
+import * as QRCode from 'qrcode';
+import { SB_ADMIN } from '../../supabase/module';
+import { generateOpaqueToken, hashToken } from '../../common/utils/token';
+import { TrustedTimeService } from '../../trusted-time/trusted-time.service';
+import { KeyValueStore, ttlUntil } from '../../kv-store/key-value-store';
+import {
+  base32Encode,
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from './totp';
+
+const ENROLLMENT_TTL_MINUTES = 10;
+const TWO_FACTOR_PENDING_TTL_MINUTES = 5;
+const RECOVERY_CODE_COUNT = 10;
+const DEFAULT_ISSUER = 'Audiolivros';
+const KEY_PREFIX = 'two-factor';
+
+/** Linha de `profile_two_factor` (profile_id, secret, enabled_at, last_used_step). */
+type TwoFactorRow = {
+  profile_id: string;
+  secret: string;
+  enabled_at: string | null;
+  last_used_step: number | null;
+};
+
+interface EnrollmentRecord {
+  secret: string;
+  expiresAt: string;
+}
+
+interface PendingTwoFactorRecord {
+  tokenHash: string;
+  profileId: string;
+  provider: string;
+  providerSub: string;
+  expiresAt: string;
+}
+
+export interface PendingTwoFactor {
+  token: string;
+  expiresAt: string;
+}
+
+export interface TwoFactorResult {
+  profileId: string;
+  provider: string;
+  providerSub: string;
+}
+
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+  private readonly issuer: string;
+
+  constructor(
+    @Inject(SB_ADMIN) private readonly supabase: SupabaseClient,
+    private readonly store: KeyValueStore,
+    private readonly clock: TrustedTimeService,
+    config: ConfigService,
+  ) {
+    this.issuer = config.get<string>('TOTP_ISSUER')?.trim() || DEFAULT_ISSUER;
+  }
+
+  async isEnabled(profileId: string) {
+    const row = await this.loadRow(profileId);
+    return Boolean(row?.enabled_at);
+  }
+
+  /**
+   * Gera um segredo novo e o guarda até a confirmação com o primeiro código.
+   * O QR code é o próprio otpauth URI renderizado como PNG (data URL).
+   */
+  async startEnrollment(profileId: string, account: string) {
+    if (await this.isEnabled(profileId)) {
+      throw new BadRequestException('Autenticação em dois fatores já ativa.');
+    }
+
+    const secret = generateTotpSecret();
+    const expiresAt = this.clock.plusMinutes(ENROLLMENT_TTL_MINUTES);
+    await this.store.set<EnrollmentRecord>(
+      this.enrollmentKey(profileId),
+      { secret, expiresAt },
+      ttlUntil(expiresAt),
+    );
+
+    const otpauthUri = buildOtpauthUri({
+      secret,
+      account,
+      issuer: this.issuer,
+    });
+    const qrCode = await QRCode.toDataURL(otpauthUri);
+
+    return { secret, otpauthUri, qrCode, expiresAt };
+  }
+
+  async confirmEnrollment(profileId: string, code: string) {
+    const enrollment = await this.store.get<EnrollmentRecord>(
+      this.enrollmentKey(profileId),
+    );
+    if (!enrollment) {
+      throw new BadRequestException(
+        'Nenhuma ativação pendente. Inicie o cadastro novamente.',
+      );
+    }
+
+    const step = verifyTotp(enrollment.secret, code);
+    if (step === null) {
+      throw new BadRequestException('Código inválido.');
+    }
+
+    const enabledAt = new Date().toISOString();
+    const { error } = await this.supabase.from('profile_two_factor').upsert(
+      {
+        profile_id: profileId,
+        secret: enrollment.secret,
+        enabled_at: enabledAt,
+        last_used_step: step,
+      },
+      { onConflict: 'profile_id' },
+    );
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao ativar autenticação em dois fatores: ${error.message}`,
+      );
+
+    await this.store.delete(this.enrollmentKey(profileId));
+    const recoveryCodes = await this.replaceRecoveryCodes(profileId);
+
+    this.logger.log(`2FA ativado para o perfil ${profileId}.`);
+    return { enabled: true, enabledAt, recoveryCodes };
+  }
+
+  async disable(profileId: string) {
+    const operations = [
+      this.supabase
+        .from('two_factor_recovery_codes')
+        .delete()
+        .eq('profile_id', profileId),
+      this.supabase
+        .from('profile_two_factor')
+        .delete()
+        .eq('profile_id', profileId),
+    ];
+    for (const op of operations) {
+      const { error } = await op;
+      if (error)
+        throw new InternalServerErrorException(
+          `Falha ao desativar autenticação em dois fatores: ${error.message}`,
+        );
+    }
+
+    await this.store.delete(this.enrollmentKey(profileId));
+    this.logger.log(`2FA desativado para o perfil ${profileId}.`);
+    return { enabled: false };
+  }
+
+  /**
+   * Aceita o código do app autenticador ou um código de recuperação. Códigos
+   * TOTP já usados e códigos de recuperação consumidos são recusados.
+   */
+  async assertCode(profileId: string, codeRaw: string) {
+    const row = await this.loadRow(profileId);
+    if (!row?.enabled_at) {
+      throw new BadRequestException(
+        'Autenticação em dois fatores não está ativa.',
+      );
+    }
+
+    const code = String(codeRaw ?? '').trim();
+    const step = verifyTotp(row.secret, code);
+    if (step !== null) {
+      if (row.last_used_step !== null && step <= row.last_used_step) {
+        throw new BadRequestException('Código já utilizado.');
+      }
+      const { data, error } = await this.supabase
+        .from('profile_two_factor')
+        .update({ last_used_step: step })
+        .eq('profile_id', profileId)
+        .or(`last_used_step.is.null,last_used_step.lt.${step}`)
+        .select('profile_id');
+      if (error)
+        throw new InternalServerErrorException(
+          `Falha ao registrar código: ${error.message}`,
+        );
+      if (!data || data.length === 0) {
+        throw new BadRequestException('Código já utilizado.');
+      }
+      return { method: 'totp' as const };
+    }
+
+    if (await this.consumeRecoveryCode(profileId, code)) {
+      return { method: 'recovery-code' as const };
+    }
+    throw new BadRequestException('Código inválido.');
+  }
+
+  async createPending(
+    profileId: string,
+    provider: string,
+    providerSub: string,
+  ): Promise<PendingTwoFactor> {
+    const { clear, hash } = generateOpaqueToken(32);
+    const expiresAt = this.clock.plusMinutes(TWO_FACTOR_PENDING_TTL_MINUTES);
+
+    const existingTokenHash = await this.store.get<string>(
+      this.profileKey(profileId),
+    );
+    if (existingTokenHash) {
+      await this.clearRecord(existingTokenHash);
+    }
+
+    const record: PendingTwoFactorRecord = {
+      tokenHash: hash,
+      profileId,
+      provider,
+      providerSub,
+      expiresAt,
+    };
+    await this.store.set(this.recordKey(hash), record, ttlUntil(expiresAt));
+    await this.store.set(this.profileKey(profileId), hash, ttlUntil(expiresAt));
+
+    return { token: clear, expiresAt };
+  }
+
+  /** Perfil do login pendente, sem consumir o token; `null` se não existir. */
+  async pendingProfileId(pendingToken: string): Promise<string | null> {
+    const token = String(pendingToken ?? '').trim();
+    if (!token) return null;
+    const record = await this.store.get<PendingTwoFactorRecord>(
+      this.recordKey(hashToken(token)),
+    );
+    return record?.profileId ?? null;
+  }
+
+  /** Segundo passo do login: o token pendente só é consumido com código válido. */
+  async verifyPending(
+    pendingToken: string,
+    code: string,
+  ): Promise<TwoFactorResult> {
+    const token = String(pendingToken ?? '').trim();
+    if (!token) {
+      throw new BadRequestException('Token de verificação ausente.');
+    }
+
+    const tokenHash = hashToken(token);
+    const record = await this.store.get<PendingTwoFactorRecord>(
+      this.recordKey(tokenHash),
+    );
+    if (!record) {
+      throw new UnauthorizedException('Token de verificação inválido.');
+    }
+    if (new Date(record.expiresAt).getTime() <= Date.now()) {
+      await this.clearRecord(tokenHash);
+      throw new UnauthorizedException('Token de verificação expirado.');
+    }
+
+    await this.assertCode(record.profileId, code);
+    await this.clearRecord(tokenHash);
+
+    return {
+      profileId: record.profileId,
+      provider: record.provider,
+      providerSub: record.providerSub,
+    };
+  }
+
+  private async replaceRecoveryCodes(profileId: string) {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    const { error: deleteError } = await this.supabase
+      .from('two_factor_recovery_codes')
+      .delete()
+      .eq('profile_id', profileId);
+    if (deleteError)
+      throw new InternalServerErrorException(
+        `Falha ao gerar códigos de recuperação: ${deleteError.message}`,
+      );
+
+    const { error } = await this.supabase
+      .from('two_factor_recovery_codes')
+      .insert(
+        codes.map((code) => ({
+          profile_id: profileId,
+          code_hash: hashToken(code),
+          used_at: null,
+        })),
+      );
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao gerar códigos de recuperação: ${error.message}`,
+      );
+
+    return codes;
+  }
+
+  private async consumeRecoveryCode(profileId: string, code: string) {
+    const normalized = code.toLowerCase().replace(/\s/g, '');
+    if (!/^[a-z2-7]{5}-?[a-z2-7]{5}$/.test(normalized)) return false;
+    const formatted = normalized.includes('-')
+      ? normalized
+      : `${normalized.slice(0, 5)}-${normalized.slice(5)}`;
+
+    const { data, error } = await this.supabase
+      .from('two_factor_recovery_codes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('profile_id', profileId)
+      .eq('code_hash', hashToken(formatted))
+      .is('used_at', null)
+      .select('id');
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao validar código de recuperação: ${error.message}`,
+      );
+
+    const used = Boolean(data && data.length > 0);
+    if (used) {
+      this.logger.warn(`Código de recuperação usado pelo perfil ${profileId}.`);
+    }
+    return used;
+  }
+
+  private async loadRow(profileId: string): Promise<TwoFactorRow | null> {
+    const { data, error } = await this.supabase
+      .from('profile_two_factor')
+      .select('profile_id, secret, enabled_at, last_used_step')
+      .eq('profile_id', profileId)
+      .maybeSingle();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar autenticação em dois fatores: ${error.message}`,
+      );
+    return (data as TwoFactorRow | null) ?? null;
+  }
+
+  private async clearRecord(tokenHash: string) {
+    const record = await this.store.get<PendingTwoFactorRecord>(
+      this.recordKey(tokenHash),
+    );
+    if (record) {
+      const current = await this.store.get<string>(
+        this.profileKey(record.profileId),
+      );
+      if (current === tokenHash) {
+        await this.store.delete(this.profileKey(record.profileId));
+      }
+    }
+    await this.store.delete(this.recordKey(tokenHash));
+  }
+
+  private enrollmentKey(profileId: string) {
+    return `${KEY_PREFIX}:enroll:${profileId}`;
+  }
+
+  private recordKey(tokenHash: string) {
+    return `${KEY_PREFIX}:record:${tokenHash}`;
+  }
+
+  private profileKey(profileId: string) {
+    return `${KEY_PREFIX}:profile:${profileId}`;
+  }
+}
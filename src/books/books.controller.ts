@@ -12,10 +12,12 @@ import type { Request } from 'express';
 import { BooksService } from './books.service';
 import { GetBooksQueryDto } from './dto/get-books-query.dto';
 import { GetBooksSearchQueryDto } from './dto/get-books-search-query.dto';
+import type { MaturityLevel } from '../auth/family-scope';
 
 interface SessionizedRequest extends Request {
   session?: {
     userId?: string;
+    maturityLevel?: MaturityLevel;
   };
 }
 
@@ -28,7 +30,13 @@ export class BooksController {
   @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
   getRange(@Req() req: SessionizedRequest, @Query() q: GetBooksQueryDto) {
     const profileId = req.session?.userId;
-    return this.service.getRange(q.start, q.end, q.languageId, profileId);
+    return this.service.getRange(
+      q.start,
+      q.end,
+      q.languageId,
+      profileId,
+      req.session?.maturityLevel,
+    );
   }
 
   @Get('search')
@@ -46,6 +54,7 @@ export class BooksController {
       q.end,
       q.languageId,
       profileId,
+      req.session?.maturityLevel,
     );
   }
 }
@@ -6,7 +6,9 @@ import {
   Logger,
 } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { SUPABASE_CLIENT } from '../supabase/module';
+import { SB_USER, SUPABASE_CLIENT } from '../supabase/module';
+import { allowedMaturityLevels } from '../auth/family-scope';
+import type { MaturityLevel } from '../auth/family-scope';
 
 type AuthorObj = { author: string };
 type AuthorEmbed = AuthorObj | AuthorObj[];
@@ -34,6 +36,8 @@ export class BooksService {
 
   constructor(
     @Inject(SUPABASE_CLIENT) private readonly supabase: SupabaseClient,
+    // Progresso do perfil, protegido por RLS
+    @Inject(SB_USER) private readonly userSupabase: SupabaseClient,
   ) {}
 
   private readonly SEARCH_FETCH_BUFFER = 50;
@@ -44,6 +48,7 @@ export class BooksService {
     end: number,
     languageId: string,
     profileId?: string | null,
+    maturity?: MaturityLevel,
   ) {
     const { data, count, error } = await this.supabase
       .from('books')
@@ -58,6 +63,7 @@ export class BooksService {
         { count: 'exact' },
       )
       .eq('book_titles.language', languageId)
+      .in('maturity_level', allowedMaturityLevels(maturity))
       .order('created_at', { ascending: true })
       .range(start, end);
 
@@ -80,6 +86,7 @@ export class BooksService {
     end: number,
     languageId: string,
     profileId?: string | null,
+    maturity?: MaturityLevel,
   ) {
     const query = String(text ?? '').trim();
     if (!query || query.length < this.MIN_SEARCH_LENGTH) {
@@ -92,6 +99,7 @@ export class BooksService {
     }
 
     const pattern = `%${this.escapeForIlike(query)}%`;
+    const maturityLevels = allowedMaturityLevels(maturity);
     const lowerQuery = query.toLowerCase();
     const fetchLimit = Math.max(
       start + pageSize + this.SEARCH_FETCH_BUFFER,
@@ -111,6 +119,7 @@ export class BooksService {
         .from('books')
         .select(selectFields, { count: 'exact' })
         .eq('book_titles.language', languageId)
+        .in('maturity_level', maturityLevels)
         .ilike('book_titles.title', pattern)
         .order('created_at', { ascending: true })
         .range(0, fetchLimit - 1),
@@ -118,6 +127,7 @@ export class BooksService {
         .from('books')
         .select(selectFields, { count: 'exact' })
         .eq('book_titles.language', languageId)
+        .in('maturity_level', maturityLevels)
         .ilike('authors.author', pattern)
         .order('created_at', { ascending: true })
         .range(0, fetchLimit - 1),
@@ -179,6 +189,7 @@ export class BooksService {
     const totalUniqueEstimated = await this.estimateSearchTotal(
       languageId,
       pattern,
+      maturityLevels,
       titleResp.count ?? titleRows.length,
       authorResp.count ?? authorRows.length,
     );
@@ -249,7 +260,7 @@ export class BooksService {
       return progressMap;
     }
 
-    const { data, error } = await this.supabase
+    const { data, error } = await this.userSupabase
       .from('listening_progress')
       .select('book_id, progress_percent')
       .eq('profileId', profileId)
@@ -287,6 +298,7 @@ export class BooksService {
   private async estimateSearchTotal(
     languageId: string,
     pattern: string,
+    maturityLevels: MaturityLevel[],
     titleCount: number,
     authorCount: number,
   ) {
@@ -305,6 +317,7 @@ export class BooksService {
         { count: 'exact', head: true },
       )
       .eq('book_titles.language', languageId)
+      .in('maturity_level', maturityLevels)
       .ilike('book_titles.title', pattern)
       .ilike('authors.author', pattern);
 
@@ -10,10 +10,12 @@ import type { Request } from 'express';
 import { GenreService } from './genre.service';
 import { GetGenreQueryDto } from './dto/get-genre-query.dto';
 import { resolveGenreSlug } from './genre.constants';
+import type { MaturityLevel } from '../../auth/family-scope';
 
 interface SessionizedRequest extends Request {
   session?: {
     userId?: string;
+    maturityLevel?: MaturityLevel;
   };
 }
 
@@ -40,6 +42,7 @@ export class GenreController {
       q.languageId,
       slug,
       profileId,
+      req.session?.maturityLevel,
     );
     //                                ^start  ^end  ^lang        ^slug
   }
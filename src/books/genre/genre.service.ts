@@ -5,7 +5,9 @@ import {
   Logger,
 } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { SUPABASE_CLIENT } from '../../supabase/module';
+import { SB_USER, SUPABASE_CLIENT } from '../../supabase/module';
+import { allowedMaturityLevels } from '../../auth/family-scope';
+import type { MaturityLevel } from '../../auth/family-scope';
 
 type AuthorObj = { author: string };
 type AuthorEmbed = AuthorObj | AuthorObj[];
@@ -34,6 +36,8 @@ export class GenreService {
 
   constructor(
     @Inject(SUPABASE_CLIENT) private readonly supabase: SupabaseClient,
+    // Progresso do perfil, protegido por RLS
+    @Inject(SB_USER) private readonly userSupabase: SupabaseClient,
   ) {}
 
   /**
@@ -45,6 +49,7 @@ export class GenreService {
     languageId: string,
     genreSlug: string,
     profileId?: string | null,
+    maturity?: MaturityLevel,
   ) {
     const pattern = `%${genreSlug}%`; // “equivalente”: contém (case-insensitive)
 
@@ -65,6 +70,7 @@ export class GenreService {
       )
       .eq('book_titles.language', languageId)
       .ilike('book_genres.genres.genre', pattern)
+      .in('maturity_level', allowedMaturityLevels(maturity))
       .order('created_at', { ascending: true })
       .range(start, end);
 
@@ -111,7 +117,7 @@ export class GenreService {
       return progressMap;
     }
 
-    const { data, error } = await this.supabase
+    const { data, error } = await this.userSupabase
       .from('listening_progress')
       .select('book_id, progress_percent')
       .eq('profileId', profileId)
@@ -0,0 +1,15 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * 429 com o tempo de espera em segundos. O `TooManyAttemptsFilter`
+ * transforma `retryAfterSeconds` no header `Retry-After`.
+ */
+export class TooManyAttemptsException extends HttpException {
+  constructor(
+    message: string,
+    readonly retryAfterSeconds: number,
+    code = 'TOO_MANY_ATTEMPTS',
+  ) {
+    super({ message, code, retryAfterSeconds }, HttpStatus.TOO_MANY_REQUESTS);
+  }
+}
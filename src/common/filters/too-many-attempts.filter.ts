@@ -0,0 +1,17 @@
+import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
+import type { Response } from 'express';
+import { TooManyAttemptsException } from '../exceptions/too-many-attempts.exception';
+
+@Catch(TooManyAttemptsException)
+export class TooManyAttemptsFilter implements ExceptionFilter {
+  catch(exception: TooManyAttemptsException, host: ArgumentsHost) {
+    const res = host.switchToHttp().getResponse<Response>();
+    res
+      .status(exception.getStatus())
+      .setHeader(
+        'Retry-After',
+        String(Math.max(exception.retryAfterSeconds, 1)),
+      )
+      .json(exception.getResponse());
+  }
+}
@@ -0,0 +1,63 @@
+import type { Request } from 'express';
+import {
+  extractClientContext,
+  extractClientIp,
+  extractClientLocation,
+} from './client-context';
+import { issueDeviceId } from './device-id';
+
+function request(headers: Record<string, string>, ip = '10.0.0.1') {
+  return { headers, ip, socket: { remoteAddress: ip } } as unknown as Request;
+}
+
+process.env.DEVICE_ID_SECRET = 'test-device-secret';
+
+describe('client context', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('ignores X-Forwarded-For and uses the IP resolved by Express', () => {
+    const req = request({ 'x-forwarded-for': '1.2.3.4' }, '203.0.113.9');
+    expect(extractClientIp(req)).toBe('203.0.113.9');
+  });
+
+  it('reads geo headers only from the configured CDN', () => {
+    const headers = {
+      'cf-ray': 'abc',
+      'cf-ipcountry': 'br',
+      'x-vercel-id': 'x',
+      'x-vercel-ip-country': 'US',
+    };
+    expect(extractClientLocation(request(headers))).toBeNull();
+
+    process.env.TRUST_PROXY_HOPS = '1';
+    process.env.TRUSTED_CDN = 'cloudflare';
+    expect(extractClientLocation(request(headers))).toBe('BR');
+    // Sem o header da CDN a requisição não passou por ela
+    expect(extractClientLocation(request({ 'cf-ipcountry': 'BR' }))).toBeNull();
+  });
+
+  it('accepts only device ids signed by the server', () => {
+    const deviceId = issueDeviceId();
+    const [id] = deviceId.split('.');
+
+    expect(
+      extractClientContext(request({ 'x-device-id': deviceId })).deviceId,
+    ).toBe(deviceId);
+    expect(
+      extractClientContext(request({ 'x-device-id': `${id}.forged` })).deviceId,
+    ).toBeNull();
+    expect(
+      extractClientContext(request({ 'user-agent': 'Chrome' })).deviceId,
+    ).toBeNull();
+  });
+
+  it('refuses to sign device ids without a configured secret', () => {
+    delete process.env.DEVICE_ID_SECRET;
+    delete process.env.APP_JWT_SECRET;
+    expect(() => issueDeviceId()).toThrow('DEVICE_ID_SECRET');
+  });
+});
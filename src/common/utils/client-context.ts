@@ -0,0 +1,125 @@
+import type { Request } from 'express';
+import { verifyDeviceId } from './device-id';
+
+export interface ClientContext {
+  /** Id emitido pelo servidor (`X-Device-Id`), já com assinatura conferida. */
+  deviceId: string | null;
+  deviceLabel: string | null;
+  platform: string | null;
+  userAgent: string | null;
+  ip: string | null;
+  /** Região aproximada (país/estado) informada pelo proxy ou CDN. */
+  location: string | null;
+}
+
+export interface ClientDeviceInput {
+  label?: string | null;
+  platform?: string | null;
+}
+
+const MAX_FIELD_LENGTH = 200;
+
+type Cdn = 'cloudflare' | 'vercel' | 'cloudfront';
+
+/**
+ * Headers de geolocalização de cada CDN. `marker` é o header que a própria
+ * CDN sempre acrescenta; sem ele a requisição não passou por ela.
+ */
+const CDN_GEO_HEADERS: Record<
+  Cdn,
+  { marker: string; country: string; region?: string }
+> = {
+  cloudflare: { marker: 'cf-ray', country: 'cf-ipcountry' },
+  vercel: {
+    marker: 'x-vercel-id',
+    country: 'x-vercel-ip-country',
+    region: 'x-vercel-ip-country-region',
+  },
+  cloudfront: {
+    marker: 'x-amz-cf-id',
+    country: 'cloudfront-viewer-country',
+    region: 'cloudfront-viewer-country-region',
+  },
+};
+
+/**
+ * Quantos proxies confiáveis ficam à frente da API (`TRUST_PROXY_HOPS`).
+ * Vai para o `trust proxy` do Express, que só usa essa quantidade de
+ * entradas do `X-Forwarded-For` para calcular `req.ip`. Padrão 0: nenhum
+ * header de encaminhamento é confiável.
+ */
+export function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUST_PROXY_HOPS);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+/**
+ * Monta o contexto do cliente (dispositivo, user agent e IP) a partir da
+ * requisição. Dados enviados no corpo têm prioridade sobre os headers
+ * `X-Device-Label` / `X-Device-Platform`.
+ */
+export function extractClientContext(
+  req: Request,
+  device?: ClientDeviceInput | null,
+): ClientContext {
+  return {
+    deviceId: verifyDeviceId(pickHeader(req, 'x-device-id')),
+    deviceLabel:
+      clean(device?.label) ?? clean(pickHeader(req, 'x-device-label')),
+    platform:
+      clean(device?.platform) ?? clean(pickHeader(req, 'x-device-platform')),
+    userAgent: clean(pickHeader(req, 'user-agent')),
+    ip: extractClientIp(req),
+    location: extractClientLocation(req),
+  };
+}
+
+/**
+ * IP calculado pelo Express respeitando o `trust proxy` (ver
+ * `trustedProxyHops`). Nunca lê o `X-Forwarded-For` diretamente: qualquer
+ * cliente pode enviá-lo.
+ */
+export function extractClientIp(req: Request): string | null {
+  return req.ip || req.socket?.remoteAddress || null;
+}
+
+/**
+ * Localização grosseira a partir dos headers de geolocalização da CDN
+ * configurada em `TRUSTED_CDN` (cloudflare, vercel ou cloudfront). Sem CDN
+ * configurada, ou se a requisição não veio por ela, os headers são
+ * ignorados. Nunca passa do nível de estado.
+ */
+export function extractClientLocation(req: Request): string | null {
+  const cdn = trustedCdn();
+  if (!cdn || trustedProxyHops() === 0) return null;
+  const headers = CDN_GEO_HEADERS[cdn];
+  if (!pickHeader(req, headers.marker)) return null;
+
+  const normalized = pickHeader(req, headers.country)?.trim().toUpperCase();
+  // XX/T1: país desconhecido ou rede Tor na Cloudflare
+  if (!normalized || normalized === 'XX' || normalized === 'T1') return null;
+
+  const region = headers.region ? pickHeader(req, headers.region) : null;
+  const cleanRegion = clean(region)?.toUpperCase();
+  return cleanRegion
+    ? `${cleanRegion}, ${normalized.slice(0, 2)}`
+    : normalized.slice(0, 2);
+}
+
+function trustedCdn(): Cdn | null {
+  const value = process.env.TRUSTED_CDN?.trim().toLowerCase();
+  return value && value in CDN_GEO_HEADERS ? (value as Cdn) : null;
+}
+
+function pickHeader(req: Request, name: string): string | null {
+  const raw = req.headers?.[name];
+  const value = Array.isArray(raw) ? raw[0] : raw;
+  return typeof value === 'string' ? value : null;
+}
+
+function clean(value?: string | null): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  return trimmed.slice(0, MAX_FIELD_LENGTH);
+}
@@ -0,0 +1,45 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Identificador de dispositivo emitido pelo servidor no login, no formato
+ * `<id>.<assinatura>`. O cliente o devolve no header `X-Device-Id`. Rótulo
+ * e user agent são escolhidos pelo cliente e não servem para identificar um
+ * dispositivo no limitador de tentativas; só um id assinado serve.
+ */
+export function issueDeviceId(): string {
+  const id = randomBytes(16).toString('base64url');
+  return `${id}.${sign(id)}`;
+}
+
+/** Devolve o id quando a assinatura confere; caso contrário, `null`. */
+export function verifyDeviceId(value?: string | null): string | null {
+  const [id, signature, extra] = String(value ?? '')
+    .trim()
+    .split('.');
+  if (!id || !signature || extra !== undefined) return null;
+
+  const expected = Buffer.from(sign(id));
+  const provided = Buffer.from(signature);
+  if (
+    expected.length !== provided.length ||
+    !timingSafeEqual(expected, provided)
+  ) {
+    return null;
+  }
+  return `${id}.${signature}`;
+}
+
+/**
+ * Segredo da assinatura (`DEVICE_ID_SECRET`, ou `APP_JWT_SECRET`). Sem ele
+ * qualquer um forjaria ids de dispositivo; o bootstrap chama esta função
+ * para falhar antes de subir.
+ */
+export function deviceIdSecret(): string {
+  const secret = process.env.DEVICE_ID_SECRET || process.env.APP_JWT_SECRET;
+  if (!secret) throw new Error('DEVICE_ID_SECRET não configurado.');
+  return secret;
+}
+
+function sign(id: string) {
+  return createHmac('sha256', deviceIdSecret()).update(id).digest('base64url');
+}
@@ -0,0 +1,22 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { TooManyAttemptsException } from '../exceptions/too-many-attempts.exception';
+
+/**
+ * Relança o erro no formato das rotas de login: `{ message }` com o status
+ * original, ou 400 quando o erro não traz um. `TooManyAttemptsException`
+ * passa intacta para manter o `Retry-After` e o código.
+ */
+export function rethrowAsHttp(err: unknown, fallbackMessage: string): never {
+  if (err instanceof TooManyAttemptsException) throw err;
+
+  const { status, message } = (err ?? {}) as {
+    status?: unknown;
+    message?: unknown;
+  };
+  throw new HttpException(
+    { message: typeof message === 'string' ? message : fallbackMessage },
+    typeof status === 'number' && Number.isInteger(status) && status > 0
+      ? status
+      : HttpStatus.BAD_REQUEST,
+  );
+}
@@ -8,7 +8,7 @@ import {
   Logger,
 } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { SUPABASE_CLIENT } from '../supabase/module';
+import { SB_USER } from '../supabase/module';
 
 type BookTitleRow = { title: string; language?: string };
 type AuthorRow = { author: string };
@@ -33,9 +33,7 @@ export type FavoriteBookItem = {
 export class FavoritesService {
   private readonly logger = new Logger(FavoritesService.name);
 
-  constructor(
-    @Inject(SUPABASE_CLIENT) private readonly supabase: SupabaseClient,
-  ) {}
+  constructor(@Inject(SB_USER) private readonly supabase: SupabaseClient) {}
 
   async addFavorite(
     profileId: string,
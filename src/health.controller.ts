@@ -1,8 +1,11 @@
 // src/health.controller.ts
 import { Controller, Get, Head } from '@nestjs/common';
+import { TrustedTimeService } from './trusted-time/trusted-time.service';
 
 @Controller()
 export class HealthController {
+  constructor(private readonly clock: TrustedTimeService) {}
+
   @Get('healthz')
   getHealth() {
     return {
@@ -11,6 +14,7 @@ export class HealthController {
       timestamp: new Date().toISOString(),
       uptimeSec: Math.floor(process.uptime()),
       version: process.env.npm_package_version ?? 'unknown',
+      clock: this.clock.getStatus(),
     };
   }
 
@@ -1,6 +1,6 @@
 import { Inject, Injectable, Logger } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { SUPABASE_CLIENT } from '../supabase/module';
+import { SB_ADMIN, SB_USER, SUPABASE_CLIENT } from '../supabase/module';
 import { ListeningProgressService } from '../audio/listening-progress.service';
 
 type LanguageCode = 'pt-BR' | 'en-US';
@@ -70,6 +70,11 @@ export class AudioInsightsService {
 
   constructor(
     @Inject(SUPABASE_CLIENT) private readonly supabase: SupabaseClient,
+    // Histórico do próprio perfil, protegido por RLS
+    @Inject(SB_USER) private readonly userSupabase: SupabaseClient,
+    // Rankings e recomendações agregam concluídos de todos os perfis e só
+    // devolvem livros, nunca quem os concluiu
+    @Inject(SB_ADMIN) private readonly adminSupabase: SupabaseClient,
     private readonly listeningProgress: ListeningProgressService,
   ) {}
 
@@ -79,7 +84,7 @@ export class AudioInsightsService {
     limit = this.HISTORY_LIMIT,
   ): Promise<UserHistoryItem[]> {
     try {
-      const { data, error } = await this.supabase
+      const { data, error } = await this.userSupabase
         .from('finished')
         .select('book_id, created_at')
         .eq('profileId', profileId)
@@ -120,7 +125,7 @@ export class AudioInsightsService {
     languageId: LanguageCode,
   ): Promise<UserHistoryItem | null> {
     try {
-      const { data, error } = await this.supabase
+      const { data, error } = await this.userSupabase
         .from('finished')
         .select('book_id, created_at')
         .eq('profileId', profileId)
@@ -201,7 +206,7 @@ export class AudioInsightsService {
     const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
 
     try {
-      const { data, error } = await this.supabase
+      const { data, error } = await this.adminSupabase
         .from('finished')
         .select('book_id, created_at')
         .gte('created_at', since.toISOString());
@@ -286,7 +291,7 @@ export class AudioInsightsService {
     const limit = options?.limit ?? this.HISTORY_LIMIT;
 
     try {
-      const { data: baseRows, error: baseError } = await this.supabase
+      const { data: baseRows, error: baseError } = await this.adminSupabase
         .from('finished')
         .select('profileId, created_at')
         .eq('book_id', bookId);
@@ -311,11 +316,12 @@ export class AudioInsightsService {
         new Set(watchers.map((row) => row.profileId as string)),
       );
 
-      const { data: relatedRows, error: relatedError } = await this.supabase
-        .from('finished')
-        .select('profileId, book_id, created_at')
-        .in('profileId', profileIds)
-        .neq('book_id', bookId);
+      const { data: relatedRows, error: relatedError } =
+        await this.adminSupabase
+          .from('finished')
+          .select('profileId, book_id, created_at')
+          .in('profileId', profileIds)
+          .neq('book_id', bookId);
 
       if (relatedError) {
         this.logger.error(
@@ -0,0 +1,33 @@
+// src/kv-store/key-value-store.ts
+
+/**
+ * Armazenamento chave/valor compartilhado entre instâncias. Valores são
+ * serializados em JSON; `ttlMs` define a expiração, que fica a cargo do
+ * backend. Também é usado como token de injeção.
+ */
+export abstract class KeyValueStore {
+  abstract get<T>(key: string): Promise<T | null>;
+
+  abstract set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+
+  /** Grava apenas se a chave não existir. Retorna `true` se gravou. */
+  abstract setIfAbsent<T>(
+    key: string,
+    value: T,
+    ttlMs?: number,
+  ): Promise<boolean>;
+
+  abstract delete(key: string): Promise<void>;
+
+  /**
+   * Incrementa um contador. O `ttlMs` só é aplicado quando a chave é criada,
+   * então a janela não é renovada a cada incremento.
+   */
+  abstract increment(key: string, ttlMs?: number): Promise<number>;
+}
+
+/** Milissegundos até `iso`, com mínimo de 1ms para chaves já vencidas. */
+export function ttlUntil(iso: string | null | undefined): number {
+  if (!iso) return 1;
+  return Math.max(new Date(iso).getTime() - Date.now(), 1);
+}
@@ -0,0 +1,81 @@
+// src/kv-store/kv-store.module.ts
+import { Global, Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SB_ADMIN } from '../supabase/module';
+import { KeyValueStore } from './key-value-store';
+import { MemoryKeyValueStore } from './memory-kv.store';
+import { RedisKeyValueStore } from './redis-kv.store';
+import { SupabaseKeyValueStore } from './supabase-kv.store';
+import { PubSub } from './pub-sub';
+import { MemoryPubSub } from './memory-pub-sub';
+import { RedisPubSub } from './redis-pub-sub';
+
+function resolveBackend(cfg: ConfigService) {
+  return (
+    cfg.get<string>('KV_STORE_BACKEND') ??
+    (cfg.get<string>('REDIS_URL') ? 'redis' : 'memory')
+  ).toLowerCase();
+}
+
+/** Escolhe o backend por `KV_STORE_BACKEND` (memory | supabase | redis). */
+function createKeyValueStore(
+  cfg: ConfigService,
+  supabase: SupabaseClient,
+): KeyValueStore {
+  const logger = new Logger('KeyValueStoreModule');
+  const backend = resolveBackend(cfg);
+
+  switch (backend) {
+    case 'redis': {
+      const url = cfg.get<string>('REDIS_URL');
+      if (!url) throw new Error('KV_STORE_BACKEND=redis exige REDIS_URL.');
+      return new RedisKeyValueStore(
+        url,
+        cfg.get<string>('REDIS_KEY_PREFIX') ?? 'audiolivros:',
+      );
+    }
+    case 'supabase':
+      return new SupabaseKeyValueStore(supabase);
+    case 'memory':
+      logger.warn(
+        'Estado dos fluxos em memória: não sobrevive a restart nem a várias instâncias.',
+      );
+      return new MemoryKeyValueStore();
+    default:
+      throw new Error(`KV_STORE_BACKEND desconhecido: ${backend}`);
+  }
+}
+
+/**
+ * Pub/sub acompanha o backend: Redis quando disponível; nos demais casos a
+ * entrega fica restrita à instância atual.
+ */
+function createPubSub(cfg: ConfigService): PubSub {
+  const url = cfg.get<string>('REDIS_URL');
+  if (resolveBackend(cfg) === 'redis' && url) {
+    return new RedisPubSub(
+      url,
+      cfg.get<string>('REDIS_KEY_PREFIX') ?? 'audiolivros:',
+    );
+  }
+  return new MemoryPubSub();
+}
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: KeyValueStore,
+      inject: [ConfigService, SB_ADMIN],
+      useFactory: createKeyValueStore,
+    },
+    {
+      provide: PubSub,
+      inject: [ConfigService],
+      useFactory: createPubSub,
+    },
+  ],
+  exports: [KeyValueStore, PubSub],
+})
+export class KeyValueStoreModule {}
@@ -0,0 +1,87 @@
+// src/kv-store/memory-kv.store.ts
+import { OnModuleDestroy } from '@nestjs/common';
+import { KeyValueStore } from './key-value-store';
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number | null;
+}
+
+/** Backend em memória: serve para desenvolvimento e instância única. */
+export class MemoryKeyValueStore
+  extends KeyValueStore
+  implements OnModuleDestroy
+{
+  private readonly entries = new Map<string, MemoryEntry>();
+  private readonly sweepTimer: NodeJS.Timeout;
+
+  constructor() {
+    super();
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref?.();
+  }
+
+  get<T>(key: string): Promise<T | null> {
+    const entry = this.read(key);
+    return Promise.resolve(entry ? (JSON.parse(entry.value) as T) : null);
+  }
+
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    this.write(key, value, ttlMs);
+    return Promise.resolve();
+  }
+
+  setIfAbsent<T>(key: string, value: T, ttlMs?: number): Promise<boolean> {
+    if (this.read(key)) return Promise.resolve(false);
+    this.write(key, value, ttlMs);
+    return Promise.resolve(true);
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  increment(key: string, ttlMs?: number): Promise<number> {
+    const entry = this.read(key);
+    if (!entry) {
+      this.write(key, 1, ttlMs);
+      return Promise.resolve(1);
+    }
+    const next = Number(JSON.parse(entry.value)) + 1;
+    entry.value = JSON.stringify(next);
+    return Promise.resolve(next);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  private read(key: string): MemoryEntry | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  private write<T>(key: string, value: T, ttlMs?: number) {
+    this.entries.set(key, {
+      value: JSON.stringify(value),
+      expiresAt: ttlMs && ttlMs > 0 ? Date.now() + ttlMs : null,
+    });
+  }
+
+  private sweep() {
+    const now = Date.now();
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.expiresAt !== null && entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,25 @@
+// src/kv-store/memory-pub-sub.ts
+import { EventEmitter } from 'events';
+import { PubSub, PubSubHandler } from './pub-sub';
+
+/** Entrega apenas dentro do próprio processo (uma única instância). */
+export class MemoryPubSub extends PubSub {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    super();
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(channel: string, message: unknown): Promise<void> {
+    this.emitter.emit(channel, JSON.parse(JSON.stringify(message)));
+    return Promise.resolve();
+  }
+
+  subscribe(channel: string, handler: PubSubHandler) {
+    this.emitter.on(channel, handler);
+    return () => {
+      this.emitter.off(channel, handler);
+    };
+  }
+}
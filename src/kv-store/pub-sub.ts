@@ -0,0 +1,14 @@
+// src/kv-store/pub-sub.ts
+
+export type PubSubHandler = (message: unknown) => void;
+
+/**
+ * Canal de mensagens entre instâncias (ex.: invalidação de caches locais).
+ * Mensagens são serializadas em JSON. Também é usado como token de injeção.
+ */
+export abstract class PubSub {
+  abstract publish(channel: string, message: unknown): Promise<void>;
+
+  /** Retorna a função que cancela a inscrição. */
+  abstract subscribe(channel: string, handler: PubSubHandler): () => void;
+}
@@ -0,0 +1,70 @@
+// src/kv-store/redis-kv.store.ts
+import { OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import { KeyValueStore } from './key-value-store';
+
+/** Backend para qualquer servidor que fale o protocolo Redis. */
+export class RedisKeyValueStore
+  extends KeyValueStore
+  implements OnModuleDestroy
+{
+  private readonly client: Redis;
+
+  constructor(
+    url: string,
+    private readonly prefix = '',
+  ) {
+    super();
+    this.client = new Redis(url, { lazyConnect: false });
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const raw = await this.client.get(this.prefix + key);
+    return raw === null ? null : (JSON.parse(raw) as T);
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    const payload = JSON.stringify(value);
+    if (ttlMs && ttlMs > 0) {
+      await this.client.set(this.prefix + key, payload, 'PX', Math.ceil(ttlMs));
+    } else {
+      await this.client.set(this.prefix + key, payload);
+    }
+  }
+
+  async setIfAbsent<T>(
+    key: string,
+    value: T,
+    ttlMs?: number,
+  ): Promise<boolean> {
+    const payload = JSON.stringify(value);
+    const result =
+      ttlMs && ttlMs > 0
+        ? await this.client.set(
+            this.prefix + key,
+            payload,
+            'PX',
+            Math.ceil(ttlMs),
+            'NX',
+          )
+        : await this.client.set(this.prefix + key, payload, 'NX');
+    return result === 'OK';
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+
+  async increment(key: string, ttlMs?: number): Promise<number> {
+    const fullKey = this.prefix + key;
+    const value = await this.client.incr(fullKey);
+    if (value === 1 && ttlMs && ttlMs > 0) {
+      await this.client.pexpire(fullKey, Math.ceil(ttlMs));
+    }
+    return value;
+  }
+
+  async onModuleDestroy() {
+    await this.client.quit();
+  }
+}
@@ -0,0 +1,67 @@
+// src/kv-store/redis-pub-sub.ts
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import { PubSub, PubSubHandler } from './pub-sub';
+
+/** Pub/sub do Redis; a conexão inscrita não pode enviar comandos, daí duas. */
+export class RedisPubSub extends PubSub implements OnModuleDestroy {
+  private readonly logger = new Logger(RedisPubSub.name);
+  private readonly publisher: Redis;
+  private readonly subscriber: Redis;
+  private readonly handlers = new Map<string, Set<PubSubHandler>>();
+
+  constructor(
+    url: string,
+    private readonly prefix = '',
+  ) {
+    super();
+    this.publisher = new Redis(url, { lazyConnect: false });
+    this.subscriber = new Redis(url, { lazyConnect: false });
+    this.subscriber.on('message', (channel: string, raw: string) => {
+      const handlers = this.handlers.get(channel);
+      if (!handlers) return;
+      let message: unknown;
+      try {
+        message = JSON.parse(raw);
+      } catch {
+        this.logger.warn(`Mensagem inválida no canal ${channel}.`);
+        return;
+      }
+      for (const handler of handlers) handler(message);
+    });
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    await this.publisher.publish(
+      this.prefix + channel,
+      JSON.stringify(message),
+    );
+  }
+
+  subscribe(channel: string, handler: PubSubHandler) {
+    const fullChannel = this.prefix + channel;
+    let handlers = this.handlers.get(fullChannel);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(fullChannel, handlers);
+      void this.subscriber.subscribe(fullChannel).catch((err: Error) => {
+        this.logger.error(
+          `Falha ao assinar o canal ${fullChannel}: ${err.message}`,
+        );
+      });
+    }
+    handlers.add(handler);
+
+    return () => {
+      handlers.delete(handler);
+      if (handlers.size === 0) {
+        this.handlers.delete(fullChannel);
+        void this.subscriber.unsubscribe(fullChannel).catch(() => undefined);
+      }
+    };
+  }
+
+  async onModuleDestroy() {
+    await Promise.all([this.publisher.quit(), this.subscriber.quit()]);
+  }
+}
@@ -0,0 +1,123 @@
+// src/kv-store/supabase-kv.store.ts
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { KeyValueStore } from './key-value-store';
+
+const SWEEP_INTERVAL_MS = 60_000;
+const UNIQUE_VIOLATION = '23505';
+
+type KvRow = { value: unknown; expires_at: string | null };
+
+/**
+ * Backend na tabela `kv_store` (key text primary key, value jsonb,
+ * expires_at timestamptz null). O incremento atômico usa a função
+ * `kv_increment(p_key text, p_ttl_ms bigint) returns bigint`.
+ */
+export class SupabaseKeyValueStore
+  extends KeyValueStore
+  implements OnModuleDestroy
+{
+  private readonly logger = new Logger(SupabaseKeyValueStore.name);
+  private readonly sweepTimer: NodeJS.Timeout;
+
+  constructor(private readonly supabase: SupabaseClient) {
+    super();
+    this.sweepTimer = setInterval(() => {
+      void this.sweep();
+    }, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref?.();
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const { data, error } = await this.supabase
+      .from('kv_store')
+      .select('value, expires_at')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) throw new Error(`Falha ao ler ${key}: ${error.message}`);
+    const row = data as KvRow | null;
+    if (!row) return null;
+    if (row.expires_at && new Date(row.expires_at) <= new Date()) {
+      return null;
+    }
+    return row.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('kv_store')
+      .upsert(
+        { key, value, expires_at: this.expiresAt(ttlMs) },
+        { onConflict: 'key' },
+      );
+    if (error) throw new Error(`Falha ao gravar ${key}: ${error.message}`);
+  }
+
+  async setIfAbsent<T>(
+    key: string,
+    value: T,
+    ttlMs?: number,
+  ): Promise<boolean> {
+    await this.deleteIfExpired(key);
+
+    const { error } = await this.supabase
+      .from('kv_store')
+      .insert({ key, value, expires_at: this.expiresAt(ttlMs) });
+
+    if (!error) return true;
+    if (error.code === UNIQUE_VIOLATION) return false;
+    throw new Error(`Falha ao gravar ${key}: ${error.message}`);
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('kv_store')
+      .delete()
+      .eq('key', key);
+    if (error) throw new Error(`Falha ao remover ${key}: ${error.message}`);
+  }
+
+  async increment(key: string, ttlMs?: number): Promise<number> {
+    const result = await this.supabase.rpc('kv_increment', {
+      p_key: key,
+      p_ttl_ms: ttlMs && ttlMs > 0 ? Math.ceil(ttlMs) : null,
+    });
+    if (result.error)
+      throw new Error(`Falha ao incrementar ${key}: ${result.error.message}`);
+    return Number(result.data as number);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  private expiresAt(ttlMs?: number) {
+    return ttlMs && ttlMs > 0
+      ? new Date(Date.now() + ttlMs).toISOString()
+      : null;
+  }
+
+  private async deleteIfExpired(key: string) {
+    const { error } = await this.supabase
+      .from('kv_store')
+      .delete()
+      .eq('key', key)
+      .lte('expires_at', new Date().toISOString());
+    if (error) {
+      this.logger.warn(
+        `Falha ao limpar chave vencida ${key}: ${error.message}`,
+      );
+    }
+  }
+
+  private async sweep() {
+    const { error } = await this.supabase
+      .from('kv_store')
+      .delete()
+      .lte('expires_at', new Date().toISOString());
+    if (error) {
+      this.logger.warn(`Falha na limpeza do kv_store: ${error.message}`);
+    }
+  }
+}
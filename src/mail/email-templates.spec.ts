@@ -0,0 +1,42 @@
+import { normalizeEmailLanguage, renderEmailTemplate } from './email-templates';
+
+describe('email templates', () => {
+  it('normalizes profile languages', () => {
+    expect(normalizeEmailLanguage('pt')).toBe('pt-BR');
+    expect(normalizeEmailLanguage('EN-gb')).toBe('en-US');
+    expect(normalizeEmailLanguage('fr-FR')).toBeNull();
+    expect(normalizeEmailLanguage(null)).toBeNull();
+  });
+
+  it('renders the template in the requested language', () => {
+    const vars = { code: '123456', expiresInMinutes: 10 };
+    const pt = renderEmailTemplate('verification-code', 'pt-BR', vars);
+    const en = renderEmailTemplate('verification-code', 'en-US', vars);
+
+    expect(pt.subject).not.toBe(en.subject);
+    expect(pt.text).toContain('123456');
+    expect(en.text).toContain('123456');
+  });
+
+  it('puts the cancel link in the email change notice', () => {
+    const { text } = renderEmailTemplate('email-change-requested', 'pt-BR', {
+      cancelLink: 'https://app.example/email/cancel?token=abc',
+      holdUntil: '2026-01-01T00:15:00.000Z',
+    });
+
+    expect(text).toContain('https://app.example/email/cancel?token=abc');
+    expect(text).toContain('2026-01-01T00:15:00.000Z');
+  });
+
+  it('escapes HTML in variables', () => {
+    const { html, text } = renderEmailTemplate('security-alert', 'en-US', {
+      event: 'password-changed',
+      occurredAt: '2026-01-01T00:00:00.000Z',
+      device: '<script>x</script>',
+    });
+
+    expect(text).toContain('<script>x</script>');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;');
+  });
+});
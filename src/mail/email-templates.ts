@@ -0,0 +1,274 @@
+// src/mail/email-templates.ts
+export type EmailLanguage = 'pt-BR' | 'en-US';
+
+export const DEFAULT_EMAIL_LANGUAGE: EmailLanguage = 'en-US';
+
+export type SecurityAlertEvent =
+  | 'password-changed'
+  | 'suspicious-attempts'
+  | 'login-method-linked'
+  | 'login-method-removed'
+  | 'two-factor-enabled'
+  | 'two-factor-disabled'
+  | 'email-changed';
+
+const SECURITY_EVENTS: Record<
+  EmailLanguage,
+  Record<SecurityAlertEvent, string>
+> = {
+  'pt-BR': {
+    'password-changed': 'a senha da sua conta foi redefinida',
+    'suspicious-attempts':
+      'várias tentativas de acesso sem sucesso; o acesso foi bloqueado temporariamente',
+    'login-method-linked': 'um novo método de login foi vinculado à sua conta',
+    'login-method-removed': 'um método de login foi removido da sua conta',
+    'two-factor-enabled': 'a autenticação em dois fatores foi ativada',
+    'two-factor-disabled': 'a autenticação em dois fatores foi desativada',
+    'email-changed': 'o email da sua conta foi alterado para outro endereço',
+  },
+  'en-US': {
+    'password-changed': 'your account password was reset',
+    'suspicious-attempts':
+      'several failed sign-in attempts; access was temporarily locked',
+    'login-method-linked': 'a new sign-in method was linked to your account',
+    'login-method-removed': 'a sign-in method was removed from your account',
+    'two-factor-enabled': 'two-factor authentication was turned on',
+    'two-factor-disabled': 'two-factor authentication was turned off',
+    'email-changed': 'your account email was changed to another address',
+  },
+};
+
+export interface EmailTemplateVariables {
+  'verification-code': { code: string; expiresInMinutes: number };
+  'password-reset': { code: string; expiresInMinutes: number };
+  'account-deletion': { code: string; expiresInMinutes: number };
+  'account-deletion-scheduled': { purgeAfter: string };
+  'account-deleted': { receiptId: string; purgedAt: string };
+  'data-export-ready': { link: string; expiresAt: string };
+  'magic-link': {
+    link: string;
+    expiresInMinutes: number;
+    device?: string | null;
+  };
+  'email-change-requested': {
+    cancelLink: string;
+    holdUntil: string;
+    device?: string | null;
+    ip?: string | null;
+  };
+  'security-alert': {
+    event: SecurityAlertEvent;
+    occurredAt: string;
+    device?: string | null;
+    ip?: string | null;
+  };
+}
+
+export type EmailTemplateId = keyof EmailTemplateVariables;
+
+interface RenderedTemplate {
+  subject: string;
+  lines: string[];
+}
+
+type TemplateSet = {
+  [K in EmailTemplateId]: (vars: EmailTemplateVariables[K]) => RenderedTemplate;
+};
+
+const TEMPLATES: Record<EmailLanguage, TemplateSet> = {
+  'pt-BR': {
+    'verification-code': ({ code, expiresInMinutes }) => ({
+      subject: 'Seu código de verificação',
+      lines: [
+        `Use o código ${code} para confirmar seu email.`,
+        `O código expira em ${expiresInMinutes} minutos.`,
+        'Se você não pediu este código, ignore esta mensagem.',
+      ],
+    }),
+    'password-reset': ({ code, expiresInMinutes }) => ({
+      subject: 'Redefinição de senha',
+      lines: [
+        `Use o código ${code} para redefinir sua senha.`,
+        `O código expira em ${expiresInMinutes} minutos.`,
+        'Se você não pediu a redefinição, sua senha continua a mesma.',
+      ],
+    }),
+    'account-deletion': ({ code, expiresInMinutes }) => ({
+      subject: 'Confirme a exclusão da sua conta',
+      lines: [
+        `Use o código ${code} para confirmar a exclusão da sua conta.`,
+        `O código expira em ${expiresInMinutes} minutos.`,
+        'Se você não pediu a exclusão, altere sua senha imediatamente.',
+      ],
+    }),
+    'account-deletion-scheduled': ({ purgeAfter }) => ({
+      subject: 'Sua conta será excluída',
+      lines: [
+        `Sua conta e seus dados serão excluídos definitivamente em ${purgeAfter}.`,
+        'Até lá, basta entrar novamente e escolher restaurar a conta.',
+        'Se você não pediu a exclusão, entre e restaure a conta imediatamente.',
+      ],
+    }),
+    'account-deleted': ({ receiptId, purgedAt }) => ({
+      subject: 'Comprovante de exclusão da conta',
+      lines: [
+        `Sua conta e os dados associados a ela foram excluídos em ${purgedAt}.`,
+        `Número do comprovante: ${receiptId}`,
+        'Guarde este número caso precise comprovar a exclusão (LGPD).',
+      ],
+    }),
+    'data-export-ready': ({ link, expiresAt }) => ({
+      subject: 'Seus dados estão prontos para download',
+      lines: [
+        `A cópia dos seus dados que você pediu está pronta: ${link}`,
+        `O link é pessoal e expira em ${expiresAt}.`,
+        'Se você não pediu esta exportação, altere sua senha e revise suas sessões.',
+      ],
+    }),
+    'magic-link': ({ link, expiresInMinutes, device }) => ({
+      subject: 'Seu link de acesso',
+      lines: [
+        `Abra este link para aprovar o acesso à sua conta: ${link}`,
+        ...(device ? [`Pedido feito em: ${device}`] : []),
+        `O link expira em ${expiresInMinutes} minutos e só pode ser usado uma vez.`,
+        'Se você não pediu este acesso, ignore esta mensagem.',
+      ],
+    }),
+    'email-change-requested': ({ cancelLink, holdUntil, device, ip }) => ({
+      subject: 'Pedido de troca do email da conta',
+      lines: [
+        'Foi pedida a troca do email da sua conta para outro endereço.',
+        ...(device ? [`Dispositivo: ${device}`] : []),
+        ...(ip ? [`IP: ${ip}`] : []),
+        `A troca fica em espera até ${holdUntil} e só é concluída depois disso.`,
+        `Se não foi você, cancele a troca por este link: ${cancelLink}`,
+      ],
+    }),
+    'security-alert': ({ event, occurredAt, device, ip }) => ({
+      subject: 'Alerta de segurança na sua conta',
+      lines: [
+        `Detectamos a seguinte atividade: ${SECURITY_EVENTS['pt-BR'][event]}.`,
+        `Data: ${occurredAt}`,
+        ...(device ? [`Dispositivo: ${device}`] : []),
+        ...(ip ? [`IP: ${ip}`] : []),
+        'Se não foi você, altere sua senha e encerre as outras sessões.',
+      ],
+    }),
+  },
+  'en-US': {
+    'verification-code': ({ code, expiresInMinutes }) => ({
+      subject: 'Your verification code',
+      lines: [
+        `Use the code ${code} to confirm your email.`,
+        `The code expires in ${expiresInMinutes} minutes.`,
+        "If you didn't request this code, you can ignore this message.",
+      ],
+    }),
+    'password-reset': ({ code, expiresInMinutes }) => ({
+      subject: 'Password reset',
+      lines: [
+        `Use the code ${code} to reset your password.`,
+        `The code expires in ${expiresInMinutes} minutes.`,
+        "If you didn't request a reset, your password stays the same.",
+      ],
+    }),
+    'account-deletion': ({ code, expiresInMinutes }) => ({
+      subject: 'Confirm your account deletion',
+      lines: [
+        `Use the code ${code} to confirm your account deletion.`,
+        `The code expires in ${expiresInMinutes} minutes.`,
+        "If you didn't request this, change your password right away.",
+      ],
+    }),
+    'account-deletion-scheduled': ({ purgeAfter }) => ({
+      subject: 'Your account is scheduled for deletion',
+      lines: [
+        `Your account and data will be permanently deleted on ${purgeAfter}.`,
+        'Until then, just sign in again and choose to restore your account.',
+        "If you didn't request this, sign in and restore your account right away.",
+      ],
+    }),
+    'account-deleted': ({ receiptId, purgedAt }) => ({
+      subject: 'Account deletion receipt',
+      lines: [
+        `Your account and its data were deleted on ${purgedAt}.`,
+        `Receipt number: ${receiptId}`,
+        'Keep this number in case you need proof of deletion (GDPR).',
+      ],
+    }),
+    'data-export-ready': ({ link, expiresAt }) => ({
+      subject: 'Your data is ready to download',
+      lines: [
+        `The copy of your data you requested is ready: ${link}`,
+        `The link is personal and expires on ${expiresAt}.`,
+        "If you didn't request this export, change your password and review your sessions.",
+      ],
+    }),
+    'magic-link': ({ link, expiresInMinutes, device }) => ({
+      subject: 'Your sign-in link',
+      lines: [
+        `Open this link to approve signing in to your account: ${link}`,
+        ...(device ? [`Requested from: ${device}`] : []),
+        `The link expires in ${expiresInMinutes} minutes and works only once.`,
+        "If you didn't request this, you can ignore this message.",
+      ],
+    }),
+    'email-change-requested': ({ cancelLink, holdUntil, device, ip }) => ({
+      subject: 'Account email change requested',
+      lines: [
+        'A change of your account email to another address was requested.',
+        ...(device ? [`Device: ${device}`] : []),
+        ...(ip ? [`IP: ${ip}`] : []),
+        `The change is on hold until ${holdUntil} and only completes after that.`,
+        `If this wasn't you, cancel the change with this link: ${cancelLink}`,
+      ],
+    }),
+    'security-alert': ({ event, occurredAt, device, ip }) => ({
+      subject: 'Security alert on your account',
+      lines: [
+        `We noticed the following activity: ${SECURITY_EVENTS['en-US'][event]}.`,
+        `Date: ${occurredAt}`,
+        ...(device ? [`Device: ${device}`] : []),
+        ...(ip ? [`IP: ${ip}`] : []),
+        "If this wasn't you, change your password and sign out other sessions.",
+      ],
+    }),
+  },
+};
+
+export function normalizeEmailLanguage(
+  language?: string | null,
+): EmailLanguage | null {
+  const lowered = String(language ?? '')
+    .trim()
+    .toLowerCase();
+  if (lowered.startsWith('pt')) return 'pt-BR';
+  if (lowered.startsWith('en')) return 'en-US';
+  return null;
+}
+
+export function renderEmailTemplate<K extends EmailTemplateId>(
+  template: K,
+  language: EmailLanguage,
+  vars: EmailTemplateVariables[K],
+) {
+  const render = TEMPLATES[language][template] as (
+    vars: EmailTemplateVariables[K],
+  ) => RenderedTemplate;
+  const { subject, lines } = render(vars);
+
+  return {
+    subject,
+    text: lines.join('\n'),
+    html: lines.map((line) => `<p>${escapeHtml(line)}</p>`).join('\n'),
+  };
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
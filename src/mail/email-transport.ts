@@ -0,0 +1,19 @@
+// src/mail/email-transport.ts
+export const EMAIL_TRANSPORT = 'EMAIL_TRANSPORT';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransportResult {
+  messageId: string | null;
+}
+
+/** Adaptador de envio. Falhas devem ser lançadas como exceção. */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailTransportResult>;
+}
@@ -0,0 +1,38 @@
+import { ConfigService } from '@nestjs/config';
+import { createEmailTransport } from './mail.module';
+
+function config(values: Record<string, string>) {
+  return { get: (key: string) => values[key] } as unknown as ConfigService;
+}
+
+describe('createEmailTransport', () => {
+  it('fails at boot outside development/test without EMAIL_TRANSPORT', () => {
+    expect(() => createEmailTransport(config({}))).toThrow(/EMAIL_TRANSPORT/);
+    expect(() =>
+      createEmailTransport(config({ NODE_ENV: 'production' })),
+    ).toThrow(/EMAIL_TRANSPORT/);
+  });
+
+  it('defaults to the outbox only in development and test', () => {
+    expect(createEmailTransport(config({ NODE_ENV: 'test' })).name).toBe(
+      'outbox',
+    );
+  });
+
+  it('picks the transport named in EMAIL_TRANSPORT', () => {
+    const values = { NODE_ENV: 'production', SMTP_HOST: 'smtp.example.com' };
+    expect(
+      createEmailTransport(config({ ...values, EMAIL_TRANSPORT: 'smtp' })).name,
+    ).toBe('smtp');
+    expect(
+      createEmailTransport(config({ ...values, EMAIL_TRANSPORT: 'outbox' }))
+        .name,
+    ).toBe('outbox');
+    expect(() =>
+      createEmailTransport(config({ EMAIL_TRANSPORT: 'smtp' })),
+    ).toThrow(/SMTP_HOST/);
+    expect(() =>
+      createEmailTransport(config({ EMAIL_TRANSPORT: 'carrier-pigeon' })),
+    ).toThrow(/inválido/);
+  });
+});
@@ -0,0 +1,64 @@
+// src/mail/mail.module.ts
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EMAIL_TRANSPORT, EmailTransport } from './email-transport';
+import { MailService } from './mail.service';
+import { OutboxEmailTransport } from './outbox.transport';
+import { SmtpEmailTransport } from './smtp.transport';
+
+// Só nesses ambientes o transporte pode ser escolhido implicitamente
+const LOCAL_ENVIRONMENTS = ['development', 'test'];
+
+/**
+ * `EMAIL_TRANSPORT` (smtp ou outbox) é obrigatório fora de development e
+ * test: sem ele a aplicação não sobe, em vez de descartar emails em silêncio.
+ */
+export function createEmailTransport(cfg: ConfigService): EmailTransport {
+  const logger = new Logger('MailModule');
+  const host = cfg.get<string>('SMTP_HOST')?.trim();
+  const configured = cfg.get<string>('EMAIL_TRANSPORT')?.trim().toLowerCase();
+  const environment = String(cfg.get<string>('NODE_ENV') ?? '').trim();
+  if (!configured && !LOCAL_ENVIRONMENTS.includes(environment)) {
+    throw new Error(
+      'EMAIL_TRANSPORT não configurado: use smtp (ou outbox de forma explícita).',
+    );
+  }
+  const kind = configured || (host ? 'smtp' : 'outbox');
+
+  if (kind === 'smtp') {
+    if (!host) throw new Error('EMAIL_TRANSPORT=smtp exige SMTP_HOST.');
+    const port = Number(cfg.get<string>('SMTP_PORT') ?? 587);
+    const secure = cfg.get<string>('SMTP_SECURE');
+    return new SmtpEmailTransport({
+      host,
+      port,
+      secure: secure ? secure === 'true' : port === 465,
+      user: cfg.get<string>('SMTP_USER'),
+      pass: cfg.get<string>('SMTP_PASS'),
+      from: cfg.get<string>('EMAIL_FROM') ?? 'no-reply@audiolivros.app',
+    });
+  }
+
+  if (kind !== 'outbox') {
+    throw new Error(`EMAIL_TRANSPORT inválido: ${kind}.`);
+  }
+
+  const dir = cfg.get<string>('EMAIL_OUTBOX_DIR')?.trim() || null;
+  logger.warn(
+    `Emails não serão entregues: usando outbox${dir ? ` em ${dir}` : ' em memória'}.`,
+  );
+  return new OutboxEmailTransport(dir);
+}
+
+@Module({
+  providers: [
+    {
+      provide: EMAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: createEmailTransport,
+    },
+    MailService,
+  ],
+  exports: [MailService, EMAIL_TRANSPORT],
+})
+export class MailModule {}
@@ -0,0 +1,113 @@
+// src/mail/mail.service.ts
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SB_ADMIN } from '../supabase/module';
+import { EMAIL_TRANSPORT } from './email-transport';
+import type { EmailTransport } from './email-transport';
+import {
+  DEFAULT_EMAIL_LANGUAGE,
+  EmailLanguage,
+  EmailTemplateId,
+  EmailTemplateVariables,
+  normalizeEmailLanguage,
+  renderEmailTemplate,
+} from './email-templates';
+
+export type EmailDeliveryStatus = 'sent' | 'failed';
+
+/** Resultado do envio, devolvido na resposta da API. */
+export interface EmailDelivery {
+  status: EmailDeliveryStatus;
+  transport: string;
+  messageId?: string | null;
+  error?: string;
+}
+
+export interface EmailRecipient {
+  email: string;
+  /** Perfil do destinatário, usado para descobrir o idioma. */
+  profileId?: string | null;
+  /** Idioma sugerido pelo cliente quando ainda não há perfil. */
+  languageHint?: string | null;
+}
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(EMAIL_TRANSPORT) private readonly transport: EmailTransport,
+    @Inject(SB_ADMIN) private readonly supabase: SupabaseClient,
+  ) {}
+
+  async sendTemplate<K extends EmailTemplateId>(
+    recipient: EmailRecipient,
+    template: K,
+    vars: EmailTemplateVariables[K],
+  ): Promise<EmailDelivery> {
+    const language = await this.resolveLanguage(recipient);
+    const rendered = renderEmailTemplate(template, language, vars);
+
+    try {
+      const { messageId } = await this.transport.send({
+        to: recipient.email,
+        ...rendered,
+      });
+      this.logger.log(
+        `Email ${template} (${language}) enviado para ${recipient.email} via ${this.transport.name}.`,
+      );
+      return { status: 'sent', transport: this.transport.name, messageId };
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      this.logger.error(
+        `Falha ao enviar email ${template} para ${recipient.email}: ${reason}`,
+      );
+      return {
+        status: 'failed',
+        transport: this.transport.name,
+        error: 'Não foi possível enviar o email. Tente novamente.',
+      };
+    }
+  }
+
+  /** Idioma de `profile_details.language`, com fallback para a dica do cliente. */
+  async resolveLanguage(recipient: EmailRecipient): Promise<EmailLanguage> {
+    const profileId =
+      recipient.profileId ?? (await this.findProfileId(recipient.email));
+
+    if (profileId) {
+      const { data, error } = await this.supabase
+        .from('profile_details')
+        .select('language')
+        .eq('profileId', profileId)
+        .maybeSingle();
+      if (error) {
+        this.logger.warn(
+          `Falha ao consultar idioma do perfil ${profileId}: ${error.message}`,
+        );
+      }
+      const row = data as { language: string | null } | null;
+      const fromProfile = normalizeEmailLanguage(row?.language);
+      if (fromProfile) return fromProfile;
+    }
+
+    return (
+      normalizeEmailLanguage(recipient.languageHint) ?? DEFAULT_EMAIL_LANGUAGE
+    );
+  }
+
+  private async findProfileId(email: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .select('id')
+      .eq('email', email)
+      .maybeSingle();
+    if (error) {
+      this.logger.warn(
+        `Falha ao consultar perfil de ${email}: ${error.message}`,
+      );
+      return null;
+    }
+    return data?.id ? String(data.id) : null;
+  }
+}
@@ -0,0 +1,65 @@
+// src/mail/outbox.transport.ts
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type {
+  EmailMessage,
+  EmailTransport,
+  EmailTransportResult,
+} from './email-transport';
+
+const MAX_OUTBOX_MESSAGES = 100;
+
+export interface OutboxEntry extends EmailMessage {
+  id: string;
+  sentAt: string;
+}
+
+/**
+ * Transporte para desenvolvimento e testes: guarda as mensagens em memória
+ * e, se `dir` for informado, grava cada uma como JSON nessa pasta.
+ */
+export class OutboxEmailTransport implements EmailTransport {
+  readonly name = 'outbox';
+  private readonly messages: OutboxEntry[] = [];
+
+  constructor(private readonly dir?: string | null) {}
+
+  async send(message: EmailMessage): Promise<EmailTransportResult> {
+    const entry: OutboxEntry = {
+      ...message,
+      id: randomUUID(),
+      sentAt: new Date().toISOString(),
+    };
+
+    this.messages.push(entry);
+    if (this.messages.length > MAX_OUTBOX_MESSAGES) {
+      this.messages.shift();
+    }
+
+    if (this.dir) {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(
+        join(
+          this.dir,
+          `${entry.sentAt.replace(/[:.]/g, '-')}-${entry.id}.json`,
+        ),
+        JSON.stringify(entry, null, 2),
+        'utf8',
+      );
+    }
+
+    return { messageId: entry.id };
+  }
+
+  list(to?: string): OutboxEntry[] {
+    const normalized = to?.trim().toLowerCase();
+    return this.messages.filter(
+      (entry) => !normalized || entry.to.toLowerCase() === normalized,
+    );
+  }
+
+  clear() {
+    this.messages.length = 0;
+  }
+}
@@ -0,0 +1,43 @@
+// src/mail/smtp.transport.ts
+import { createTransport, type Transporter } from 'nodemailer';
+import type {
+  EmailMessage,
+  EmailTransport,
+  EmailTransportResult,
+} from './email-transport';
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(private readonly options: SmtpTransportOptions) {
+    this.transporter = createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user
+        ? { user: options.user, pass: options.pass ?? '' }
+        : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailTransportResult> {
+    const info = await this.transporter.sendMail({
+      from: this.options.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+    return { messageId: info.messageId ?? null };
+  }
+}
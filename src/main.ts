@@ -1,10 +1,19 @@
 // src/main.ts
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
+import { trustedProxyHops } from './common/utils/client-context';
+import { deviceIdSecret } from './common/utils/device-id';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Ids de dispositivo sem segredo seriam forjáveis: falha antes de subir
+  deviceIdSecret();
+
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // IP real do cliente: só confia no X-Forwarded-For dos proxies conhecidos
+  app.set('trust proxy', trustedProxyHops());
 
   // CORS (ajuste origins se necessário)
   app.enableCors();
@@ -0,0 +1,52 @@
+// src/messaging/loopback.adapter.ts
+import { randomUUID } from 'crypto';
+import type {
+  MessagingAdapter,
+  MessagingSendResult,
+  OutgoingMessage,
+} from './messaging-adapter';
+
+const MAX_RECORDED_MESSAGES = 100;
+
+export interface LoopbackMessage extends OutgoingMessage {
+  id: string;
+  sentAt: string;
+}
+
+/**
+ * Canal local: não envia nada, apenas registra as mensagens para que
+ * testes e2e consigam ler o código enviado.
+ */
+export class LoopbackMessagingAdapter implements MessagingAdapter {
+  readonly channel = 'loopback' as const;
+  private readonly messages: LoopbackMessage[] = [];
+
+  send(message: OutgoingMessage): Promise<MessagingSendResult> {
+    const entry: LoopbackMessage = {
+      ...message,
+      id: randomUUID(),
+      sentAt: new Date().toISOString(),
+    };
+    this.messages.push(entry);
+    if (this.messages.length > MAX_RECORDED_MESSAGES) {
+      this.messages.shift();
+    }
+    return Promise.resolve({
+      providerMessageId: entry.id,
+      status: 'delivered',
+    });
+  }
+
+  list(to?: string): LoopbackMessage[] {
+    return this.messages.filter((entry) => !to || entry.to === to);
+  }
+
+  lastCode(to: string): string | null {
+    const entries = this.list(to);
+    return entries[entries.length - 1]?.code ?? null;
+  }
+
+  clear() {
+    this.messages.length = 0;
+  }
+}
@@ -0,0 +1,36 @@
+// src/messaging/messaging-adapter.ts
+export const MESSAGING_ADAPTERS = 'MESSAGING_ADAPTERS';
+
+export type MessagingChannel = 'whatsapp' | 'sms' | 'loopback';
+
+export type MessageStatus =
+  | 'queued'
+  | 'sent'
+  | 'delivered'
+  | 'read'
+  | 'failed'
+  | 'undelivered';
+
+export interface OutgoingMessage {
+  to: string;
+  body: string;
+  /** Código OTP, usado por adaptadores que enviam templates (WhatsApp). */
+  code?: string;
+  language?: string | null;
+  statusCallbackUrl?: string | null;
+}
+
+export interface MessagingSendResult {
+  providerMessageId: string;
+  status: MessageStatus;
+}
+
+/** Adaptador de um canal. Falhas devem ser lançadas como exceção. */
+export interface MessagingAdapter {
+  readonly channel: MessagingChannel;
+  send(message: OutgoingMessage): Promise<MessagingSendResult>;
+}
+
+export function maskPhone(phone: string) {
+  return phone.length > 4 ? `***${phone.slice(-4)}` : '***';
+}
@@ -0,0 +1,96 @@
+// src/messaging/messaging-status.controller.ts
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MessagingService } from './messaging.service';
+import { toMessageStatus } from './sms.adapter';
+
+type TwilioStatusBody = {
+  MessageSid?: string;
+  MessageStatus?: string;
+};
+
+type WhatsappStatusBody = {
+  entry?: {
+    changes?: {
+      value?: { statuses?: { id?: string; status?: string }[] };
+    }[];
+  }[];
+};
+
+/**
+ * Callbacks de status dos provedores. Fica fora do SessionMiddleware; a
+ * autenticação é o `token` configurado na URL do callback.
+ */
+@Controller('messaging/status')
+export class MessagingStatusController {
+  constructor(
+    private readonly messaging: MessagingService,
+    private readonly config: ConfigService,
+  ) {}
+
+  @Post('sms')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async smsStatus(
+    @Query('token') token: string,
+    @Body() body: TwilioStatusBody,
+  ) {
+    this.assertToken(token);
+    if (!body?.MessageSid) return;
+    await this.messaging.handleStatusCallback(
+      'sms',
+      body.MessageSid,
+      toMessageStatus(body.MessageStatus),
+    );
+  }
+
+  // Verificação do webhook exigida pela Meta ao cadastrar a URL
+  @Get('whatsapp')
+  verifyWhatsapp(
+    @Query('hub.mode') mode: string,
+    @Query('hub.verify_token') verifyToken: string,
+    @Query('hub.challenge') challenge: string,
+  ) {
+    const expected = this.config.get<string>('WHATSAPP_VERIFY_TOKEN');
+    if (mode !== 'subscribe' || !expected || verifyToken !== expected) {
+      throw new ForbiddenException('Token de verificação inválido.');
+    }
+    return challenge;
+  }
+
+  @Post('whatsapp')
+  @HttpCode(HttpStatus.OK)
+  async whatsappStatus(
+    @Query('token') token: string,
+    @Body() body: WhatsappStatusBody,
+  ) {
+    this.assertToken(token);
+    for (const entry of body?.entry ?? []) {
+      for (const change of entry.changes ?? []) {
+        for (const status of change.value?.statuses ?? []) {
+          if (!status.id) continue;
+          await this.messaging.handleStatusCallback(
+            'whatsapp',
+            status.id,
+            toMessageStatus(status.status),
+          );
+        }
+      }
+    }
+    return { received: true };
+  }
+
+  private assertToken(token?: string) {
+    if (!this.messaging.isValidWebhookSecret(token)) {
+      throw new ForbiddenException('Callback não autorizado.');
+    }
+  }
+}
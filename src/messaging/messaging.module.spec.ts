@@ -0,0 +1,51 @@
+import { ConfigService } from '@nestjs/config';
+import { LoopbackMessagingAdapter } from './loopback.adapter';
+import { createAdapters } from './messaging.module';
+import { MessagingService } from './messaging.service';
+
+function config(values: Record<string, string>) {
+  return { get: (key: string) => values[key] } as unknown as ConfigService;
+}
+
+describe('messaging channels', () => {
+  it('fails at boot when no channel is configured', () => {
+    const loopback = new LoopbackMessagingAdapter();
+    expect(() => createAdapters(config({}), loopback)).toThrow(
+      /MESSAGING_CHANNELS/,
+    );
+    // Canal pedido sem credenciais também não cai no loopback
+    expect(() =>
+      createAdapters(config({ MESSAGING_CHANNELS: 'sms' }), loopback),
+    ).toThrow(/MESSAGING_CHANNELS/);
+  });
+
+  it('uses loopback only when chosen explicitly', () => {
+    const loopback = new LoopbackMessagingAdapter();
+    const adapters = createAdapters(
+      config({ MESSAGING_CHANNELS: 'sms,loopback' }),
+      loopback,
+    );
+    expect(adapters).toEqual([loopback]);
+  });
+
+  it('renders the code message in the normalized language', async () => {
+    const loopback = new LoopbackMessagingAdapter();
+    const messaging = new MessagingService([loopback], config({}));
+
+    await messaging.sendCode({
+      to: '+5511999990000',
+      code: '123456',
+      expiresInMinutes: 10,
+      language: 'pt-BR',
+    });
+    await messaging.sendCode({
+      to: '+5511999990001',
+      code: '654321',
+      expiresInMinutes: 10,
+      language: 'en-US',
+    });
+
+    expect(loopback.list('+5511999990000')[0].body).toContain('Seu código');
+    expect(loopback.list('+5511999990001')[0].body).toContain('Your');
+  });
+});
@@ -0,0 +1,99 @@
+// src/messaging/messaging.module.ts
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LoopbackMessagingAdapter } from './loopback.adapter';
+import {
+  MESSAGING_ADAPTERS,
+  MessagingAdapter,
+  MessagingChannel,
+} from './messaging-adapter';
+import { MessagingStatusController } from './messaging-status.controller';
+import { MessagingService } from './messaging.service';
+import { SmsMessagingAdapter } from './sms.adapter';
+import { WhatsappMessagingAdapter } from './whatsapp.adapter';
+
+function createAdapter(
+  channel: MessagingChannel,
+  cfg: ConfigService,
+  loopback: LoopbackMessagingAdapter,
+): MessagingAdapter | null {
+  switch (channel) {
+    case 'whatsapp': {
+      const phoneNumberId = cfg.get<string>('WHATSAPP_PHONE_NUMBER_ID');
+      const accessToken = cfg.get<string>('WHATSAPP_ACCESS_TOKEN');
+      if (!phoneNumberId || !accessToken) return null;
+      return new WhatsappMessagingAdapter({
+        phoneNumberId,
+        accessToken,
+        apiVersion: cfg.get<string>('WHATSAPP_API_VERSION'),
+        templateName: cfg.get<string>('WHATSAPP_OTP_TEMPLATE'),
+      });
+    }
+    case 'sms': {
+      const accountSid = cfg.get<string>('TWILIO_ACCOUNT_SID');
+      const authToken = cfg.get<string>('TWILIO_AUTH_TOKEN');
+      if (!accountSid || !authToken) return null;
+      return new SmsMessagingAdapter({
+        accountSid,
+        authToken,
+        from: cfg.get<string>('TWILIO_FROM'),
+        messagingServiceSid: cfg.get<string>('TWILIO_MESSAGING_SERVICE_SID'),
+      });
+    }
+    case 'loopback':
+      return loopback;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Monta a lista de canais na ordem de `MESSAGING_CHANNELS`
+ * (ex.: `whatsapp,sms`). O loopback só entra se for pedido explicitamente;
+ * sem nenhum canal utilizável a aplicação não sobe.
+ */
+export function createAdapters(
+  cfg: ConfigService,
+  loopback: LoopbackMessagingAdapter,
+): MessagingAdapter[] {
+  const logger = new Logger('MessagingModule');
+  const requested = String(cfg.get<string>('MESSAGING_CHANNELS') ?? '')
+    .split(',')
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean) as MessagingChannel[];
+
+  const adapters: MessagingAdapter[] = [];
+  for (const channel of requested) {
+    const adapter = createAdapter(channel, cfg, loopback);
+    if (adapter) {
+      adapters.push(adapter);
+    } else {
+      logger.warn(`Canal ${channel} sem configuração; ignorado.`);
+    }
+  }
+
+  if (adapters.length === 0) {
+    throw new Error(
+      'Nenhum canal de mensagens configurado: defina MESSAGING_CHANNELS (use "loopback" apenas em desenvolvimento e testes).',
+    );
+  }
+  if (adapters.includes(loopback)) {
+    logger.warn('Canal loopback ativo: códigos não são entregues de verdade.');
+  }
+  return adapters;
+}
+
+@Module({
+  controllers: [MessagingStatusController],
+  providers: [
+    LoopbackMessagingAdapter,
+    {
+      provide: MESSAGING_ADAPTERS,
+      inject: [ConfigService, LoopbackMessagingAdapter],
+      useFactory: createAdapters,
+    },
+    MessagingService,
+  ],
+  exports: [MessagingService, LoopbackMessagingAdapter],
+})
+export class MessagingModule {}
@@ -0,0 +1,252 @@
+// src/messaging/messaging.service.ts
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  MESSAGING_ADAPTERS,
+  MessageStatus,
+  MessagingAdapter,
+  MessagingChannel,
+  OutgoingMessage,
+  maskPhone,
+} from './messaging-adapter';
+import { TooManyAttemptsException } from '../common/exceptions/too-many-attempts.exception';
+
+const DEFAULT_MIN_INTERVAL_SECONDS = 30;
+const DEFAULT_MAX_PER_HOUR = 5;
+const MAX_TRACKED_DELIVERIES = 500;
+const FINAL_STATUSES: MessageStatus[] = ['delivered', 'read'];
+const FAILED_STATUSES: MessageStatus[] = ['failed', 'undelivered'];
+
+const CODE_MESSAGES: Record<string, (code: string, minutes: number) => string> =
+  {
+    'pt-BR': (code, minutes) =>
+      `Seu código de verificação Audiolivros é ${code}. Ele expira em ${minutes} minutos.`,
+    'en-US': (code, minutes) =>
+      `Your Audiolivros verification code is ${code}. It expires in ${minutes} minutes.`,
+  };
+
+/** Estado do envio devolvido na resposta da API. */
+export interface MessageDelivery {
+  id: string;
+  channel: MessagingChannel | null;
+  status: MessageStatus;
+}
+
+interface DeliveryRecord extends MessageDelivery {
+  providerMessageId: string | null;
+  /** Canais restantes para fallback caso o callback informe falha. */
+  remaining: MessagingAdapter[];
+  message: OutgoingMessage | null;
+  updatedAt: string;
+}
+
+@Injectable()
+export class MessagingService {
+  private readonly logger = new Logger(MessagingService.name);
+  private readonly sentByNumber = new Map<string, number[]>();
+  private readonly deliveries = new Map<string, DeliveryRecord>();
+  private readonly providerIndex = new Map<string, string>();
+  private readonly minIntervalMs: number;
+  private readonly maxPerHour: number;
+  private readonly callbackBaseUrl: string | null;
+  private readonly webhookSecret: string | null;
+
+  constructor(
+    @Inject(MESSAGING_ADAPTERS) private readonly adapters: MessagingAdapter[],
+    config: ConfigService,
+  ) {
+    const interval = Number(config.get('MESSAGING_MIN_INTERVAL_SECONDS'));
+    this.minIntervalMs =
+      (Number.isFinite(interval) && interval >= 0
+        ? interval
+        : DEFAULT_MIN_INTERVAL_SECONDS) * 1000;
+    const perHour = Number(config.get('MESSAGING_MAX_PER_HOUR'));
+    this.maxPerHour =
+      Number.isInteger(perHour) && perHour > 0 ? perHour : DEFAULT_MAX_PER_HOUR;
+    this.callbackBaseUrl =
+      config
+        .get<string>('MESSAGING_STATUS_CALLBACK_URL')
+        ?.replace(/\/+$/, '') || null;
+    this.webhookSecret = config.get<string>('MESSAGING_WEBHOOK_SECRET') || null;
+  }
+
+  /**
+   * Envia um código OTP pelo primeiro canal disponível, passando para o
+   * próximo canal quando o envio falha. `language` já deve vir normalizado
+   * por `ProfileDetailsService.normalizeLanguage`.
+   */
+  async sendCode(input: {
+    to: string;
+    code: string;
+    expiresInMinutes: number;
+    language?: string | null;
+  }): Promise<MessageDelivery> {
+    this.assertWithinThrottle(input.to);
+
+    const render =
+      CODE_MESSAGES[input.language ?? ''] ?? CODE_MESSAGES['en-US'];
+    const message: OutgoingMessage = {
+      to: input.to,
+      body: render(input.code, input.expiresInMinutes),
+      code: input.code,
+      language: input.language ?? null,
+    };
+
+    const record: DeliveryRecord = {
+      id: randomUUID(),
+      channel: null,
+      status: 'failed',
+      providerMessageId: null,
+      remaining: [...this.adapters],
+      message,
+      updatedAt: new Date().toISOString(),
+    };
+    this.track(record);
+
+    await this.dispatch(record);
+    return this.toDelivery(record);
+  }
+
+  /** Callback de status vindo do provedor do canal. */
+  async handleStatusCallback(
+    channel: MessagingChannel,
+    providerMessageId: string,
+    status: MessageStatus,
+  ) {
+    const deliveryId = this.providerIndex.get(
+      this.providerKey(channel, providerMessageId),
+    );
+    const record = deliveryId ? this.deliveries.get(deliveryId) : undefined;
+    if (!record) {
+      this.logger.debug(
+        `Status ${status} ignorado para mensagem desconhecida ${providerMessageId} (${channel}).`,
+      );
+      return;
+    }
+
+    record.status = status;
+    record.updatedAt = new Date().toISOString();
+
+    if (FAILED_STATUSES.includes(status) && record.remaining.length > 0) {
+      this.providerIndex.delete(this.providerKey(channel, providerMessageId));
+      this.logger.warn(
+        `Entrega via ${channel} falhou para ${maskPhone(record.message?.to ?? '')}; tentando próximo canal.`,
+      );
+      await this.dispatch(record);
+      return;
+    }
+
+    if (FINAL_STATUSES.includes(status) || FAILED_STATUSES.includes(status)) {
+      record.message = null;
+      record.remaining = [];
+    }
+  }
+
+  getDelivery(id: string): MessageDelivery | null {
+    const record = this.deliveries.get(id);
+    return record ? this.toDelivery(record) : null;
+  }
+
+  isValidWebhookSecret(token?: string | null) {
+    if (!this.webhookSecret || !token) return false;
+    const expected = Buffer.from(this.webhookSecret);
+    const provided = Buffer.from(token);
+    return (
+      expected.length === provided.length && timingSafeEqual(expected, provided)
+    );
+  }
+
+  private async dispatch(record: DeliveryRecord) {
+    const message = record.message;
+    if (!message) return;
+
+    while (record.remaining.length > 0) {
+      const adapter = record.remaining.shift()!;
+      try {
+        const result = await adapter.send({
+          ...message,
+          statusCallbackUrl: this.statusCallbackUrl(adapter.channel),
+        });
+        record.channel = adapter.channel;
+        record.status = result.status;
+        record.providerMessageId = result.providerMessageId;
+        record.updatedAt = new Date().toISOString();
+        this.providerIndex.set(
+          this.providerKey(adapter.channel, result.providerMessageId),
+          record.id,
+        );
+        this.logger.log(
+          `Código enviado para ${maskPhone(message.to)} via ${adapter.channel}.`,
+        );
+        return;
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        this.logger.warn(
+          `Falha ao enviar via ${adapter.channel} para ${maskPhone(message.to)}: ${reason}`,
+        );
+      }
+    }
+
+    record.status = 'failed';
+    record.message = null;
+    record.updatedAt = new Date().toISOString();
+    this.logger.error(
+      `Nenhum canal conseguiu entregar a mensagem para ${maskPhone(message.to)}.`,
+    );
+  }
+
+  private assertWithinThrottle(phone: string) {
+    const now = Date.now();
+    const recent = (this.sentByNumber.get(phone) ?? []).filter(
+      (sentAt) => now - sentAt < 3_600_000,
+    );
+
+    const last = recent[recent.length - 1];
+    const waitInterval = last ? last + this.minIntervalMs - now : 0;
+    const waitHourly =
+      recent.length >= this.maxPerHour ? recent[0] + 3_600_000 - now : 0;
+    const waitMs = Math.max(waitInterval, waitHourly);
+
+    if (waitMs > 0) {
+      this.sentByNumber.set(phone, recent);
+      const retryAfter = Math.ceil(waitMs / 1000);
+      throw new TooManyAttemptsException(
+        `Muitas mensagens para este número. Tente novamente em ${retryAfter}s.`,
+        retryAfter,
+        'MESSAGING_THROTTLED',
+      );
+    }
+
+    recent.push(now);
+    this.sentByNumber.set(phone, recent);
+  }
+
+  private statusCallbackUrl(channel: MessagingChannel) {
+    if (!this.callbackBaseUrl || !this.webhookSecret) return null;
+    return `${this.callbackBaseUrl}/${channel}?token=${encodeURIComponent(this.webhookSecret)}`;
+  }
+
+  private track(record: DeliveryRecord) {
+    this.deliveries.set(record.id, record);
+    if (this.deliveries.size <= MAX_TRACKED_DELIVERIES) return;
+
+    const [oldestId] = this.deliveries.keys();
+    const oldest = this.deliveries.get(oldestId);
+    if (!oldest) return;
+    this.deliveries.delete(oldest.id);
+    if (oldest.channel && oldest.providerMessageId) {
+      this.providerIndex.delete(
+        this.providerKey(oldest.channel, oldest.providerMessageId),
+      );
+    }
+  }
+
+  private providerKey(channel: MessagingChannel, providerMessageId: string) {
+    return `${channel}:${providerMessageId}`;
+  }
+
+  private toDelivery(record: DeliveryRecord): MessageDelivery {
+    return { id: record.id, channel: record.channel, status: record.status };
+  }
+}
@@ -0,0 +1,87 @@
+// src/messaging/sms.adapter.ts
+import type {
+  MessagingAdapter,
+  MessagingSendResult,
+  MessageStatus,
+  OutgoingMessage,
+} from './messaging-adapter';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface SmsAdapterOptions {
+  accountSid: string;
+  authToken: string;
+  from?: string | null;
+  messagingServiceSid?: string | null;
+}
+
+/** Envio de SMS pela API REST da Twilio. */
+export class SmsMessagingAdapter implements MessagingAdapter {
+  readonly channel = 'sms' as const;
+
+  constructor(private readonly options: SmsAdapterOptions) {}
+
+  async send(message: OutgoingMessage): Promise<MessagingSendResult> {
+    const form = new URLSearchParams({ To: message.to, Body: message.body });
+    if (this.options.messagingServiceSid) {
+      form.set('MessagingServiceSid', this.options.messagingServiceSid);
+    } else if (this.options.from) {
+      form.set('From', this.options.from);
+    }
+    if (message.statusCallbackUrl) {
+      form.set('StatusCallback', message.statusCallbackUrl);
+    }
+
+    const credentials = Buffer.from(
+      `${this.options.accountSid}:${this.options.authToken}`,
+    ).toString('base64');
+
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.options.accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: form.toString(),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+    );
+
+    const payload = (await response.json().catch(() => null)) as {
+      sid?: string;
+      status?: string;
+      message?: string;
+    } | null;
+
+    if (!response.ok) {
+      throw new Error(
+        `Twilio respondeu ${response.status}: ${payload?.message ?? 'erro desconhecido'}`,
+      );
+    }
+    if (!payload?.sid) throw new Error('Twilio não retornou sid da mensagem.');
+
+    return {
+      providerMessageId: payload.sid,
+      status: toMessageStatus(payload.status),
+    };
+  }
+}
+
+export function toMessageStatus(raw?: string | null): MessageStatus {
+  switch (String(raw ?? '').toLowerCase()) {
+    case 'sent':
+      return 'sent';
+    case 'delivered':
+      return 'delivered';
+    case 'read':
+      return 'read';
+    case 'failed':
+      return 'failed';
+    case 'undelivered':
+      return 'undelivered';
+    default:
+      return 'queued';
+  }
+}
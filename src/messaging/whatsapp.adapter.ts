@@ -0,0 +1,81 @@
+// src/messaging/whatsapp.adapter.ts
+import type {
+  MessagingAdapter,
+  MessagingSendResult,
+  OutgoingMessage,
+} from './messaging-adapter';
+
+const DEFAULT_API_VERSION = 'v21.0';
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface WhatsappAdapterOptions {
+  phoneNumberId: string;
+  accessToken: string;
+  apiVersion?: string;
+  /** Template aprovado na Meta com um parâmetro para o código. */
+  templateName?: string | null;
+}
+
+/** Envio via WhatsApp Cloud API (Meta). */
+export class WhatsappMessagingAdapter implements MessagingAdapter {
+  readonly channel = 'whatsapp' as const;
+
+  constructor(private readonly options: WhatsappAdapterOptions) {}
+
+  async send(message: OutgoingMessage): Promise<MessagingSendResult> {
+    const version = this.options.apiVersion ?? DEFAULT_API_VERSION;
+    const url = `https://graph.facebook.com/${version}/${this.options.phoneNumberId}/messages`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.options.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(this.buildPayload(message)),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    const payload = (await response.json().catch(() => null)) as {
+      messages?: { id?: string }[];
+      error?: { message?: string };
+    } | null;
+
+    if (!response.ok) {
+      throw new Error(
+        `WhatsApp respondeu ${response.status}: ${payload?.error?.message ?? 'erro desconhecido'}`,
+      );
+    }
+
+    const id = payload?.messages?.[0]?.id;
+    if (!id) throw new Error('WhatsApp não retornou id da mensagem.');
+    return { providerMessageId: id, status: 'queued' };
+  }
+
+  private buildPayload(message: OutgoingMessage) {
+    const to = message.to.replace(/^\+/, '');
+    if (this.options.templateName && message.code) {
+      return {
+        messaging_product: 'whatsapp',
+        to,
+        type: 'template',
+        template: {
+          name: this.options.templateName,
+          language: { code: (message.language ?? 'en-US').replace('-', '_') },
+          components: [
+            {
+              type: 'body',
+              parameters: [{ type: 'text', text: message.code }],
+            },
+          ],
+        },
+      };
+    }
+    return {
+      messaging_product: 'whatsapp',
+      to,
+      type: 'text',
+      text: { body: message.body },
+    };
+  }
+}
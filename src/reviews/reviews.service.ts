@@ -6,14 +6,14 @@ import {
   Logger,
 } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { SB_ADMIN } from '../supabase/module';
+import { SB_USER } from '../supabase/module';
 
 type ReviewRow = { rating?: number | null };
 @Injectable()
 export class ReviewsService {
   private readonly logger = new Logger(ReviewsService.name);
 
-  constructor(@Inject(SB_ADMIN) private readonly supabase: SupabaseClient) {}
+  constructor(@Inject(SB_USER) private readonly supabase: SupabaseClient) {}
 
   async getUserReview(profileId: string, bookId: string) {
     const { data, error } = await this.supabase
@@ -0,0 +1,19 @@
+import { Transform } from 'class-transformer';
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ROLES } from '../roles';
+import type { Role } from '../roles';
+
+export class GrantRoleDto {
+  @Transform(({ value }) =>
+    String(value ?? '')
+      .trim()
+      .toLowerCase(),
+  )
+  @IsIn(ROLES, { message: `role deve ser um de: ${ROLES.join(', ')}.` })
+  role!: Role;
+
+  @IsOptional()
+  @IsString({ message: 'reason deve ser uma string.' })
+  @MaxLength(500, { message: 'reason deve ter no máximo 500 caracteres.' })
+  reason?: string;
+}
@@ -0,0 +1,85 @@
+// src/roles/roles.controller.ts
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  UnauthorizedException,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { Roles } from './roles.decorator';
+import { RolesService } from './roles.service';
+import { GrantRoleDto } from './dto/grant-role.dto';
+import { isRole } from './roles';
+
+interface SessionizedRequest extends Request {
+  session?: {
+    userId: string;
+  };
+}
+
+@Controller('admin/roles')
+@Roles('admin')
+export class RolesController {
+  constructor(private readonly roles: RolesService) {}
+
+  private requireActorId(req: SessionizedRequest): string {
+    const actorId = req.session?.userId;
+    if (!actorId) {
+      throw new UnauthorizedException('Sessão inválida.');
+    }
+    return actorId;
+  }
+
+  // GET /admin/roles/audit?profileId=
+  @Get('audit')
+  async listAudit(@Query('profileId') profileId?: string) {
+    const items = await this.roles.listAudit(profileId?.trim() || undefined);
+    return { total: items.length, items };
+  }
+
+  @Get(':profileId')
+  async getRoles(@Param('profileId') profileId: string) {
+    return { profileId, roles: await this.roles.getRoles(profileId) };
+  }
+
+  @Post(':profileId')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async grantRole(
+    @Req() req: SessionizedRequest,
+    @Param('profileId') profileId: string,
+    @Body() body: GrantRoleDto,
+  ) {
+    return this.roles.grantRole({
+      profileId,
+      role: body.role,
+      actorId: this.requireActorId(req),
+      reason: body.reason ?? null,
+    });
+  }
+
+  @Delete(':profileId/:role')
+  async revokeRole(
+    @Req() req: SessionizedRequest,
+    @Param('profileId') profileId: string,
+    @Param('role') role: string,
+    @Query('reason') reason?: string,
+  ) {
+    if (!isRole(role)) {
+      throw new BadRequestException('Papel inválido.');
+    }
+    return this.roles.revokeRole({
+      profileId,
+      role,
+      actorId: this.requireActorId(req),
+      reason: reason ?? null,
+    });
+  }
+}
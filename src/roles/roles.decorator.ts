@@ -0,0 +1,11 @@
+// src/roles/roles.decorator.ts
+import { SetMetadata } from '@nestjs/common';
+import type { Role } from './roles';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Restringe a rota aos papéis informados (`admin` sempre passa). Rotas de
+ * operação usam `@Roles('support')`; gestão de catálogo, `@Roles('editor')`.
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,57 @@
+// src/roles/roles.guard.ts
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { ROLES_KEY } from './roles.decorator';
+import { RolesService } from './roles.service';
+import type { Role } from './roles';
+
+interface SessionizedRequest extends Request {
+  session?: {
+    userId: string;
+  };
+}
+
+/**
+ * Roda depois do SessionMiddleware: usa `req.session.userId` para carregar
+ * os papéis do perfil. Rotas sem `@Roles` não são afetadas.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  private readonly logger = new Logger(RolesGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly roles: RolesService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<Role[] | undefined>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!required || required.length === 0) return true;
+
+    const req = context.switchToHttp().getRequest<SessionizedRequest>();
+    const userId = req.session?.userId;
+    if (!userId) {
+      throw new UnauthorizedException('Não autorizado.');
+    }
+
+    const granted = await this.roles.getRoles(userId);
+    if (granted.includes('admin')) return true;
+    if (required.some((role) => granted.includes(role))) return true;
+
+    this.logger.warn(
+      `Perfil ${userId} sem papel ${required.join('/')} tentou acessar ${req.method} ${req.originalUrl}`,
+    );
+    throw new ForbiddenException('Permissão insuficiente.');
+  }
+}
@@ -0,0 +1,14 @@
+// src/roles/roles.module.ts
+import { Global, Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { RolesService } from './roles.service';
+import { RolesGuard } from './roles.guard';
+import { RolesController } from './roles.controller';
+
+@Global()
+@Module({
+  controllers: [RolesController],
+  providers: [RolesService, { provide: APP_GUARD, useClass: RolesGuard }],
+  exports: [RolesService],
+})
+export class RolesModule {}
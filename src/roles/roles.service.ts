@@ -0,0 +1,259 @@
+// src/roles/roles.service.ts
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import { SB_ADMIN } from '../supabase/module';
+import { PubSub } from '../kv-store/pub-sub';
+import { DEFAULT_ROLE, Role } from './roles';
+
+const ROLES_CACHE_TTL_MS = 30_000;
+const INVALIDATION_CHANNEL = 'roles:invalidate';
+
+interface InvalidationMessage {
+  origin: string;
+  profileId: string;
+}
+
+/**
+ * Linha de `role_audit_log` (id, profile_id, role, action, actor_id, reason,
+ * created_at). Os papéis em si ficam em `profile_roles`
+ * (profile_id, role, granted_by, granted_at).
+ */
+type RoleAuditRow = {
+  id: string | number;
+  profile_id: string;
+  role: Role;
+  action: 'grant' | 'revoke';
+  actor_id: string | null;
+  reason: string | null;
+  created_at: string;
+};
+
+export interface RoleAuditEntry {
+  id: string;
+  profileId: string;
+  role: Role;
+  action: 'grant' | 'revoke';
+  actorId: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+/**
+ * Papéis ficam em cache por instância; concessões e remoções invalidam o
+ * cache local e avisam as demais instâncias pelo PubSub.
+ */
+@Injectable()
+export class RolesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RolesService.name);
+  private readonly instanceId = randomUUID();
+  private readonly cache = new Map<
+    string,
+    { roles: Role[]; loadedAt: number }
+  >();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    @Inject(SB_ADMIN) private readonly supabase: SupabaseClient,
+    private readonly pubSub: PubSub,
+  ) {}
+
+  onModuleInit() {
+    this.unsubscribe = this.pubSub.subscribe(INVALIDATION_CHANNEL, (raw) => {
+      const message = raw as Partial<InvalidationMessage> | null;
+      if (!message || message.origin === this.instanceId) return;
+      if (typeof message.profileId !== 'string') return;
+      this.cache.delete(message.profileId);
+    });
+  }
+
+  onModuleDestroy() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /** Papéis do perfil; todo perfil é ao menos `listener`. */
+  async getRoles(profileId: string): Promise<Role[]> {
+    const cached = this.cache.get(profileId);
+    if (cached && Date.now() - cached.loadedAt < ROLES_CACHE_TTL_MS) {
+      return cached.roles;
+    }
+
+    const { data, error } = await this.supabase
+      .from('profile_roles')
+      .select('role')
+      .eq('profile_id', profileId);
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar papéis: ${error.message}`,
+      );
+
+    const roles = Array.from(
+      new Set<Role>([
+        DEFAULT_ROLE,
+        ...((data ?? []) as { role: Role }[]).map((row) => row.role),
+      ]),
+    );
+    this.cache.set(profileId, { roles, loadedAt: Date.now() });
+    return roles;
+  }
+
+  async grantRole(input: {
+    profileId: string;
+    role: Role;
+    actorId: string;
+    reason?: string | null;
+  }) {
+    if (input.role === DEFAULT_ROLE) {
+      throw new BadRequestException('Todo perfil já é listener.');
+    }
+    await this.assertProfileExists(input.profileId);
+
+    const { data, error } = await this.supabase
+      .from('profile_roles')
+      .upsert(
+        {
+          profile_id: input.profileId,
+          role: input.role,
+          granted_by: input.actorId,
+          granted_at: new Date().toISOString(),
+        },
+        { onConflict: 'profile_id,role', ignoreDuplicates: true },
+      )
+      .select('role');
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao conceder papel: ${error.message}`,
+      );
+
+    // Papel já atribuído: nada mudou, então não há o que auditar
+    if (data && data.length > 0) {
+      await this.audit({ ...input, action: 'grant' });
+    }
+    return {
+      profileId: input.profileId,
+      roles: await this.getRoles(input.profileId),
+    };
+  }
+
+  async revokeRole(input: {
+    profileId: string;
+    role: Role;
+    actorId: string;
+    reason?: string | null;
+  }) {
+    if (input.role === DEFAULT_ROLE) {
+      throw new BadRequestException('O papel listener não pode ser removido.');
+    }
+    if (input.role === 'admin' && input.profileId === input.actorId) {
+      throw new BadRequestException(
+        'Não é possível remover o próprio papel de administrador.',
+      );
+    }
+
+    const { data, error } = await this.supabase
+      .from('profile_roles')
+      .delete()
+      .eq('profile_id', input.profileId)
+      .eq('role', input.role)
+      .select('role');
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao remover papel: ${error.message}`,
+      );
+    if (!data || data.length === 0)
+      throw new NotFoundException('Papel não atribuído a este perfil.');
+
+    await this.audit({ ...input, action: 'revoke' });
+    return {
+      profileId: input.profileId,
+      roles: await this.getRoles(input.profileId),
+    };
+  }
+
+  async listAudit(profileId?: string, limit = 100): Promise<RoleAuditEntry[]> {
+    let query = this.supabase
+      .from('role_audit_log')
+      .select('id, profile_id, role, action, actor_id, reason, created_at')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    if (profileId) query = query.eq('profile_id', profileId);
+
+    const { data, error } = await query;
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar auditoria de papéis: ${error.message}`,
+      );
+
+    return ((data ?? []) as RoleAuditRow[]).map((row) => ({
+      id: String(row.id),
+      profileId: String(row.profile_id),
+      role: row.role,
+      action: row.action,
+      actorId: row.actor_id ?? null,
+      reason: row.reason ?? null,
+      createdAt: row.created_at,
+    }));
+  }
+
+  private async audit(entry: {
+    profileId: string;
+    role: Role;
+    action: 'grant' | 'revoke';
+    actorId: string;
+    reason?: string | null;
+  }) {
+    this.invalidate(entry.profileId);
+
+    const { error } = await this.supabase.from('role_audit_log').insert({
+      profile_id: entry.profileId,
+      role: entry.role,
+      action: entry.action,
+      actor_id: entry.actorId,
+      reason: entry.reason ?? null,
+      created_at: new Date().toISOString(),
+    });
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao auditar alteração de papel: ${error.message}`,
+      );
+    this.logger.log(
+      `Papel ${entry.role} ${entry.action === 'grant' ? 'concedido a' : 'removido de'} ${entry.profileId} por ${entry.actorId}.`,
+    );
+  }
+
+  private invalidate(profileId: string) {
+    this.cache.delete(profileId);
+    const message: InvalidationMessage = {
+      origin: this.instanceId,
+      profileId,
+    };
+    this.pubSub.publish(INVALIDATION_CHANNEL, message).catch((err) => {
+      this.logger.warn(
+        `Falha ao propagar invalidação de papéis: ${String(err)}`,
+      );
+    });
+  }
+
+  private async assertProfileExists(profileId: string) {
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .select('id')
+      .eq('id', profileId)
+      .maybeSingle();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar perfil: ${error.message}`,
+      );
+    if (!data) throw new NotFoundException('Perfil não encontrado.');
+  }
+}
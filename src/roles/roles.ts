@@ -0,0 +1,11 @@
+// src/roles/roles.ts
+export type Role = 'listener' | 'editor' | 'support' | 'admin';
+
+export const ROLES: Role[] = ['listener', 'editor', 'support', 'admin'];
+
+/** Papel implícito de todo perfil sem linhas em `profile_roles`. */
+export const DEFAULT_ROLE: Role = 'listener';
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && ROLES.includes(value as Role);
+}
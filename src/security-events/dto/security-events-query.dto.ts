@@ -0,0 +1,39 @@
+// src/security-events/dto/security-events-query.dto.ts
+import { Transform } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, IsString, Min } from 'class-validator';
+import { SECURITY_EVENT_TYPES } from '../security-events';
+import type { SecurityEventType } from '../security-events';
+
+export class SecurityEventsPageQueryDto {
+  @Transform(({ value }) =>
+    value === undefined || value === '' ? 0 : Number(value),
+  )
+  @IsInt({ message: 'start deve ser inteiro.' })
+  @Min(0, { message: 'start deve ser >= 0.' })
+  start: number = 0;
+
+  @Transform(({ value }) =>
+    value === undefined || value === '' ? 19 : Number(value),
+  )
+  @IsInt({ message: 'end deve ser inteiro.' })
+  @Min(0, { message: 'end deve ser >= 0.' })
+  end: number = 19;
+}
+
+export class SecurityEventsSearchQueryDto extends SecurityEventsPageQueryDto {
+  @IsOptional()
+  @Transform(({ value }) => String(value ?? '').trim())
+  @IsString({ message: 'profileId deve ser uma string.' })
+  profileId?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => String(value ?? '').trim())
+  @IsString({ message: 'ip deve ser uma string.' })
+  ip?: string;
+
+  @IsOptional()
+  @IsIn(SECURITY_EVENT_TYPES, {
+    message: `type deve ser um de: ${SECURITY_EVENT_TYPES.join(', ')}.`,
+  })
+  type?: SecurityEventType;
+}
@@ -0,0 +1,37 @@
+// src/security-events/security-events.controller.ts
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Query,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { Roles } from '../roles/roles.decorator';
+import { SecurityEventsService } from './security-events.service';
+import { SecurityEventsSearchQueryDto } from './dto/security-events-query.dto';
+
+@Controller('admin/security-events')
+@Roles('support')
+export class SecurityEventsController {
+  constructor(private readonly securityEvents: SecurityEventsService) {}
+
+  // GET /admin/security-events?profileId=&ip=&type=&start=&end=
+  @Get()
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async search(@Query() query: SecurityEventsSearchQueryDto) {
+    if (!query.profileId && !query.ip) {
+      throw new BadRequestException('Informe profileId ou ip.');
+    }
+    if (query.end < query.start) {
+      throw new BadRequestException(
+        'Parâmetros inválidos: use start>=0 e end>=start.',
+      );
+    }
+    return this.securityEvents.search(
+      { profileId: query.profileId, ip: query.ip, type: query.type },
+      query.start,
+      query.end,
+    );
+  }
+}
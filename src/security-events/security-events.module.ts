@@ -0,0 +1,12 @@
+// src/security-events/security-events.module.ts
+import { Global, Module } from '@nestjs/common';
+import { SecurityEventsService } from './security-events.service';
+import { SecurityEventsController } from './security-events.controller';
+
+@Global()
+@Module({
+  controllers: [SecurityEventsController],
+  providers: [SecurityEventsService],
+  exports: [SecurityEventsService],
+})
+export class SecurityEventsModule {}
@@ -0,0 +1,239 @@
+// src/security-events/security-events.service.ts
+import {
+  HttpException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SB_ADMIN } from '../supabase/module';
+import { SupabaseUserClients } from '../supabase/user-clients.service';
+import { TooManyAttemptsException } from '../common/exceptions/too-many-attempts.exception';
+import type { ClientContext } from '../common/utils/client-context';
+import { SecurityEventOutcome, SecurityEventType } from './security-events';
+
+const DEFAULT_RETENTION_DAYS = 180;
+const RETENTION_SWEEP_INTERVAL_MS = 60 * 60_000;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Linha de `security_events` (id, profile_id, type, outcome, ip, user_agent,
+ * device_label, location, metadata jsonb, created_at). A tabela só recebe
+ * inserts; linhas saem apenas pela retenção. `profile_id` não tem chave
+ * estrangeira para que o histórico sobreviva à exclusão da conta.
+ */
+type SecurityEventRow = {
+  id: string | number;
+  profile_id: string | null;
+  type: SecurityEventType;
+  outcome: SecurityEventOutcome;
+  ip: string | null;
+  user_agent: string | null;
+  device_label: string | null;
+  location: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+};
+
+export interface SecurityEventEntry {
+  id: string;
+  profileId: string | null;
+  type: SecurityEventType;
+  outcome: SecurityEventOutcome;
+  ip: string | null;
+  userAgent: string | null;
+  deviceLabel: string | null;
+  location: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface SecurityEventInput {
+  type: SecurityEventType;
+  outcome: SecurityEventOutcome;
+  profileId?: string | null;
+  client?: ClientContext | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+export interface SecurityEventFilter {
+  profileId?: string;
+  ip?: string;
+  type?: SecurityEventType;
+}
+
+@Injectable()
+export class SecurityEventsService implements OnModuleDestroy {
+  private readonly logger = new Logger(SecurityEventsService.name);
+  private readonly retentionDays: number;
+  private readonly sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @Inject(SB_ADMIN) private readonly supabase: SupabaseClient,
+    private readonly userClients: SupabaseUserClients,
+    config: ConfigService,
+  ) {
+    // 0 guarda os eventos indefinidamente
+    const configured = Number(
+      config.get<string>('SECURITY_EVENTS_RETENTION_DAYS'),
+    );
+    this.retentionDays =
+      Number.isInteger(configured) && configured >= 0
+        ? configured
+        : DEFAULT_RETENTION_DAYS;
+
+    if (this.retentionDays > 0) {
+      this.sweepTimer = setInterval(() => {
+        void this.purgeExpired();
+      }, RETENTION_SWEEP_INTERVAL_MS);
+      this.sweepTimer.unref?.();
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+  }
+
+  /**
+   * Grava o evento sem interromper o fluxo: falhas de gravação só vão para
+   * o log.
+   */
+  async record(event: SecurityEventInput): Promise<void> {
+    const client = event.client ?? null;
+    const { error } = await this.supabase.from('security_events').insert({
+      profile_id: event.profileId ?? null,
+      type: event.type,
+      outcome: event.outcome,
+      ip: client?.ip ?? null,
+      user_agent: client?.userAgent ?? null,
+      device_label: client?.deviceLabel ?? null,
+      location: client?.location ?? null,
+      metadata: event.metadata ?? null,
+      created_at: new Date().toISOString(),
+    });
+    if (error) {
+      this.logger.error(
+        `Falha ao registrar evento ${event.type} (${event.outcome}): ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Executa `fn` e registra o resultado: sucesso, falha (400/401) ou
+   * bloqueio por excesso de tentativas. Erros internos não viram evento.
+   */
+  async track<T>(
+    type: SecurityEventType,
+    subject: Omit<SecurityEventInput, 'type' | 'outcome'>,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const result = await this.trackFailures(type, subject, fn);
+    void this.record({ ...subject, type, outcome: 'success' });
+    return result;
+  }
+
+  /**
+   * Como `track`, mas só registra falhas e bloqueios. Serve para passos
+   * intermediários, cujo sucesso é registrado mais adiante no fluxo.
+   */
+  async trackFailures<T>(
+    type: SecurityEventType,
+    subject: Omit<SecurityEventInput, 'type' | 'outcome'>,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await fn();
+    } catch (err) {
+      const outcome = this.outcomeOf(err);
+      if (outcome) void this.record({ ...subject, type, outcome });
+      throw err;
+    }
+  }
+
+  /** Histórico do próprio perfil, lido com o cliente dele (RLS). */
+  async listForProfile(profileId: string, start: number, end: number) {
+    return this.query(
+      this.userClients.forProfile(profileId),
+      { profileId },
+      start,
+      end,
+    );
+  }
+
+  /** Busca administrativa, entre perfis. */
+  async search(filter: SecurityEventFilter, start: number, end: number) {
+    return this.query(this.supabase, filter, start, end);
+  }
+
+  private async query(
+    supabase: SupabaseClient,
+    filter: SecurityEventFilter,
+    start: number,
+    end: number,
+  ) {
+    const last = Math.min(end, start + MAX_PAGE_SIZE - 1);
+
+    let query = supabase
+      .from('security_events')
+      .select(
+        'id, profile_id, type, outcome, ip, user_agent, device_label, location, metadata, created_at',
+        { count: 'exact' },
+      )
+      .order('created_at', { ascending: false })
+      .range(start, last);
+    if (filter.profileId) query = query.eq('profile_id', filter.profileId);
+    if (filter.ip) query = query.eq('ip', filter.ip);
+    if (filter.type) query = query.eq('type', filter.type);
+
+    const { data, count, error } = await query;
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar eventos de segurança: ${error.message}`,
+      );
+
+    const items = ((data ?? []) as SecurityEventRow[]).map((row) =>
+      this.toEntry(row),
+    );
+    return { total: count ?? 0, start, end: last, items };
+  }
+
+  private async purgeExpired() {
+    const cutoff = new Date(
+      Date.now() - this.retentionDays * 24 * 60 * 60_000,
+    ).toISOString();
+    const { error } = await this.supabase
+      .from('security_events')
+      .delete()
+      .lt('created_at', cutoff);
+    if (error) {
+      this.logger.warn(
+        `Falha ao remover eventos de segurança antigos: ${error.message}`,
+      );
+    }
+  }
+
+  private outcomeOf(err: unknown): SecurityEventOutcome | null {
+    if (err instanceof TooManyAttemptsException) return 'blocked';
+    if (!(err instanceof HttpException)) return null;
+    const status = err.getStatus();
+    return status === 400 || status === 401 ? 'failure' : null;
+  }
+
+  private toEntry(row: SecurityEventRow): SecurityEventEntry {
+    return {
+      id: String(row.id),
+      profileId: row.profile_id ? String(row.profile_id) : null,
+      type: row.type,
+      outcome: row.outcome,
+      ip: row.ip ?? null,
+      userAgent: row.user_agent ?? null,
+      deviceLabel: row.device_label ?? null,
+      location: row.location ?? null,
+      metadata: row.metadata ?? null,
+      createdAt: row.created_at,
+    };
+  }
+}
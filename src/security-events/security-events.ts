@@ -0,0 +1,28 @@
+// src/security-events/security-events.ts
+export type SecurityEventType =
+  | 'login'
+  | 'token.refresh'
+  | 'password.reset'
+  | 'phone.change'
+  | 'email.change'
+  | 'account.deletion-requested'
+  | 'account.deletion'
+  | 'account.restore'
+  | 'account.export'
+  | 'session.rejected';
+
+export const SECURITY_EVENT_TYPES: SecurityEventType[] = [
+  'login',
+  'token.refresh',
+  'password.reset',
+  'phone.change',
+  'email.change',
+  'account.deletion-requested',
+  'account.deletion',
+  'account.restore',
+  'account.export',
+  'session.rejected',
+];
+
+/** `blocked`: a tentativa foi barrada pelo limite de tentativas. */
+export type SecurityEventOutcome = 'success' | 'failure' | 'blocked';
@@ -14,10 +14,17 @@ import { SummariesService } from './summaries.service';
 import { GetSummaryDto } from './dto/get-summary.dto';
 import { FavoritesService } from '../favorites/favorites.service';
 import { ListeningProgressService } from '../audio/listening-progress.service';
+import { GuestService } from '../auth/guest.service';
+import { GUEST_PROVIDER } from '../auth/guest-scope';
+import { FamilyProfilesService } from '../auth/family-profiles.service';
+import type { MaturityLevel } from '../auth/family-scope';
 
 interface SessionizedRequest extends Request {
   session?: {
     userId: string;
+    provider?: string;
+    expiresAt?: string;
+    maturityLevel?: MaturityLevel;
   };
 }
 
@@ -27,6 +34,8 @@ export class SummariesController {
     private readonly summaries: SummariesService,
     private readonly favorites: FavoritesService,
     private readonly listeningProgress: ListeningProgressService,
+    private readonly guests: GuestService,
+    private readonly familyProfiles: FamilyProfilesService,
   ) {}
 
   private readonly logger = new Logger(SummariesController.name);
@@ -59,6 +68,17 @@ export class SummariesController {
     }
 
     const summary = items[0];
+    await this.familyProfiles.assertTitleAllowed(
+      summary.bookId,
+      req.session?.maturityLevel,
+    );
+    if (req.session?.provider === GUEST_PROVIDER) {
+      await this.guests.assertSummaryAllowed(
+        profileId,
+        summary.bookId,
+        req.session.expiresAt,
+      );
+    }
     const favorite = await this.favorites.isFavorite(profileId, summary.bookId);
 
     const listeningProgress = await this.listeningProgress.getListeningProgress(
@@ -4,9 +4,10 @@ import { SummariesController } from './summaries.controller';
 import { SummariesService } from './summaries.service';
 import { FavoritesModule } from '../favorites/favorites.module';
 import { AudioModule } from '../audio/audio.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
-  imports: [FavoritesModule, AudioModule],
+  imports: [FavoritesModule, AudioModule, AuthModule],
   controllers: [SummariesController],
   providers: [SummariesService],
 })
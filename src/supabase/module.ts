@@ -1,10 +1,19 @@
 // src/supabase/module.ts
-import { Global, Module } from '@nestjs/common';
+import { Global, Module, Scope } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { REQUEST } from '@nestjs/core';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { Request } from 'express';
+import { SupabaseUserClients } from './user-clients.service';
+import { SupabaseUserTokenService } from './user-token.service';
 
 export const SUPABASE_CLIENT = 'SUPABASE_CLIENT';
 export const SB_ADMIN = 'SB_ADMIN';
+export const SB_USER = 'SB_USER';
+
+interface SessionizedRequest extends Request {
+  session?: { userId: string; accountId?: string };
+}
 
 @Global()
 @Module({
@@ -19,7 +28,29 @@ export const SB_ADMIN = 'SB_ADMIN';
           auth: { persistSession: false, detectSessionInUrl: false },
         }),
     },
-    // Escrita/Admin (service_role) — NUNCA expor ao cliente
+    // Por requisição, com JWT do perfil da sessão: o RLS garante que cada
+    // perfil só leia e altere as próprias linhas. Sem sessão, cai no papel anon.
+    {
+      provide: SB_USER,
+      scope: Scope.REQUEST,
+      inject: [REQUEST, SupabaseUserClients],
+      useFactory: (
+        req: SessionizedRequest,
+        clients: SupabaseUserClients,
+      ): SupabaseClient => {
+        const session = req.session;
+        return session?.userId
+          ? clients.forProfile(
+              session.userId,
+              session.accountId ?? session.userId,
+            )
+          : clients.anonymous();
+      },
+    },
+    SupabaseUserTokenService,
+    SupabaseUserClients,
+    // Escrita/Admin (service_role) — NUNCA expor ao cliente. Só os módulos
+    // liberados em eslint.config.mjs (SB_ADMIN_ALLOWED) podem injetar.
     {
       provide: SB_ADMIN,
       inject: [ConfigService],
@@ -33,6 +64,12 @@ export const SB_ADMIN = 'SB_ADMIN';
         ),
     },
   ],
-  exports: [SUPABASE_CLIENT, SB_ADMIN],
+  exports: [
+    SUPABASE_CLIENT,
+    SB_ADMIN,
+    SB_USER,
+    SupabaseUserTokenService,
+    SupabaseUserClients,
+  ],
 })
 export class SupabaseModule {}
@@ -0,0 +1,43 @@
+// src/supabase/user-clients.service.ts
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { SupabaseUserTokenService } from './user-token.service';
+
+/**
+ * Clientes com a chave anon e o JWT de um perfil: as consultas passam pelo
+ * RLS como se viessem daquele perfil. O SB_USER usa o perfil da sessão;
+ * serviços singleton (fluxos de login, jobs) pedem o cliente do perfil em
+ * que estão operando.
+ */
+@Injectable()
+export class SupabaseUserClients {
+  private readonly url: string;
+  private readonly anonKey: string;
+
+  constructor(
+    config: ConfigService,
+    private readonly tokens: SupabaseUserTokenService,
+  ) {
+    this.url = config.get<string>('SUPABASE_URL')!;
+    this.anonKey = config.get<string>('SUPABASE_ANON_KEY')!;
+  }
+
+  forProfile(profileId: string, accountId: string = profileId): SupabaseClient {
+    return this.create({
+      Authorization: `Bearer ${this.tokens.tokenFor(profileId, accountId)}`,
+    });
+  }
+
+  /** Sem perfil: papel anon. */
+  anonymous(): SupabaseClient {
+    return this.create({});
+  }
+
+  private create(headers: Record<string, string>) {
+    return createClient(this.url, this.anonKey, {
+      auth: { persistSession: false, detectSessionInUrl: false },
+      global: { headers },
+    });
+  }
+}
@@ -0,0 +1,70 @@
+// src/supabase/user-token.service.ts
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as jwt from 'jsonwebtoken';
+
+const DEFAULT_TTL_SECONDS = 300;
+// Renova antes de vencer para não expirar no meio de uma requisição
+const RENEW_BEFORE_SECONDS = 30;
+
+type CachedToken = { token: string; expiresAt: number };
+
+/**
+ * Emite JWTs curtos do Supabase para o perfil autenticado, assinados com o
+ * segredo do projeto (`SUPABASE_JWT_SECRET`). As políticas de RLS leem o
+ * perfil em `auth.uid()` (claim `sub`) e a conta em
+ * `auth.jwt() -> 'app_metadata' ->> 'account_id'`.
+ */
+@Injectable()
+export class SupabaseUserTokenService {
+  private readonly secret: string;
+  private readonly ttlSeconds: number;
+  private readonly cache = new Map<string, CachedToken>();
+
+  constructor(config: ConfigService) {
+    // Sem o segredo nenhuma requisição autenticada funciona: falha no boot
+    const secret = config.get<string>('SUPABASE_JWT_SECRET');
+    if (!secret) throw new Error('SUPABASE_JWT_SECRET não configurado.');
+    this.secret = secret;
+    const configured = Number(
+      config.get<string>('SUPABASE_USER_JWT_TTL_SECONDS'),
+    );
+    this.ttlSeconds =
+      Number.isFinite(configured) && configured > RENEW_BEFORE_SECONDS
+        ? configured
+        : DEFAULT_TTL_SECONDS;
+  }
+
+  tokenFor(profileId: string, accountId: string = profileId): string {
+    const key = `${accountId}:${profileId}`;
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt - RENEW_BEFORE_SECONDS > nowSeconds) {
+      return cached.token;
+    }
+
+    const expiresAt = nowSeconds + this.ttlSeconds;
+    const token = jwt.sign(
+      {
+        sub: profileId,
+        role: 'authenticated',
+        aud: 'authenticated',
+        app_metadata: { account_id: accountId },
+        iat: nowSeconds,
+        exp: expiresAt,
+      },
+      this.secret,
+      { algorithm: 'HS256' },
+    );
+
+    this.pruneExpired(nowSeconds);
+    this.cache.set(key, { token, expiresAt });
+    return token;
+  }
+
+  private pruneExpired(nowSeconds: number) {
+    for (const [key, entry] of this.cache) {
+      if (entry.expiresAt <= nowSeconds) this.cache.delete(key);
+    }
+  }
+}
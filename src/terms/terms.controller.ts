@@ -0,0 +1,17 @@
+import { Controller, Get, Query, Req } from '@nestjs/common';
+import type { Request } from 'express';
+import { TermsService } from './terms.service';
+
+@Controller('terms')
+export class TermsController {
+  constructor(private readonly terms: TermsService) {}
+
+  // GET /terms/current?language=pt-BR
+  // Rota pública: versão em vigor e o texto no idioma pedido.
+  @Get('current')
+  async getCurrent(@Req() req: Request, @Query('language') language?: string) {
+    const hint =
+      language ?? req.headers['accept-language']?.split(',')[0]?.trim();
+    return this.terms.getCurrent(hint);
+  }
+}
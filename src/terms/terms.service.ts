@@ -0,0 +1,235 @@
+// src/terms/terms.service.ts
+import {
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SB_ADMIN } from '../supabase/module';
+import type { ClientContext } from '../common/utils/client-context';
+
+const DEFAULT_TERMS_LANGUAGE = 'en-US';
+const VERSIONS_CACHE_TTL_MS = 60_000;
+
+/**
+ * Linha de `terms_versions` (version, effective_at, mandatory). O texto de
+ * cada idioma fica em `terms_texts` (version, language, title, body).
+ */
+type TermsVersionRow = {
+  version: string;
+  effective_at: string;
+  mandatory: boolean | null;
+};
+
+type TermsTextRow = {
+  language: string;
+  title: string | null;
+  body: string | null;
+};
+
+/**
+ * Linha de `terms_acceptances` (id, profile_id, version, language,
+ * accepted_at, ip, user_agent).
+ */
+type TermsAcceptanceRow = {
+  id: string | number;
+  version: string;
+  language: string | null;
+  accepted_at: string;
+  ip: string | null;
+  user_agent: string | null;
+};
+
+export interface TermsVersion {
+  version: string;
+  effectiveAt: string;
+  mandatory: boolean;
+}
+
+export interface TermsAcceptanceEntry {
+  id: string;
+  version: string;
+  language: string | null;
+  acceptedAt: string;
+  ip: string | null;
+  userAgent: string | null;
+  effectiveAt: string | null;
+}
+
+@Injectable()
+export class TermsService {
+  private readonly logger = new Logger(TermsService.name);
+  private versionsCache: { loadedAt: number; items: TermsVersion[] } | null =
+    null;
+
+  constructor(@Inject(SB_ADMIN) private readonly supabase: SupabaseClient) {}
+
+  /** Versão em vigor (a mais recente já efetiva), com o texto no idioma pedido. */
+  async getCurrent(languageHint?: string | null) {
+    const current = await this.getCurrentVersion();
+    if (!current) {
+      throw new NotFoundException('Nenhuma versão dos termos publicada.');
+    }
+
+    const { data, error } = await this.supabase
+      .from('terms_texts')
+      .select('language, title, body')
+      .eq('version', current.version);
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar texto dos termos: ${error.message}`,
+      );
+
+    const texts = (data ?? []) as TermsTextRow[];
+    const language = String(languageHint ?? '').trim();
+    const text =
+      texts.find((row) => row.language === language) ??
+      texts.find(
+        (row) => row.language.split('-')[0] === language.split('-')[0],
+      ) ??
+      texts.find((row) => row.language === DEFAULT_TERMS_LANGUAGE) ??
+      texts[0];
+
+    return {
+      ...current,
+      language: text?.language ?? null,
+      title: text?.title ?? null,
+      body: text?.body ?? null,
+      availableLanguages: texts.map((row) => row.language),
+    };
+  }
+
+  async getCurrentVersion(): Promise<TermsVersion | null> {
+    const now = Date.now();
+    const effective = (await this.listVersions()).filter(
+      (item) => Date.parse(item.effectiveAt) <= now,
+    );
+    return effective[0] ?? null;
+  }
+
+  /** Última versão obrigatória já em vigor; é ela que exige novo aceite. */
+  async getCurrentMandatoryVersion(): Promise<TermsVersion | null> {
+    const now = Date.now();
+    return (
+      (await this.listVersions()).find(
+        (item) => item.mandatory && Date.parse(item.effectiveAt) <= now,
+      ) ?? null
+    );
+  }
+
+  /**
+   * Indica se o perfil precisa aceitar os termos de novo. Sem versões
+   * cadastradas, vale o booleano legado de `profile_details`.
+   */
+  async requiresAcceptance(profileId: string, legacyAccepted: boolean) {
+    const mandatory = await this.getCurrentMandatoryVersion();
+    if (!mandatory) return !legacyAccepted;
+
+    const latest = await this.getLatestAcceptance(profileId);
+    if (!latest) return true;
+    if (latest.version === mandatory.version) return false;
+
+    const accepted = (await this.listVersions()).find(
+      (item) => item.version === latest.version,
+    );
+    if (!accepted) return true;
+    return Date.parse(accepted.effectiveAt) < Date.parse(mandatory.effectiveAt);
+  }
+
+  async recordAcceptance(input: {
+    profileId: string;
+    version: string;
+    language?: string | null;
+    client?: ClientContext;
+  }) {
+    const acceptedAt = new Date().toISOString();
+    const { error } = await this.supabase.from('terms_acceptances').insert({
+      profile_id: input.profileId,
+      version: input.version,
+      language: input.language ?? null,
+      accepted_at: acceptedAt,
+      ip: input.client?.ip ?? null,
+      user_agent: input.client?.userAgent ?? null,
+    });
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao registrar aceite dos termos: ${error.message}`,
+      );
+
+    this.logger.log(
+      `Termos ${input.version} aceitos pelo perfil ${input.profileId}.`,
+    );
+    return { version: input.version, acceptedAt };
+  }
+
+  async getHistory(profileId: string): Promise<TermsAcceptanceEntry[]> {
+    const { data, error } = await this.supabase
+      .from('terms_acceptances')
+      .select('id, version, language, accepted_at, ip, user_agent')
+      .eq('profile_id', profileId)
+      .order('accepted_at', { ascending: false });
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar histórico de aceites: ${error.message}`,
+      );
+
+    const versions = await this.listVersions();
+    return ((data ?? []) as TermsAcceptanceRow[]).map((row) => ({
+      id: String(row.id),
+      version: row.version,
+      language: row.language ?? null,
+      acceptedAt: row.accepted_at,
+      ip: row.ip ?? null,
+      userAgent: row.user_agent ?? null,
+      effectiveAt:
+        versions.find((item) => item.version === row.version)?.effectiveAt ??
+        null,
+    }));
+  }
+
+  private async getLatestAcceptance(profileId: string) {
+    const { data, error } = await this.supabase
+      .from('terms_acceptances')
+      .select('version, accepted_at')
+      .eq('profile_id', profileId)
+      .order('accepted_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar aceite dos termos: ${error.message}`,
+      );
+    return (
+      (data as Pick<TermsAcceptanceRow, 'version' | 'accepted_at'>) ?? null
+    );
+  }
+
+  // Versões mudam raramente; o cache evita uma consulta por login
+  private async listVersions(): Promise<TermsVersion[]> {
+    if (
+      this.versionsCache &&
+      Date.now() - this.versionsCache.loadedAt < VERSIONS_CACHE_TTL_MS
+    ) {
+      return this.versionsCache.items;
+    }
+
+    const { data, error } = await this.supabase
+      .from('terms_versions')
+      .select('version, effective_at, mandatory')
+      .order('effective_at', { ascending: false });
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar versões dos termos: ${error.message}`,
+      );
+
+    const items = ((data ?? []) as TermsVersionRow[]).map((row) => ({
+      version: row.version,
+      effectiveAt: row.effective_at,
+      mandatory: Boolean(row.mandatory),
+    }));
+    this.versionsCache = { loadedAt: Date.now(), items };
+    return items;
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  DEFAULT_TIME_SOURCES,
+  estimateOffset,
+  median,
+  parseTimeSources,
+  smoothOffset,
+} from './time-sources';
+
+describe('time-sources', () => {
+  it('falls back to the default sources', () => {
+    expect(parseTimeSources(undefined).map((s) => s.url)).toEqual(
+      DEFAULT_TIME_SOURCES,
+    );
+    expect(
+      parseTimeSources(' https://a.example , ,https://b.example').map(
+        (s) => s.url,
+      ),
+    ).toEqual(['https://a.example', 'https://b.example']);
+  });
+
+  it('estimates the offset at the round-trip midpoint', () => {
+    // servidor 2s à frente; header truncado no segundo
+    expect(
+      estimateOffset({ remoteMs: 12_000, sentAt: 10_000, receivedAt: 10_200 }),
+    ).toBe(2_400);
+  });
+
+  it('smooths samples and takes the median of a round', () => {
+    expect(smoothOffset(null, 800, 0.3)).toBe(800);
+    expect(smoothOffset(1_000, 2_000, 0.3)).toBeCloseTo(1_300);
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+});
@@ -0,0 +1,99 @@
+// src/trusted-time/time-sources.ts
+
+export interface TimeSource {
+  url: string;
+  timeoutMs: number;
+}
+
+export interface TimeSample {
+  source: string;
+  /** Horário remoto menos o relógio local, em ms. */
+  offsetMs: number;
+  roundTripMs: number;
+}
+
+export const DEFAULT_TIME_SOURCES = [
+  'https://www.google.com',
+  'https://www.cloudflare.com',
+];
+
+const DEFAULT_TIMEOUT_MS = 2000;
+// O header Date tem resolução de 1s; o meio do segundo reduz o viés
+const DATE_HEADER_RESOLUTION_MS = 1000;
+
+export function parseTimeSources(
+  raw: string | undefined,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+): TimeSource[] {
+  const urls = (raw ?? '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+  return (urls.length > 0 ? urls : DEFAULT_TIME_SOURCES).map((url) => ({
+    url,
+    timeoutMs,
+  }));
+}
+
+/**
+ * Estima o offset assumindo que o servidor respondeu no meio da ida e volta.
+ */
+export function estimateOffset(input: {
+  remoteMs: number;
+  sentAt: number;
+  receivedAt: number;
+}): number {
+  const midpoint = (input.sentAt + input.receivedAt) / 2;
+  return input.remoteMs + DATE_HEADER_RESOLUTION_MS / 2 - midpoint;
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+/** Média móvel exponencial; a primeira amostra é usada como está. */
+export function smoothOffset(
+  previous: number | null,
+  sample: number,
+  alpha: number,
+): number {
+  if (previous === null) return sample;
+  return previous + alpha * (sample - previous);
+}
+
+export async function sampleTimeSource(
+  source: TimeSource,
+): Promise<TimeSample> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), source.timeoutMs);
+
+  try {
+    const sentAt = Date.now();
+    const response = await fetch(source.url, {
+      method: 'HEAD',
+      signal: controller.signal,
+    });
+    const receivedAt = Date.now();
+
+    const header = response.headers.get('date');
+    if (!header) {
+      throw new Error('Fonte não retornou header Date.');
+    }
+    const remoteMs = Date.parse(header);
+    if (Number.isNaN(remoteMs)) {
+      throw new Error(`Timestamp inválido recebido: ${header}`);
+    }
+
+    return {
+      source: source.url,
+      offsetMs: estimateOffset({ remoteMs, sentAt, receivedAt }),
+      roundTripMs: receivedAt - sentAt,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
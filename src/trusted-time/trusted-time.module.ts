@@ -0,0 +1,10 @@
+// src/trusted-time/trusted-time.module.ts
+import { Global, Module } from '@nestjs/common';
+import { TrustedTimeService } from './trusted-time.service';
+
+@Global()
+@Module({
+  providers: [TrustedTimeService],
+  exports: [TrustedTimeService],
+})
+export class TrustedTimeModule {}
@@ -0,0 +1,195 @@
+// src/trusted-time/trusted-time.service.ts
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  TimeSample,
+  TimeSource,
+  median,
+  parseTimeSources,
+  sampleTimeSource,
+  smoothOffset,
+} from './time-sources';
+
+const DEFAULT_SYNC_INTERVAL_MS = 10 * 60 * 1000;
+const DEFAULT_DRIFT_ALERT_MS = 5_000;
+const SMOOTHING_ALPHA = 0.3;
+// Sem sincronizar por este número de intervalos, o offset é tratado como velho
+const STALE_AFTER_INTERVALS = 3;
+
+export type TrustedTimeMode = 'remote' | 'local';
+
+export type TrustedTimeHealth = 'local' | 'pending' | 'synced' | 'stale';
+
+/**
+ * Relógio usado para calcular expirações. Em modo `remote` amostra as
+ * fontes em segundo plano e mantém um offset suavizado em relação ao
+ * relógio local; `now()` e `plusMinutes()` são síncronos e nunca fazem rede.
+ * Em modo `local` (padrão nos testes) usa só o relógio da máquina.
+ */
+@Injectable()
+export class TrustedTimeService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TrustedTimeService.name);
+  private readonly mode: TrustedTimeMode;
+  private readonly sources: TimeSource[];
+  private readonly syncIntervalMs: number;
+  private readonly driftAlertMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private syncing: Promise<void> | null = null;
+  private offsetMs: number | null = null;
+  private lastSyncAt: string | null = null;
+  private lastError: string | null = null;
+  private lastSamples: TimeSample[] = [];
+  private consecutiveFailures = 0;
+  private driftAlerted = false;
+
+  constructor(config: ConfigService) {
+    const mode = config.get<string>('TRUSTED_TIME_MODE')?.trim().toLowerCase();
+    this.mode =
+      mode === 'local' || mode === 'remote'
+        ? mode
+        : process.env.NODE_ENV === 'test'
+          ? 'local'
+          : 'remote';
+    this.sources = parseTimeSources(config.get<string>('TRUSTED_TIME_SOURCES'));
+
+    const interval = Number(
+      config.get<string>('TRUSTED_TIME_SYNC_INTERVAL_MS'),
+    );
+    this.syncIntervalMs =
+      Number.isFinite(interval) && interval > 0
+        ? interval
+        : DEFAULT_SYNC_INTERVAL_MS;
+    const drift = Number(config.get<string>('TRUSTED_TIME_DRIFT_ALERT_MS'));
+    this.driftAlertMs =
+      Number.isFinite(drift) && drift > 0 ? drift : DEFAULT_DRIFT_ALERT_MS;
+  }
+
+  onModuleInit() {
+    if (this.mode === 'local') return;
+
+    void this.sync();
+    this.timer = setInterval(() => {
+      void this.sync();
+    }, this.syncIntervalMs);
+    this.timer.unref?.();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Diferença aplicada ao relógio local; 0 até a primeira sincronização. */
+  get currentOffsetMs() {
+    return this.offsetMs ?? 0;
+  }
+
+  now(): Date {
+    return new Date(Date.now() + this.currentOffsetMs);
+  }
+
+  nowIso(): string {
+    return this.now().toISOString();
+  }
+
+  plusMinutes(minutes: number): string {
+    return new Date(this.now().getTime() + minutes * 60_000).toISOString();
+  }
+
+  /** Uma rodada de amostragem; chamadas simultâneas compartilham a mesma. */
+  sync(): Promise<void> {
+    if (this.mode === 'local') return Promise.resolve();
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  getStatus() {
+    return {
+      mode: this.mode,
+      health: this.health(),
+      offsetMs: this.offsetMs === null ? null : Math.round(this.offsetMs),
+      driftAlertMs: this.driftAlertMs,
+      driftExceeded: this.driftAlerted,
+      lastSyncAt: this.lastSyncAt,
+      lastError: this.lastError,
+      consecutiveFailures: this.consecutiveFailures,
+      syncIntervalMs: this.syncIntervalMs,
+      samples: this.lastSamples.map((sample) => ({
+        source: sample.source,
+        offsetMs: Math.round(sample.offsetMs),
+        roundTripMs: sample.roundTripMs,
+      })),
+    };
+  }
+
+  private health(): TrustedTimeHealth {
+    if (this.mode === 'local') return 'local';
+    if (!this.lastSyncAt) return 'pending';
+    const age = Date.now() - Date.parse(this.lastSyncAt);
+    return age > this.syncIntervalMs * STALE_AFTER_INTERVALS
+      ? 'stale'
+      : 'synced';
+  }
+
+  private async runSync() {
+    const results = await Promise.allSettled(
+      this.sources.map((source) => sampleTimeSource(source)),
+    );
+
+    const samples: TimeSample[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        samples.push(result.value);
+      } else {
+        this.logger.debug(
+          `Falha na fonte ${this.sources[index].url}: ${String(result.reason)}`,
+        );
+      }
+    });
+
+    if (samples.length === 0) {
+      this.consecutiveFailures++;
+      this.lastError = 'Todas as fontes de horário falharam.';
+      this.logger.warn(
+        `${this.lastError} Mantendo offset de ${Math.round(this.currentOffsetMs)}ms.`,
+      );
+      return;
+    }
+
+    this.lastSamples = samples;
+    this.offsetMs = smoothOffset(
+      this.offsetMs,
+      median(samples.map((sample) => sample.offsetMs)),
+      SMOOTHING_ALPHA,
+    );
+    this.lastSyncAt = new Date().toISOString();
+    this.lastError = null;
+    this.consecutiveFailures = 0;
+    this.checkDrift();
+  }
+
+  // Alerta uma vez ao passar do limite e registra quando o relógio volta
+  private checkDrift() {
+    const drift = Math.abs(this.currentOffsetMs);
+    if (drift > this.driftAlertMs && !this.driftAlerted) {
+      this.driftAlerted = true;
+      this.logger.error(
+        `Relógio local diverge ${Math.round(this.currentOffsetMs)}ms das fontes de horário (limite ${this.driftAlertMs}ms).`,
+      );
+    } else if (drift <= this.driftAlertMs && this.driftAlerted) {
+      this.driftAlerted = false;
+      this.logger.log(
+        `Relógio local voltou ao limite (${Math.round(this.currentOffsetMs)}ms).`,
+      );
+    }
+  }
+}
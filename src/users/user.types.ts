@@ -1,12 +1,35 @@
 // src/users/users.types.ts
+/** Conta persistida em `profiles`. */
 export type User = {
   id: string;
+  provider: string;
+  email: string | null;
+  emailVerified: boolean | null;
+  name: string | null;
+  picture: string | null;
+};
+
+/** Dados normalizados das claims de um id_token verificado. */
+export type ProviderUser = {
   provider: string;
   providerSub: string;
   email: string;
   emailVerified?: boolean;
   name?: string;
   picture?: string;
-  createdAt: string;
-  updatedAt: string;
+};
+
+export type SubscriptionStatus =
+  | 'none'
+  | 'trialing'
+  | 'active'
+  | 'past_due'
+  | 'canceled';
+
+export type Subscription = {
+  plan: string;
+  status: SubscriptionStatus;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+  active: boolean;
 };
@@ -1,40 +1,78 @@
 // src/users/users.service.ts
-import { randomUUID } from 'crypto';
-
 import {
+  BadRequestException,
   Inject,
   Injectable,
   InternalServerErrorException,
 } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { SUPABASE_CLIENT } from '../supabase/module';
-import { User } from './user.types';
+import { SB_ADMIN } from '../supabase/module';
+import {
+  ProviderUser,
+  Subscription,
+  SubscriptionStatus,
+  User,
+} from './user.types';
+import { ExternalProvider } from '../auth/id-token/provider-configs';
+import type { VerifiedIdTokenClaims } from '../auth/id-token/id-token-verifier.service';
+
+/**
+ * Linha de `profiles` com as colunas vindas dos provedores
+ * (picture_url, email_verified).
+ */
+type UserRow = {
+  id: string | number;
+  provider: string | null;
+  email: string | null;
+  email_verified: boolean | null;
+  name: string | null;
+  picture_url: string | null;
+};
+
+/**
+ * Linha de `subscriptions` (profile_id, plan, status, current_period_end,
+ * cancel_at_period_end, updated_at), mantida pela integração de pagamento.
+ */
+type SubscriptionRow = {
+  plan: string | null;
+  status: SubscriptionStatus | null;
+  current_period_end: string | null;
+  cancel_at_period_end: boolean | null;
+};
 
-type ExternalProvider = 'google' | 'apple' | 'microsoft';
+const FREE_SUBSCRIPTION: Subscription = {
+  plan: 'free',
+  status: 'none',
+  currentPeriodEnd: null,
+  cancelAtPeriodEnd: false,
+  active: false,
+};
 
 @Injectable()
 export class UsersService {
-  constructor(
-    @Inject(SUPABASE_CLIENT) private readonly supabase: SupabaseClient,
-  ) {}
-  // “banco” em memória
-  private byKey = new Map<string, User>(); // key = `${provider}:${sub}`
-
-  upsertFromGoogleClaims(claims: any): User {
-    return this.upsertFromClaims('google', claims);
-  }
-
-  upsertFromAppleClaims(claims: any): User {
-    return this.upsertFromClaims('apple', claims);
-  }
+  constructor(@Inject(SB_ADMIN) private readonly supabase: SupabaseClient) {}
 
-  upsertFromMicrosoftClaims(claims: any): User {
-    return this.upsertFromClaims('microsoft', claims);
-  }
+  async getById(id: string): Promise<User | null> {
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .select('id, provider, email, email_verified, name, picture_url')
+      .eq('id', id)
+      .maybeSingle();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar usuário: ${error.message}`,
+      );
+    if (!data) return null;
 
-  getById(id: string): User | undefined {
-    for (const u of this.byKey.values()) if (u.id === id) return u;
-    return undefined;
+    const row = data as UserRow;
+    return {
+      id: String(row.id),
+      provider: row.provider ?? 'local',
+      email: row.email ?? null,
+      emailVerified: row.email_verified ?? null,
+      name: row.name ?? null,
+      picture: row.picture_url ?? null,
+    };
   }
 
   async getByEmail(email: string) {
@@ -47,53 +85,143 @@ export class UsersService {
     return data; // ou adapte ao DTO do seu domínio
   }
 
-  private upsertFromClaims(provider: ExternalProvider, claims: any): User {
+  /**
+   * Perfil dono do telefone em `profile_details`. A busca cruza perfis, por
+   * isso fica aqui com o service_role e não no ProfileDetailsService.
+   */
+  async findIdByPhone(phone: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('profile_details')
+      .select('profileId')
+      .eq('phone', phone)
+      .maybeSingle();
+
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar telefone: ${error.message}`,
+      );
+    return data?.profileId ? String(data.profileId) : null;
+  }
+
+  async ensurePhoneAvailable(phone: string, profileId: string) {
+    const owner = await this.findIdByPhone(phone);
+    if (owner && owner !== profileId) {
+      throw new BadRequestException('Telefone já vinculado a outra conta.');
+    }
+  }
+
+  /**
+   * Grava as claims do login no perfil e na identidade usada. O nome do
+   * provedor só preenche perfis sem nome, para não desfazer edições do
+   * usuário; a verificação do email só vale se for o email da conta.
+   */
+  async saveProviderClaims(profileId: string, user: ProviderUser) {
+    const { error: identityError } = await this.supabase
+      .from('profile_identities')
+      .update({
+        email: user.email,
+        email_verified: user.emailVerified ?? null,
+        picture_url: user.picture ?? null,
+      })
+      .eq('profile_id', profileId)
+      .eq('provider', user.provider)
+      .eq('provider_sub', user.providerSub);
+    if (identityError)
+      throw new InternalServerErrorException(
+        `Falha ao salvar dados do provedor: ${identityError.message}`,
+      );
+
+    const updates = [
+      user.picture &&
+        this.supabase
+          .from('profiles')
+          .update({ picture_url: user.picture })
+          .eq('id', profileId),
+      user.emailVerified !== undefined &&
+        this.supabase
+          .from('profiles')
+          .update({ email_verified: user.emailVerified })
+          .eq('id', profileId)
+          .eq('email', user.email),
+      user.name &&
+        this.supabase
+          .from('profiles')
+          .update({ name: user.name })
+          .eq('id', profileId)
+          .is('name', null),
+    ];
+    for (const update of updates) {
+      if (!update) continue;
+      const { error } = await update;
+      if (error)
+        throw new InternalServerErrorException(
+          `Falha ao atualizar perfil: ${error.message}`,
+        );
+    }
+  }
+
+  /** Perfis sem linha em `subscriptions` estão no plano gratuito. */
+  async getSubscription(profileId: string): Promise<Subscription> {
+    const { data, error } = await this.supabase
+      .from('subscriptions')
+      .select('plan, status, current_period_end, cancel_at_period_end')
+      .eq('profile_id', profileId)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error)
+      throw new InternalServerErrorException(
+        `Falha ao consultar assinatura: ${error.message}`,
+      );
+    if (!data) return FREE_SUBSCRIPTION;
+
+    const row = data as SubscriptionRow;
+    const status = row.status ?? 'none';
+    const periodEnd = row.current_period_end ?? null;
+    const inPeriod = !periodEnd || new Date(periodEnd).getTime() > Date.now();
+    return {
+      plan: row.plan ?? FREE_SUBSCRIPTION.plan,
+      status,
+      currentPeriodEnd: periodEnd,
+      cancelAtPeriodEnd: Boolean(row.cancel_at_period_end),
+      active: (status === 'active' || status === 'trialing') && inPeriod,
+    };
+  }
+
+  fromProviderClaims(
+    provider: ExternalProvider,
+    claims: VerifiedIdTokenClaims,
+  ): ProviderUser {
     const sub = String(claims?.sub ?? '');
-    const email = String(claims?.email ?? '');
+    const email = String(claims?.email ?? '')
+      .trim()
+      .toLowerCase();
     const name =
-      typeof claims?.name === 'string' ? String(claims.name) : undefined;
+      typeof claims?.name === 'string' && claims.name.trim()
+        ? String(claims.name).trim()
+        : undefined;
     const picture =
       typeof claims?.picture === 'string' ? String(claims.picture) : undefined;
+    // A Apple envia email_verified como string ("true"/"false")
+    const verifiedClaim = claims?.email_verified;
     const emailVerified =
-      typeof claims?.email_verified === 'boolean'
-        ? claims.email_verified
-        : claims?.email_verified == null
-          ? undefined
-          : Boolean(claims.email_verified);
+      typeof verifiedClaim === 'boolean'
+        ? verifiedClaim
+        : typeof verifiedClaim === 'string'
+          ? verifiedClaim.toLowerCase() === 'true'
+          : undefined;
 
     if (!sub || !email) {
       throw new Error('Claims insuficientes (sub/email ausentes).');
     }
 
-    const key = `${provider}:${sub}`;
-    const now = new Date().toISOString();
-
-    const existing = this.byKey.get(key);
-    if (existing) {
-      const updated: User = {
-        ...existing,
-        email,
-        emailVerified,
-        name: name ?? existing.name,
-        picture: picture ?? existing.picture,
-        updatedAt: now,
-      };
-      this.byKey.set(key, updated);
-      return updated;
-    }
-
-    const user: User = {
-      id: randomUUID(),
+    return {
       provider,
       providerSub: sub,
       email,
       emailVerified,
       name,
       picture,
-      createdAt: now,
-      updatedAt: now,
     };
-    this.byKey.set(key, user);
-    return user;
   }
 }
@@ -0,0 +1,84 @@
+-- RLS das tabelas por perfil. A API acessa estas tabelas com a chave anon e
+-- um JWT curto do perfil (SupabaseUserTokenService): `auth.uid()` é a claim
+-- `sub`, o perfil ativo. O service_role ignora as políticas e continua
+-- restrito aos módulos de SB_ADMIN_ALLOWED (eslint.config.mjs).
+
+-- Dados de escuta: cada perfil lê e altera só as próprias linhas
+
+alter table public.favorites enable row level security;
+
+create policy favorites_own on public.favorites
+  for all to authenticated
+  using ("profileId" = auth.uid())
+  with check ("profileId" = auth.uid());
+
+alter table public.listening_progress enable row level security;
+
+create policy listening_progress_own on public.listening_progress
+  for all to authenticated
+  using ("profileId" = auth.uid())
+  with check ("profileId" = auth.uid());
+
+alter table public.finished enable row level security;
+
+create policy finished_own on public.finished
+  for all to authenticated
+  using ("profileId" = auth.uid())
+  with check ("profileId" = auth.uid());
+
+alter table public.reviews enable row level security;
+
+create policy reviews_own on public.reviews
+  for all to authenticated
+  using ("profileId" = auth.uid())
+  with check ("profileId" = auth.uid());
+
+-- Perfil público e preferências
+
+alter table public.profile_details enable row level security;
+
+create policy profile_details_own on public.profile_details
+  for all to authenticated
+  using ("profileId" = auth.uid())
+  with check ("profileId" = auth.uid());
+
+alter table public.profile_genres enable row level security;
+
+create policy profile_genres_own on public.profile_genres
+  for all to authenticated
+  using (profile_id = auth.uid())
+  with check (profile_id = auth.uid());
+
+-- Em `profiles` o perfil só altera os campos públicos; email, provider e
+-- verificações seguem exclusivos do service_role
+alter table public.profiles enable row level security;
+
+create policy profiles_select_own on public.profiles
+  for select to authenticated
+  using (id = auth.uid());
+
+create policy profiles_update_own on public.profiles
+  for update to authenticated
+  using (id = auth.uid())
+  with check (id = auth.uid());
+
+revoke insert, update, delete on public.profiles from authenticated;
+grant update (name, bio, avatar_path) on public.profiles to authenticated;
+
+-- Identidades e eventos de segurança: só leitura pelo próprio perfil
+
+alter table public.profile_identities enable row level security;
+
+create policy profile_identities_select_own on public.profile_identities
+  for select to authenticated
+  using (profile_id = auth.uid());
+
+revoke insert, update, delete on public.profile_identities from authenticated;
+
+alter table public.security_events enable row level security;
+
+create policy security_events_select_own on public.security_events
+  for select to authenticated
+  using (profile_id = auth.uid());
+
+revoke insert, update, delete on public.security_events from authenticated;
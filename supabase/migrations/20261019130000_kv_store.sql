@@ -0,0 +1,55 @@
+-- Backend do KeyValueStore quando KV_STORE_BACKEND=supabase (SupabaseKeyValueStore).
+-- Só o service_role acessa: códigos, contadores e pedidos pendentes ficam
+-- aqui.
+
+create table if not exists public.kv_store (
+  key text primary key,
+  value jsonb not null,
+  expires_at timestamptz null
+);
+
+-- Limpeza periódica das chaves vencidas
+create index if not exists kv_store_expires_at_idx
+  on public.kv_store (expires_at)
+  where expires_at is not null;
+
+alter table public.kv_store enable row level security;
+revoke all on public.kv_store from anon, authenticated;
+
+-- Incremento atômico. O TTL só vale quando a chave é criada (ou recriada
+-- depois de vencer), então a janela não é renovada a cada incremento.
+create or replace function public.kv_increment(p_key text, p_ttl_ms bigint)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expires_at timestamptz :=
+    case
+      when p_ttl_ms is not null and p_ttl_ms > 0
+        then now() + p_ttl_ms * interval '1 millisecond'
+      else null
+    end;
+  v_value bigint;
+begin
+  insert into kv_store as kv (key, value, expires_at)
+  values (p_key, to_jsonb(1), v_expires_at)
+  on conflict (key) do update
+    set value = case
+          when kv.expires_at is not null and kv.expires_at <= now()
+            then to_jsonb(1)
+          else to_jsonb((kv.value #>> '{}')::bigint + 1)
+        end,
+        expires_at = case
+          when kv.expires_at is not null and kv.expires_at <= now()
+            then excluded.expires_at
+          else kv.expires_at
+        end
+  returning (value #>> '{}')::bigint into v_value;
+  return v_value;
+end;
+$$;
+
+revoke execute on function public.kv_increment(text, bigint)
+  from public, anon, authenticated;
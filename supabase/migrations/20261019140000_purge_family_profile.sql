@@ -0,0 +1,54 @@
+-- Remoção de um perfil da família numa única transação
+-- (FamilyProfilesService.purgeMember). Devolve o `avatar_path` removido
+-- para que a API apague o arquivo depois do commit.
+
+create or replace function public.purge_family_profile(
+  p_owner_id uuid,
+  p_profile_id uuid
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_avatar_path text;
+begin
+  if p_profile_id = p_owner_id then
+    raise exception 'O perfil do titular só sai com a exclusão da conta.';
+  end if;
+
+  -- Trava a linha para que duas remoções simultâneas não se cruzem
+  perform 1
+    from family_profiles
+   where profile_id = p_profile_id
+     and owner_id = p_owner_id
+     for update;
+  if not found then
+    raise exception 'Perfil % não pertence à conta %.', p_profile_id, p_owner_id;
+  end if;
+
+  -- Sessões no perfil removido voltam para o titular
+  update tokens
+     set active_profile_id = null
+   where user_id = p_owner_id
+     and active_profile_id = p_profile_id;
+
+  delete from favorites where "profileId" = p_profile_id;
+  delete from listening_progress where "profileId" = p_profile_id;
+  delete from finished where "profileId" = p_profile_id;
+  delete from reviews where "profileId" = p_profile_id;
+  delete from profile_genres where profile_id = p_profile_id;
+  delete from family_profiles where profile_id = p_profile_id;
+
+  delete from profiles
+   where id = p_profile_id
+     and provider = 'family'
+  returning avatar_path into v_avatar_path;
+
+  return v_avatar_path;
+end;
+$$;
+
+revoke execute on function public.purge_family_profile(uuid, uuid)
+  from public, anon, authenticated;
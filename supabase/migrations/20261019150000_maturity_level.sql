@@ -0,0 +1,18 @@
+-- Classificação indicativa dos perfis da família e dos títulos. Um perfil
+-- `kids` só vê títulos `kids`; `teen` vê `kids` e `teen`; `adult` vê tudo.
+-- Títulos ainda sem classificação contam como `adult` e ficam fora dos
+-- perfis restritos até serem classificados.
+
+alter table public.family_profiles
+  add column if not exists maturity_level text not null default 'adult'
+  constraint family_profiles_maturity_level_check
+    check (maturity_level in ('kids', 'teen', 'adult'));
+
+alter table public.books
+  add column if not exists maturity_level text not null default 'adult'
+  constraint books_maturity_level_check
+    check (maturity_level in ('kids', 'teen', 'adult'));
+
+-- Listagens dos perfis restritos filtram por esta coluna
+create index if not exists books_maturity_level_idx
+  on public.books (maturity_level);